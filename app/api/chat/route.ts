@@ -1,10 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { writeFile, unlink } from 'fs/promises'
-import { join } from 'path'
-import { tmpdir } from 'os'
-import * as XLSX from 'xlsx'
-import { parse } from 'csv-parse/sync'
-import { readFileSync } from 'fs'
+import { tableToRows } from '@/lib/data/columnar'
+import { ingestUpload } from '@/lib/data/ingestion/ingest'
+import { UploadError } from '@/lib/data/ingestion/upload'
 import { setSessionData, getSessionData, hasSession } from '@/lib/data/inMemoryStore'
 import { executeInMemoryQuery } from '@/lib/data/queryEngine'
 import { nlToSqlForChat } from '@/lib/llm/nlToSql'
@@ -25,94 +22,24 @@ function getSessionId(request: NextRequest): string {
   return uuidv4()
 }
 
-// Parse CSV/Excel file
-async function parseFile(file: File): Promise<{ data: any[]; headers: string[]; columns: Array<{ name: string; type: string }> }> {
-  const bytes = await file.arrayBuffer()
-  const buffer = Buffer.from(bytes)
-  const tempPath = join(tmpdir(), `chat_upload_${Date.now()}_${file.name}`)
-
-  try {
-    await writeFile(tempPath, buffer)
-    const fileExtension = file.name.toLowerCase().split('.').pop()
-
-    let rows: any[] = []
-    let headers: string[] = []
-
-    if (fileExtension === 'csv') {
-      const csvContent = readFileSync(tempPath, 'utf-8')
-      const records = parse(csvContent, {
-        columns: true,
-        skip_empty_lines: true,
-        trim: true,
-      }) as Record<string, any>[]
-      rows = records
-      headers = records.length > 0 ? Object.keys(records[0] as Record<string, any>) : []
-    } else if (fileExtension === 'xlsx' || fileExtension === 'xls') {
-      const workbook = XLSX.read(buffer, { type: 'buffer' })
-      const sheetName = workbook.SheetNames[0]
-      const worksheet = workbook.Sheets[sheetName]
-      const jsonData = XLSX.utils.sheet_to_json(worksheet, { raw: false })
-      rows = jsonData
-      headers = rows.length > 0 ? Object.keys(rows[0]) : []
-    } else {
-      throw new Error('Unsupported file type')
-    }
-
-    // Infer column types
-    const columns = headers.map(header => {
-      const values = rows.map(row => row[header]).filter(v => v != null && v !== '')
-      let type = 'text'
-      
-      if (values.length > 0) {
-        const firstValue = values[0]
-        if (typeof firstValue === 'number' || !isNaN(Number(firstValue))) {
-          type = Number.isInteger(Number(firstValue)) ? 'integer' : 'decimal'
-        } else if (firstValue instanceof Date || /^\d{4}-\d{2}-\d{2}/.test(String(firstValue))) {
-          type = 'timestamp'
-        } else if (typeof firstValue === 'boolean' || /^(true|false|yes|no)$/i.test(String(firstValue))) {
-          type = 'boolean'
-        }
-      }
-
-      return { name: header, type }
-    })
-
-    return { data: rows, headers, columns }
-  } finally {
-    try {
-      await unlink(tempPath)
-    } catch (error) {
-      // Failed to delete temp file, continue anyway
-    }
-  }
-}
-
 // POST handler for chat queries
 export async function POST(request: NextRequest) {
   try {
     const sessionId = getSessionId(request)
-    const formData = await request.formData()
-    const file = formData.get('file') as File | null
-    const query = formData.get('query') as string | null
+    const { fields, files } = await ingestUpload(request)
+    const query = fields.query || null
 
-    // Handle file upload
+    // Handle file upload. A session holds one table, so a workbook (or database) contributes its
+    // first non-empty sheet (or table) and the reply says which.
+    const [file, ...otherSheets] = files
     if (file) {
-      const { data, headers, columns } = await parseFile(file)
-      
-      if (data.length === 0) {
-        return NextResponse.json({
-          error: 'File is empty or has no data rows',
-          why: 'The uploaded file contains no data that can be analyzed.',
-        })
-      }
-
-      // Generate table name from filename
-      const tableName = file.name.replace(/\.(csv|xlsx|xls)$/i, '').replace(/[^a-z0-9_]/gi, '_').toLowerCase()
+      const { tableName, columns } = file
+      const data = tableToRows(file.storage)
 
       // Store in session
       setSessionData(sessionId, {
         sessionId,
-        fileName: file.name,
+        fileName: file.fileName,
         tableName,
         columns,
         data,
@@ -121,7 +48,10 @@ export async function POST(request: NextRequest) {
 
       return NextResponse.json({
         success: true,
-        message: `File "${file.name}" uploaded successfully. ${data.length} rows loaded.`,
+        message: `File "${file.fileName}" uploaded successfully. ${data.length} rows loaded.` +
+          (otherSheets.length > 0
+            ? ` Only ${file.format === 'sqlite' ? 'table' : 'sheet'} "${file.sheet}" was loaded; attach the file to a chat to query ${otherSheets.map(other => `"${other.sheet}"`).join(', ')} too.`
+            : ''),
         columns: columns.map(c => ({ name: c.name, type: c.type })),
         rowCount: data.length,
         sessionId,
@@ -350,6 +280,12 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json(response)
   } catch (error: any) {
+    if (error instanceof UploadError) {
+      return NextResponse.json({
+        error: error.message,
+        why: 'The uploaded file could not be accepted.',
+      }, { status: error.status })
+    }
     return NextResponse.json({
       error: 'An error occurred',
       why: error.message || 'Failed to process your request.',
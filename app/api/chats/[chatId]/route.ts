@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getChat, createChat } from '@/lib/data/chatStore'
+import { getOrCreateChat } from '@/lib/data/chatStore'
 
 /**
  * GET /api/chats/[chatId] - Get chat details and messages
@@ -20,45 +20,21 @@ export async function GET(
       )
     }
     
-    let chat = getChat(chatId)
-
     // If chat doesn't exist, create a new one with the requested chatId (never return 404)
-    if (!chat) {
-      // Create new chat - if chatId is in valid format, try to use it, otherwise generate new
-      const newChatId = createChat(chatId.startsWith('chat_') ? chatId : undefined)
-      chat = getChat(newChatId)
-    }
-
-    // Final fallback: ensure we always have a chat
-    if (!chat) {
-      const fallbackId = createChat()
-      chat = getChat(fallbackId)
-    }
-
-    // TypeScript guard: chat should never be null at this point, but add check for safety
-    if (!chat) {
-      // This should never happen, but handle it gracefully
-      const emergencyId = createChat()
-      const emergencyChat = getChat(emergencyId)
-      if (!emergencyChat) {
-        return NextResponse.json(
-          { error: 'Failed to create chat' },
-          { status: 500 }
-        )
-      }
-      chat = emergencyChat
-    }
+    const chat = await getOrCreateChat(chatId)
 
     return NextResponse.json({
       chat: {
         chatId: chat.chatId,
         title: chat.title,
+        workspace: chat.workspace,
+        pinned: chat.pinned,
         createdAt: chat.createdAt,
         updatedAt: chat.updatedAt,
         attachedFiles: chat.attachedFiles.map(f => ({
           id: f.id,
           fileName: f.fileName,
-          rowCount: f.data.length,
+          rowCount: f.rowCount,
           tableName: f.tableName,
         })),
         messages: chat.messages.map(msg => ({
@@ -71,25 +47,6 @@ export async function GET(
       },
     })
   } catch (error: any) {
-    // Even on error, create a new chat and return it (never return 500/404)
-    try {
-      const fallbackId = createChat()
-      const fallbackChat = getChat(fallbackId)
-      if (fallbackChat) {
-        return NextResponse.json({
-          chat: {
-            chatId: fallbackChat.chatId,
-            title: fallbackChat.title,
-            createdAt: fallbackChat.createdAt,
-            updatedAt: fallbackChat.updatedAt,
-            attachedFiles: [],
-            messages: [],
-          },
-        })
-      }
-    } catch {
-      // If even fallback fails, return minimal response
-    }
     return NextResponse.json(
       { error: error.message || 'Failed to fetch chat' },
       { status: 500 }
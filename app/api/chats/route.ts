@@ -2,13 +2,16 @@ import { NextRequest, NextResponse } from 'next/server'
 import {
   createChat,
   getChat,
-  getAllChats,
+  getOrCreateChat,
+  INVALID_WORKSPACE,
+  isValidWorkspace,
+  listChats,
+  moveChatToWorkspace,
+  pinChat,
   updateChatTitle,
   deleteChat,
-  getChatFiles,
   addFileToChat,
   removeFileFromChat,
-  getChatMessages,
 } from '@/lib/data/chatStore'
 import { getFilesByIds } from '@/lib/data/fileRegistry'
 
@@ -17,27 +20,17 @@ import { getFilesByIds } from '@/lib/data/fileRegistry'
  */
 export async function GET(request: NextRequest) {
   try {
-    const chats = getAllChats()
+    const chats = await listChats()
     return NextResponse.json({
-      chats: (chats || []).map(chat => {
-        // Safely convert updatedAt to ISO string
-        let updatedAt: string
-        if (chat.updatedAt instanceof Date) {
-          updatedAt = chat.updatedAt.toISOString()
-        } else if (chat.updatedAt) {
-          updatedAt = new Date(chat.updatedAt).toISOString()
-        } else {
-          updatedAt = new Date().toISOString()
-        }
-        
-        return {
-          chatId: chat.chatId,
-          title: chat.title || 'New Chat',
-          updatedAt,
-          messageCount: chat.messages?.length || 0,
-          fileCount: chat.attachedFiles?.length || 0,
-        }
-      }),
+      chats: chats.map(chat => ({
+        chatId: chat.chatId,
+        title: chat.title || 'New Chat',
+        workspace: chat.workspace,
+        pinned: chat.pinned,
+        updatedAt: chat.updatedAt.toISOString(),
+        messageCount: chat.messageCount,
+        fileCount: chat.fileIds.length,
+      })),
     })
   } catch (error: unknown) {
     const errorMessage = error instanceof Error ? error.message : 'Failed to fetch chats'
@@ -50,11 +43,18 @@ export async function GET(request: NextRequest) {
 }
 
 /**
- * POST /api/chats - Create a new chat
+ * POST /api/chats - Create a new chat, optionally in a workspace ({ workspace })
  */
 export async function POST(request: NextRequest) {
   try {
-    const chatId = createChat()
+    const { workspace } = await request.json().catch(() => ({}))
+    if (workspace !== undefined && (typeof workspace !== 'string' || !isValidWorkspace(workspace))) {
+      return NextResponse.json(
+        { error: INVALID_WORKSPACE },
+        { status: 400 }
+      )
+    }
+    const chatId = await createChat(undefined, workspace)
     return NextResponse.json({ chatId })
   } catch (error: unknown) {
     const errorMessage = error instanceof Error ? error.message : 'Failed to create chat'
@@ -66,13 +66,13 @@ export async function POST(request: NextRequest) {
 }
 
 /**
- * PUT /api/chats - Update chat (title, files, etc.)
+ * PUT /api/chats - Update chat (title, files, pinned, workspace)
  * If chat doesn't exist, creates it (never returns 404)
  */
 export async function PUT(request: NextRequest) {
   try {
     const body = await request.json()
-    const { chatId, title, fileIds, action } = body
+    const { chatId, title, fileIds, action, pinned, workspace } = body
 
     if (!chatId) {
       return NextResponse.json(
@@ -80,63 +80,45 @@ export async function PUT(request: NextRequest) {
         { status: 400 }
       )
     }
-
-    // Get or create chat (never return 404)
-    let chat = getChat(chatId)
-    let actualChatId = chatId
-    
-    if (!chat) {
-      // Create chat if it doesn't exist
-      actualChatId = createChat(chatId.startsWith('chat_') ? chatId : undefined)
-      chat = getChat(actualChatId)
-      // If still null, create with generated ID
-      if (!chat) {
-        actualChatId = createChat()
-        chat = getChat(actualChatId)
-      }
+    if (pinned !== undefined && typeof pinned !== 'boolean') {
+      return NextResponse.json(
+        { error: 'pinned must be true or false' },
+        { status: 400 }
+      )
     }
-    
-    // Ensure we have a valid chat
-    if (!chat) {
+    if (workspace !== undefined && (typeof workspace !== 'string' || !isValidWorkspace(workspace))) {
       return NextResponse.json(
-        { error: 'Failed to create or retrieve chat' },
-        { status: 500 }
+        { error: INVALID_WORKSPACE },
+        { status: 400 }
       )
     }
 
-    // Use the actual chat ID (may differ from requested if chat was created)
+    // Get or create chat (never return 404); the ID may differ from the requested one if the
+    // chat was created
+    const { chatId: actualChatId } = await getOrCreateChat(chatId)
+
     if (title) {
-      updateChatTitle(actualChatId, title)
+      await updateChatTitle(actualChatId, title)
+    }
+
+    // Pinned chats are kept until unpinned; the workspace decides how long other chats are kept
+    if (pinned !== undefined) {
+      await pinChat(actualChatId, pinned)
+    }
+    if (workspace !== undefined) {
+      await moveChatToWorkspace(actualChatId, workspace)
     }
 
     if (action === 'addFile' && fileIds && Array.isArray(fileIds)) {
-      const files = getFilesByIds(fileIds)
-      
-      // CRITICAL: Always add files to chatStore, even if fileRegistry is empty
-      // This ensures files persist across serverless resets
-      if (files.length > 0) {
-        for (const file of files) {
-          addFileToChat(actualChatId, file)
-        }
-      } else if (fileIds.length > 0) {
-        // FileRegistry is empty - this is a serverless reset scenario
-        // The file should be in chatStore from a previous request if it was added before
-        // Check if chat already has these files
-        const chat = getChat(actualChatId)
-        if (chat) {
-          const existingFileIds = chat.attachedFiles.map(f => f.id)
-          const missingFileIds = fileIds.filter(id => !existingFileIds.includes(id))
-          if (missingFileIds.length > 0) {
-            // Files were uploaded but lost - user will need to re-upload
-          }
-        }
+      // Files that are no longer in the registry can't be attached
+      for (const file of getFilesByIds(fileIds)) {
+        await addFileToChat(actualChatId, file)
       }
     }
 
     if (action === 'removeFile' && fileIds && Array.isArray(fileIds)) {
-      // Remove files from chat (works even if fileRegistry is empty)
       for (const fileId of fileIds) {
-        removeFileFromChat(actualChatId, fileId)
+        await removeFileFromChat(actualChatId, fileId)
       }
       
       // Also remove from fileRegistry if it exists there
@@ -150,16 +132,18 @@ export async function PUT(request: NextRequest) {
       }
     }
 
-    const updatedChat = getChat(actualChatId)
+    const updatedChat = await getChat(actualChatId)
     return NextResponse.json({
       chat: {
         chatId: updatedChat!.chatId,
         title: updatedChat!.title,
+        workspace: updatedChat!.workspace,
+        pinned: updatedChat!.pinned,
         updatedAt: updatedChat!.updatedAt,
         attachedFiles: updatedChat!.attachedFiles.map(f => ({
           id: f.id,
           fileName: f.fileName,
-          rowCount: f.data.length,
+          rowCount: f.rowCount,
           tableName: f.tableName,
         })),
       },
@@ -188,7 +172,7 @@ export async function DELETE(request: NextRequest) {
       )
     }
 
-    deleteChat(chatId)
+    await deleteChat(chatId)
     return NextResponse.json({ success: true })
   } catch (error: unknown) {
     const errorMessage = error instanceof Error ? error.message : 'Failed to delete chat'
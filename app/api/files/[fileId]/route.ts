@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getFileById } from '@/lib/data/fileRegistry'
+import { getDatasetVersions, getFileById, readFileRows } from '@/lib/data/fileRegistry'
 
 export async function GET(
   request: NextRequest,
@@ -26,9 +26,7 @@ export async function GET(
     }
 
     // Limit data to first 1000 rows for performance in the modal
-    const limitedData = file.data && file.data.length > 1000 
-      ? file.data.slice(0, 1000)
-      : (file.data || [])
+    const limitedData = readFileRows(file, 1000)
 
     return NextResponse.json({
       id: file.id,
@@ -36,11 +34,15 @@ export async function GET(
       tableName: file.tableName,
       columns: file.columns || [],
       data: limitedData,
-      rowCount: file.data?.length || 0,
+      rowCount: file.rowCount || 0,
       displayedRowCount: limitedData.length,
       uploadedAt: file.uploadedAt instanceof Date 
         ? file.uploadedAt.toISOString() 
         : file.uploadedAt,
+      // Every version of the table, so a past one can be picked for queries
+      datasetId: file.datasetId ?? file.id,
+      version: file.version ?? 1,
+      versions: getDatasetVersions(file.datasetId ?? file.id),
     })
   } catch (error: any) {
     return NextResponse.json(
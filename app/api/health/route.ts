@@ -16,11 +16,11 @@ export async function GET() {
     // Database connection failed
   }
 
-  // Check LLM (OpenAI API key exists OR LM Studio is configured)
-  llm = !!(process.env.OPENAI_API_KEY || process.env.OPENAI_BASE_URL)
+  // Check LLM (OpenAI API key exists OR LM Studio is configured; the mock model needs neither)
+  llm = process.env.LLM_PROVIDER === 'mock' || !!(process.env.OPENAI_API_KEY || process.env.OPENAI_BASE_URL)
   
   // If using LM Studio, verify server is accessible
-  if (process.env.OPENAI_BASE_URL && !process.env.OPENAI_API_KEY?.startsWith('sk-')) {
+  if (process.env.LLM_PROVIDER !== 'mock' && process.env.OPENAI_BASE_URL && !process.env.OPENAI_API_KEY?.startsWith('sk-')) {
     try {
       const baseUrl = process.env.OPENAI_BASE_URL.replace('/v1', '')
       const response = await fetch(`${baseUrl}/v1/models`, { 
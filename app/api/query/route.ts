@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { QueryRequestSchema, QueryResponseSchema, type QueryResponse } from '@/types'
+import { createHash } from 'crypto'
+import { QueryRequestSchema, QueryResponseSchema, type QueryAttempt, type QueryResponse, type QueryStreamEvent } from '@/types'
 import { nlToSql } from '@/lib/llm/nlToSql'
 import { validateSql } from '@/lib/sql/validator'
 import { sanitizeSql } from '@/lib/sql/sqlUtils'
@@ -8,18 +9,83 @@ import { getCached, setCached, refreshCacheIfStale } from '@/lib/ml/cache'
 import { logEvaluation } from '@/lib/ml/eval'
 import { getMetricByName } from '@/lib/ml/metrics'
 import { getDefaultChartSpec } from '@/lib/chart/mapper'
-import { getFilesByIds, type FileMetadata } from '@/lib/data/fileRegistry'
-import { executeMultiFileQuery } from '@/lib/data/multiFileQueryEngine'
+import { getFilesByIds, oneVersionPerDataset, type FileMetadata } from '@/lib/data/fileRegistry'
+import { executeMultiFileQuery, type MultiFileQueryResult } from '@/lib/data/multiFileQueryEngine'
 import { buildPromptFromFiles } from '@/lib/llm/promptFromFiles'
-import { getChat, getChatFiles } from '@/lib/data/chatStore'
-import OpenAI from 'openai'
+import { buildConversationContext } from '@/lib/llm/conversation'
+import { addMessageToChat, getOrCreateChat } from '@/lib/data/chatStore'
+import { completeChat, LLMError } from '@/lib/llm/provider'
+import { getMaxQueryAttempts, repairSql, type SqlRepair } from '@/lib/llm/sqlRepair'
 import { repairJson } from '@/lib/llm/jsonRepair'
 import type { LLMResponse } from '@/types'
 import { validateSqlAgainstSchema } from '@/lib/sql/schemaValidator'
 import { generateChartFromResult } from '@/lib/chart/resultBasedChart'
 import { validateQuery, isOutOfScopeQuery } from '@/lib/utils/queryValidator'
 
+/**
+ * Answer a question about the chat's files. With `Accept: text/event-stream` the answer streams
+ * as Server-Sent Events (QueryStreamEvent): each stage as it finishes and the model's reply as it
+ * is generated, then the response itself. Closing the stream cancels the query.
+ */
 export async function POST(request: NextRequest) {
+  if (!request.headers.get('accept')?.includes('text/event-stream')) {
+    return runQuery(request, () => {})
+  }
+
+  const cancel = new AbortController()
+  const encoder = new TextEncoder()
+  const stream = new ReadableStream<Uint8Array>({
+    async start(output) {
+      const send = (event: QueryStreamEvent) => {
+        if (!cancel.signal.aborted) {
+          output.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`))
+        }
+      }
+      try {
+        const response = await runQuery(request, send, cancel.signal)
+        send({ type: 'result', status: response.status, response: await response.json() })
+      } catch (error: any) {
+        // runQuery answers its own errors; this is for anything that got past it
+        send({
+          type: 'result',
+          status: 500,
+          response: {
+            data: [],
+            columns: [],
+            reasoning: 'An unexpected server error occurred. Please try again.',
+            preview_sql: null,
+            action_sql: null,
+            sql: '',
+            chartSpec: { type: null, xField: null, yField: null },
+            error: { message: error?.message || 'Internal server error', type: 'unknown' },
+          },
+        })
+      } finally {
+        // A cancelled stream is closed already
+        if (!cancel.signal.aborted) {
+          output.close()
+        }
+      }
+    },
+    cancel() {
+      cancel.abort()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  })
+}
+
+async function runQuery(
+  request: NextRequest,
+  emit: (event: QueryStreamEvent) => void,
+  signal?: AbortSignal
+): Promise<NextResponse> {
   const startTime = Date.now()
   let query = ''
 
@@ -70,138 +136,34 @@ export async function POST(request: NextRequest) {
     const { query: validatedQuery, timeRange, fileIds = [], chatId } = validationResult.data
     query = validatedQuery
 
-    // File resolution: try multiple sources to ensure files are found
-    // 1. Use fileIds from request (frontend sends all chat files)
-    // 2. If empty, get files from chatStore using chatId
-    // 3. If disk storage is empty, recover files from chatStore and re-save to disk
-    let finalFileIds: string[] = []
-    let attachedFiles: FileMetadata[] = []
-
-    // Step 1: Use fileIds from request if provided
-    if (fileIds && fileIds.length > 0) {
-      finalFileIds = [...fileIds]
-    }
-    
-    // Step 2: If no fileIds but chatId exists, get files from chatStore
-    // This is the CRITICAL fallback that ensures files persist across queries
-    if (chatId && finalFileIds.length === 0) {
-      try {
-        let chat = getChat(chatId)
-        
-        // If chat doesn't exist, create it
-        if (!chat) {
-          const { createChat } = await import('@/lib/data/chatStore')
-          const newChatId = createChat(chatId.startsWith('chat_') ? chatId : undefined)
-          chat = getChat(newChatId)
-          
-          if (!chat) {
-            const fallbackId = createChat()
-            chat = getChat(fallbackId)
-          }
-        }
-        
-        if (chat) {
-          const chatFiles = getChatFiles(chat.chatId)
-          const chatFileIds = (chatFiles || []).map((f: FileMetadata) => f?.id).filter(Boolean) as string[]
-          
-          // Use chatStore files as the source of truth
-          finalFileIds = chatFileIds
-        }
-      } catch (chatError: any) {
-        // Failed to get chat files from chatStore, continue with empty fileIds
-      }
-    } else if (chatId && finalFileIds.length > 0) {
-      // Step 3: If we have both fileIds and chatId, merge to ensure completeness
-      try {
-        const chat = getChat(chatId)
-        if (chat) {
-          const chatFiles = getChatFiles(chat.chatId)
-          const chatFileIds = (chatFiles || []).map((f: FileMetadata) => f?.id).filter(Boolean) as string[]
-          
-          // Merge chatStore files with request fileIds (avoid duplicates)
-          for (const fileId of chatFileIds) {
-            if (fileId && !finalFileIds.includes(fileId)) {
-              finalFileIds.push(fileId)
-            }
-          }
-        }
-      } catch (chatError: any) {
-        // Failed to merge chatStore files, continue with existing fileIds
+    // Files: the request's fileIds (the frontend sends all chat files) and the files attached to
+    // the chat, which persist across queries
+    const chat = chatId ? await getOrCreateChat(chatId) : null
+    let finalFileIds: string[] = [...fileIds]
+    for (const file of chat?.attachedFiles ?? []) {
+      if (!finalFileIds.includes(file.id)) {
+        finalFileIds.push(file.id)
       }
     }
     
     // Get file metadata from disk storage
-    attachedFiles = getFilesByIds(finalFileIds)
-    
-    // CRITICAL FIX: If disk storage is empty but we have fileIds, try to get files from chatStore
-    // This handles cases where files were uploaded but not saved to disk (shouldn't happen, but safety net)
-    if (finalFileIds.length > 0 && attachedFiles.length === 0 && chatId) {
-      try {
-        const chat = getChat(chatId)
-        if (chat) {
-          const chatFiles = getChatFiles(chat.chatId)
-          
-          // Filter to only files that match our fileIds
-          const matchingChatFiles = chatFiles.filter(f => finalFileIds.includes(f.id))
-          if (matchingChatFiles.length > 0) {
-            // CRITICAL: Re-register files to disk with their original IDs
-            // This ensures they persist for future queries
-            try {
-              const { reRegisterFile } = await import('@/lib/data/fileRegistry')
-              for (const file of matchingChatFiles) {
-                reRegisterFile(file)
-              }
-              
-              // Now get files from disk
-              attachedFiles = getFilesByIds(finalFileIds)
-            } catch (regError) {
-              // Could not re-save files to disk, use chatStore files directly
-              attachedFiles = matchingChatFiles
-            }
-          }
-        }
-      } catch (error) {
-        // Failed to recover files from chatStore, continue with empty attachedFiles
-      }
-    }
-    
-    const hasFileIds = finalFileIds.length > 0
-    const hasAttachedFiles = attachedFiles.length > 0
-    
-    // If we have fileIds but no attachedFiles, try to recover from chatStore
-    if (hasFileIds && !hasAttachedFiles) {
-      const chat = chatId ? getChat(chatId) : null
-      const chatFiles = chat ? getChatFiles(chat.chatId) : []
-      
-      // Last resort: try to get ANY files from chatStore (even if IDs don't match)
-      // This handles cases where fileIds might be wrong but chat has files
-      if (chatFiles.length > 0) {
-        attachedFiles = chatFiles
-        // Re-register them
-        try {
-          const { reRegisterFile } = await import('@/lib/data/fileRegistry')
-          for (const file of chatFiles) {
-            reRegisterFile(file)
-          }
-        } catch (error) {
-          // Failed to re-register, continue with chatStore files
-        }
-      }
+    let attachedFiles: FileMetadata[] = getFilesByIds(finalFileIds)
+
+    // One version of each table: request fileIds come first, so a past version picked for this
+    // query wins over the chat's current one
+    const versionsInUse = oneVersionPerDataset(attachedFiles)
+    if (versionsInUse.length < attachedFiles.length) {
+      finalFileIds = finalFileIds.filter(id => !attachedFiles.some(f => f.id === id) || versionsInUse.some(f => f.id === id))
+      attachedFiles = versionsInUse
     }
+    emit({
+      type: 'files',
+      files: attachedFiles.map(file => ({ id: file.id, fileName: file.fileName, tableName: file.tableName })),
+    })
 
-    // Only require files if this is the first query and chat has no files
-    // If chat already has files (even if registry is empty), we'll recover them
-    const chat = chatId ? getChat(chatId) : null
+    // Only require files if this is the first query of the chat
     const isFirstQuery = !chat || chat.messages.length === 0
-    const chatHasFiles = chat && chat.attachedFiles.length > 0
-    
-    // Don't require files if:
-    // 1. Chat has files in chatStore (we'll recover them)
-    // 2. We have fileIds from request
-    // 3. It's not the first query (user already queried before)
-    const shouldRequireFiles = isFirstQuery && finalFileIds.length === 0 && !chatHasFiles && !hasAttachedFiles
-    
-    if (shouldRequireFiles) {
+    if (isFirstQuery && attachedFiles.length === 0) {
       return NextResponse.json(
         {
           data: [],
@@ -219,9 +181,6 @@ export async function POST(request: NextRequest) {
         { status: 200 }
       )
     }
-    
-    // If we have fileIds or chat has files, proceed even if attachedFiles is empty
-    // Files will be recovered from chatStore during validation/execution
 
     // Validate query for out-of-scope content (only if we have files)
     if (attachedFiles.length > 0) {
@@ -246,13 +205,20 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Check cache first
-    const cacheKey = `${query}:${finalFileIds.sort().join(',')}`
+    // Earlier turns of the chat, for follow-ups ("now by month", "only for Texas")
+    const conversation = chat ? buildConversationContext(chat.messages) : null
+    let followUp: QueryResponse['followUp'] = null
+
+    // Check cache first; in a chat with earlier turns the answer may build on them, so they are
+    // part of the key
+    const conversationKey = conversation ? `:${createHash('sha256').update(conversation.text).digest('hex')}` : ''
+    const cacheKey = `${query}:${finalFileIds.sort().join(',')}${conversationKey}`
     refreshCacheIfStale(cacheKey)
     const cached = getCached(cacheKey)
     let llmResult
 
     if (cached) {
+      followUp = cached.followUp ?? null
       llmResult = {
         response: {
           preview_sql: cached.sql,
@@ -268,55 +234,16 @@ export async function POST(request: NextRequest) {
     } else {
       let prompt
       try {
-        // Pass chatId so prompt builder can recover files from chatStore if needed
-        prompt = buildPromptFromFiles(query, finalFileIds, timeRange, chatId)
+        prompt = buildPromptFromFiles(query, finalFileIds, timeRange, conversation)
         if (!prompt || prompt.trim().length === 0) {
           throw new Error('Generated prompt is empty')
         }
       } catch (promptError: any) {
         throw new Error(`Failed to build prompt: ${promptError.message}`)
       }
+      emit({ type: 'prompt', turns: conversation?.turns.length ?? 0 })
       
-      let baseURL = process.env.OPENAI_BASE_URL || 'https://openrouter.ai/api/v1'
-      const apiKey = process.env.OPENAI_API_KEY || 'lm-studio'
-      
-      // Fix incorrect base URLs
-      if (baseURL.includes('platform.openai.com')) {
-        if (apiKey && apiKey.startsWith('sk-')) {
-          baseURL = 'https://api.openai.com/v1'
-        } else {
-          baseURL = 'https://openrouter.ai/api/v1'
-        }
-      }
-      
-      const isLMStudio = baseURL.includes('localhost') || baseURL.includes('127.0.0.1') || baseURL.includes('1234')
-      const isOpenAI = baseURL.includes('api.openai.com')
-      
-      if (!isLMStudio && (!apiKey || apiKey === 'lm-studio')) {
-        throw new Error('OpenRouter API key is required. Please set OPENAI_API_KEY environment variable.')
-      }
-      
-      let modelName = process.env.OPENAI_MODEL || 'openai/gpt-4o-mini'
-      if (isOpenAI) {
-        if (modelName.startsWith('openai/')) {
-          modelName = modelName.replace('openai/', '')
-        }
-        if (!process.env.OPENAI_MODEL) {
-          modelName = 'gpt-4o-mini'
-        }
-      }
-      
-      const openai = new OpenAI({
-        apiKey: apiKey,
-        baseURL: baseURL,
-      })
-      
-      const requestOptions: any = {
-        model: modelName,
-        messages: [
-          {
-            role: 'system',
-            content: `SYSTEM ROLE: YOU ARE A STRICT SQL GENERATOR FOR AN IN-MEMORY ANALYTICS ENGINE
+      const systemPrompt = `SYSTEM ROLE: YOU ARE A STRICT SQL GENERATOR FOR AN IN-MEMORY ANALYTICS ENGINE
 
 You NEVER return random results. You ALWAYS generate deterministic, correct SQL that the backend can execute directly on an in-memory table.
 
@@ -391,7 +318,7 @@ you MUST:
 ======================
 - Use ONLY the tables and columns provided in the schema.
 - NEVER invent table or column names.
-- Use a single SELECT statement (no CTEs, no multi-statements).
+- Use a single query (no multi-statements). WITH / WITH RECURSIVE, subqueries (scalar, IN, EXISTS, correlated, derived tables in FROM) and UNION / INTERSECT / EXCEPT are supported.
 - No INSERT/UPDATE/DELETE/DDL. READ-ONLY SELECT only.
 - Use double quotes around identifiers if needed: "Price", "Category".
 - Use single quotes around string literals: 'Books & Stationery'.
@@ -405,7 +332,10 @@ you MUST:
 - SQL must ALWAYS directly answer the user's natural-language query.
 - NEVER generate irrelevant queries.
 - NEVER produce generic SQL unrelated to the provided data.
-- NEVER include features not supported by the execution engine (JOINs, subqueries, window functions, etc.) unless the prompt explicitly states they are supported.
+- NEVER include features not supported by the execution engine unless the prompt explicitly states they are supported.
+- Window functions are supported: ROW_NUMBER, RANK, DENSE_RANK, NTILE, LAG, LEAD, FIRST_VALUE, LAST_VALUE and SUM / AVG / COUNT / MIN / MAX with OVER (PARTITION BY ... ORDER BY ... [ROWS | RANGE BETWEEN ... AND ...]). Use them for top-N per group, running totals and period-over-period change.
+- JOINs (INNER, LEFT, RIGHT, FULL, CROSS with ON or USING) are supported between any of the attached tables.
+- Scalar functions are supported: LOWER, UPPER, TRIM, SUBSTRING, CONCAT / ||, REPLACE, LENGTH, SPLIT_PART, ROUND, ABS, CEIL, FLOOR, POWER, COALESCE, NULLIF, CASE WHEN, CAST, DATE_TRUNC, EXTRACT, TO_CHAR and date arithmetic with INTERVAL (e.g. order_date >= CURRENT_DATE - INTERVAL '30 days').
 
 ======================
 6. OUTPUT FORMAT (MANDATORY)
@@ -508,51 +438,18 @@ OBEY THESE RULES EVEN IF THEY CONFLICT WITH YOUR USUAL BEHAVIOR.
 DO NOT OMIT ORDER BY OR LIMIT FOR TOP/BOTTOM QUERIES.
 DO NOT RETURN UNSORTED OR RANDOM ROWS FOR "TOP" OR "CHEAPEST" REQUESTS.
 
-Always respond with valid JSON only, no markdown, no code blocks, no explanations outside the JSON. Your response must be a valid JSON object. Make sure to close all JSON objects and strings properly.`,
-          },
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        temperature: 0.1,
-        max_tokens: 3000,
-      }
-      
-      if (!isLMStudio) {
-        requestOptions.response_format = { type: 'json_object' }
-      }
-      
-      let completion
-      try {
-        completion = await openai.chat.completions.create(requestOptions)
-      } catch (llmError: any) {
-        
-        if (llmError.status === 401) {
-          throw new Error('Invalid API key. Please check your OPENAI_API_KEY environment variable.')
-        } else if (llmError.status === 403) {
-          throw new Error('API access forbidden. Please check your OPENAI_API_KEY and ensure it has the correct permissions.')
-        } else if (llmError.status === 429) {
-          const waitTimeMatch = llmError.message?.match(/try again in ([\dhm.]+)/i)
-          const waitTime = waitTimeMatch ? waitTimeMatch[1] : 'a few minutes'
-          const rateLimitMessage = llmError.message?.includes('TPM') || llmError.message?.includes('tokens per min')
-            ? `Rate limit exceeded (tokens per minute). Please try again in ${waitTime} or add a payment method to increase your limits.`
-            : `Rate limit exceeded. Please try again in ${waitTime} or upgrade your API plan.`
-          throw new Error(rateLimitMessage)
-        } else if (llmError.status === 500) {
-          throw new Error('LLM service error. Please try again or check your API configuration.')
-        } else if (llmError.code === 'ECONNREFUSED' || llmError.message?.includes('ECONNREFUSED')) {
-          throw new Error('Cannot connect to LLM service. Please check if LM Studio is running or your API endpoint is correct.')
-        }
-        
-        throw new Error(`LLM API error: ${llmError.message || 'Failed to generate response'}`)
-      }
+Always respond with valid JSON only, no markdown, no code blocks, no explanations outside the JSON. Your response must be a valid JSON object. Make sure to close all JSON objects and strings properly.`
       
-      const content = completion.choices[0]?.message?.content
-
-      if (!content) {
-        throw new Error('Empty response from LLM')
-      }
+      const completion = await completeChat({
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: prompt },
+        ],
+        json: true,
+        onToken: text => emit({ type: 'token', text }),
+        signal,
+      })
+      const content = completion.content
 
       let parsed: any
       try {
@@ -586,6 +483,10 @@ Always respond with valid JSON only, no markdown, no code blocks, no explanation
       if (!parsed.reasoning) {
         parsed.reasoning = 'No reasoning provided'
       }
+      const parentTurn = conversation?.turns.find(turn => turn.turn === Number(parsed.follows_up))
+      if (parentTurn) {
+        followUp = { turn: parentTurn.turn, query: parentTurn.query }
+      }
 
       // Fix SQL for top/bottom queries - ensures numeric sorting even if LLM doesn't generate CAST
       let sqlToExecute = parsed.sql
@@ -610,92 +511,27 @@ Always respond with valid JSON only, no markdown, no code blocks, no explanation
 
       let schemaValidation
       try {
-        // CRITICAL: Use attachedFiles if we recovered them from chatStore, otherwise use finalFileIds
-        // This ensures validation works even when fileRegistry is empty
         const filesForValidation = attachedFiles.length > 0 
           ? attachedFiles.map(f => f.id)
           : finalFileIds
-        
-        // CRITICAL: If we have attachedFiles (recovered from chatStore), validation should use them
-        // The validator will recover from chatStore if needed, but we've already done that
-        // Pass chatId to validator so it can recover files from chatStore if fileRegistry is empty
-        schemaValidation = validateSqlAgainstSchema(parsed.sql, filesForValidation, chatId)
+        schemaValidation = validateSqlAgainstSchema(parsed.sql, filesForValidation)
       } catch (validationError: any) {
         throw new Error(`Schema validation failed: ${validationError.message}`)
       }
       
-      if (!schemaValidation.valid) {
-        // If validation failed due to no files, but we have fileIds, that's a critical issue
-        if (schemaValidation.error?.includes('No files attached') && finalFileIds.length > 0) {
-          // Check if files exist on disk
-          const missingFiles = finalFileIds.filter(fileId => {
-            const file = getFilesByIds([fileId])
-            return file.length === 0
-          })
-          
-          if (missingFiles.length > 0) {
-            throw new Error(`Files not found on disk: ${missingFiles.join(', ')}. Files should be saved to disk on upload. Please re-upload if necessary.`)
-          } else {
-            throw new Error(`Files found but validation failed. This may indicate a schema mismatch.`)
-          }
-        }
-        
-        const retryPrompt = buildPromptFromFiles(
-          `The previous SQL query failed validation: ${schemaValidation.error}. Fix it using only the tables and columns from the schema. Original question: ${query}`,
-          finalFileIds,
-          timeRange,
-          chatId
-        )
-        
-        const retryCompletion = await openai.chat.completions.create({
-          ...requestOptions,
-          messages: [
-            {
-              role: 'system',
-              content: 'You are a SQL expert. Always respond with valid JSON only, no markdown, no code blocks.',
-            },
-            {
-              role: 'user',
-              content: retryPrompt,
-            },
-          ],
+      // If validation failed due to no files, but we have fileIds, that's a critical issue. Other
+      // failures are sent back to the model below
+      if (!schemaValidation.valid && schemaValidation.error?.includes('No files attached') && finalFileIds.length > 0) {
+        // Check if files exist on disk
+        const missingFiles = finalFileIds.filter(fileId => {
+          const file = getFilesByIds([fileId])
+          return file.length === 0
         })
         
-        const retryContent = retryCompletion.choices[0]?.message?.content
-        if (retryContent) {
-          try {
-            const retryParsed = JSON.parse(retryContent)
-            if (retryParsed.sql) {
-              // Apply safety net to retry SQL as well
-              let retrySql = retryParsed.sql
-              if (retrySql && retrySql !== 'not_available' && attachedFiles.length > 0) {
-                const { applySqlSafetyNet } = await import('@/lib/sql/sqlSafetyNet')
-                const allColumns = attachedFiles.flatMap(file => file.columns || [])
-                retrySql = applySqlSafetyNet(retrySql, query, allColumns)
-              }
-              parsed.sql = retrySql
-              if (retryParsed.reasoning) {
-                parsed.reasoning = retryParsed.reasoning
-              }
-              // Re-validate (pass chatId for file recovery, use attachedFiles if available)
-              let retryValidation
-              try {
-                const filesForRetryValidation = attachedFiles.length > 0 
-                  ? attachedFiles.map(f => f.id)
-                  : finalFileIds
-                retryValidation = validateSqlAgainstSchema(parsed.sql, filesForRetryValidation, chatId)
-              } catch (retryValidationError: any) {
-                throw new Error(`SQL validation failed: ${retryValidationError.message}`)
-              }
-              if (!retryValidation.valid) {
-                throw new Error(`SQL still invalid after retry: ${retryValidation.error}`)
-              }
-            }
-          } catch (retryError) {
-            throw new Error(`Failed to fix SQL: ${schemaValidation.error}`)
-          }
+        if (missingFiles.length > 0) {
+          throw new Error(`Files not found on disk: ${missingFiles.join(', ')}. Files should be saved to disk on upload. Please re-upload if necessary.`)
         } else {
-          throw new Error(`SQL validation failed: ${schemaValidation.error}`)
+          throw new Error(`Files found but validation failed. This may indicate a schema mismatch.`)
         }
       }
 
@@ -720,18 +556,12 @@ Always respond with valid JSON only, no markdown, no code blocks, no explanation
 
       llmResult = {
         response: llmResponse,
-        tokensUsed: completion.usage?.total_tokens,
+        tokensUsed: completion.tokensUsed,
       } as any
       
       ;(llmResult as any).llmTableData = parsed.table && parsed.table !== 'not_available' ? parsed.table : null
       ;(llmResult as any).llmChartData = parsed.chart?.data && parsed.chart.data !== 'not_available' ? parsed.chart.data : null
 
-      setCached(cacheKey, {
-        sql: llmResult.response.preview_sql || llmResult.response.sql || '',
-        reasoning: llmResult.response.reasoning,
-        chartSpec: llmResult.response.chart,
-        metricName: llmResult.response.metric_name,
-      })
     }
 
     const llmResponse = llmResult.response
@@ -781,7 +611,6 @@ Always respond with valid JSON only, no markdown, no code blocks, no explanation
     let validation
     let finalSqlToValidate = sqlToValidate
     
-    // Ensure we have the latest file information (may have been recovered from chatStore earlier)
     const hasFiles = attachedFiles.length > 0 || finalFileIds.length > 0
     
     if (hasFiles) {
@@ -789,7 +618,7 @@ Always respond with valid JSON only, no markdown, no code blocks, no explanation
       const filesForValidation = attachedFiles.length > 0 
         ? attachedFiles.map(f => f.id)
         : finalFileIds
-      validation = validateSqlAgainstSchema(sqlToValidate, filesForValidation, chatId)
+      validation = validateSqlAgainstSchema(sqlToValidate, filesForValidation)
       
       if (validation.correctedSql) {
         finalSqlToValidate = validation.correctedSql
@@ -805,7 +634,9 @@ Always respond with valid JSON only, no markdown, no code blocks, no explanation
       }
     }
     
-    if (!validation.valid) {
+    // Without files (legacy database mode) the question is asked again; SQL for files is repaired
+    // with the execution below
+    if (!validation.valid && !hasFiles) {
       const repairResult = await nlToSql({
         query: `The previous SQL query failed validation: ${validation.error}. Please generate a corrected SQL query for: ${query}`,
         timeRange,
@@ -850,7 +681,7 @@ Always respond with valid JSON only, no markdown, no code blocks, no explanation
         const filesForRepairValidation = attachedFiles.length > 0 
           ? attachedFiles.map(f => f.id)
           : finalFileIds
-        repairValidation = validateSqlAgainstSchema(repairedPreview, filesForRepairValidation, chatId)
+        repairValidation = validateSqlAgainstSchema(repairedPreview, filesForRepairValidation)
       } else {
         repairValidation = await validateSql(repairedPreview)
       }
@@ -898,7 +729,7 @@ Always respond with valid JSON only, no markdown, no code blocks, no explanation
         const filesForActionValidation = attachedFiles.length > 0 
           ? attachedFiles.map(f => f.id)
           : finalFileIds
-        actionValidation = validateSqlAgainstSchema(actionSql, filesForActionValidation, chatId)
+        actionValidation = validateSqlAgainstSchema(actionSql, filesForActionValidation)
       } else {
         actionValidation = await validateSql(actionSql)
       }
@@ -916,56 +747,126 @@ Always respond with valid JSON only, no markdown, no code blocks, no explanation
       }
     }
 
-    let sqlToExecute = sanitizeSql(llmResponse.preview_sql || finalSqlToValidate)
-    
-    // Apply fixes for top/bottom queries before execution - ensures numeric sorting
-    if (sqlToExecute && sqlToExecute !== 'not_available' && attachedFiles.length > 0) {
-      const { applySqlSafetyNet } = await import('@/lib/sql/sqlSafetyNet')
-      const allColumns = attachedFiles.flatMap(file => file.columns || [])
-      const fixedSql = applySqlSafetyNet(sqlToExecute, query, allColumns)
-      
-      if (fixedSql !== sqlToExecute) {
-        sqlToExecute = fixedSql
+    // Prepare SQL for execution - sanitize, and fix top/bottom queries so they sort numerically
+    const prepareSql = async (sql: string) => {
+      let prepared = sanitizeSql(sql)
+      if (prepared && prepared !== 'not_available' && attachedFiles.length > 0) {
+        const { applySqlSafetyNet } = await import('@/lib/sql/sqlSafetyNet')
+        const allColumns = attachedFiles.flatMap(file => file.columns || [])
+        prepared = applySqlSafetyNet(prepared, query, allColumns)
       }
+      return prepared
     }
-    
-    let executionResult
-    try {
-      executionResult = executeMultiFileQuery(sqlToExecute, finalFileIds)
-    } catch (execError: any) {
-      throw new Error(`Query execution failed: ${execError.message}`)
-    }
-    
-    if (executionResult.error) {
-      const latency = Date.now() - startTime
+
+    // Execute; SQL for files that fails validation or execution goes back to the model with the
+    // error, for at most getMaxQueryAttempts() tries in all. Every try is reported in the response,
+    // a repair the model failed to give included.
+    const maxAttempts = hasFiles ? getMaxQueryAttempts() : 1
+    const attempts: QueryAttempt[] = []
+    const fileIdsForValidation = attachedFiles.length > 0 ? attachedFiles.map(f => f.id) : finalFileIds
+    let sqlToExecute = await prepareSql(llmResponse.preview_sql || finalSqlToValidate)
+    let failure: { outcome: 'validation' | 'execution'; error: string } | null =
+      hasFiles && !validation.valid ? { outcome: 'validation', error: validation.error || 'SQL validation failed' } : null
+    let executionResult: MultiFileQueryResult = { data: [], columns: [] }
+    let tokensUsed = llmResult.tokensUsed
+
+    // The answer when no SQL ran, with every attempt made
+    const failedQuery = (error: { message: string; type: 'validation' | 'execution' | 'llm' }, reasoning: string, status: number) => {
       logEvaluation({
         query,
         sql: sqlToExecute,
         success: false,
-        errorType: 'execution',
-        latencyMs: latency,
+        errorType: error.type,
+        latencyMs: Date.now() - startTime,
         rowCount: 0,
-        tokensUsed: llmResult.tokensUsed,
+        tokensUsed,
       })
 
       return NextResponse.json(
         {
           data: [],
           columns: [],
-          reasoning: llmResponse.reasoning || `Query execution failed: ${executionResult.error}`,
-          preview_sql: llmResponse.preview_sql || sqlToExecute,
+          reasoning,
+          preview_sql: sqlToExecute,
           action_sql: llmResponse.action_sql || null,
           sql: sqlToExecute, // Legacy
           chartSpec: llmResponse.chart || getDefaultChartSpec([]),
-          error: {
-            message: executionResult.error,
-            type: 'execution' as const,
-          },
+          attempts,
+          followUp,
+          error,
         },
-        { status: 500 }
+        { status }
       )
     }
 
+    for (let attempt = 1; ; attempt++) {
+      signal?.throwIfAborted()
+      emit({ type: 'sql', attempt, sql: sqlToExecute, reasoning: llmResponse.reasoning, valid: !failure, error: failure?.error ?? null })
+      if (!failure) {
+        try {
+          executionResult = await executeMultiFileQuery(sqlToExecute, finalFileIds)
+        } catch (execError: any) {
+          executionResult = { data: [], columns: [], error: `Query execution failed: ${execError.message}` }
+        }
+        emit({ type: 'executed', attempt, rowCount: executionResult.data.length, error: executionResult.error ?? null })
+        if (!executionResult.error) {
+          attempts.push({ attempt, sql: sqlToExecute, outcome: 'success', error: null })
+          break
+        }
+        failure = { outcome: 'execution', error: executionResult.error }
+      }
+      attempts.push({ attempt, sql: sqlToExecute, outcome: failure.outcome, error: failure.error })
+
+      if (attempt >= maxAttempts) {
+        return failedQuery(
+          { message: failure.error, type: failure.outcome },
+          failure.outcome === 'validation'
+            ? `Validation failed: ${failure.error}. The generated SQL query was not safe to execute.`
+            : llmResponse.reasoning || `Query execution failed: ${failure.error}`,
+          failure.outcome === 'validation' ? 400 : 500
+        )
+      }
+
+      let repair: SqlRepair
+      try {
+        repair = await repairSql({ question: query, sql: sqlToExecute, ...failure, files: attachedFiles, signal })
+      } catch (repairError: any) {
+        signal?.throwIfAborted()
+        attempts.push({ attempt: attempt + 1, sql: '', outcome: 'repair', error: repairError.message })
+        return failedQuery(
+          { message: repairError.message, type: 'llm' },
+          `The SQL failed (${failure.error}) and could not be repaired: ${repairError.message}`,
+          500
+        )
+      }
+      tokensUsed = (tokensUsed ?? 0) + (repair.tokensUsed ?? 0)
+      if (repair.reasoning) {
+        llmResponse.reasoning = repair.reasoning
+      }
+      if (repair.chart?.type) {
+        llmResponse.chart = { ...getDefaultChartSpec([]), ...repair.chart }
+      }
+
+      sqlToExecute = await prepareSql(repair.sql)
+      const repairValidation = validateSqlAgainstSchema(sqlToExecute, fileIdsForValidation)
+      if (repairValidation.correctedSql) {
+        sqlToExecute = repairValidation.correctedSql
+      }
+      llmResponse.preview_sql = sqlToExecute
+      failure = repairValidation.valid ? null : { outcome: 'validation', error: repairValidation.error || 'SQL validation failed' }
+    }
+
+    // Cache what worked, repairs included
+    if (!cached) {
+      setCached(cacheKey, {
+        sql: sqlToExecute,
+        reasoning: llmResponse.reasoning,
+        chartSpec: llmResponse.chart,
+        metricName: llmResponse.metric_name,
+        followUp,
+      })
+    }
+
     // Use LLM's chart if provided, otherwise generate from results
     let chartResult: { chartSpec: any; chartData: any[] }
     const llmChartData = (llmResult as any).llmChartData
@@ -983,7 +884,7 @@ Always respond with valid JSON only, no markdown, no code blocks, no explanation
           executionResult.data,
           executionResult.columns,
           query,
-          attachedFiles.reduce((sum, f) => sum + (f.data?.length || 0), 0)
+          attachedFiles.reduce((sum, f) => sum + (f.rowCount || 0), 0)
         )
       } catch (chartError: any) {
         chartResult = {
@@ -993,6 +894,8 @@ Always respond with valid JSON only, no markdown, no code blocks, no explanation
       }
     }
     
+    emit({ type: 'chart', chartSpec: chartResult.chartSpec })
+
     const data = llmTableData && Array.isArray(llmTableData) && llmTableData.length > 0
       ? llmTableData.slice(0, 50)
       : executionResult.data
@@ -1021,7 +924,7 @@ Always respond with valid JSON only, no markdown, no code blocks, no explanation
       success: true,
       latencyMs: latency,
       rowCount: executionResult.data.length,
-      tokensUsed: llmResult.tokensUsed,
+      tokensUsed,
     })
 
     const finalActionSql = (actionSql === 'not_available' || !actionSql) ? null : actionSql
@@ -1038,25 +941,21 @@ Always respond with valid JSON only, no markdown, no code blocks, no explanation
       queryCategory: llmResponse.query_category,
       performanceMetrics: {
         executionTimeMs: latency,
-        tokenUsage: llmResult.tokensUsed,
+        tokenUsage: tokensUsed,
         queryComplexity,
         sqlLength: sqlToExecute.length,
       },
+      attempts,
+      followUp,
       error: null,
     }
 
     QueryResponseSchema.safeParse(response)
 
-    if (chatId) {
-      const { addMessageToChat, getChat } = await import('@/lib/data/chatStore')
-      addMessageToChat(chatId, query, response)
-      
-      // Update chat title in backend (meaningful title from first query)
-      const updatedChat = getChat(chatId)
-      if (updatedChat) {
-        // Title is automatically updated by addMessageToChat if it's the first message
-        // This ensures sidebar shows meaningful titles
-      }
+    // A cancelled query is not kept. The chat's title comes from its first query (see addMessageToChat)
+    signal?.throwIfAborted()
+    if (chat) {
+      await addMessageToChat(chat.chatId, query, response)
     }
 
     return NextResponse.json(response)
@@ -1068,7 +967,7 @@ Always respond with valid JSON only, no markdown, no code blocks, no explanation
         query: query || 'unknown',
         sql: '',
         success: false,
-        errorType: 'unknown',
+        errorType: signal?.aborted ? 'cancelled' : error instanceof LLMError ? 'llm' : 'unknown',
         latencyMs: latency,
         rowCount: 0,
       })
@@ -1084,7 +983,9 @@ Always respond with valid JSON only, no markdown, no code blocks, no explanation
     }
 
     let errorType: 'validation' | 'execution' | 'llm' | 'unknown' | 'no_files' = 'unknown'
-    if (error.message?.includes('Rate limit') || error.message?.includes('429')) {
+    if (error instanceof LLMError) {
+      errorType = 'llm'
+    } else if (error.message?.includes('Rate limit') || error.message?.includes('429')) {
       errorType = 'llm'
     } else if (error.message?.includes('API key') || error.message?.includes('401') || error.message?.includes('403')) {
       errorType = 'llm'
@@ -1098,8 +999,8 @@ Always respond with valid JSON only, no markdown, no code blocks, no explanation
       const errorResponse: QueryResponse = {
         data: [],
         columns: [],
-        reasoning: error.message?.includes('Rate limit') 
-          ? `Rate limit exceeded: ${error.message}. This is a temporary limit from OpenAI. Please wait for the limit to reset or add a payment method to increase your limits.`
+        reasoning: error instanceof LLMError && error.type === 'rate_limit'
+          ? `${error.message} This is a temporary limit from the model provider.`
           : `An error occurred: ${error.message || 'Unknown error'}. Please check the server logs for details.`,
         preview_sql: null,
         action_sql: null,
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server'
+import { applyRetention, planRetention } from '@/lib/data/retention'
+
+/**
+ * GET /api/retention - Dry run: what a cleanup would delete under the retention policy
+ */
+export async function GET() {
+  try {
+    return NextResponse.json({ dryRun: true, ...(await planRetention()) })
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to plan cleanup'
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/retention - Run the cleanup now; returns what was deleted
+ */
+export async function POST() {
+  try {
+    return NextResponse.json({ dryRun: false, ...(await applyRetention()) })
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to run cleanup'
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    )
+  }
+}
@@ -29,11 +29,13 @@ import {
 } from '@/lib/storage/localChatStorage'
 import { getBookmarks } from '@/lib/storage/queryBookmarks'
 import { getRecentQueries } from '@/lib/utils/querySuggestions'
+import { applyQueryEvent, readQueryStream, type QueryProgress } from '@/lib/utils/queryStream'
 
 export default function Home() {
   const [query, setQuery] = useState('')
   const [response, setResponse] = useState<QueryResponse | null>(null)
   const [isLoading, setIsLoading] = useState(false)
+  const [progress, setProgress] = useState<QueryProgress | null>(null)
   const [history, setHistory] = useState<QueryHistoryItem[]>([])
   const [theme, setTheme] = useState<'light' | 'dark'>('light')
   const [authenticated, setAuthenticated] = useState(false)
@@ -225,6 +227,7 @@ export default function Home() {
       updatedAt: toDate(chat.updatedAt),
       messageCount: chat.messageCount || chat.messages?.length || 0,
       ...(chat.fileCount !== undefined && { fileCount: chat.fileCount }),
+      ...(chat.pinned !== undefined && { pinned: chat.pinned }),
     })
     
     const storedChats = getStoredChats()
@@ -362,6 +365,7 @@ export default function Home() {
       // Clean up all timeouts on unmount
       timeoutRefs.current.forEach(timeout => clearTimeout(timeout))
       timeoutRefs.current.clear()
+      queryAbortRef.current?.abort()
     }
   }, [])
 
@@ -388,6 +392,11 @@ export default function Home() {
 
   const debouncedQueryRef = useRef<NodeJS.Timeout | null>(null)
   const isQueryInProgressRef = useRef(false)
+  const queryAbortRef = useRef<AbortController | null>(null)
+
+  const cancelQuery = useCallback(() => {
+    queryAbortRef.current?.abort()
+  }, [])
 
   const executeQuery = useCallback(async (queryText: string, fileIds?: string[]) => {
     // Prevent concurrent queries - return early if one is already in progress
@@ -444,6 +453,9 @@ export default function Home() {
     setQuery(queryText)
     setIsLoading(true)
     setResponse(null)
+    setProgress(null)
+    const queryAbort = new AbortController()
+    queryAbortRef.current = queryAbort
 
     // chatIdToUse should already be set above, but ensure it's set
     if (!chatIdToUse) {
@@ -492,23 +504,38 @@ export default function Home() {
         }
       }
       
+      // Stages, reasoning and SQL stream in as Server-Sent Events until the response arrives
       const res = await fetch('/api/query', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
         body: JSON.stringify({
           query: queryText,
           fileIds: allFileIds,
           chatId: chatIdToUse || undefined,
         }),
+        signal: queryAbort.signal,
       })
 
-      if (!res.ok) {
-        const errorText = await res.text()
-        throw new Error(`Query failed: ${res.status} ${errorText}`)
+      // Failed queries still answer with a QueryResponse (reasoning, the SQL tried, the error)
+      let data: QueryResponse
+      if (res.ok && res.headers.get('content-type')?.includes('text/event-stream')) {
+        const result = await readQueryStream(res, event => setProgress(prev => applyQueryEvent(prev, event)))
+        data = result.response
+        if (result.status >= 400 && !data?.error) {
+          throw new Error(`Query failed: ${result.status}`)
+        }
+      } else {
+        const responseText = await res.text()
+        try {
+          data = JSON.parse(responseText)
+        } catch {
+          throw new Error(`Query failed: ${res.status} ${responseText}`)
+        }
+        if (!res.ok && !data?.error) {
+          throw new Error(`Query failed: ${res.status} ${responseText}`)
+        }
       }
       
-      const data: QueryResponse = await res.json()
-      
       // Ensure response has required structure
       if (!data) {
         throw new Error('Invalid response from server')
@@ -525,6 +552,8 @@ export default function Home() {
         chartSpec: data.chartSpec || { type: 'table', xField: null, yField: null },
         metricsInfo: data.metricsInfo,
         queryCategory: data.queryCategory,
+        attempts: data.attempts,
+        followUp: data.followUp,
         error: data.error || null,
       }
       
@@ -689,6 +718,12 @@ export default function Home() {
         })
       }
     } catch (error: any) {
+      // Cancelled by the user: nothing to report, and the chat keeps no message for it
+      if (queryAbort.signal.aborted) {
+        toast({ title: 'Query cancelled' })
+        return
+      }
+
       // CRITICAL: Never reset chatFiles or currentChatId on error
       // Files persist across errors - user can retry query
       const errorMessage = error.message || 'Failed to execute query. Please try again.'
@@ -730,7 +765,11 @@ export default function Home() {
       // User can retry the query with the same files
     } finally {
       setIsLoading(false)
+      setProgress(null)
       isQueryInProgressRef.current = false
+      if (queryAbortRef.current === queryAbort) {
+        queryAbortRef.current = null
+      }
     }
   }, [toast, currentChatId, chatFiles, loadAllChats, chatMessages.length])
 
@@ -757,6 +796,34 @@ export default function Home() {
     loadChat(chatId)
   }
 
+  const handleChatPin = useCallback(async (chatId: string, pinned: boolean) => {
+    try {
+      const res = await fetch('/api/chats', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ chatId, pinned }),
+      })
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to update chat')
+      }
+
+      setChats(prev => prev.map(chat => (chat.chatId === chatId ? { ...chat, pinned } : chat)))
+      toast({
+        title: pinned ? 'Chat pinned' : 'Chat unpinned',
+        description: pinned
+          ? 'This chat and its files are kept until you unpin it.'
+          : 'This chat is deleted after a period of inactivity.',
+      })
+    } catch (error: any) {
+      toast({
+        title: pinned ? 'Failed to pin chat' : 'Failed to unpin chat',
+        description: error.message || 'Please try again',
+        variant: 'destructive',
+      })
+    }
+  }, [toast])
+
   const handleChatDelete = useCallback(async (chatId: string) => {
     try {
       const res = await fetch(`/api/chats?chatId=${encodeURIComponent(chatId)}`, {
@@ -910,6 +977,7 @@ export default function Home() {
           currentChatId={currentChatId}
           onChatClick={handleChatClick}
           onChatDelete={handleChatDelete}
+          onChatPin={handleChatPin}
           onNewChat={createNewChat}
           chatMessages={chatMessages}
           onMessageClick={handleMessageClick}
@@ -969,6 +1037,8 @@ export default function Home() {
                   currentResponse={response}
                   currentQuery={query}
                   chatId={currentChatId || undefined}
+                  progress={progress}
+                  onCancel={cancelQuery}
                 />
               </div>
             </div>
@@ -3,9 +3,11 @@
 import { useEffect, useRef } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
-import { MessageSquare, User, Bot, Plus } from 'lucide-react'
+import { MessageSquare, User, Bot, Plus, CornerDownRight } from 'lucide-react'
 import { ResultsPanel } from './ResultsPanel'
+import { QueryProgress } from './QueryProgress'
 import type { ChatMessage } from '@/lib/data/chatStore'
+import type { QueryProgress as Progress } from '@/lib/utils/queryStream'
 import type { QueryResponse } from '@/types'
 
 interface ChatHistoryProps {
@@ -14,9 +16,12 @@ interface ChatHistoryProps {
   currentResponse?: QueryResponse | null
   currentQuery?: string
   chatId?: string
+  // Stages of the running query, streamed from the server
+  progress?: Progress | null
+  onCancel?: () => void
 }
 
-export function ChatHistory({ messages, isLoading, currentResponse, currentQuery, chatId }: ChatHistoryProps) {
+export function ChatHistory({ messages, isLoading, currentResponse, currentQuery, chatId, progress, onCancel }: ChatHistoryProps) {
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const containerRef = useRef<HTMLDivElement>(null)
   const isUserScrollingRef = useRef(false)
@@ -30,7 +35,7 @@ export function ChatHistory({ messages, isLoading, currentResponse, currentQuery
         messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
       }, 100)
     }
-  }, [messages, currentResponse, isLoading])
+  }, [messages, currentResponse, isLoading, progress])
 
   // Track user scrolling
   useEffect(() => {
@@ -68,7 +73,7 @@ export function ChatHistory({ messages, isLoading, currentResponse, currentQuery
     displayMessages.push({
       id: 'loading',
       timestamp: new Date(),
-      queryText: '',
+      queryText: currentQuery || '',
       summary: 'Loading...',
       response: null as any,
     })
@@ -101,6 +106,12 @@ export function ChatHistory({ messages, isLoading, currentResponse, currentQuery
             </div>
             <Card className="flex-1 bg-primary/5 border-primary/20">
               <CardContent className="p-3 sm:p-4">
+                {message.response?.followUp && (
+                  <p className="flex items-center gap-1 text-[10px] sm:text-xs text-muted-foreground mb-1 break-words">
+                    <CornerDownRight className="h-3 w-3 flex-shrink-0" />
+                    Builds on #{message.response.followUp.turn}: &ldquo;{message.response.followUp.query}&rdquo;
+                  </p>
+                )}
                 <p className="text-xs sm:text-sm font-medium whitespace-pre-wrap break-words">{message.queryText}</p>
                 <p className="text-[10px] sm:text-xs text-muted-foreground mt-1 sm:mt-2">
                   {new Date(message.timestamp).toLocaleString()}
@@ -121,20 +132,13 @@ export function ChatHistory({ messages, isLoading, currentResponse, currentQuery
             </div>
           )}
 
-          {/* Loading indicator */}
+          {/* Progress of the running query */}
           {message.id === 'loading' && (
-            <div className="flex items-start gap-3 ml-11">
-              <div className="flex-shrink-0 w-8 h-8 rounded-full bg-muted flex items-center justify-center">
-                <Bot className="h-4 w-4 text-muted-foreground animate-pulse" />
+            <div className="flex items-start gap-2 sm:gap-3 ml-9 sm:ml-11">
+              <div className="flex-shrink-0 w-7 h-7 sm:w-8 sm:h-8 rounded-full bg-muted flex items-center justify-center">
+                <Bot className="h-3.5 w-3.5 sm:h-4 sm:w-4 text-muted-foreground animate-pulse" />
               </div>
-              <Card className="flex-1">
-                <CardContent className="p-4">
-                  <div className="flex items-center gap-2">
-                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-primary"></div>
-                    <p className="text-sm text-muted-foreground">Processing your query...</p>
-                  </div>
-                </CardContent>
-              </Card>
+              <QueryProgress progress={progress ?? null} onCancel={onCancel} />
             </div>
           )}
         </div>
@@ -154,23 +158,6 @@ export function ChatHistory({ messages, isLoading, currentResponse, currentQuery
         </div>
       )}
 
-      {/* Loading indicator for current query */}
-      {isLoading && !currentResponse && (
-        <div className="flex items-start gap-3 ml-11">
-          <div className="flex-shrink-0 w-8 h-8 rounded-full bg-muted flex items-center justify-center">
-            <Bot className="h-4 w-4 text-muted-foreground animate-pulse" />
-          </div>
-          <Card className="flex-1">
-            <CardContent className="p-4">
-              <div className="flex items-center gap-2">
-                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-primary"></div>
-                <p className="text-sm text-muted-foreground">Processing your query...</p>
-              </div>
-            </CardContent>
-          </Card>
-        </div>
-      )}
-
       <div ref={messagesEndRef} />
     </div>
   )
@@ -93,13 +93,13 @@ export function ChatInterface({ className }: ChatInterfaceProps) {
     if (!file) return
 
     // Validate file type
-    const validExtensions = ['.csv', '.xlsx', '.xls']
+    const validExtensions = ['.csv', '.tsv', '.tab', '.txt', '.json', '.ndjson', '.jsonl', '.xlsx', '.xls', '.parquet', '.arrow', '.feather', '.arrows', '.sqlite', '.sqlite3', '.db']
     const fileExtension = file.name.toLowerCase().substring(file.name.lastIndexOf('.'))
     
     if (!validExtensions.some(ext => file.name.toLowerCase().endsWith(ext))) {
       toast({
         title: 'Invalid file type',
-        description: 'Please upload a CSV or Excel file (.csv, .xlsx, .xls)',
+        description: 'Please upload a CSV, TSV, JSON, Excel, Parquet, Arrow or SQLite file (.csv, .tsv, .txt, .json, .ndjson, .xlsx, .xls, .parquet, .arrow, .feather, .sqlite, .db)',
         variant: 'destructive',
       })
       return
@@ -274,7 +274,7 @@ export function ChatInterface({ className }: ChatInterfaceProps) {
             <div className="relative">
               <input
                 type="file"
-                accept=".csv,.xlsx,.xls,text/csv,application/vnd.ms-excel,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                accept=".csv,.tsv,.tab,.txt,.json,.ndjson,.jsonl,.xlsx,.xls,.parquet,.arrow,.feather,.arrows,.sqlite,.sqlite3,.db,text/csv,text/tab-separated-values,application/json,application/vnd.ms-excel,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
                 onChange={handleFileInputChange}
                 className="hidden"
                 id="chat-file-upload"
@@ -347,7 +347,7 @@ export function ChatInterface({ className }: ChatInterfaceProps) {
                         Drag and drop your file here, or click to browse
                       </p>
                       <p className="text-xs text-muted-foreground">
-                        Supports CSV and Excel files (.csv, .xlsx, .xls)
+                        Supports CSV, TSV, JSON, Excel, Parquet, Arrow and SQLite files (.csv, .tsv, .json, .ndjson, .xlsx, .xls, .parquet, .arrow, .sqlite, .db)
                       </p>
                     </div>
                     <Button variant="outline" disabled={isLoading}>
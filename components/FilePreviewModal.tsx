@@ -9,8 +9,17 @@ import {
 } from '@/components/ui/dialog'
 import { Button } from '@/components/ui/button'
 import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { AlertTriangle, CheckCircle2 } from 'lucide-react'
 import { useState, useEffect } from 'react'
+import {
+  fillMergedCells,
+  HEADER_SCAN_ROWS,
+  TableCleaner,
+  type CleanupOptions,
+  type TableCleanup,
+} from '@/lib/data/ingestion/cleanup'
+import { sanitizeColumnNames } from '@/lib/data/ingestion/columns'
 
 interface FilePreviewData {
   rows: Record<string, any>[]
@@ -18,30 +27,259 @@ interface FilePreviewData {
   rowCount: number
   fileSize: number
   fileName: string
+  // Shown instead of the columns and rows for files only the server reads
+  note?: string
+}
+
+// A delimited file or worksheet after header detection, run the way the server runs it
+interface CleanedPreview {
+  rows: Record<string, any>[]
+  columns: Array<{ name: string; type: string }>
+  rowCount: number
+  cleanup: TableCleanup
+  // Rows that could be the header: the first non-blank ones, with their row numbers
+  headerCandidates: Array<{ line: number; text: string }>
+}
+
+// One worksheet of an Excel file; each non-empty sheet is uploaded as its own table
+interface SheetPreview extends CleanedPreview {
+  name: string
+}
+
+// What the user picked in the preview; anything left out is decided by the server
+export interface UploadChoices {
+  // Sheets of an Excel file, when not all of them
+  sheets?: string[]
+  // Encoding of a text file, when the detected one was overridden
+  encoding?: string
+  // Header row and trailing rows, when the detected ones were overridden
+  cleanup?: CleanupOptions
+  // Append to, replace or add a version of the chat's table `target` (a file ID) instead of
+  // adding a new table
+  mode?: 'append' | 'replace' | 'version'
+  target?: string
 }
 
 interface FilePreviewModalProps {
   open: boolean
   onOpenChange: (open: boolean) => void
   file: File | null
-  onConfirm: (file: File) => void
+  // Tables already in the chat, which the upload can go into
+  tables?: Array<{ id: string; fileName: string }>
+  onConfirm: (file: File, choices: UploadChoices) => void
   onCancel: () => void
 }
 
+const UPLOAD_MODES = [
+  { value: 'new', label: 'A new table' },
+  { value: 'append', label: 'Rows appended to' },
+  { value: 'replace', label: 'Replacing' },
+  { value: 'version', label: 'A new version of' },
+]
+
+// The encodings the server can decode (lib/data/ingestion/encoding)
+const TEXT_ENCODINGS = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'utf-16le', label: 'UTF-16 LE' },
+  { value: 'utf-16be', label: 'UTF-16 BE' },
+  { value: 'windows-1252', label: 'Windows-1252' },
+  { value: 'iso-8859-1', label: 'Latin-1 (ISO-8859-1)' },
+]
+
+// Encoding from the byte order mark, else UTF-8 when the bytes are valid UTF-8, else Windows-1252
+// (the server also recognizes UTF-16 without a BOM)
+function detectEncoding(bytes: Uint8Array): string {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8'
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le'
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be'
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes)
+    return 'utf-8'
+  } catch {
+    return 'windows-1252'
+  }
+}
+
+// Rough column types from the previewed rows; the server infers the real ones from every value
+function detectColumnTypes(
+  columns: Array<{ name: string; type: string }>,
+  rows: Record<string, any>[]
+): Array<{ name: string; type: string }> {
+  if (rows.length === 0) return columns
+  return columns.map(col => {
+    const sampleValues = rows.map(r => r[col.name]).filter(v => v !== '' && v !== null && v !== undefined)
+    if (sampleValues.length === 0) return { ...col, type: 'text' }
+
+    // Check if numeric
+    const numericCount = sampleValues.filter(v => !isNaN(Number(v)) && v !== '').length
+    if (numericCount / sampleValues.length > 0.8) {
+      return { ...col, type: 'number' }
+    }
+
+    // Check if date
+    const dateCount = sampleValues.filter(v => !isNaN(Date.parse(v))).length
+    if (dateCount / sampleValues.length > 0.5) {
+      return { ...col, type: 'date' }
+    }
+
+    return { ...col, type: 'text' }
+  })
+}
+
+// The delimiter that splits the header line into the most fields (the server sniffs more carefully)
+function guessDelimiter(headerLine: string): string {
+  const counts = [',', '\t', ';', '|'].map(delimiter => ({ delimiter, count: headerLine.split(delimiter).length }))
+  return counts.reduce((best, next) => (next.count > best.count ? next : best)).delimiter
+}
+
+// JSON records with nested objects flattened to dotted names, as the server stores them
+function flattenRecord(value: any, prefix = '', out: Record<string, any> = {}): Record<string, any> {
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    Object.entries(value).forEach(([key, child]) => flattenRecord(child, prefix ? `${prefix}.${key}` : key, out))
+  } else {
+    out[prefix || 'value'] = Array.isArray(value) ? JSON.stringify(value) : value
+  }
+  return out
+}
+
+function readJsonRecords(text: string, ndjson: boolean): Record<string, any>[] {
+  if (ndjson) {
+    return text.split('\n').filter(line => line.trim()).map(line => flattenRecord(JSON.parse(line)))
+  }
+  const parsed = JSON.parse(text)
+  return (Array.isArray(parsed) ? parsed : [parsed]).map(record => flattenRecord(record))
+}
+
+// Preview text for a value decoded from a Parquet or Arrow file
+function previewValue(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString()
+  if (value !== null && typeof value === 'object') {
+    return JSON.stringify(value, (_key, child) => (typeof child === 'bigint' ? child.toString() : child))
+  }
+  return value
+}
+
+// Parquet and Arrow files declare their column types, shown as the file names them
+async function readTypedPreview(
+  file: File,
+  parquet: boolean
+): Promise<{ columns: Array<{ name: string; type: string }>; rows: Record<string, any>[]; rowCount: number }> {
+  const buffer = await file.arrayBuffer()
+  let columns: Array<{ name: string; type: string }>
+  let records: Record<string, unknown>[]
+  let rowCount: number
+  if (parquet) {
+    const { parquetMetadata, parquetSchema, parquetReadObjects } = await import('hyparquet')
+    const { compressors } = await import('hyparquet-compressors')
+    const metadata = parquetMetadata(buffer)
+    columns = parquetSchema(metadata).children.map(({ element, children }) => ({
+      name: element.name,
+      type: children.length > 0 ? 'STRUCT' : element.logical_type?.type ?? element.converted_type ?? element.type ?? 'BYTE_ARRAY',
+    }))
+    records = await parquetReadObjects({ file: buffer, metadata, rowEnd: 10, compressors })
+    rowCount = Number(metadata.num_rows)
+  } else {
+    const { tableFromIPC } = await import('apache-arrow')
+    const table = tableFromIPC(new Uint8Array(buffer))
+    columns = table.schema.fields.map(field => ({ name: field.name, type: String(field.type) }))
+    records = table.slice(0, 10).toArray().map(row => row.toJSON())
+    rowCount = table.numRows
+  }
+  const rows = records.map(record =>
+    Object.fromEntries(columns.map(({ name }) => [name, previewValue(record[name])]))
+  )
+  return { columns, rows, rowCount }
+}
+
+function rowText(row: unknown[]): string {
+  const text = row.map(value => (value == null ? '' : String(value).trim())).filter(Boolean).join(' | ')
+  return text.length > 50 ? `${text.slice(0, 47)}...` : text
+}
+
+/**
+ * Header, data rows and cleanup report of a table's raw rows, found by the server's own cleanup
+ * (lib/data/ingestion/cleanup)
+ */
+function cleanRows(rawRows: unknown[][], options: CleanupOptions): CleanedPreview {
+  const cleaner = new TableCleaner(options)
+  const dataRows = [...rawRows.flatMap(row => cleaner.push(row)), ...cleaner.end()]
+  const headers = cleaner.headers ?? []
+  const names = sanitizeColumnNames(headers)
+  const rows = dataRows.slice(0, 10).map(({ row: values }) => {
+    const row: Record<string, any> = {}
+    names.forEach((name, idx) => {
+      row[name] = values[idx] ?? ''
+    })
+    return row
+  })
+  const headerCandidates = rawRows
+    .map((row, idx) => ({ line: idx + 1, text: rowText(row) }))
+    .filter(candidate => candidate.text !== '')
+    .slice(0, HEADER_SCAN_ROWS)
+  return {
+    rows,
+    columns: detectColumnTypes(names.map(name => ({ name, type: 'text' })), rows),
+    rowCount: headers.length > 0 ? dataRows.length : 0,
+    cleanup: cleaner.report(),
+    headerCandidates,
+  }
+}
+
+/**
+ * Preview of every sheet in a workbook, with merged cells filled in as on the server
+ */
+async function readWorkbookSheets(file: File, cleanup: CleanupOptions): Promise<SheetPreview[]> {
+  const XLSX = await import('xlsx')
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' })
+  return workbook.SheetNames.map(name => {
+    const worksheet = workbook.Sheets[name]
+    fillMergedCells(worksheet)
+    const allRows = XLSX.utils.sheet_to_json(worksheet, {
+      header: 1,
+      raw: false,
+      blankrows: true,
+      defval: null,
+    }) as unknown[][]
+    return { name, ...cleanRows(allRows, cleanup) }
+  })
+}
+
 export function FilePreviewModal({
   open,
   onOpenChange,
   file,
+  tables = [],
   onConfirm,
   onCancel,
 }: FilePreviewModalProps) {
   const [previewData, setPreviewData] = useState<FilePreviewData | null>(null)
+  const [sheets, setSheets] = useState<SheetPreview[] | null>(null)
+  const [selectedSheets, setSelectedSheets] = useState<string[]>([])
+  const [activeSheet, setActiveSheet] = useState<string | null>(null)
+  // Encoding found in a text file, and the one picked instead ('auto' keeps the detected one)
+  const [detectedEncoding, setDetectedEncoding] = useState<string | null>(null)
+  const [encodingChoice, setEncodingChoice] = useState('auto')
+  // How the header was found in the shown table, and the user's overrides
+  const [cleanedTable, setCleanedTable] = useState<CleanedPreview | null>(null)
+  const [cleanupChoice, setCleanupChoice] = useState<CleanupOptions>({})
+  // Where the upload goes: a new table, or into one of `tables`
+  const [uploadMode, setUploadMode] = useState('new')
+  const [target, setTarget] = useState<string | null>(null)
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
   useEffect(() => {
     if (!file || !open) {
       setPreviewData(null)
+      setSheets(null)
+      setSelectedSheets([])
+      setActiveSheet(null)
+      setDetectedEncoding(null)
+      setEncodingChoice('auto')
+      setCleanedTable(null)
+      setCleanupChoice({})
+      setUploadMode('new')
+      setTarget(null)
       setError(null)
       return
     }
@@ -49,68 +287,110 @@ export function FilePreviewModal({
     setIsLoading(true)
     setError(null)
 
+    // Text files are decoded the way the server will decode them
+    const readText = async (): Promise<string> => {
+      const bytes = new Uint8Array(await file.arrayBuffer())
+      const detected = detectEncoding(bytes)
+      setDetectedEncoding(detected)
+      return new TextDecoder(encodingChoice === 'auto' ? detected : encodingChoice).decode(bytes)
+    }
+
     const loadPreview = async () => {
       try {
         const fileExtension = file.name.toLowerCase().split('.').pop()
         let rows: Record<string, any>[] = []
         let columns: Array<{ name: string; type: string }> = []
 
-        if (fileExtension === 'csv') {
-          const text = await file.text()
-          const lines = text.split('\n').filter(line => line.trim())
-          if (lines.length === 0) {
+        let totalRows = 0
+
+        if (['csv', 'tsv', 'tab', 'txt'].includes(fileExtension || '')) {
+          const text = await readText()
+          // Blank lines are kept so rows are numbered as in the file
+          const lines = text.split('\n').map(line => line.replace(/\r$/, ''))
+          if (!lines.some(line => line.trim())) {
             throw new Error('File is empty')
           }
 
-          // Parse CSV header
-          const headerLine = lines[0]
-          const headers = headerLine.split(',').map(h => h.trim().replace(/^"|"$/g, ''))
-          columns = headers.map(name => ({ name, type: 'text' }))
+          // Delimiter from the leading lines, which may start with a title
+          const delimiter = guessDelimiter(lines.filter(line => line.trim()).slice(0, HEADER_SCAN_ROWS).join('\n'))
+          const cleaned = cleanRows(
+            lines.map(line => line.split(delimiter).map(v => v.trim().replace(/^"|"$/g, ''))),
+            cleanupChoice
+          )
+          setCleanedTable(cleaned)
+          columns = cleaned.columns
+          rows = cleaned.rows
+          totalRows = cleaned.rowCount
+        } else if (['json', 'ndjson', 'jsonl'].includes(fileExtension || '')) {
+          const text = await readText()
+          const trimmed = text.trim()
+          // A .json file may hold one object per line as well
+          const ndjson = fileExtension !== 'json' || (trimmed.startsWith('{') && trimmed.includes('\n{'))
+          const records = readJsonRecords(trimmed, ndjson)
+          if (records.length === 0) {
+            throw new Error('File is empty')
+          }
 
-          // Parse first 10 rows
-          const dataLines = lines.slice(1, 11)
-          rows = dataLines.map(line => {
-            const values = line.split(',').map(v => v.trim().replace(/^"|"$/g, ''))
+          // Every key of any record is a column
+          const headers = Array.from(new Set(records.flatMap(record => Object.keys(record))))
+          columns = headers.map(name => ({ name, type: 'text' }))
+          rows = records.slice(0, 10).map(record => {
             const row: Record<string, any> = {}
-            headers.forEach((header, idx) => {
-              row[header] = values[idx] || ''
+            headers.forEach(header => {
+              row[header] = record[header] ?? ''
             })
             return row
           })
+          totalRows = records.length
 
           // Detect column types
-          if (rows.length > 0) {
-            columns = columns.map(col => {
-              const sampleValues = rows.map(r => r[col.name]).filter(v => v !== '' && v !== null && v !== undefined)
-              if (sampleValues.length === 0) return { ...col, type: 'text' }
-
-              // Check if numeric
-              const numericCount = sampleValues.filter(v => !isNaN(Number(v)) && v !== '').length
-              if (numericCount / sampleValues.length > 0.8) {
-                return { ...col, type: 'number' }
-              }
-
-              // Check if date
-              const dateCount = sampleValues.filter(v => !isNaN(Date.parse(v))).length
-              if (dateCount / sampleValues.length > 0.5) {
-                return { ...col, type: 'date' }
-              }
-
-              return { ...col, type: 'text' }
-            })
+          columns = detectColumnTypes(columns, rows)
+        } else if (['parquet', 'arrow', 'feather', 'arrows'].includes(fileExtension || '')) {
+          const preview = await readTypedPreview(file, fileExtension === 'parquet')
+          if (preview.columns.length === 0) {
+            throw new Error('File is empty')
           }
+          columns = preview.columns
+          rows = preview.rows
+          totalRows = preview.rowCount
+        } else if (['sqlite', 'sqlite3', 'db'].includes(fileExtension || '')) {
+          // SQLite runs as WebAssembly on the server only; the tables are listed after upload
+          setPreviewData({
+            rows: [],
+            columns: [],
+            rowCount: 0,
+            fileSize: file.size,
+            fileName: file.name,
+            note: 'Every table of the database is attached, with its declared column types and foreign keys.',
+          })
+          return
         } else if (fileExtension === 'xlsx' || fileExtension === 'xls') {
-          // For Excel files, we'd need to use xlsx library
-          // For now, show a message that Excel preview requires upload
-          throw new Error('Excel file preview requires upload. Please upload to see preview.')
+          const workbookSheets = await readWorkbookSheets(file, cleanupChoice)
+          const nonEmpty = workbookSheets.filter(sheet => sheet.rowCount > 0)
+          if (nonEmpty.length === 0) {
+            throw new Error('File is empty')
+          }
+          // A changed cleanup choice re-reads the workbook; the picked and shown sheets stay
+          const shown = nonEmpty.find(sheet => sheet.name === activeSheet) ?? nonEmpty[0]
+          setSheets(workbookSheets)
+          setSelectedSheets(prev => {
+            const kept = prev.filter(name => nonEmpty.some(sheet => sheet.name === name))
+            return kept.length > 0 ? kept : nonEmpty.map(sheet => sheet.name)
+          })
+          setActiveSheet(shown.name)
+          setCleanedTable(shown)
+          setPreviewData({
+            rows: shown.rows,
+            columns: shown.columns,
+            rowCount: shown.rowCount,
+            fileSize: file.size,
+            fileName: file.name,
+          })
+          return
         } else {
           throw new Error('Unsupported file type')
         }
 
-        // Count total rows (approximate for CSV)
-        const text = await file.text()
-        const totalRows = text.split('\n').filter(line => line.trim()).length - 1 // Subtract header
-
         setPreviewData({
           rows,
           columns,
@@ -126,7 +406,9 @@ export function FilePreviewModal({
     }
 
     loadPreview()
-  }, [file, open])
+    // activeSheet is only read to keep showing the same sheet after a re-read
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [file, open, encodingChoice, cleanupChoice])
 
   const formatFileSize = (bytes: number): string => {
     if (bytes < 1024) return `${bytes} B`
@@ -134,13 +416,40 @@ export function FilePreviewModal({
     return `${(bytes / (1024 * 1024)).toFixed(2)} MB`
   }
 
+  // A table with the same file name is the likely one to update
+  const targetTable = tables.find(table => table.id === target)
+    ?? tables.find(table => table.fileName === file?.name)
+    ?? tables[0]
+  const singleTable = !sheets || selectedSheets.length === 1
+
   const handleConfirm = () => {
     if (file) {
-      onConfirm(file)
+      // Only send a choice when some non-empty sheet was left out
+      const allSheets = !sheets || sheets.every(sheet => sheet.rowCount === 0 || selectedSheets.includes(sheet.name))
+      onConfirm(file, {
+        sheets: allSheets ? undefined : selectedSheets,
+        encoding: encodingChoice === 'auto' ? undefined : encodingChoice,
+        cleanup: Object.keys(cleanupChoice).length > 0 ? cleanupChoice : undefined,
+        ...(uploadMode !== 'new' && targetTable
+          ? { mode: uploadMode as UploadChoices['mode'], target: targetTable.id }
+          : {}),
+      })
       onOpenChange(false)
     }
   }
 
+  const showSheet = (sheet: SheetPreview) => {
+    setActiveSheet(sheet.name)
+    setCleanedTable(sheet)
+    setPreviewData(prev => prev && { ...prev, rows: sheet.rows, columns: sheet.columns, rowCount: sheet.rowCount })
+  }
+
+  const toggleSheet = (name: string) => {
+    setSelectedSheets(prev =>
+      prev.includes(name) ? prev.filter(selected => selected !== name) : [...prev, name]
+    )
+  }
+
   const handleCancel = () => {
     onCancel()
     onOpenChange(false)
@@ -185,10 +494,178 @@ export function FilePreviewModal({
               </div>
               <div>
                 <div className="text-xs sm:text-sm text-muted-foreground">Total Rows</div>
-                <div className="font-medium text-xs sm:text-sm">{previewData.rowCount.toLocaleString()}</div>
+                <div className="font-medium text-xs sm:text-sm">
+                  {previewData.note ? 'Read on upload' : previewData.rowCount.toLocaleString()}
+                </div>
               </div>
             </div>
 
+            {/* Encoding */}
+            {detectedEncoding && (
+              <div className="flex flex-col sm:flex-row sm:items-center gap-2 text-xs sm:text-sm">
+                <label htmlFor="file-encoding" className="font-semibold">Encoding</label>
+                <Select value={encodingChoice} onValueChange={setEncodingChoice}>
+                  <SelectTrigger id="file-encoding" className="w-full sm:w-64 text-xs sm:text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="auto">
+                      Detected ({TEXT_ENCODINGS.find(option => option.value === detectedEncoding)?.label ?? detectedEncoding})
+                    </SelectItem>
+                    {TEXT_ENCODINGS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <span className="text-muted-foreground">Change it if characters look wrong in the preview</span>
+              </div>
+            )}
+
+            {/* Sheet Picker */}
+            {sheets && (
+              <div>
+                <h3 className="font-semibold mb-2 text-xs sm:text-sm">
+                  Sheets ({selectedSheets.length} of {sheets.length} selected, each becomes a table)
+                </h3>
+                <div className="space-y-1">
+                  {sheets.map(sheet => (
+                    <div
+                      key={sheet.name}
+                      className={`flex items-center gap-2 p-2 rounded text-xs sm:text-sm ${
+                        activeSheet === sheet.name ? 'bg-muted' : ''
+                      }`}
+                    >
+                      <input
+                        type="checkbox"
+                        id={`sheet-${sheet.name}`}
+                        checked={selectedSheets.includes(sheet.name)}
+                        disabled={sheet.rowCount === 0}
+                        onChange={() => toggleSheet(sheet.name)}
+                        className="h-4 w-4"
+                      />
+                      <label htmlFor={`sheet-${sheet.name}`} className="flex-1 break-words">
+                        {sheet.name}
+                        <span className="ml-2 text-muted-foreground">
+                          {sheet.rowCount > 0 ? `${sheet.rowCount.toLocaleString()} rows` : 'empty'}
+                        </span>
+                      </label>
+                      {sheet.rowCount > 0 && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => showSheet(sheet)}
+                          disabled={activeSheet === sheet.name}
+                          className="text-xs"
+                        >
+                          Preview
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Cleanup */}
+            {cleanedTable && (
+              <div className="space-y-2 text-xs sm:text-sm">
+                <h3 className="font-semibold">Cleanup{sheets ? ' (applies to every sheet)' : ''}</h3>
+                <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                  <label htmlFor="header-row">Header row</label>
+                  <Select
+                    value={cleanupChoice.headerRow ? String(cleanupChoice.headerRow) : 'auto'}
+                    onValueChange={value =>
+                      setCleanupChoice(prev => ({ ...prev, headerRow: value === 'auto' ? undefined : Number(value) }))
+                    }
+                  >
+                    <SelectTrigger id="header-row" className="w-full sm:w-80 text-xs sm:text-sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="auto">Detected (row {cleanedTable.cleanup.headerRow})</SelectItem>
+                      {cleanedTable.headerCandidates.map(candidate => (
+                        <SelectItem key={candidate.line} value={String(candidate.line)}>
+                          Row {candidate.line}: {candidate.text}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    id="drop-trailing-rows"
+                    checked={!cleanupChoice.keepTrailingRows}
+                    onChange={event =>
+                      setCleanupChoice(prev => ({ ...prev, keepTrailingRows: event.target.checked ? undefined : true }))
+                    }
+                    className="h-4 w-4"
+                  />
+                  <label htmlFor="drop-trailing-rows">Leave out total and footnote rows at the end</label>
+                </div>
+                <ul className="list-disc pl-5 text-muted-foreground space-y-1">
+                  {cleanedTable.cleanup.skippedRows > 0 && (
+                    <li>Skipped {cleanedTable.cleanup.skippedRows} row(s) above the header</li>
+                  )}
+                  {cleanedTable.cleanup.repeatedHeaders > 0 && (
+                    <li>Left out {cleanedTable.cleanup.repeatedHeaders} repeated header row(s)</li>
+                  )}
+                  {cleanedTable.cleanup.droppedRows.map((row, idx) => (
+                    <li key={`dropped-${idx}`} className="break-words">Left out trailing row: {row}</li>
+                  ))}
+                  {cleanedTable.cleanup.renamedHeaders.map(({ header, name }, idx) => (
+                    <li key={`renamed-${idx}`} className="break-words">
+                      {header ? `Repeated header "${header}"` : 'Empty header'} named {name}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {/* Upload Mode */}
+            {tables.length > 0 && (
+              <div className="space-y-1 text-xs sm:text-sm">
+                <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                  <label htmlFor="upload-mode" className="font-semibold">Add as</label>
+                  <Select value={uploadMode} onValueChange={setUploadMode}>
+                    <SelectTrigger id="upload-mode" className="w-full sm:w-48 text-xs sm:text-sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {UPLOAD_MODES.map(option => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {uploadMode !== 'new' && targetTable && (
+                    <Select value={targetTable.id} onValueChange={setTarget}>
+                      <SelectTrigger aria-label="Table to update" className="w-full sm:w-64 text-xs sm:text-sm">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {tables.map(table => (
+                          <SelectItem key={table.id} value={table.id}>
+                            {table.fileName}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+                {uploadMode !== 'new' && (
+                  <div className="text-muted-foreground">
+                    {singleTable
+                      ? 'Added, removed or retyped columns are reported after upload; an identical upload is not saved again.'
+                      : 'Pick a single sheet to update an existing table.'}
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Warnings */}
             {showWarning && (
               <Alert>
@@ -204,55 +681,68 @@ export function FilePreviewModal({
               </Alert>
             )}
 
-            {/* Column Types */}
-            <div>
-              <h3 className="font-semibold mb-2 text-xs sm:text-sm">Detected Columns ({previewData.columns.length})</h3>
-              <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-2">
-                {previewData.columns.map((col, idx) => (
-                  <div key={idx} className="p-2 bg-muted rounded text-xs sm:text-sm">
-                    <div className="font-medium break-words">{col.name}</div>
-                    <div className="text-[10px] sm:text-xs text-muted-foreground">{col.type}</div>
+            {previewData.note ? (
+              <Alert>
+                <CheckCircle2 className="h-4 w-4" />
+                <AlertDescription>{previewData.note}</AlertDescription>
+              </Alert>
+            ) : (
+              <>
+                {/* Column Types */}
+                <div>
+                  <h3 className="font-semibold mb-2 text-xs sm:text-sm">Detected Columns ({previewData.columns.length})</h3>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-2">
+                    {previewData.columns.map((col, idx) => (
+                      <div key={idx} className="p-2 bg-muted rounded text-xs sm:text-sm">
+                        <div className="font-medium break-words">{col.name}</div>
+                        <div className="text-[10px] sm:text-xs text-muted-foreground">{col.type}</div>
+                      </div>
+                    ))}
                   </div>
-                ))}
-              </div>
-            </div>
+                </div>
 
-            {/* Data Preview */}
-            <div>
-              <h3 className="font-semibold mb-2 text-xs sm:text-sm">First 10 Rows Preview</h3>
-              <div className="border rounded-lg overflow-x-auto max-h-[300px] -mx-2 px-2 sm:mx-0 sm:px-0">
-                <table className="w-full text-xs sm:text-sm min-w-full">
-                  <thead className="bg-muted sticky top-0">
-                    <tr>
-                      {previewData.columns.map((col, idx) => (
-                        <th key={idx} className="px-2 sm:px-3 py-2 text-left font-medium whitespace-nowrap">
-                          {col.name}
-                        </th>
-                      ))}
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {previewData.rows.map((row, rowIdx) => (
-                      <tr key={rowIdx} className="border-t">
-                        {previewData.columns.map((col, colIdx) => (
-                          <td key={colIdx} className="px-2 sm:px-3 py-2 whitespace-nowrap">
-                            {String(row[col.name] || '').substring(0, 30)}
-                            {String(row[col.name] || '').length > 30 ? '...' : ''}
-                          </td>
+                {/* Data Preview */}
+                <div>
+                  <h3 className="font-semibold mb-2 text-xs sm:text-sm">First 10 Rows Preview</h3>
+                  <div className="border rounded-lg overflow-x-auto max-h-[300px] -mx-2 px-2 sm:mx-0 sm:px-0">
+                    <table className="w-full text-xs sm:text-sm min-w-full">
+                      <thead className="bg-muted sticky top-0">
+                        <tr>
+                          {previewData.columns.map((col, idx) => (
+                            <th key={idx} className="px-2 sm:px-3 py-2 text-left font-medium whitespace-nowrap">
+                              {col.name}
+                            </th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {previewData.rows.map((row, rowIdx) => (
+                          <tr key={rowIdx} className="border-t">
+                            {previewData.columns.map((col, colIdx) => (
+                              <td key={colIdx} className="px-2 sm:px-3 py-2 whitespace-nowrap">
+                                {String(row[col.name] || '').substring(0, 30)}
+                                {String(row[col.name] || '').length > 30 ? '...' : ''}
+                              </td>
+                            ))}
+                          </tr>
                         ))}
-                      </tr>
-                    ))}
-                  </tbody>
-                </table>
-              </div>
-            </div>
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              </>
+            )}
 
             {/* Actions */}
             <div className="flex flex-col-reverse sm:flex-row justify-end gap-2 pt-3 sm:pt-4 border-t">
               <Button variant="outline" onClick={handleCancel} className="min-h-[44px] text-xs sm:text-sm w-full sm:w-auto">
                 Cancel
               </Button>
-              <Button onClick={handleConfirm} className="min-h-[44px] text-xs sm:text-sm w-full sm:w-auto">
+              <Button
+                onClick={handleConfirm}
+                disabled={(!!sheets && selectedSheets.length === 0) || (uploadMode !== 'new' && !singleTable)}
+                className="min-h-[44px] text-xs sm:text-sm w-full sm:w-auto"
+              >
                 <CheckCircle2 className="h-4 w-4 mr-2" />
                 Confirm Upload
               </Button>
@@ -9,14 +9,33 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog'
 import { DataTable } from './DataTable'
+import { Button } from '@/components/ui/button'
 import { Skeleton } from '@/components/ui/skeleton'
 import type { ColumnMetadata } from '@/types'
 
+// One upload of the table (lib/data/fileRegistry DatasetVersion)
+export interface TableVersion {
+  id: string
+  version: number
+  mode: string
+  rowCount: number
+  uploadedAt: string
+}
+
 interface FileViewerModalProps {
   open: boolean
   onOpenChange: (open: boolean) => void
   fileId: string
   fileName: string
+  // Called when the user picks another version of the table for their queries
+  onSelectVersion?: (version: TableVersion) => void
+}
+
+const VERSION_MODES: Record<string, string> = {
+  new: 'uploaded',
+  append: 'rows appended',
+  replace: 'replaced',
+  version: 'new version',
 }
 
 export function FileViewerModal({
@@ -24,10 +43,12 @@ export function FileViewerModal({
   onOpenChange,
   fileId,
   fileName,
+  onSelectVersion,
 }: FileViewerModalProps) {
   const [loading, setLoading] = useState(true)
   const [fileData, setFileData] = useState<any[]>([])
   const [columns, setColumns] = useState<ColumnMetadata[]>([])
+  const [versions, setVersions] = useState<TableVersion[]>([])
   const [error, setError] = useState<string | null>(null)
 
   useEffect(() => {
@@ -52,6 +73,7 @@ export function FileViewerModal({
         .then((data) => {
           setFileData(data.data || [])
           setColumns(data.columns || [])
+          setVersions(data.versions || [])
           setLoading(false)
         })
         .catch((err) => {
@@ -62,6 +84,7 @@ export function FileViewerModal({
       // Reset when modal closes
       setFileData([])
       setColumns([])
+      setVersions([])
       setError(null)
     }
   }, [open, fileId])
@@ -82,6 +105,28 @@ export function FileViewerModal({
           </DialogDescription>
         </DialogHeader>
         
+        {versions.length > 1 && (
+          <div className="mt-3 flex flex-wrap items-center gap-2 text-xs sm:text-sm">
+            <span className="font-semibold">Versions</span>
+            {versions.map(version => (
+              <Button
+                key={version.id}
+                variant={version.id === fileId ? 'default' : 'outline'}
+                size="sm"
+                className="text-xs"
+                disabled={version.id === fileId || !onSelectVersion}
+                onClick={() => onSelectVersion?.(version)}
+                title={`${VERSION_MODES[version.mode] ?? version.mode} ${new Date(version.uploadedAt).toLocaleString()}`}
+              >
+                v{version.version} ({version.rowCount.toLocaleString()} rows)
+              </Button>
+            ))}
+            {onSelectVersion && (
+              <span className="text-muted-foreground">Pick the version your queries use</span>
+            )}
+          </div>
+        )}
+
         <div className="mt-3 sm:mt-4">
           {loading ? (
             <div className="space-y-4">
@@ -2,7 +2,7 @@
 
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
-import { Moon, Sun, Database, LogOut, Trash2 } from 'lucide-react'
+import { Moon, Sun, Database, LogOut, Pin, PinOff, Trash2 } from 'lucide-react'
 import type { QueryHistoryItem, ChatInfo } from '@/types'
 import type { ChatMessage } from '@/lib/data/chatStore'
 import { MessageSquare, Plus } from 'lucide-react'
@@ -17,6 +17,7 @@ interface HistorySidebarProps {
   currentChatId?: string | null
   onChatClick?: (chatId: string) => void
   onChatDelete?: (chatId: string) => void
+  onChatPin?: (chatId: string, pinned: boolean) => void
   onNewChat?: () => void
   chatMessages?: ChatMessage[]
   onMessageClick?: (message: ChatMessage) => void
@@ -41,6 +42,7 @@ export function HistorySidebar({
   currentChatId,
   onChatClick,
   onChatDelete,
+  onChatPin,
   onNewChat,
   chatMessages = [],
   onMessageClick,
@@ -122,7 +124,7 @@ export function HistorySidebar({
                 <button
                   onClick={() => onChatClick?.(chat.chatId)}
                   className={`
-                    w-full text-left text-xs p-2 pr-8 rounded-md transition-all duration-200 
+                    w-full text-left text-xs p-2 ${onChatPin ? 'pr-14' : 'pr-8'} rounded-md transition-all duration-200 
                     hover:scale-[1.02] hover:shadow-sm
                     ${currentChatId === chat.chatId 
                       ? 'text-primary font-semibold' 
@@ -130,11 +132,26 @@ export function HistorySidebar({
                     }
                   `}
                 >
-                  <div className="font-medium truncate">{chat.title}</div>
+                  <div className="font-medium truncate">
+                    {chat.pinned && <Pin className="inline h-3 w-3 mr-1 text-primary" aria-label="Pinned" />}
+                    {chat.title}
+                  </div>
                   <div className="text-muted-foreground text-[10px] mt-1">
                     {new Date(chat.updatedAt).toLocaleString()} • {chat.messageCount} messages
                   </div>
                 </button>
+                {onChatPin && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      onChatPin(chat.chatId, !chat.pinned)
+                    }}
+                    className="absolute right-8 top-1/2 -translate-y-1/2 opacity-0 group-hover:opacity-100 transition-opacity p-1.5 rounded hover:bg-primary/10"
+                    title={chat.pinned ? 'Unpin chat (it expires again when inactive)' : 'Pin chat (never expires)'}
+                  >
+                    {chat.pinned ? <PinOff className="h-3.5 w-3.5" /> : <Pin className="h-3.5 w-3.5" />}
+                  </button>
+                )}
                 {onChatDelete && (
                   <button
                     onClick={(e) => {
@@ -9,13 +9,67 @@ import { useToast } from '@/components/ui/use-toast'
 import { FileViewerModal } from './FileViewerModal'
 import { QuerySuggestions } from './QuerySuggestions'
 import { QueryTemplates } from './QueryTemplates'
-import { FilePreviewModal } from './FilePreviewModal'
+import { FilePreviewModal, type UploadChoices } from './FilePreviewModal'
+import type { TableVersion } from './FileViewerModal'
 import { saveRecentQuery } from '@/lib/utils/querySuggestions'
 
 interface AttachedFile {
   id: string
   fileName: string
   rowCount: number
+  // Version of the table, when it has been appended to, replaced or versioned
+  version?: number
+  // A past version picked for queries instead of the chat's current one
+  pinned?: boolean
+}
+
+// Toast text for one uploaded table: how it went into the chat and how its columns changed
+function describeUpload(f: any): string {
+  if (f.duplicate) return `${f.fileName}: same data as v${f.version}, nothing new saved`
+  const drift = f.drift
+    ? [
+        ...f.drift.added.map((name: string) => `+${name}`),
+        ...f.drift.removed.map((name: string) => `-${name}`),
+        ...f.drift.retyped.map((col: any) => `${col.name} ${col.from}→${col.to}`),
+      ].join(', ')
+    : ''
+  const version = f.version > 1 ? ` v${f.version}` : ''
+  return `${f.fileName}${version} (${f.rowCount} rows)${drift ? `, columns changed: ${drift}` : ''}`
+}
+
+interface UploadLimits {
+  maxBytes: number
+  maxRows: number
+}
+
+/**
+ * POST a form with XMLHttpRequest, which (unlike fetch) reports upload progress
+ */
+function postWithProgress(
+  url: string,
+  body: FormData,
+  onProgress: (percent: number) => void
+): Promise<{ ok: boolean; data: any }> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest()
+    xhr.open('POST', url)
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress(Math.round((event.loaded / event.total) * 100))
+      }
+    }
+    xhr.onload = () => {
+      let data: any = {}
+      try {
+        data = JSON.parse(xhr.responseText)
+      } catch (error) {
+        // Non-JSON response (e.g. a proxy error page)
+      }
+      resolve({ ok: xhr.status >= 200 && xhr.status < 300, data })
+    }
+    xhr.onerror = () => reject(new Error('Network error while uploading'))
+    xhr.send(body)
+  })
 }
 
 interface QueryInputProps {
@@ -40,6 +94,8 @@ export function QueryInput({
   const [query, setQuery] = useState('')
   const [attachedFiles, setAttachedFiles] = useState<AttachedFile[]>([])
   const [isUploading, setIsUploading] = useState(false)
+  // Percent of the file sent; 100 while the server is still parsing it
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null)
   const [viewingFile, setViewingFile] = useState<{ id: string; fileName: string } | null>(null)
   const [showSuggestions, setShowSuggestions] = useState(false)
   const [previewFile, setPreviewFile] = useState<File | null>(null)
@@ -48,6 +104,7 @@ export function QueryInput({
   const fileInputRef = useRef<HTMLInputElement>(null)
   const isRemovingRef = useRef(false)
   const timeoutRefs = useRef<Set<NodeJS.Timeout>>(new Set())
+  const uploadLimitsRef = useRef<UploadLimits | null>(null)
   const { toast } = useToast()
 
   // Sync chatFiles prop to attachedFiles state when chat changes
@@ -114,34 +171,64 @@ export function QueryInput({
   }, [])
 
 
-  const handleFileSelect = async (file: File) => {
+  // `choices` come from the preview: the sheets of a workbook (otherwise every non-empty sheet
+  // becomes a table), the encoding of a text file and the header row and trailing rows to keep
+  // (otherwise the server detects them), and the chat table the upload updates, if any
+  const handleFileSelect = async (file: File, { sheets, encoding, cleanup, mode, target }: UploadChoices = {}) => {
     if (!file) return
 
-    const validExtensions = ['.csv', '.xlsx', '.xls']
+    const validExtensions = ['.csv', '.tsv', '.tab', '.txt', '.json', '.ndjson', '.jsonl', '.xlsx', '.xls', '.parquet', '.arrow', '.feather', '.arrows', '.sqlite', '.sqlite3', '.db']
     const fileExtension = file.name.toLowerCase().substring(file.name.lastIndexOf('.'))
     
     if (!validExtensions.some(ext => file.name.toLowerCase().endsWith(ext))) {
       toast({
         title: 'Invalid file type',
-        description: 'Please upload a CSV or Excel file (.csv, .xlsx, .xls)',
+        description: 'Please upload a CSV, TSV, JSON, Excel, Parquet, Arrow or SQLite file (.csv, .tsv, .txt, .json, .ndjson, .xlsx, .xls, .parquet, .arrow, .feather, .sqlite, .db)',
         variant: 'destructive',
       })
       return
     }
 
-    if (file.size > 10 * 1024 * 1024) {
+    // The server enforces the limits as well; checking here avoids sending a file it will refuse
+    if (!uploadLimitsRef.current) {
+      try {
+        const limitsRes = await fetch('/api/attachments')
+        if (limitsRes.ok) {
+          uploadLimitsRef.current = (await limitsRes.json()).limits || null
+        }
+      } catch (error) {
+        // Fall back to the server's check
+      }
+    }
+    const maxBytes = uploadLimitsRef.current?.maxBytes
+    if (maxBytes && file.size > maxBytes) {
       toast({
         title: 'File too large',
-        description: 'Please upload a file smaller than 10MB',
+        description: `Please upload a file smaller than ${Math.round(maxBytes / (1024 * 1024))}MB`,
         variant: 'destructive',
       })
       return
     }
 
     setIsUploading(true)
+    setUploadProgress(0)
 
     try {
       const formData = new FormData()
+      // The server reads these choices before the file part, so they have to come first
+      if (sheets) {
+        formData.append('sheets', JSON.stringify(sheets))
+      }
+      if (encoding) {
+        formData.append('encoding', encoding)
+      }
+      if (cleanup) {
+        formData.append('cleanup', JSON.stringify(cleanup))
+      }
+      if (mode && target) {
+        formData.append('mode', mode)
+        formData.append('target', target)
+      }
       formData.append('file', file)
       
       // CRITICAL: chatId is REQUIRED - ensure we have one before uploading
@@ -183,21 +270,28 @@ export function QueryInput({
       // This ensures files persist even if serverless resets
       formData.append('chatId', chatIdToUse)
 
-      const response = await fetch('/api/attachments', {
-        method: 'POST',
-        body: formData,
-      })
-
-      const data = await response.json()
+      const response = await postWithProgress('/api/attachments', formData, setUploadProgress)
+      const data = response.data
 
       if (!response.ok) {
         throw new Error(data.error || 'Upload failed')
       }
 
-      const newFile: AttachedFile = {
-        id: data.fileId,
-        fileName: data.fileName,
-        rowCount: data.rowCount,
+      // One attached table per file, or per sheet of a workbook (table of a database)
+      const newFiles: AttachedFile[] = (data.files || []).map((f: any) => ({
+        id: f.fileId,
+        fileName: f.fileName,
+        rowCount: f.rowCount,
+        version: f.version,
+      }))
+      // A new version takes the place of the one it replaces
+      const replacements = new Map<string, AttachedFile>()
+      newFiles.forEach((newFile, i) => {
+        if (data.files[i].replaces) replacements.set(data.files[i].replaces, newFile)
+      })
+      const withNewFiles = (prev: AttachedFile[]) => {
+        const updated = prev.map(f => replacements.get(f.id) ?? f)
+        return [...updated, ...newFiles.filter(newFile => !updated.some(f => f.id === newFile.id))]
       }
       
       // Use chatId from response if provided (backend returns it)
@@ -207,10 +301,10 @@ export function QueryInput({
       
       let updatedFiles: AttachedFile[] = []
       setAttachedFiles(prev => {
-        if (prev.some(f => f.id === newFile.id)) {
+        if (newFiles.every(newFile => prev.some(f => f.id === newFile.id))) {
           return prev
         }
-        updatedFiles = [...prev, newFile]
+        updatedFiles = withNewFiles(prev)
         if (chatIdToUse) {
           localStorage.setItem(`chat_files_${chatIdToUse}`, JSON.stringify(updatedFiles))
         }
@@ -233,7 +327,7 @@ export function QueryInput({
             body: JSON.stringify({
               chatId: chatIdToUse,
               action: 'addFile',
-              fileIds: [data.fileId],
+              fileIds: newFiles.map(f => f.id),
             }),
           })
           const responseData = await res.json().catch((error: unknown) => {
@@ -251,6 +345,7 @@ export function QueryInput({
               id: f.id,
               fileName: f.fileName,
               rowCount: f.data?.length || f.rowCount || 0,
+              version: f.version,
             }))
             setAttachedFiles(fileList)
             
@@ -274,10 +369,10 @@ export function QueryInput({
           // Failed to add file to chat, but file is already uploaded
           let fallbackFiles: AttachedFile[] = []
           setAttachedFiles(prev => {
-            if (prev.some(f => f.id === newFile.id)) {
+            if (newFiles.every(newFile => prev.some(f => f.id === newFile.id))) {
               return prev
             }
-            fallbackFiles = [...prev, newFile]
+            fallbackFiles = withNewFiles(prev)
             return fallbackFiles
           })
           if (fallbackFiles.length > 0 && onFilesChange) {
@@ -291,10 +386,10 @@ export function QueryInput({
       } else {
         let noChatFiles: AttachedFile[] = []
         setAttachedFiles(prev => {
-          if (prev.some(f => f.id === newFile.id)) {
+          if (newFiles.every(newFile => prev.some(f => f.id === newFile.id))) {
             return prev
           }
-          noChatFiles = [...prev, newFile]
+          noChatFiles = withNewFiles(prev)
           return noChatFiles
         })
         if (noChatFiles.length > 0 && onFilesChange) {
@@ -307,8 +402,11 @@ export function QueryInput({
       }
 
       toast({
-        title: 'File attached',
-        description: `${data.fileName} (${data.rowCount} rows)`,
+        title: data.files?.[0]?.duplicate
+          ? 'Already uploaded'
+          : ({ append: 'Rows appended', replace: 'Table replaced', version: 'New version added' } as Record<string, string>)[mode ?? '']
+            ?? (newFiles.length > 1 ? `${newFiles.length} tables attached` : 'File attached'),
+        description: (data.files || []).map(describeUpload).join(', '),
       })
     } catch (error: any) {
       toast({
@@ -318,6 +416,7 @@ export function QueryInput({
       })
     } finally {
       setIsUploading(false)
+      setUploadProgress(null)
       // Reset file input
       if (fileInputRef.current) {
         fileInputRef.current.value = ''
@@ -334,10 +433,10 @@ export function QueryInput({
     }
   }
 
-  const handlePreviewConfirm = (file: File) => {
+  const handlePreviewConfirm = (file: File, choices: UploadChoices) => {
     setShowPreview(false)
     setPreviewFile(null)
-    handleFileSelect(file)
+    handleFileSelect(file, choices)
   }
 
   const handlePreviewCancel = () => {
@@ -349,6 +448,17 @@ export function QueryInput({
     }
   }
 
+  // Use another version of the viewed table for the next queries; the chat keeps its own
+  const handleSelectVersion = (version: TableVersion) => {
+    if (!viewingFile) return
+    setAttachedFiles(prev => prev.map(f => (
+      f.id === viewingFile.id
+        ? { ...f, id: version.id, rowCount: version.rowCount, version: version.version, pinned: true }
+        : f
+    )))
+    setViewingFile({ ...viewingFile, id: version.id })
+  }
+
   const handleRemoveFile = async (fileId: string) => {
     // Set flag to prevent useEffect from overriding our removal
     isRemovingRef.current = true
@@ -569,7 +679,7 @@ export function QueryInput({
           <input
             ref={fileInputRef}
             type="file"
-            accept=".csv,.xlsx,.xls,text/csv,application/vnd.ms-excel,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+            accept=".csv,.tsv,.tab,.txt,.json,.ndjson,.jsonl,.xlsx,.xls,.parquet,.arrow,.feather,.arrows,.sqlite,.sqlite3,.db,text/csv,text/tab-separated-values,application/json,application/vnd.ms-excel,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
             onChange={handleFileInputChange}
             className="hidden"
             disabled={isLoading || isUploading}
@@ -586,8 +696,12 @@ export function QueryInput({
               {isUploading ? (
                 <>
                   <Loader2 className="h-4 w-4 animate-spin" />
-                  <span className="hidden sm:inline">Uploading...</span>
-                  <span className="sm:hidden">...</span>
+                  <span className="hidden sm:inline">
+                    {uploadProgress === null || uploadProgress < 100
+                      ? `Uploading${uploadProgress ? ` ${uploadProgress}%` : '...'}`
+                      : 'Processing...'}
+                  </span>
+                  <span className="sm:hidden">{uploadProgress ? `${uploadProgress}%` : '...'}</span>
                 </>
               ) : (
                 <>
@@ -615,7 +729,9 @@ export function QueryInput({
               >
                 {file.fileName}
               </button>
-              <span className="text-[10px] sm:text-xs text-green-600/80 dark:text-green-400/80 flex-shrink-0">({file.rowCount})</span>
+              <span className="text-[10px] sm:text-xs text-green-600/80 dark:text-green-400/80 flex-shrink-0">
+                ({file.rowCount}{file.pinned ? `, v${file.version} pinned` : file.version && file.version > 1 ? `, v${file.version}` : ''})
+              </span>
               <button
                 type="button"
                 onClick={() => setViewingFile({ id: file.id, fileName: file.fileName })}
@@ -649,6 +765,7 @@ export function QueryInput({
               }}
               fileId={viewingFile.id}
               fileName={viewingFile.fileName}
+              onSelectVersion={handleSelectVersion}
             />
           )}
         </div>
@@ -658,6 +775,7 @@ export function QueryInput({
         open={showPreview}
         onOpenChange={setShowPreview}
         file={previewFile}
+        tables={attachedFiles}
         onConfirm={handlePreviewConfirm}
         onCancel={handlePreviewCancel}
       />
@@ -0,0 +1,94 @@
+'use client'
+
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Check, Circle, Loader2, X } from 'lucide-react'
+import { EMPTY_PROGRESS, type QueryProgress as Progress } from '@/lib/utils/queryStream'
+
+interface QueryProgressProps {
+  progress: Progress | null
+  onCancel?: () => void
+}
+
+interface Step {
+  label: string
+  done: boolean
+  failed?: boolean
+}
+
+// A cached answer skips the prompt and the model, so reaching the SQL completes them too
+function steps(progress: Progress | null): Step[] {
+  const p = progress ?? EMPTY_PROGRESS
+  const hasSql = p.attempt > 0
+  const executed = p.rowCount !== null
+  const rows = `${p.rowCount} ${p.rowCount === 1 ? 'row' : 'rows'}`
+  return [
+    { label: p.files.length > 0 ? `Files: ${p.files.join(', ')}` : 'Resolving files', done: p.files.length > 0 },
+    {
+      label: p.turns
+        ? `Prompt built, with ${p.turns} earlier ${p.turns === 1 ? 'turn' : 'turns'}`
+        : p.turns !== null || hasSql ? 'Prompt built' : 'Building the prompt',
+      done: p.turns !== null || hasSql,
+    },
+    { label: hasSql ? 'Model answered' : p.reply ? 'Model answering' : 'Waiting for the model', done: hasSql },
+    {
+      label: `${p.attempt > 1 ? `SQL repaired (attempt ${p.attempt})` : 'SQL'}${p.sqlValid === false ? ' failed validation' : p.sqlValid ? ' validated' : ''}`,
+      done: p.sqlValid === true,
+      failed: p.sqlValid === false,
+    },
+    {
+      label: p.executionError ? 'Execution failed' : executed ? `Executed: ${rows}` : 'Executing',
+      done: executed && !p.executionError,
+      failed: !!p.executionError,
+    },
+    { label: p.chartType ? `Chart: ${p.chartType}` : 'Choosing a chart', done: !!p.chartType },
+  ]
+}
+
+/**
+ * The stages of a running query, with the reasoning and SQL as they stream in
+ */
+export function QueryProgress({ progress, onCancel }: QueryProgressProps) {
+  const stages = steps(progress)
+  const current = stages.findIndex(stage => !stage.done)
+
+  return (
+    <Card className="flex-1">
+      <CardContent className="p-3 sm:p-4 space-y-3">
+        <div className="flex items-start justify-between gap-2">
+          <ol className="space-y-1">
+            {stages.map((stage, i) => (
+              <li key={i} className="flex items-center gap-2 text-xs sm:text-sm">
+                {stage.done ? (
+                  <Check className="h-3.5 w-3.5 text-green-600 dark:text-green-400 flex-shrink-0" />
+                ) : stage.failed ? (
+                  <X className="h-3.5 w-3.5 text-destructive flex-shrink-0" />
+                ) : i === current ? (
+                  <Loader2 className="h-3.5 w-3.5 animate-spin text-primary flex-shrink-0" />
+                ) : (
+                  <Circle className="h-3.5 w-3.5 text-muted-foreground/50 flex-shrink-0" />
+                )}
+                <span className={stage.done || i === current ? 'text-foreground' : 'text-muted-foreground'}>{stage.label}</span>
+              </li>
+            ))}
+          </ol>
+          {onCancel && (
+            <Button type="button" variant="outline" size="sm" onClick={onCancel} className="flex-shrink-0 gap-1">
+              <X className="h-3.5 w-3.5" />
+              Cancel
+            </Button>
+          )}
+        </div>
+        {progress?.reasoning && (
+          <p className="text-xs sm:text-sm leading-relaxed whitespace-pre-wrap break-words text-muted-foreground">{progress.reasoning}</p>
+        )}
+        {progress?.sql && (
+          <pre className="p-2 sm:p-3 bg-muted/50 rounded-lg border border-border/50 text-[10px] sm:text-xs font-mono whitespace-pre-wrap break-words">{progress.sql}</pre>
+        )}
+        {(progress?.sqlError || progress?.executionError) && (
+          <p className="text-[10px] sm:text-xs text-destructive break-words">{progress.executionError || progress.sqlError}</p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
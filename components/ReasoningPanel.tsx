@@ -1,14 +1,22 @@
 'use client'
 
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
-import type { MetricInfo } from '@/types'
+import type { MetricInfo, QueryAttempt } from '@/types'
 
 interface ReasoningPanelProps {
   reasoning: string
   metricsInfo?: MetricInfo
+  attempts?: QueryAttempt[]
 }
 
-export function ReasoningPanel({ reasoning, metricsInfo }: ReasoningPanelProps) {
+const OUTCOMES: Record<QueryAttempt['outcome'], string> = {
+  success: 'Ran successfully',
+  validation: 'Failed validation',
+  execution: 'Failed to run',
+  repair: 'No repaired SQL',
+}
+
+export function ReasoningPanel({ reasoning, metricsInfo, attempts }: ReasoningPanelProps) {
   return (
     <Card className="neumorphic-card">
       <CardHeader className="p-3 sm:p-6">
@@ -29,6 +37,28 @@ export function ReasoningPanel({ reasoning, metricsInfo }: ReasoningPanelProps)
             <p className="text-[10px] sm:text-xs text-muted-foreground">{metricsInfo.description}</p>
           </div>
         )}
+        {/* Only worth showing when the SQL had to be fixed */}
+        {attempts && attempts.length > 1 && (
+          <div className="mt-3 sm:mt-4 space-y-2">
+            <p className="text-[10px] sm:text-xs font-semibold">How the answer was reached ({attempts.length} attempts)</p>
+            {attempts.map(attempt => (
+              <div
+                key={attempt.attempt}
+                className={`p-2 sm:p-3 rounded-lg border ${attempt.outcome === 'success' ? 'bg-muted/50 border-border/50' : 'bg-destructive/5 border-destructive/30'}`}
+              >
+                <p className="text-[10px] sm:text-xs font-semibold mb-1">
+                  Attempt {attempt.attempt}: {OUTCOMES[attempt.outcome]}
+                </p>
+                {attempt.sql && (
+                  <pre className="text-[10px] sm:text-xs font-mono whitespace-pre-wrap break-words text-foreground">{attempt.sql}</pre>
+                )}
+                {attempt.error && (
+                  <p className="mt-1 text-[10px] sm:text-xs text-destructive break-words">{attempt.error}</p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
       </CardContent>
     </Card>
   )
@@ -199,7 +199,11 @@ export function ResultsPanel({ response, isLoading, query, chatId }: ResultsPane
           </TabsList>
         </div>
         <TabsContent value="reasoning" className="mt-4 animate-in fade-in-50 duration-300">
-          <ReasoningPanel reasoning={safeResponse.reasoning || 'No reasoning available.'} metricsInfo={safeResponse.metricsInfo} />
+          <ReasoningPanel
+            reasoning={safeResponse.reasoning || 'No reasoning available.'}
+            metricsInfo={safeResponse.metricsInfo}
+            attempts={safeResponse.attempts}
+          />
         </TabsContent>
         <TabsContent value="sql" className="mt-4 animate-in fade-in-50 duration-300">
           <SqlPanel 
@@ -1,12 +1,17 @@
 /**
  * Chat store for managing per-chat file attachments and message history
- * 
- * This is an in-memory store that tracks which files are attached to each chat and
- * stores message history. Files persist via fileRegistry (disk), but this store
- * tracks the relationship between chats and files for quick lookup.
+ *
+ * Chats are kept by a pluggable repository, selected per deployment with CHAT_STORE:
+ * - file (default): one JSON file per chat (lib/data/fileChatRepository.ts)
+ * - prisma: the chats tables of the DATABASE_URL database (lib/data/prismaChatRepository.ts)
+ * Either way chats, titles, messages and attachments survive a restart. A chat records the IDs
+ * of its files; the files themselves persist via fileRegistry (disk) and are looked up there
+ * when the chat is read. Each chat belongs to a workspace, whose retention policy decides when
+ * the chat is deleted unless it is pinned (./retention).
  */
 
-import type { FileMetadata } from './fileRegistry'
+import { getFilesByIds, type FileMetadata } from './fileRegistry'
+import { fileChatRepository } from './fileChatRepository'
 import type { QueryResponse } from '@/types'
 
 export interface ChatMessage {
@@ -22,136 +27,247 @@ export interface Chat {
   createdAt: Date
   updatedAt: Date
   title: string
+  workspace: string
+  // Pinned chats are never deleted by retention
+  pinned: boolean
   attachedFiles: FileMetadata[]
   messages: ChatMessage[]
 }
 
-const chats = new Map<string, Chat>()
+// A chat as a repository keeps it: attachments by file ID
+export type StoredChat = Omit<Chat, 'attachedFiles'> & { fileIds: string[] }
+
+export interface ChatSummary {
+  chatId: string
+  title: string
+  workspace: string
+  pinned: boolean
+  updatedAt: Date
+  messageCount: number
+  fileIds: string[]
+}
+
+// Settings of a chat that can be changed after it is created
+export type ChatSettings = Partial<Pick<StoredChat, 'title' | 'workspace' | 'pinned' | 'fileIds'>>
+
+export interface ChatRepository {
+  name: string
+  get(chatId: string): Promise<StoredChat | null>
+  // Newest first
+  list(): Promise<ChatSummary[]>
+  create(chat: StoredChat): Promise<void>
+  // Applies the changes worked out from the chat as stored when the update runs, so concurrent
+  // updates each see the others' changes; also moves updatedAt to now. Nothing for a missing chat.
+  update(chatId: string, change: (chat: Omit<StoredChat, 'messages'>) => ChatSettings): Promise<void>
+  addMessage(chatId: string, message: ChatMessage, title?: string): Promise<void>
+  delete(chatId: string): Promise<void>
+}
+
+export const DEFAULT_WORKSPACE = 'default'
+
+// Prisma is only loaded when it is configured, so the file store works without a database
+const REPOSITORIES: Record<string, () => Promise<ChatRepository>> = {
+  file: async () => fileChatRepository,
+  prisma: async () => (await import('./prismaChatRepository')).prismaChatRepository,
+}
+
+// Chat IDs come from the client and name files and rows, so only plain IDs are accepted
+const CHAT_ID_PATTERN = /^chat_[A-Za-z0-9_-]{1,100}$/
+const WORKSPACE_PATTERN = /^[A-Za-z0-9_-]{1,64}$/
+export const INVALID_WORKSPACE = 'workspace may only contain letters, digits, "_" and "-" (at most 64)'
+
+/**
+ * The repository configured by CHAT_STORE
+ */
+export async function getChatRepository(): Promise<ChatRepository> {
+  const name = (process.env.CHAT_STORE || 'file').trim().toLowerCase()
+  const loadRepository = REPOSITORIES[name]
+  if (!loadRepository) {
+    throw new Error(`Unknown CHAT_STORE "${name}". Expected one of: ${Object.keys(REPOSITORIES).join(', ')}`)
+  }
+  return loadRepository()
+}
+
+export function isValidChatId(chatId: string): boolean {
+  return CHAT_ID_PATTERN.test(chatId)
+}
+
+export function isValidWorkspace(workspace: string): boolean {
+  return WORKSPACE_PATTERN.test(workspace)
+}
 
 /**
  * Create a new chat
- * @param chatId Optional: if provided and doesn't exist, creates chat with that ID
+ * @param chatId Optional: if valid and doesn't exist, creates chat with that ID
+ * @param workspace Optional: the workspace the chat belongs to (default: DEFAULT_WORKSPACE)
  */
-export function createChat(chatId?: string): string {
-  const finalChatId = chatId && !chats.has(chatId) 
-    ? chatId 
+export async function createChat(chatId?: string, workspace: string = DEFAULT_WORKSPACE): Promise<string> {
+  if (!isValidWorkspace(workspace)) {
+    throw new Error(INVALID_WORKSPACE)
+  }
+  const repository = await getChatRepository()
+  const finalChatId = chatId && isValidChatId(chatId) && !(await repository.get(chatId))
+    ? chatId
     : `chat_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`
-  
-  const chat: Chat = {
+
+  const now = new Date()
+  await repository.create({
     chatId: finalChatId,
-    createdAt: new Date(),
-    updatedAt: new Date(),
+    createdAt: now,
+    updatedAt: now,
     title: 'New Chat',
-    attachedFiles: [],
+    workspace,
+    pinned: false,
+    fileIds: [],
     messages: [],
-  }
-  chats.set(finalChatId, chat)
+  })
   return finalChatId
 }
 
 /**
- * Get chat by ID
+ * Get chat by ID, with its attached files read from fileRegistry
+ */
+export async function getChat(chatId: string): Promise<Chat | null> {
+  if (!isValidChatId(chatId)) return null
+  const repository = await getChatRepository()
+  const stored = await repository.get(chatId)
+  if (!stored) return null
+  const { fileIds, ...chat } = stored
+  return { ...chat, attachedFiles: getFilesByIds(fileIds) }
+}
+
+/**
+ * Get the chat, or create one (with this ID when it is valid) if it doesn't exist
  */
-export function getChat(chatId: string): Chat | null {
-  return chats.get(chatId) || null
+export async function getOrCreateChat(chatId?: string): Promise<Chat> {
+  const existing = chatId ? await getChat(chatId) : null
+  if (existing) return existing
+  const chat = await getChat(await createChat(chatId))
+  if (!chat) {
+    throw new Error('Failed to create chat')
+  }
+  return chat
 }
 
 /**
  * Get all chats (sorted by updatedAt, newest first)
  */
-export function getAllChats(): Chat[] {
-  return Array.from(chats.values()).sort((a, b) => {
-    // Ensure updatedAt is a Date object
-    const aTime = a.updatedAt instanceof Date 
-      ? a.updatedAt.getTime() 
-      : new Date(a.updatedAt).getTime()
-    const bTime = b.updatedAt instanceof Date 
-      ? b.updatedAt.getTime() 
-      : new Date(b.updatedAt).getTime()
-    return bTime - aTime
-  })
+export async function listChats(): Promise<ChatSummary[]> {
+  const repository = await getChatRepository()
+  return repository.list()
 }
 
 /**
  * Update chat title
  */
-export function updateChatTitle(chatId: string, title: string): void {
-  const chat = chats.get(chatId)
-  if (chat) {
-    chat.title = title
-    chat.updatedAt = new Date()
+export async function updateChatTitle(chatId: string, title: string): Promise<void> {
+  await updateChat(chatId, { title })
+}
+
+/**
+ * Pin a chat (kept until it is unpinned or deleted) or unpin it
+ */
+export async function pinChat(chatId: string, pinned: boolean): Promise<void> {
+  await updateChat(chatId, { pinned })
+}
+
+/**
+ * Move a chat to another workspace, and so under that workspace's retention policy
+ */
+export async function moveChatToWorkspace(chatId: string, workspace: string): Promise<void> {
+  if (!isValidWorkspace(workspace)) {
+    throw new Error(INVALID_WORKSPACE)
   }
+  await updateChat(chatId, { workspace })
+}
+
+async function updateChat(chatId: string, changes: ChatSettings): Promise<void> {
+  if (!isValidChatId(chatId)) return
+  const repository = await getChatRepository()
+  await repository.update(chatId, () => changes)
+}
+
+/**
+ * Change the attached file IDs of a chat, if it exists
+ */
+async function updateFileIds(chatId: string, change: (fileIds: string[]) => string[]): Promise<void> {
+  if (!isValidChatId(chatId)) return
+  const repository = await getChatRepository()
+  await repository.update(chatId, chat => ({ fileIds: change(chat.fileIds) }))
 }
 
 /**
  * Add file to chat
  */
-export function addFileToChat(chatId: string, file: FileMetadata): void {
-  const chat = chats.get(chatId)
-  if (chat) {
-    // Check if file already exists
-    const exists = chat.attachedFiles.some(f => f.id === file.id)
-    if (!exists) {
-      chat.attachedFiles.push(file)
-      chat.updatedAt = new Date()
+export async function addFileToChat(chatId: string, file: FileMetadata): Promise<void> {
+  await updateFileIds(chatId, fileIds => (fileIds.includes(file.id) ? fileIds : [...fileIds, file.id]))
+}
+
+/**
+ * Put `file` where the chat had `replacedId` (a new version of the same dataset)
+ */
+export async function replaceFileInChat(chatId: string, replacedId: string, file: FileMetadata): Promise<void> {
+  await updateFileIds(chatId, fileIds => {
+    const others = fileIds.filter(id => id !== file.id)
+    const index = others.indexOf(replacedId)
+    if (index === -1) {
+      others.push(file.id)
+    } else {
+      others[index] = file.id
     }
-  }
+    return others
+  })
 }
 
 /**
  * Remove file from chat
  */
-export function removeFileFromChat(chatId: string, fileId: string): void {
-  const chat = chats.get(chatId)
-  if (chat) {
-    chat.attachedFiles = chat.attachedFiles.filter(f => f.id !== fileId)
-    chat.updatedAt = new Date()
-  }
+export async function removeFileFromChat(chatId: string, fileId: string): Promise<void> {
+  await updateFileIds(chatId, fileIds => fileIds.filter(id => id !== fileId))
 }
 
 /**
  * Get attached files for chat
  */
-export function getChatFiles(chatId: string): FileMetadata[] {
-  const chat = chats.get(chatId)
+export async function getChatFiles(chatId: string): Promise<FileMetadata[]> {
+  const chat = await getChat(chatId)
   return chat?.attachedFiles || []
 }
 
+/**
+ * Meaningful sidebar title from the first query: its first 40-60 characters
+ */
+function titleFromQuery(queryText: string): string {
+  // Clean up the title: remove extra whitespace, capitalize first letter
+  let title = queryText.replace(/\s+/g, ' ').trim()
+  if (title.length > 60) {
+    // Try to cut at a word boundary
+    const cutPoint = title.substring(0, 57).lastIndexOf(' ')
+    title = cutPoint > 30
+      ? title.substring(0, cutPoint) + '...'
+      : title.substring(0, 57) + '...'
+  }
+
+  // Capitalize first letter
+  if (title.length > 0) {
+    title = title.charAt(0).toUpperCase() + title.slice(1)
+  }
+  return title || 'New Chat'
+}
+
 /**
  * Add message to chat
  * CRITICAL: Updates chat title from first query for meaningful sidebar titles
  */
-export function addMessageToChat(
+export async function addMessageToChat(
   chatId: string,
   queryText: string,
   response: QueryResponse
-): void {
-  const chat = chats.get(chatId)
+): Promise<void> {
+  if (!isValidChatId(chatId)) return
+  const repository = await getChatRepository()
+  const chat = await repository.get(chatId)
   if (chat) {
-    // Update title if this is the first message (meaningful title from first query)
-    if (chat.messages.length === 0) {
-      // Generate meaningful title: first 40-60 chars of query, or summary
-      let title = queryText.trim()
-      
-      // Clean up the title: remove extra whitespace, capitalize first letter
-      title = title.replace(/\s+/g, ' ').trim()
-      if (title.length > 60) {
-        // Try to cut at a word boundary
-        const cutPoint = title.substring(0, 57).lastIndexOf(' ')
-        title = cutPoint > 30 
-          ? title.substring(0, cutPoint) + '...'
-          : title.substring(0, 57) + '...'
-      }
-      
-      // Capitalize first letter
-      if (title.length > 0) {
-        title = title.charAt(0).toUpperCase() + title.slice(1)
-      }
-      
-      chat.title = title || 'New Chat'
-      chat.updatedAt = new Date()
-    }
-
     const message: ChatMessage = {
       id: `msg_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`,
       timestamp: new Date(),
@@ -159,48 +275,38 @@ export function addMessageToChat(
       response,
       summary: queryText.length > 50 ? queryText.substring(0, 50) + '...' : queryText,
     }
-    
-    chat.messages.push(message)
-    chat.updatedAt = new Date()
+
+    const title = chat.messages.length === 0 ? titleFromQuery(queryText) : undefined
+    await repository.addMessage(chatId, message, title)
   }
 }
 
 /**
  * Get messages for chat
  */
-export function getChatMessages(chatId: string): ChatMessage[] {
-  const chat = chats.get(chatId)
+export async function getChatMessages(chatId: string): Promise<ChatMessage[]> {
+  const chat = await getChat(chatId)
   return chat?.messages || []
 }
 
 /**
  * Delete chat
  */
-export function deleteChat(chatId: string): void {
-  chats.delete(chatId)
-}
-
-/**
- * Clean up old chats (older than 7 days)
- */
-export function cleanupOldChats(): void {
-  const now = Date.now()
-  const maxAge = 7 * 24 * 60 * 60 * 1000 // 7 days
-
-  for (const [chatId, chat] of chats.entries()) {
-    // Ensure updatedAt is a Date object
-    const updatedAtTime = chat.updatedAt instanceof Date 
-      ? chat.updatedAt.getTime() 
-      : new Date(chat.updatedAt).getTime()
-    const age = now - updatedAtTime
-    if (age > maxAge) {
-      chats.delete(chatId)
-    }
+export async function deleteChat(chatId: string): Promise<void> {
+  if (isValidChatId(chatId)) {
+    const repository = await getChatRepository()
+    await repository.delete(chatId)
   }
 }
 
-// Run cleanup every hour (only in Node.js environment)
+// Apply the retention policy every hour (only in Node.js environment). Retention reads this
+// module, so it is loaded when the timer fires.
 if (typeof window === 'undefined' && typeof setInterval !== 'undefined') {
-  setInterval(cleanupOldChats, 60 * 60 * 1000)
+  setInterval(() => {
+    import('./retention')
+      .then(({ applyRetention }) => applyRetention())
+      .catch(() => {
+        // Cleanup is retried on the next run
+      })
+  }, 60 * 60 * 1000)
 }
-
@@ -0,0 +1,467 @@
+/**
+ * Columnar typed storage for registered files
+ *
+ * Every column is a typed vector with a null bitmap (bit i set = row i is NULL):
+ * - number: Float64Array
+ * - boolean: bit-packed values
+ * - dictionary: the distinct strings plus one 8/16-bit code per row, for low-cardinality text
+ * - text: one string per row
+ * - mixed: one JSON-encoded value per row
+ * Values are normalized by the declared column type when they are appended (the same conversion
+ * the query engine applies), so numbers are stored as numbers. A column whose values don't all
+ * have one type, such as a numeric column containing 'N/A', is stored as 'mixed': one JSON value
+ * per row.
+ *
+ * On disk a table is a JSON header followed by one segment per column, so a reader decodes only
+ * the columns it asks for:
+ *   "ACOL" | header length (u32) | header JSON | segments, each 8-byte aligned
+ * Typed arrays are written in platform byte order (little-endian everywhere we deploy).
+ */
+
+import { createHash } from 'crypto'
+import { closeSync, openSync, readSync, renameSync, writeSync } from 'fs'
+import type { SqlValue } from './engine/ast'
+import { normalizeColumnValue } from './engine/values'
+
+export type ColumnEncoding = 'number' | 'boolean' | 'dictionary' | 'text' | 'mixed'
+
+export type ColumnVector =
+  | { encoding: 'number'; length: number; nulls: Uint8Array; values: Float64Array }
+  | { encoding: 'boolean'; length: number; nulls: Uint8Array; values: Uint8Array }
+  | { encoding: 'dictionary'; length: number; nulls: Uint8Array; dictionary: string[]; codes: Uint8Array | Uint16Array }
+  | { encoding: 'text'; length: number; nulls: Uint8Array; values: string[] }
+  | { encoding: 'mixed'; length: number; nulls: Uint8Array; values: string[] }
+
+export interface ColumnarTable {
+  rowCount: number
+  columns: Array<{ name: string; type: string }>
+  // Decodes a column on first use; unknown names throw
+  column(name: string): ColumnVector
+  // Value accessor for one column, the shape the query engine reads (TableSource.storage)
+  readColumn(name: string): (index: number) => SqlValue
+}
+
+const MAGIC = 'ACOL'
+const FORMAT_VERSION = 1
+
+// Text with at most this many distinct values, each used at least twice on average, gets a
+// dictionary
+const MAX_DICTIONARY_SIZE = 65_536
+
+function isBitSet(bitmap: Uint8Array, index: number): boolean {
+  return (bitmap[index >> 3] & (1 << (index & 7))) !== 0
+}
+
+function setBit(bitmap: Uint8Array, index: number): void {
+  bitmap[index >> 3] |= 1 << (index & 7)
+}
+
+function bitmapBytes(length: number): number {
+  return Math.ceil(length / 8)
+}
+
+function align8(offset: number): number {
+  return Math.ceil(offset / 8) * 8
+}
+
+export function vectorValue(vector: ColumnVector, index: number): SqlValue {
+  if (isBitSet(vector.nulls, index)) return null
+  switch (vector.encoding) {
+    case 'number':
+      return vector.values[index]
+    case 'boolean':
+      return isBitSet(vector.values, index)
+    case 'dictionary':
+      return vector.dictionary[vector.codes[index]]
+    case 'text':
+      return vector.values[index]
+    case 'mixed':
+      return JSON.parse(vector.values[index])
+  }
+}
+
+/**
+ * Pick the most compact vector type that holds every value
+ */
+function encodeColumn(values: SqlValue[]): ColumnVector {
+  const length = values.length
+  const nulls = new Uint8Array(bitmapBytes(length))
+  const kinds = new Set<string>()
+  values.forEach((value, i) => {
+    if (value === null) setBit(nulls, i)
+    else kinds.add(typeof value)
+  })
+
+  if (kinds.size === 1 && kinds.has('number')) {
+    const numbers = new Float64Array(length)
+    values.forEach((value, i) => {
+      if (value !== null) numbers[i] = value as number
+    })
+    return { encoding: 'number', length, nulls, values: numbers }
+  }
+
+  if (kinds.size === 1 && kinds.has('boolean')) {
+    const bits = new Uint8Array(bitmapBytes(length))
+    values.forEach((value, i) => {
+      if (value === true) setBit(bits, i)
+    })
+    return { encoding: 'boolean', length, nulls, values: bits }
+  }
+
+  if (kinds.size > 1) {
+    const encoded = values.map(value => (value === null ? '' : JSON.stringify(value)))
+    return { encoding: 'mixed', length, nulls, values: encoded }
+  }
+
+  const strings = values.map(value => (value === null ? '' : String(value)))
+  const codes = new Map<string, number>()
+  let nonNull = 0
+  values.forEach((value, i) => {
+    if (value === null) return
+    nonNull++
+    if (codes.size <= MAX_DICTIONARY_SIZE && !codes.has(strings[i])) codes.set(strings[i], codes.size)
+  })
+  if (codes.size > 0 && codes.size <= MAX_DICTIONARY_SIZE && codes.size * 2 <= nonNull) {
+    const rowCodes = codes.size <= 256 ? new Uint8Array(length) : new Uint16Array(length)
+    values.forEach((value, i) => {
+      if (value !== null) rowCodes[i] = codes.get(strings[i])!
+    })
+    return { encoding: 'dictionary', length, nulls, dictionary: Array.from(codes.keys()), codes: rowCodes }
+  }
+
+  return { encoding: 'text', length, nulls, values: strings }
+}
+
+function createTable(
+  columns: Array<{ name: string; type: string }>,
+  rowCount: number,
+  loadColumn: (index: number) => ColumnVector
+): ColumnarTable {
+  const vectors = new Map<number, ColumnVector>()
+  const column = (name: string): ColumnVector => {
+    let index = columns.findIndex(col => col.name === name)
+    if (index === -1) {
+      const lower = name.toLowerCase()
+      index = columns.findIndex(col => col.name.toLowerCase() === lower)
+    }
+    if (index === -1) {
+      throw new Error(`column "${name}" does not exist`)
+    }
+    let vector = vectors.get(index)
+    if (!vector) {
+      vector = loadColumn(index)
+      vectors.set(index, vector)
+    }
+    return vector
+  }
+  return {
+    rowCount,
+    columns,
+    column,
+    readColumn(name) {
+      const vector = column(name)
+      return index => vectorValue(vector, index)
+    },
+  }
+}
+
+/**
+ * Accumulates rows column by column. Column types may still change while rows arrive (streamed
+ * uploads infer them as they go), so values are only normalized and encoded in finish().
+ */
+export class ColumnarTableBuilder {
+  private values: unknown[][]
+  private rowCount = 0
+
+  constructor(private columnNames: string[]) {
+    this.values = columnNames.map(() => [])
+  }
+
+  append(record: Record<string, any>): void {
+    this.columnNames.forEach((name, i) => {
+      this.values[i].push(record?.[name] ?? null)
+    })
+    this.rowCount++
+  }
+
+  // Values in column order
+  appendRow(values: unknown[]): void {
+    this.values.forEach((column, i) => {
+      column.push(values[i] ?? null)
+    })
+    this.rowCount++
+  }
+
+  // `columns` gives the final type of each column passed to the constructor, in the same order;
+  // `convert` optionally turns each column's raw values into typed ones first
+  finish(
+    columns: Array<{ name: string; type: string }>,
+    convert?: Array<(value: unknown) => unknown>
+  ): ColumnarTable {
+    const vectors = this.values.map((values, i) => {
+      const type = columns[i].type || 'text'
+      const toValue = convert?.[i]
+      return encodeColumn(values.map(value => normalizeColumnValue(toValue ? toValue(value) : value, type)))
+    })
+    this.values = []
+    return createTable(columns, this.rowCount, index => vectors[index])
+  }
+}
+
+export function buildColumnarTable(
+  columns: Array<{ name: string; type: string }>,
+  rows: Record<string, any>[]
+): ColumnarTable {
+  const builder = new ColumnarTableBuilder(columns.map(col => col.name))
+  rows.forEach(row => builder.append(row))
+  return builder.finish(columns)
+}
+
+/**
+ * Rebuild records from the stored columns (all rows, or the first `limit`)
+ */
+export function tableToRows(table: ColumnarTable, limit = table.rowCount): Record<string, any>[] {
+  const count = Math.min(limit, table.rowCount)
+  const readers = table.columns.map(col => table.readColumn(col.name))
+  const rows: Record<string, any>[] = new Array(count)
+  for (let i = 0; i < count; i++) {
+    const row: Record<string, any> = {}
+    table.columns.forEach((col, c) => {
+      row[col.name] = readers[c](i)
+    })
+    rows[i] = row
+  }
+  return rows
+}
+
+/**
+ * One table with the rows of `tables` in order, under `columns` (their final names and types).
+ * A column a table doesn't have is NULL in its rows; values are normalized again by the final
+ * type, and a column that became text holds every value as text.
+ */
+export function concatColumnarTables(
+  columns: Array<{ name: string; type: string }>,
+  tables: ColumnarTable[]
+): ColumnarTable {
+  const builder = new ColumnarTableBuilder(columns.map(col => col.name))
+  for (const table of tables) {
+    const readers = columns.map(col =>
+      table.columns.some(own => own.name === col.name) ? table.readColumn(col.name) : () => null
+    )
+    for (let i = 0; i < table.rowCount; i++) {
+      builder.appendRow(readers.map(read => read(i)))
+    }
+  }
+  const asText = (value: unknown) => (value === null ? null : String(value))
+  return builder.finish(columns, columns.map(col => (col.type === 'text' ? asText : value => value)))
+}
+
+// -----------------------------------------------------------------------------
+// Binary format
+// -----------------------------------------------------------------------------
+
+interface StoredColumn {
+  name: string
+  type: string
+  // Any other fields of the column description (format, confidence, ...)
+  details?: Record<string, unknown>
+  encoding: ColumnEncoding
+  // Segment position relative to the end of the header
+  offset: number
+  byteLength: number
+  // Dictionary columns
+  dictionarySize?: number
+  codeWidth?: 1 | 2
+}
+
+interface StoredHeader {
+  version: number
+  rowCount: number
+  columns: StoredColumn[]
+  // Caller-defined fields stored alongside the table (file name, upload time, ...)
+  metadata: Record<string, unknown>
+}
+
+function encodeStrings(strings: string[]): Uint8Array[] {
+  const encoded = strings.map(str => Buffer.from(str, 'utf8'))
+  const offsets = new Uint32Array(strings.length + 1)
+  encoded.forEach((bytes, i) => {
+    offsets[i + 1] = offsets[i] + bytes.length
+  })
+  return [new Uint8Array(offsets.buffer), ...encoded]
+}
+
+function decodeStrings(segment: Buffer, start: number, count: number): string[] {
+  const offsets = new Uint32Array(segment.buffer, segment.byteOffset + start, count + 1)
+  const base = start + offsets.byteLength
+  const strings: string[] = new Array(count)
+  for (let i = 0; i < count; i++) {
+    strings[i] = segment.toString('utf8', base + offsets[i], base + offsets[i + 1])
+  }
+  return strings
+}
+
+/**
+ * One column as [null bitmap | values], each part 8-byte aligned within the segment
+ */
+function encodeSegment(vector: ColumnVector): Uint8Array[] {
+  const parts: Uint8Array[] = []
+  let size = 0
+  const push = (...chunks: Uint8Array[]) => {
+    chunks.forEach(chunk => {
+      parts.push(chunk)
+      size += chunk.byteLength
+    })
+    const padding = align8(size) - size
+    if (padding > 0) {
+      parts.push(new Uint8Array(padding))
+      size += padding
+    }
+  }
+
+  push(vector.nulls)
+  switch (vector.encoding) {
+    case 'number':
+    case 'boolean':
+      push(new Uint8Array(vector.values.buffer, vector.values.byteOffset, vector.values.byteLength))
+      break
+    case 'dictionary':
+      push(new Uint8Array(vector.codes.buffer, vector.codes.byteOffset, vector.codes.byteLength))
+      push(...encodeStrings(vector.dictionary))
+      break
+    case 'text':
+    case 'mixed':
+      push(...encodeStrings(vector.values))
+      break
+  }
+  return parts
+}
+
+/**
+ * `segment` must start on an 8-byte boundary so the typed array views line up (readBytes
+ * allocates a fresh buffer for every read)
+ */
+function decodeSegment(aligned: Buffer, column: StoredColumn, length: number): ColumnVector {
+  const nulls = new Uint8Array(aligned.buffer, aligned.byteOffset, bitmapBytes(length))
+  const start = align8(nulls.byteLength)
+
+  switch (column.encoding) {
+    case 'number':
+      return { encoding: 'number', length, nulls, values: new Float64Array(aligned.buffer, aligned.byteOffset + start, length) }
+    case 'boolean':
+      return { encoding: 'boolean', length, nulls, values: new Uint8Array(aligned.buffer, aligned.byteOffset + start, bitmapBytes(length)) }
+    case 'dictionary': {
+      const codes = column.codeWidth === 2
+        ? new Uint16Array(aligned.buffer, aligned.byteOffset + start, length)
+        : new Uint8Array(aligned.buffer, aligned.byteOffset + start, length)
+      const dictionary = decodeStrings(aligned, align8(start + codes.byteLength), column.dictionarySize!)
+      return { encoding: 'dictionary', length, nulls, dictionary, codes }
+    }
+    case 'text':
+    case 'mixed':
+      return { encoding: column.encoding, length, nulls, values: decodeStrings(aligned, start, length) }
+  }
+}
+
+/**
+ * SHA-256 of a table's column names, types and values (hex). Equal tables hash the same however
+ * they were read, since values are stored normalized.
+ */
+export function hashColumnarTable(table: ColumnarTable): string {
+  const hash = createHash('sha256')
+  hash.update(JSON.stringify(table.columns.map(col => [col.name, col.type])))
+  for (const col of table.columns) {
+    for (const part of encodeSegment(table.column(col.name))) {
+      hash.update(part)
+    }
+  }
+  return hash.digest('hex')
+}
+
+/**
+ * Write a table and its metadata to `path`. The file is written next to it and renamed into
+ * place, so readers never see a partial file.
+ */
+export function writeColumnarFile(path: string, table: ColumnarTable, metadata: Record<string, unknown>): void {
+  const segments: Uint8Array[][] = []
+  const columns: StoredColumn[] = []
+  let offset = 0
+  for (const col of table.columns) {
+    const vector = table.column(col.name)
+    const parts = encodeSegment(vector)
+    const byteLength = parts.reduce((sum, part) => sum + part.byteLength, 0)
+    const { name, type, ...details } = col
+    columns.push({
+      name,
+      type,
+      ...(Object.keys(details).length > 0 ? { details } : {}),
+      encoding: vector.encoding,
+      offset,
+      byteLength,
+      ...(vector.encoding === 'dictionary'
+        ? { dictionarySize: vector.dictionary.length, codeWidth: vector.codes.BYTES_PER_ELEMENT as 1 | 2 }
+        : {}),
+    })
+    segments.push(parts)
+    offset += byteLength
+  }
+
+  const header: StoredHeader = { version: FORMAT_VERSION, rowCount: table.rowCount, columns, metadata }
+  const headerBytes = Buffer.from(JSON.stringify(header), 'utf8')
+  const prefix = Buffer.alloc(align8(8 + headerBytes.length))
+  prefix.write(MAGIC, 0, 'ascii')
+  prefix.writeUInt32LE(headerBytes.length, 4)
+  headerBytes.copy(prefix, 8)
+
+  const tempPath = `${path}.tmp`
+  const fd = openSync(tempPath, 'w')
+  try {
+    writeSync(fd, prefix)
+    for (const parts of segments) {
+      for (const part of parts) writeSync(fd, part)
+    }
+  } finally {
+    closeSync(fd)
+  }
+  renameSync(tempPath, path)
+}
+
+function readBytes(path: string, position: number, length: number): Buffer {
+  const buffer = Buffer.alloc(length)
+  const fd = openSync(path, 'r')
+  try {
+    let read = 0
+    while (read < length) {
+      const n = readSync(fd, buffer, read, length - read, position + read)
+      if (n === 0) throw new Error(`Columnar file is truncated: ${path}`)
+      read += n
+    }
+  } finally {
+    closeSync(fd)
+  }
+  return buffer
+}
+
+/**
+ * Open a columnar file. Only the header is read here; each column is read from disk the first
+ * time it is used.
+ */
+export function readColumnarFile(path: string): { table: ColumnarTable; metadata: Record<string, unknown> } {
+  const prefix = readBytes(path, 0, 8)
+  if (prefix.toString('ascii', 0, 4) !== MAGIC) {
+    throw new Error(`Not a columnar file: ${path}`)
+  }
+  const headerLength = prefix.readUInt32LE(4)
+  const header = JSON.parse(readBytes(path, 8, headerLength).toString('utf8')) as StoredHeader
+  if (header.version !== FORMAT_VERSION) {
+    throw new Error(`Unsupported columnar file version ${header.version}: ${path}`)
+  }
+
+  const dataStart = align8(8 + headerLength)
+  const columns = header.columns.map(col => ({ name: col.name, type: col.type, ...col.details }))
+  const table = createTable(columns, header.rowCount, index => {
+    const stored = header.columns[index]
+    return decodeSegment(readBytes(path, dataStart + stored.offset, stored.byteLength), stored, header.rowCount)
+  })
+  return { table, metadata: header.metadata }
+}
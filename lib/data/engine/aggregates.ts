@@ -0,0 +1,104 @@
+/**
+ * Aggregate functions for the in-memory SQL engine
+ *
+ * Each aggregate is an accumulator factory: the evaluator feeds it one value per input row and
+ * reads the result once the group is complete. NULL inputs are ignored, as in SQL.
+ */
+
+import type { SqlValue } from './ast'
+import { compareValues, groupKey, toNumber } from './values'
+
+export interface Accumulator {
+  add(value: SqlValue): void
+  result(): SqlValue
+}
+
+type AccumulatorFactory = () => Accumulator
+
+function count(): Accumulator {
+  let n = 0
+  return {
+    add(value) {
+      if (value !== null) n++
+    },
+    result: () => n,
+  }
+}
+
+function sum(): Accumulator {
+  let total: number | null = null
+  return {
+    add(value) {
+      const num = toNumber(value)
+      if (num !== null) total = (total ?? 0) + num
+    },
+    result: () => total,
+  }
+}
+
+function avg(): Accumulator {
+  let total = 0
+  let n = 0
+  return {
+    add(value) {
+      const num = toNumber(value)
+      if (num !== null) {
+        total += num
+        n++
+      }
+    },
+    result: () => (n === 0 ? null : total / n),
+  }
+}
+
+function extreme(direction: 1 | -1): AccumulatorFactory {
+  return () => {
+    let best: SqlValue = null
+    return {
+      add(value) {
+        if (value === null) return
+        if (best === null || compareValues(value, best) * direction > 0) best = value
+      },
+      result: () => best,
+    }
+  }
+}
+
+const AGGREGATES: Record<string, AccumulatorFactory> = {
+  COUNT: count,
+  SUM: sum,
+  AVG: avg,
+  MIN: extreme(-1),
+  MAX: extreme(1),
+}
+
+export function isAggregateFunction(name: string): boolean {
+  return name.toUpperCase() in AGGREGATES
+}
+
+/**
+ * Only pass each distinct value on once: COUNT(DISTINCT x), SUM(DISTINCT x), ...
+ */
+function distinctValues(inner: Accumulator): Accumulator {
+  const seen = new Set<string>()
+  return {
+    add(value) {
+      const key = groupKey([value])
+      if (seen.has(key)) return
+      seen.add(key)
+      inner.add(value)
+    },
+    result: () => inner.result(),
+  }
+}
+
+/**
+ * Create a fresh accumulator for the named aggregate
+ */
+export function createAccumulator(name: string, distinct: boolean = false): Accumulator {
+  const factory = AGGREGATES[name.toUpperCase()]
+  if (!factory) {
+    throw new Error(`Unknown aggregate function: ${name}`)
+  }
+  return distinct ? distinctValues(factory()) : factory()
+}
@@ -0,0 +1,157 @@
+/**
+ * AST types for the in-memory SQL engine
+ *
+ * The parser produces these nodes and the evaluator compiles them into closures over rows.
+ * A Query is either a plain SELECT or a set operation (UNION / INTERSECT / EXCEPT); either may
+ * carry a WITH clause, and subqueries nest a Query inside an expression or a FROM clause.
+ */
+
+export type SqlValue = string | number | boolean | null
+
+export type BinaryOperator =
+  | 'AND'
+  | 'OR'
+  | '='
+  | '<>'
+  | '<'
+  | '>'
+  | '<='
+  | '>='
+  | '+'
+  | '-'
+  | '*'
+  | '/'
+  | '%'
+  | '||'
+
+// A literal number written with a point or an exponent is `decimal` even when whole (1.0), so
+// dividing by it doesn't truncate
+export type Expr =
+  | { kind: 'literal'; value: SqlValue; decimal?: true }
+  | { kind: 'column'; table?: string; name: string }
+  | { kind: 'star'; table?: string }
+  | { kind: 'unary'; op: '-' | '+' | 'NOT'; operand: Expr }
+  | { kind: 'binary'; op: BinaryOperator; left: Expr; right: Expr }
+  | { kind: 'isNull'; operand: Expr; negated: boolean }
+  | { kind: 'isTruth'; operand: Expr; value: boolean; negated: boolean }
+  | { kind: 'between'; operand: Expr; low: Expr; high: Expr; negated: boolean }
+  | { kind: 'inList'; operand: Expr; list: Expr[]; negated: boolean }
+  | { kind: 'like'; operand: Expr; pattern: Expr; negated: boolean; caseInsensitive: boolean }
+  | { kind: 'case'; operand?: Expr; whens: Array<{ when: Expr; then: Expr }>; elseExpr?: Expr }
+  | { kind: 'cast'; operand: Expr; targetType: string }
+  | FunctionCall
+  | { kind: 'subquery'; query: Query }
+  | { kind: 'inSubquery'; operand: Expr; query: Query; negated: boolean }
+  | { kind: 'exists'; query: Query }
+
+export interface FunctionCall {
+  kind: 'function'
+  name: string
+  args: Expr[]
+  // COUNT(DISTINCT x) and friends
+  distinct?: boolean
+  // Present for window function calls: f(...) OVER (...)
+  over?: WindowSpec
+}
+
+export type FrameBoundType = 'UNBOUNDED PRECEDING' | 'PRECEDING' | 'CURRENT ROW' | 'FOLLOWING' | 'UNBOUNDED FOLLOWING'
+
+export interface FrameBound {
+  type: FrameBoundType
+  // The n in "n PRECEDING" / "n FOLLOWING"
+  offset?: Expr
+}
+
+export interface WindowFrame {
+  mode: 'ROWS' | 'RANGE'
+  start: FrameBound
+  end: FrameBound
+}
+
+export interface WindowSpec {
+  partitionBy: Expr[]
+  orderBy: OrderByItem[]
+  frame?: WindowFrame
+}
+
+export interface SelectItem {
+  expr: Expr
+  alias?: string
+}
+
+export interface TableRef {
+  kind: 'table'
+  name: string
+  alias?: string
+}
+
+// Subquery in FROM (a derived table)
+export interface SubqueryRef {
+  kind: 'subquery'
+  query: Query
+  alias?: string
+  columnAliases?: string[]
+}
+
+export type JoinType = 'INNER' | 'LEFT' | 'RIGHT' | 'FULL' | 'CROSS'
+
+export interface JoinRef {
+  kind: 'join'
+  joinType: JoinType
+  left: FromItem
+  right: FromItem
+  on?: Expr
+  // Shared column names from USING (...) or NATURAL
+  using?: string[]
+  natural?: boolean
+}
+
+export type FromItem = TableRef | SubqueryRef | JoinRef
+
+export interface OrderByItem {
+  expr: Expr
+  direction: 'ASC' | 'DESC'
+  nulls?: 'FIRST' | 'LAST'
+}
+
+export interface CommonTableExpr {
+  name: string
+  columns?: string[]
+  query: Query
+}
+
+export interface WithClause {
+  recursive: boolean
+  ctes: CommonTableExpr[]
+}
+
+export interface SelectStatement {
+  kind: 'select'
+  with?: WithClause
+  distinct: boolean
+  columns: SelectItem[]
+  from: FromItem | null
+  where: Expr | null
+  // May also hold output ordinals (GROUP BY 1) and output aliases, resolved by the evaluator
+  groupBy: Expr[]
+  having: Expr | null
+  orderBy: OrderByItem[]
+  limit: Expr | null
+  offset: Expr | null
+}
+
+export type SetOperator = 'UNION' | 'INTERSECT' | 'EXCEPT'
+
+export interface SetOperation {
+  kind: 'setOperation'
+  with?: WithClause
+  op: SetOperator
+  all: boolean
+  left: Query
+  right: Query
+  orderBy: OrderByItem[]
+  limit: Expr | null
+  offset: Expr | null
+}
+
+export type Query = SelectStatement | SetOperation
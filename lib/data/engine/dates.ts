@@ -0,0 +1,580 @@
+/**
+ * Date, timestamp and interval support for the in-memory SQL engine
+ *
+ * Engine values stay plain strings: dates are 'YYYY-MM-DD', timestamps 'YYYY-MM-DD HH:MM:SS' and
+ * intervals use PostgreSQL's output format ('1 year 2 mons 3 days 04:05:06'). They are parsed to
+ * epoch milliseconds (always UTC) only where a function or operator needs the calendar.
+ */
+
+import type { SqlValue } from './ast'
+
+const DAY_MS = 86_400_000
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+]
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+const TIME_PART = '(?:[T ](\\d{1,2}):(\\d{2})(?::(\\d{2})(\\.\\d+)?)?)?\\s*(Z|[+-]\\d{2}(?::?\\d{2})?)?'
+// 2024-01-15, 2024-01-15 10:30:00, 2024-01-15T10:30:00.000Z, 2024/01/15
+const ISO_DATE = new RegExp(`^(\\d{4})[-/](\\d{1,2})[-/](\\d{1,2})${TIME_PART}$`, 'i')
+// 1/15/2024 (month first, PostgreSQL's default DateStyle)
+const US_DATE = new RegExp(`^(\\d{1,2})/(\\d{1,2})/(\\d{4})${TIME_PART}$`, 'i')
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+}
+
+function buildTimestamp(
+  year: number,
+  month: number,
+  day: number,
+  match: RegExpExecArray,
+  timeIndex: number
+): number | undefined {
+  if (month < 1 || month > 12 || day < 1 || day > daysInMonth(year, month - 1)) return undefined
+  const hour = Number(match[timeIndex] ?? 0)
+  const minute = Number(match[timeIndex + 1] ?? 0)
+  const second = Number(match[timeIndex + 2] ?? 0)
+  if (hour > 24 || minute > 59 || second > 60) return undefined
+  const fraction = match[timeIndex + 3] ? Math.round(Number(match[timeIndex + 3]) * 1000) : 0
+
+  let ms = Date.UTC(year, month - 1, day, hour, minute, second, fraction)
+  const zone = match[timeIndex + 4]
+  if (zone && zone.toUpperCase() !== 'Z') {
+    const sign = zone[0] === '-' ? -1 : 1
+    const digits = zone.slice(1).replace(':', '')
+    const offset = Number(digits.slice(0, 2)) * 60 + Number(digits.slice(2) || 0)
+    ms -= sign * offset * 60_000
+  }
+  // Date.UTC maps years 0-99 to 1900-1999
+  if (year < 100) {
+    const date = new Date(ms)
+    date.setUTCFullYear(year)
+    ms = date.getTime()
+  }
+  return ms
+}
+
+/**
+ * Parse a date or timestamp string to epoch milliseconds (UTC). Undefined when it isn't one.
+ */
+export function tryParseTimestamp(text: string): number | undefined {
+  const trimmed = text.trim()
+  // Cheap rejection before the regexes: every accepted form starts with a digit
+  if (trimmed.length < 8 || trimmed.charCodeAt(0) < 48 || trimmed.charCodeAt(0) > 57) return undefined
+
+  let match = ISO_DATE.exec(trimmed)
+  if (match) return buildTimestamp(Number(match[1]), Number(match[2]), Number(match[3]), match, 4)
+  match = US_DATE.exec(trimmed)
+  if (match) return buildTimestamp(Number(match[3]), Number(match[1]), Number(match[2]), match, 4)
+  return undefined
+}
+
+/**
+ * Epoch milliseconds for a date / timestamp value; NULL stays NULL, anything else is an error
+ */
+export function toTimestamp(value: SqlValue, type: 'date' | 'timestamp' = 'timestamp'): number | null {
+  if (value === null) return null
+  if (typeof value !== 'string') {
+    throw new Error(`cannot cast type ${typeof value === 'number' ? 'numeric' : 'boolean'} to ${type}`)
+  }
+  const ms = tryParseTimestamp(value)
+  if (ms === undefined) {
+    throw new Error(`invalid input syntax for type ${type}: "${value}"`)
+  }
+  return ms
+}
+
+function pad(value: number, width: number = 2): string {
+  return String(value).padStart(width, '0')
+}
+
+export function formatDate(ms: number): string {
+  const d = new Date(ms)
+  return `${pad(d.getUTCFullYear(), 4)}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())}`
+}
+
+export function formatTimestamp(ms: number): string {
+  const d = new Date(ms)
+  const base = `${formatDate(ms)} ${pad(d.getUTCHours())}:${pad(d.getUTCMinutes())}:${pad(d.getUTCSeconds())}`
+  const millis = d.getUTCMilliseconds()
+  return millis === 0 ? base : `${base}.${pad(millis, 3).replace(/0+$/, '')}`
+}
+
+// -----------------------------------------------------------------------------
+// Intervals
+// -----------------------------------------------------------------------------
+
+/**
+ * Months and days are kept apart from clock time, as in PostgreSQL, so adding '1 month' to
+ * January 31st lands on the last day of February rather than 30 days later.
+ */
+export interface Interval {
+  months: number
+  days: number
+  ms: number
+}
+
+const INTERVAL_UNITS: Record<string, { months?: number; days?: number; ms?: number }> = {
+  millennium: { months: 12000 }, millennia: { months: 12000 }, millenniums: { months: 12000 },
+  century: { months: 1200 }, centuries: { months: 1200 },
+  decade: { months: 120 }, decades: { months: 120 },
+  year: { months: 12 }, years: { months: 12 }, yr: { months: 12 }, yrs: { months: 12 }, y: { months: 12 },
+  month: { months: 1 }, months: { months: 1 }, mon: { months: 1 }, mons: { months: 1 },
+  week: { days: 7 }, weeks: { days: 7 }, w: { days: 7 },
+  day: { days: 1 }, days: { days: 1 }, d: { days: 1 },
+  hour: { ms: 3_600_000 }, hours: { ms: 3_600_000 }, hr: { ms: 3_600_000 }, hrs: { ms: 3_600_000 }, h: { ms: 3_600_000 },
+  minute: { ms: 60_000 }, minutes: { ms: 60_000 }, min: { ms: 60_000 }, mins: { ms: 60_000 }, m: { ms: 60_000 },
+  second: { ms: 1000 }, seconds: { ms: 1000 }, sec: { ms: 1000 }, secs: { ms: 1000 }, s: { ms: 1000 }, '': { ms: 1000 },
+  millisecond: { ms: 1 }, milliseconds: { ms: 1 }, msec: { ms: 1 }, msecs: { ms: 1 }, ms: { ms: 1 },
+}
+
+const INTERVAL_PART = /\s*(?:([+-])?(\d+):(\d{1,2})(?::(\d{1,2}(?:\.\d+)?))?|([+-]?(?:\d+(?:\.\d*)?|\.\d+))\s*([a-z]*))\s*,?/y
+
+/**
+ * Parse interval text such as '30 days', '1 year 2 months', '2 hours 30 minutes', '01:30:00'
+ * or '3 days ago'. Null when the text isn't an interval.
+ */
+export function parseInterval(text: string): Interval | null {
+  let source = text.trim().toLowerCase()
+  if (source.startsWith('@')) source = source.slice(1)
+  let sign = 1
+  if (/\sago$/.test(source)) {
+    sign = -1
+    source = source.slice(0, -4)
+  }
+  source = source.trim()
+  if (source === '') return null
+
+  const result: Interval = { months: 0, days: 0, ms: 0 }
+  let pos = 0
+  while (pos < source.length) {
+    INTERVAL_PART.lastIndex = pos
+    const match = INTERVAL_PART.exec(source)
+    if (!match || INTERVAL_PART.lastIndex === pos) return null
+    pos = INTERVAL_PART.lastIndex
+
+    if (match[2] !== undefined) {
+      // hh:mm[:ss]
+      const timeSign = match[1] === '-' ? -1 : 1
+      const ms = (Number(match[2]) * 3600 + Number(match[3]) * 60 + Number(match[4] ?? 0)) * 1000
+      result.ms += timeSign * Math.round(ms)
+      continue
+    }
+
+    const unit = INTERVAL_UNITS[match[6]]
+    if (!unit) return null
+    const amount = Number(match[5])
+    // Fractions spill into the next smaller unit: 1.5 months = 1 month 15 days
+    if (unit.months) {
+      const months = amount * unit.months
+      result.months += Math.trunc(months)
+      const days = (months - Math.trunc(months)) * 30
+      result.days += Math.trunc(days)
+      result.ms += Math.round((days - Math.trunc(days)) * DAY_MS)
+    } else if (unit.days) {
+      const days = amount * unit.days
+      result.days += Math.trunc(days)
+      result.ms += Math.round((days - Math.trunc(days)) * DAY_MS)
+    } else {
+      result.ms += Math.round(amount * unit.ms!)
+    }
+  }
+
+  return { months: sign * result.months, days: sign * result.days, ms: sign * result.ms }
+}
+
+export function toInterval(value: SqlValue): Interval | null {
+  if (value === null) return null
+  const interval = typeof value === 'string' ? parseInterval(value) : null
+  if (!interval) {
+    throw new Error(`invalid input syntax for type interval: "${value}"`)
+  }
+  return interval
+}
+
+function plural(value: number, unit: string): string {
+  return `${value} ${unit}${Math.abs(value) === 1 ? '' : 's'}`
+}
+
+export function formatInterval(interval: Interval): string {
+  const parts: string[] = []
+  const years = Math.trunc(interval.months / 12)
+  const months = interval.months % 12
+  if (years !== 0) parts.push(plural(years, 'year'))
+  if (months !== 0) parts.push(plural(months, 'mon'))
+  if (interval.days !== 0) parts.push(plural(interval.days, 'day'))
+  if (interval.ms !== 0 || parts.length === 0) {
+    const abs = Math.abs(interval.ms)
+    const seconds = Math.floor(abs / 1000) % 60
+    const millis = abs % 1000
+    let time = `${pad(Math.floor(abs / 3_600_000))}:${pad(Math.floor(abs / 60_000) % 60)}:${pad(seconds)}`
+    if (millis !== 0) time += `.${pad(millis, 3).replace(/0+$/, '')}`
+    parts.push(interval.ms < 0 ? `-${time}` : time)
+  }
+  return parts.join(' ')
+}
+
+/**
+ * Approximate length in milliseconds (a month counts as 30 days), for comparing intervals
+ */
+export function intervalLength(interval: Interval): number {
+  return (interval.months * 30 + interval.days) * DAY_MS + interval.ms
+}
+
+export function addInterval(ms: number, interval: Interval, sign: 1 | -1 = 1): number {
+  let result = ms
+  if (interval.months !== 0) {
+    const d = new Date(ms)
+    const totalMonths = d.getUTCFullYear() * 12 + d.getUTCMonth() + sign * interval.months
+    const year = Math.floor(totalMonths / 12)
+    const month = totalMonths - year * 12
+    const day = Math.min(d.getUTCDate(), daysInMonth(year, month))
+    const shifted = new Date(ms)
+    shifted.setUTCFullYear(year, month, day)
+    result = shifted.getTime()
+  }
+  return result + sign * (interval.days * DAY_MS + interval.ms)
+}
+
+/**
+ * a - b for timestamps: whole days plus the remaining time, like PostgreSQL's justified output
+ */
+export function subtractTimestamps(a: number, b: number): Interval {
+  const diff = a - b
+  const days = Math.trunc(diff / DAY_MS)
+  return { months: 0, days, ms: diff - days * DAY_MS }
+}
+
+function scaleInterval(interval: Interval, factor: number): Interval {
+  const months = interval.months * factor
+  const days = interval.days * factor + (months - Math.trunc(months)) * 30
+  const ms = interval.ms * factor + (days - Math.trunc(days)) * DAY_MS
+  return { months: Math.trunc(months), days: Math.trunc(days), ms: Math.round(ms) }
+}
+
+// -----------------------------------------------------------------------------
+// Arithmetic on typed operands
+// -----------------------------------------------------------------------------
+
+function isDateLike(type: string | undefined): boolean {
+  return type === 'date' || type === 'timestamp'
+}
+
+function isNumber(type: string | undefined): boolean {
+  return type === 'integer' || type === 'decimal'
+}
+
+export interface TemporalOperation {
+  type: string
+  apply: (left: SqlValue, right: SqlValue) => SqlValue
+}
+
+/**
+ * Resolve an arithmetic operator over date, timestamp and interval operands from their static
+ * types, following PostgreSQL's operator table. Undefined when neither side is temporal, so the
+ * caller falls back to numeric arithmetic.
+ */
+export function temporalOperation(
+  op: string,
+  leftType: string | undefined,
+  rightType: string | undefined
+): TemporalOperation | undefined {
+  const withNulls = (apply: (left: SqlValue, right: SqlValue) => SqlValue) =>
+    (left: SqlValue, right: SqlValue) => (left === null || right === null ? null : apply(left, right))
+  const interval = (fn: (left: SqlValue, right: SqlValue) => Interval): TemporalOperation => ({
+    type: 'interval',
+    apply: withNulls((left, right) => formatInterval(fn(left, right))),
+  })
+  const shift = (dateSide: 'left' | 'right', sign: 1 | -1): TemporalOperation => ({
+    type: 'timestamp',
+    apply: withNulls((left, right) => {
+      const [date, span] = dateSide === 'left' ? [left, right] : [right, left]
+      return formatTimestamp(addInterval(toTimestamp(date)!, toInterval(span)!, sign))
+    }),
+  })
+  const addDays = (dateSide: 'left' | 'right', sign: 1 | -1): TemporalOperation => ({
+    type: 'date',
+    apply: withNulls((left, right) => {
+      const [date, days] = dateSide === 'left' ? [left, right] : [right, left]
+      return formatDate(toTimestamp(date, 'date')! + sign * Number(days) * DAY_MS)
+    }),
+  })
+
+  switch (op) {
+    case '+':
+      // An untyped text value next to an interval is read as a timestamp ('2024-01-01' + INTERVAL '1 day')
+      if ((isDateLike(leftType) || leftType === 'text') && rightType === 'interval') return shift('left', 1)
+      if (leftType === 'interval' && (isDateLike(rightType) || rightType === 'text')) return shift('right', 1)
+      if (leftType === 'date' && rightType === 'integer') return addDays('left', 1)
+      if (leftType === 'integer' && rightType === 'date') return addDays('right', 1)
+      if (leftType === 'interval' && rightType === 'interval') {
+        return interval((left, right) => {
+          const a = toInterval(left)!
+          const b = toInterval(right)!
+          return { months: a.months + b.months, days: a.days + b.days, ms: a.ms + b.ms }
+        })
+      }
+      break
+    case '-':
+      if ((isDateLike(leftType) || leftType === 'text') && rightType === 'interval') return shift('left', -1)
+      if (leftType === 'date' && rightType === 'integer') return addDays('left', -1)
+      if (leftType === 'date' && rightType === 'date') {
+        return {
+          type: 'integer',
+          apply: withNulls((left, right) => Math.round((toTimestamp(left, 'date')! - toTimestamp(right, 'date')!) / DAY_MS)),
+        }
+      }
+      if (isDateLike(leftType) && isDateLike(rightType)) {
+        return interval((left, right) => subtractTimestamps(toTimestamp(left)!, toTimestamp(right)!))
+      }
+      if (leftType === 'interval' && rightType === 'interval') {
+        return interval((left, right) => {
+          const a = toInterval(left)!
+          const b = toInterval(right)!
+          return { months: a.months - b.months, days: a.days - b.days, ms: a.ms - b.ms }
+        })
+      }
+      break
+    case '*':
+      if (leftType === 'interval' && isNumber(rightType)) return interval((left, right) => scaleInterval(toInterval(left)!, Number(right)))
+      if (isNumber(leftType) && rightType === 'interval') return interval((left, right) => scaleInterval(toInterval(right)!, Number(left)))
+      break
+    case '/':
+      if (leftType === 'interval' && isNumber(rightType)) {
+        return interval((left, right) => {
+          if (Number(right) === 0) throw new Error('division by zero')
+          return scaleInterval(toInterval(left)!, 1 / Number(right))
+        })
+      }
+      break
+  }
+
+  if (isDateLike(leftType) || isDateLike(rightType) || leftType === 'interval' || rightType === 'interval') {
+    throw new Error(`operator does not exist: ${leftType ?? 'unknown'} ${op} ${rightType ?? 'unknown'}`)
+  }
+  return undefined
+}
+
+// -----------------------------------------------------------------------------
+// DATE_TRUNC / EXTRACT / TO_CHAR
+// -----------------------------------------------------------------------------
+
+function isoWeek(ms: number): { year: number; week: number } {
+  const d = new Date(ms)
+  const day = (d.getUTCDay() + 6) % 7 // Monday = 0
+  // The Thursday of this week decides the ISO year
+  const thursday = Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate() - day + 3)
+  const year = new Date(thursday).getUTCFullYear()
+  const week = Math.floor((thursday - Date.UTC(year, 0, 1)) / (7 * DAY_MS)) + 1
+  return { year, week }
+}
+
+function dayOfYear(ms: number): number {
+  const d = new Date(ms)
+  return Math.floor((Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()) - Date.UTC(d.getUTCFullYear(), 0, 1)) / DAY_MS) + 1
+}
+
+/**
+ * DATE_TRUNC('month', ts): the start of the given unit, as a timestamp
+ */
+export function truncateTimestamp(field: string, ms: number): number {
+  const d = new Date(ms)
+  const year = d.getUTCFullYear()
+  const month = d.getUTCMonth()
+  switch (field.toLowerCase()) {
+    case 'microseconds':
+    case 'milliseconds':
+      return ms
+    case 'second':
+      return Math.floor(ms / 1000) * 1000
+    case 'minute':
+      return Math.floor(ms / 60_000) * 60_000
+    case 'hour':
+      return Math.floor(ms / 3_600_000) * 3_600_000
+    case 'day':
+      return Math.floor(ms / DAY_MS) * DAY_MS
+    case 'week': {
+      const dayStart = Math.floor(ms / DAY_MS) * DAY_MS
+      return dayStart - ((d.getUTCDay() + 6) % 7) * DAY_MS
+    }
+    case 'month':
+      return Date.UTC(year, month, 1)
+    case 'quarter':
+      return Date.UTC(year, month - (month % 3), 1)
+    case 'year':
+      return Date.UTC(year, 0, 1)
+    case 'decade':
+      return Date.UTC(year - (year % 10), 0, 1)
+    case 'century':
+      return Date.UTC(Math.floor((year - 1) / 100) * 100 + 1, 0, 1)
+    case 'millennium':
+      return Date.UTC(Math.floor((year - 1) / 1000) * 1000 + 1, 0, 1)
+    default:
+      throw new Error(`unit "${field}" not recognized for type timestamp`)
+  }
+}
+
+/**
+ * EXTRACT(field FROM ts) / DATE_PART('field', ts)
+ */
+export function extractField(field: string, ms: number): number {
+  const d = new Date(ms)
+  const year = d.getUTCFullYear()
+  switch (field.toLowerCase()) {
+    case 'millennium':
+      return Math.floor((year - 1) / 1000) + 1
+    case 'century':
+      return Math.floor((year - 1) / 100) + 1
+    case 'decade':
+      return Math.floor(year / 10)
+    case 'year':
+      return year
+    case 'isoyear':
+      return isoWeek(ms).year
+    case 'quarter':
+      return Math.floor(d.getUTCMonth() / 3) + 1
+    case 'month':
+      return d.getUTCMonth() + 1
+    case 'week':
+      return isoWeek(ms).week
+    case 'day':
+      return d.getUTCDate()
+    case 'dow':
+      return d.getUTCDay()
+    case 'isodow':
+      return d.getUTCDay() === 0 ? 7 : d.getUTCDay()
+    case 'doy':
+      return dayOfYear(ms)
+    case 'hour':
+      return d.getUTCHours()
+    case 'minute':
+      return d.getUTCMinutes()
+    case 'second':
+      return d.getUTCSeconds() + d.getUTCMilliseconds() / 1000
+    case 'milliseconds':
+      return d.getUTCSeconds() * 1000 + d.getUTCMilliseconds()
+    case 'epoch':
+      return ms / 1000
+    default:
+      throw new Error(`unit "${field}" not recognized for type timestamp`)
+  }
+}
+
+/**
+ * EXTRACT(field FROM interval), e.g. EXTRACT(EPOCH FROM finished_at - started_at)
+ */
+export function extractIntervalField(field: string, interval: Interval): number {
+  switch (field.toLowerCase()) {
+    case 'year':
+      return Math.trunc(interval.months / 12)
+    case 'month':
+      return interval.months % 12
+    case 'day':
+      return interval.days
+    case 'hour':
+      return Math.trunc(interval.ms / 3_600_000)
+    case 'minute':
+      return Math.trunc(interval.ms / 60_000) % 60
+    case 'second':
+      return (interval.ms % 60_000) / 1000
+    case 'epoch':
+      return (Math.trunc(interval.months / 12) * 365.25 + (interval.months % 12) * 30 + interval.days) * 86_400 + interval.ms / 1000
+    default:
+      throw new Error(`unit "${field}" not supported for type interval`)
+  }
+}
+
+// TO_CHAR template patterns, longest first so HH24 wins over HH and MONTH over MON / MM
+const DATE_PATTERNS = [
+  'HH24', 'HH12', 'HH', 'MI', 'SS', 'MS', 'AM', 'PM', 'am', 'pm',
+  'YYYY', 'IYYY', 'YYY', 'YY', 'Y',
+  'MONTH', 'Month', 'month', 'MON', 'Mon', 'mon', 'MM',
+  'DAY', 'Day', 'day', 'DY', 'Dy', 'dy', 'DDD', 'DD', 'ID', 'D',
+  'IW', 'WW', 'Q',
+]
+
+function applyCase(name: string, pattern: string): string {
+  if (pattern === pattern.toUpperCase()) return name.toUpperCase()
+  if (pattern === pattern.toLowerCase()) return name.toLowerCase()
+  return name
+}
+
+function formatDatePattern(pattern: string, ms: number, fillMode: boolean): string {
+  const d = new Date(ms)
+  const num = (value: number, width: number) => (fillMode ? String(value) : pad(value, width))
+  const name = (value: string) => (fillMode ? value : value.padEnd(9, ' '))
+  const hour12 = d.getUTCHours() % 12 === 0 ? 12 : d.getUTCHours() % 12
+
+  switch (pattern) {
+    case 'HH24': return num(d.getUTCHours(), 2)
+    case 'HH12':
+    case 'HH': return num(hour12, 2)
+    case 'MI': return num(d.getUTCMinutes(), 2)
+    case 'SS': return num(d.getUTCSeconds(), 2)
+    case 'MS': return num(d.getUTCMilliseconds(), 3)
+    case 'AM':
+    case 'PM': return d.getUTCHours() < 12 ? 'AM' : 'PM'
+    case 'am':
+    case 'pm': return d.getUTCHours() < 12 ? 'am' : 'pm'
+    case 'YYYY': return num(d.getUTCFullYear(), 4)
+    case 'IYYY': return num(isoWeek(ms).year, 4)
+    case 'YYY': return pad(d.getUTCFullYear() % 1000, 3)
+    case 'YY': return pad(d.getUTCFullYear() % 100, 2)
+    case 'Y': return String(d.getUTCFullYear() % 10)
+    case 'MONTH':
+    case 'Month':
+    case 'month': return name(applyCase(MONTH_NAMES[d.getUTCMonth()], pattern))
+    case 'MON':
+    case 'Mon':
+    case 'mon': return applyCase(MONTH_NAMES[d.getUTCMonth()].slice(0, 3), pattern)
+    case 'MM': return num(d.getUTCMonth() + 1, 2)
+    case 'DAY':
+    case 'Day':
+    case 'day': return name(applyCase(DAY_NAMES[d.getUTCDay()], pattern))
+    case 'DY':
+    case 'Dy':
+    case 'dy': return applyCase(DAY_NAMES[d.getUTCDay()].slice(0, 3), pattern)
+    case 'DDD': return num(dayOfYear(ms), 3)
+    case 'DD': return num(d.getUTCDate(), 2)
+    case 'ID': return String(d.getUTCDay() === 0 ? 7 : d.getUTCDay())
+    case 'D': return String(d.getUTCDay() + 1)
+    case 'IW': return num(isoWeek(ms).week, 2)
+    case 'WW': return num(Math.floor((dayOfYear(ms) - 1) / 7) + 1, 2)
+    case 'Q': return String(Math.floor(d.getUTCMonth() / 3) + 1)
+    default: return pattern
+  }
+}
+
+/**
+ * TO_CHAR(timestamp, template) with PostgreSQL's template patterns. FM suppresses padding for
+ * the next pattern; double-quoted text is copied literally.
+ */
+export function formatTimestampTemplate(ms: number, template: string): string {
+  let out = ''
+  let i = 0
+  while (i < template.length) {
+    if (template[i] === '"') {
+      const end = template.indexOf('"', i + 1)
+      out += template.slice(i + 1, end === -1 ? undefined : end)
+      i = end === -1 ? template.length : end + 1
+      continue
+    }
+    let fillMode = false
+    if (template.startsWith('FM', i) || template.startsWith('fm', i)) {
+      fillMode = true
+      i += 2
+    }
+    const pattern = DATE_PATTERNS.find(p => template.startsWith(p, i))
+    if (pattern) {
+      out += formatDatePattern(pattern, ms, fillMode)
+      i += pattern.length
+    } else {
+      out += template[i]
+      i++
+    }
+  }
+  return out
+}
@@ -0,0 +1,1727 @@
+/**
+ * AST evaluator for the in-memory SQL engine
+ *
+ * Expressions are compiled once into closures over positional rows, so column names are resolved
+ * before the scan instead of per row. A SELECT runs in the usual logical order:
+ * FROM / JOIN → WHERE → GROUP BY / aggregates → HAVING → window functions → SELECT list →
+ * DISTINCT → ORDER BY → OFFSET / LIMIT.
+ */
+
+import type {
+  CommonTableExpr,
+  Expr,
+  FrameBound,
+  FromItem,
+  FunctionCall,
+  JoinRef,
+  OrderByItem,
+  Query,
+  SelectItem,
+  SelectStatement,
+  SetOperation,
+  SetOperator,
+  SqlValue,
+  WithClause,
+} from './ast'
+import { createAccumulator, isAggregateFunction, type Accumulator } from './aggregates'
+import { intervalLength, temporalOperation, toInterval } from './dates'
+import { getScalarFunction } from './functions'
+import {
+  computeWindowValues,
+  isWindowFunction,
+  validateWindowCall,
+  type WindowFrameBound,
+  type WindowPlan,
+} from './windows'
+import {
+  castValue,
+  columnTypeForSqlType,
+  compareForSort,
+  compareValues,
+  groupKey,
+  inferValueType,
+  isIntegerType,
+  isNumericType,
+  joinKey,
+  normalizeColumnValue,
+  toBoolean,
+  toNumber,
+} from './values'
+
+export type Row = SqlValue[]
+export type Evaluator = (row: Row) => SqlValue
+
+export interface Field {
+  name: string
+  type: string
+  // Name the field is qualified by in SQL (table alias, or table name when unaliased)
+  table: string | null
+  // Underlying table name, accepted as a qualifier even when the table is aliased
+  sourceTable?: string
+  // Internal slot (aggregate and window results) that SELECT * must not expand
+  hidden?: boolean
+  // Column merged by JOIN ... USING: still reachable as table.column, but not by bare name or *
+  qualifiedOnly?: boolean
+}
+
+export interface Relation {
+  fields: Field[]
+  rows: Row[]
+}
+
+/**
+ * A table the engine can query: the same shape as registered files and chat sessions
+ */
+export interface TableSource {
+  tableName: string
+  columns: Array<{ name: string; type: string }>
+  data: Record<string, any>[]
+  // Column-oriented storage; when present it is read instead of data, one column at a time
+  storage?: {
+    rowCount: number
+    readColumn(name: string): (index: number) => SqlValue
+  }
+}
+
+interface Scope {
+  fields: Field[]
+  // Aggregate call node → position of its precomputed value in the grouped row
+  aggregates?: Map<Expr, number>
+  // Window call node → position of its precomputed value, appended after grouping
+  windows?: Map<Expr, number>
+  // Grouped rows only: input fields holding grouping values. Any other input column may only be
+  // read inside an aggregate, so SELECT region, amount ... GROUP BY region is an error.
+  groupedFields?: Set<number>
+  // Grouped rows only: GROUP BY expressions that aren't plain columns (expression key → slot)
+  groupExprs?: Map<string, number>
+  // Output column aliases, consulted when a name doesn't resolve against the input fields
+  aliases?: Array<{ name: string; index: number }>
+  // SELECT items, so HAVING can name an output column (HAVING total > 10) before projection
+  selectItems?: SelectItem[]
+  // Tables, CTEs and the enclosing query; needed to compile subqueries
+  context?: QueryContext
+}
+
+/**
+ * The query a subquery is nested in. Column names the subquery can't resolve itself are looked up
+ * here, and `row` holds the outer row the subquery is currently being evaluated for.
+ */
+interface OuterScope {
+  scope: Scope
+  row: Row
+  // Set when the subquery referenced an outer column, so its result can't be reused across rows
+  correlated: boolean
+  // While the subquery is first compiled: the outer values it reads, in reference order
+  references?: Evaluator[]
+}
+
+interface CteBinding {
+  relation: Relation
+  // Set whenever FROM reads the CTE; used to detect self-reference in WITH RECURSIVE
+  referenced: boolean
+}
+
+interface QueryContext {
+  tables: TableSource[]
+  // Normalized rows per table, shared by every scope of one query
+  loadedRows: Map<TableSource, Row[]>
+  // Lowercase names of the columns the query reads (null: all); the rest are loaded as NULL
+  neededColumns: Set<string> | null
+  // Visible WITH queries, keyed by lowercase name
+  ctes: Map<string, CteBinding>
+  outer?: OuterScope
+}
+
+// -----------------------------------------------------------------------------
+// Column resolution
+// -----------------------------------------------------------------------------
+
+/**
+ * Find a column in the scope's own fields. Returns undefined when it isn't there;
+ * throws only when the reference is ambiguous.
+ */
+function findColumn(scope: Scope, table: string | undefined, name: string): number | undefined {
+  const candidates = scope.fields
+    .map((field, index) => ({ field, index }))
+    .filter(({ field }) => !field.hidden && (table || !field.qualifiedOnly))
+
+  let qualified = candidates
+  if (table) {
+    const tableLower = table.toLowerCase()
+    qualified = candidates.filter(({ field }) => field.table?.toLowerCase() === tableLower)
+    if (qualified.length === 0) {
+      qualified = candidates.filter(({ field }) => field.sourceTable?.toLowerCase() === tableLower)
+    }
+  }
+
+  // Exact (quoted-style) match first, then case-insensitive
+  let matches = qualified.filter(({ field }) => field.name === name)
+  if (matches.length === 0) {
+    const nameLower = name.toLowerCase()
+    matches = qualified.filter(({ field }) => field.name.toLowerCase() === nameLower)
+  }
+
+  if (matches.length > 1) {
+    throw new Error(`column reference "${table ? `${table}.${name}` : name}" is ambiguous`)
+  }
+  return matches[0]?.index
+}
+
+function resolveColumn(scope: Scope, table: string | undefined, name: string): number {
+  const index = findColumn(scope, table, name)
+  if (index !== undefined) return index
+
+  if (table) {
+    const tableLower = table.toLowerCase()
+    const known = scope.fields.some(f => f.table?.toLowerCase() === tableLower || f.sourceTable?.toLowerCase() === tableLower)
+    if (!known) {
+      throw new Error(`missing FROM-clause entry for table "${table}"`)
+    }
+  }
+  throw new Error(`column "${table ? `${table}.${name}` : name}" does not exist`)
+}
+
+interface ColumnBinding {
+  type?: string
+  evaluate: Evaluator
+}
+
+function findByName<T extends { name: string }>(items: T[], name: string): T | undefined {
+  const nameLower = name.toLowerCase()
+  return items.find(item => item.name === name) || items.find(item => item.name.toLowerCase() === nameLower)
+}
+
+/**
+ * Bind a bare name to an output column: a projected value (ORDER BY) or, before projection,
+ * the aliased SELECT expression itself (HAVING)
+ */
+function bindOutputAlias(scope: Scope, name: string): ColumnBinding | undefined {
+  if (scope.aliases) {
+    const alias = findByName(scope.aliases, name)
+    if (alias) return { evaluate: row => row[alias.index] }
+  }
+  if (scope.selectItems) {
+    const named = scope.selectItems
+      .filter(item => item.alias !== undefined)
+      .map(item => ({ name: item.alias!, expr: item.expr }))
+    const item = findByName(named, name)
+    if (item) {
+      const itemScope: Scope = { ...scope, selectItems: undefined }
+      return { type: inferExprType(item.expr, itemScope), evaluate: compileExpr(item.expr, itemScope) }
+    }
+  }
+  return undefined
+}
+
+function ungroupedColumnError(table: string | undefined, name: string): Error {
+  return new Error(
+    `column "${table ? `${table}.${name}` : name}" must appear in the GROUP BY clause or be used in an aggregate function`
+  )
+}
+
+/**
+ * Bind a column reference to an evaluator: the scope's own fields first, then output aliases
+ * (ORDER BY, HAVING), then the enclosing queries for correlated subqueries. Undefined when not
+ * found.
+ */
+function tryBindColumn(scope: Scope, table: string | undefined, name: string): ColumnBinding | undefined {
+  const index = findColumn(scope, table, name)
+  if (index !== undefined) {
+    if (!scope.groupedFields || scope.groupedFields.has(index)) {
+      return { type: scope.fields[index].type, evaluate: row => row[index] }
+    }
+    // An ungrouped input column is unreadable after grouping; an output column of the same name
+    // (SUM(amount) AS amount) is what the query means
+    const output = table ? undefined : bindOutputAlias(scope, name)
+    if (output) return output
+    throw ungroupedColumnError(table, name)
+  }
+
+  if (!table) {
+    const output = bindOutputAlias(scope, name)
+    if (output) return output
+  }
+
+  const outer = scope.context?.outer
+  if (outer) {
+    const binding = tryBindColumn(outer.scope, table, name)
+    if (binding) {
+      outer.correlated = true
+      outer.references?.push(binding.evaluate)
+      return { type: binding.type, evaluate: () => binding.evaluate(outer.row) }
+    }
+  }
+  return undefined
+}
+
+function bindColumn(scope: Scope, table: string | undefined, name: string): ColumnBinding {
+  const binding = tryBindColumn(scope, table, name)
+  if (binding) return binding
+  // Not found anywhere: report it against the innermost query, like PostgreSQL
+  resolveColumn(scope, table, name)
+  throw new Error(`column "${name}" does not exist`)
+}
+
+// -----------------------------------------------------------------------------
+// Expression compilation
+// -----------------------------------------------------------------------------
+
+function likeToRegExp(pattern: string, caseInsensitive: boolean): RegExp {
+  let source = ''
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+    if (char === '\\' && i + 1 < pattern.length) {
+      source += pattern[++i].replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    } else if (char === '%') {
+      source += '.*'
+    } else if (char === '_') {
+      source += '.'
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+  return new RegExp(`^${source}$`, caseInsensitive ? 'is' : 's')
+}
+
+function compileComparison(op: string, left: Evaluator, right: Evaluator): Evaluator {
+  return row => {
+    const a = left(row)
+    if (a === null) return null
+    const b = right(row)
+    if (b === null) return null
+    const cmp = compareValues(a, b)
+    switch (op) {
+      case '=':
+        return cmp === 0
+      case '<>':
+        return cmp !== 0
+      case '<':
+        return cmp < 0
+      case '>':
+        return cmp > 0
+      case '<=':
+        return cmp <= 0
+      default:
+        return cmp >= 0
+    }
+  }
+}
+
+/**
+ * `integral`: both operands are integers, so / truncates toward zero as in PostgreSQL (7 / 2 is 3)
+ */
+function compileArithmetic(op: string, left: Evaluator, right: Evaluator, integral: boolean): Evaluator {
+  return row => {
+    const a = toNumber(left(row))
+    const b = toNumber(right(row))
+    if (a === null || b === null) return null
+    switch (op) {
+      case '+':
+        return a + b
+      case '-':
+        return a - b
+      case '*':
+        return a * b
+      case '/':
+        if (b === 0) throw new Error('division by zero')
+        return integral ? Math.trunc(a / b) : a / b
+      default:
+        if (b === 0) throw new Error('division by zero')
+        return a % b
+    }
+  }
+}
+
+/**
+ * Collapse numeric type spellings (int8, numeric, ...) so operator resolution sees integer / decimal
+ */
+function operandType(type: string | undefined): string | undefined {
+  if (isIntegerType(type)) return 'integer'
+  if (isNumericType(type)) return 'decimal'
+  return type
+}
+
+function compileScalarFunction(call: FunctionCall, scope: Scope): Evaluator {
+  const name = call.name.toLowerCase()
+  const fn = getScalarFunction(call.name)
+  if (!fn) {
+    throw new Error(`function ${name}() does not exist`)
+  }
+  if (call.args.length < fn.minArgs || call.args.length > fn.maxArgs) {
+    throw new Error(`function ${name}() called with the wrong number of arguments`)
+  }
+  const args = call.args.map(arg => compileExpr(arg, scope))
+  return row => {
+    const values = args.map(evaluate => evaluate(row))
+    if (!fn.acceptsNulls && values.some(value => value === null)) return null
+    return fn.call(values)
+  }
+}
+
+export function compileExpr(expr: Expr, scope: Scope): Evaluator {
+  const groupSlot = findGroupExpr(expr, scope)
+  if (groupSlot !== undefined) {
+    return row => row[groupSlot]
+  }
+
+  switch (expr.kind) {
+    case 'literal': {
+      const value = expr.value
+      return () => value
+    }
+
+    case 'column':
+      return bindColumn(scope, expr.table, expr.name).evaluate
+
+    case 'star':
+      throw new Error('"*" is only allowed in the SELECT list and COUNT(*)')
+
+    case 'unary': {
+      const operand = compileExpr(expr.operand, scope)
+      if (expr.op === 'NOT') {
+        return row => {
+          const value = toBoolean(operand(row))
+          return value === null ? null : !value
+        }
+      }
+      return row => {
+        const value = toNumber(operand(row))
+        return value === null ? null : -value
+      }
+    }
+
+    case 'binary': {
+      const left = compileExpr(expr.left, scope)
+      const right = compileExpr(expr.right, scope)
+
+      // Three-valued logic: FALSE AND NULL = FALSE, TRUE OR NULL = TRUE
+      if (expr.op === 'AND') {
+        return row => {
+          const a = toBoolean(left(row))
+          if (a === false) return false
+          const b = toBoolean(right(row))
+          if (b === false) return false
+          return a === null || b === null ? null : true
+        }
+      }
+      if (expr.op === 'OR') {
+        return row => {
+          const a = toBoolean(left(row))
+          if (a === true) return true
+          const b = toBoolean(right(row))
+          if (b === true) return true
+          return a === null || b === null ? null : false
+        }
+      }
+      if (expr.op === '||') {
+        return row => {
+          const a = left(row)
+          const b = right(row)
+          return a === null || b === null ? null : String(a) + String(b)
+        }
+      }
+
+      // Dates, timestamps and intervals are strings at run time, so the operator is picked from
+      // the operands' static types
+      const leftType = operandType(inferExprType(expr.left, scope))
+      const rightType = operandType(inferExprType(expr.right, scope))
+      if (['+', '-', '*', '/', '%'].includes(expr.op)) {
+        const temporal = temporalOperation(expr.op, leftType, rightType)
+        if (temporal) {
+          temporalOperators?.set(expressionKey(expr), [leftType, rightType])
+          return row => temporal.apply(left(row), right(row))
+        }
+        const integral = leftType === 'integer' && rightType === 'integer'
+        if (integral && expr.op === '/') integerDivisions?.add(expressionKey(expr))
+        return compileArithmetic(expr.op, left, right, integral)
+      }
+      if (leftType === 'interval' || rightType === 'interval') {
+        temporalOperators?.set(expressionKey(expr), [leftType, rightType])
+        const length = (evaluate: Evaluator): Evaluator => row => {
+          const interval = toInterval(evaluate(row))
+          return interval === null ? null : intervalLength(interval)
+        }
+        return compileComparison(expr.op, length(left), length(right))
+      }
+      return compileComparison(expr.op, left, right)
+    }
+
+    case 'isNull': {
+      const operand = compileExpr(expr.operand, scope)
+      return row => (operand(row) === null) !== expr.negated
+    }
+
+    case 'isTruth': {
+      const operand = compileExpr(expr.operand, scope)
+      return row => (toBoolean(operand(row)) === expr.value) !== expr.negated
+    }
+
+    case 'between': {
+      const operand = compileExpr(expr.operand, scope)
+      const low = compileExpr(expr.low, scope)
+      const high = compileExpr(expr.high, scope)
+      return row => {
+        const value = operand(row)
+        const lo = low(row)
+        const hi = high(row)
+        if (value === null || lo === null || hi === null) return null
+        const inRange = compareValues(value, lo) >= 0 && compareValues(value, hi) <= 0
+        return inRange !== expr.negated
+      }
+    }
+
+    case 'inList': {
+      const operand = compileExpr(expr.operand, scope)
+      const list = expr.list.map(item => compileExpr(item, scope))
+      return row => {
+        const value = operand(row)
+        if (value === null) return null
+        let sawNull = false
+        for (const item of list) {
+          const candidate = item(row)
+          if (candidate === null) {
+            sawNull = true
+          } else if (compareValues(value, candidate) === 0) {
+            return !expr.negated
+          }
+        }
+        // x IN (1, NULL) is NULL when there is no match, not FALSE
+        return sawNull ? null : expr.negated
+      }
+    }
+
+    case 'like': {
+      const operand = compileExpr(expr.operand, scope)
+      if (expr.pattern.kind === 'literal' && typeof expr.pattern.value === 'string') {
+        const regex = likeToRegExp(expr.pattern.value, expr.caseInsensitive)
+        return row => {
+          const value = operand(row)
+          return value === null ? null : regex.test(String(value)) !== expr.negated
+        }
+      }
+      const pattern = compileExpr(expr.pattern, scope)
+      return row => {
+        const value = operand(row)
+        const patternValue = pattern(row)
+        if (value === null || patternValue === null) return null
+        return likeToRegExp(String(patternValue), expr.caseInsensitive).test(String(value)) !== expr.negated
+      }
+    }
+
+    case 'case': {
+      const operand = expr.operand ? compileExpr(expr.operand, scope) : null
+      const whens = expr.whens.map(({ when, then }) => ({
+        when: compileExpr(when, scope),
+        then: compileExpr(then, scope),
+      }))
+      const elseExpr = expr.elseExpr ? compileExpr(expr.elseExpr, scope) : () => null
+      return row => {
+        const subject = operand ? operand(row) : null
+        for (const { when, then } of whens) {
+          const test = when(row)
+          const matched = operand
+            ? subject !== null && test !== null && compareValues(subject, test) === 0
+            : toBoolean(test) === true
+          if (matched) return then(row)
+        }
+        return elseExpr(row)
+      }
+    }
+
+    case 'cast': {
+      const operand = compileExpr(expr.operand, scope)
+      // Validate the type name at compile time so typos fail before scanning
+      columnTypeForSqlType(expr.targetType)
+      return row => castValue(operand(row), expr.targetType)
+    }
+
+    case 'function': {
+      if (expr.over) {
+        const index = scope.windows?.get(expr)
+        if (index === undefined) {
+          throw new Error('window functions are not allowed here')
+        }
+        return row => row[index]
+      }
+      if (isWindowFunction(expr.name)) {
+        throw new Error(`window function ${expr.name.toLowerCase()} requires an OVER clause`)
+      }
+      if (expr.distinct && !isAggregateFunction(expr.name)) {
+        throw new Error(`DISTINCT specified, but ${expr.name.toLowerCase()} is not an aggregate function`)
+      }
+      if (isAggregateFunction(expr.name)) {
+        const index = scope.aggregates?.get(expr)
+        if (index === undefined) {
+          throw new Error(`aggregate function ${expr.name.toLowerCase()}() is not allowed here`)
+        }
+        return row => row[index]
+      }
+      return compileScalarFunction(expr, scope)
+    }
+
+    case 'subquery': {
+      const run = compileSubquery(expr.query, scope)
+      return row => {
+        const result = run(row)
+        if (result.fields.length !== 1) {
+          throw new Error('subquery must return only one column')
+        }
+        if (result.rows.length > 1) {
+          throw new Error('more than one row returned by a subquery used as an expression')
+        }
+        return result.rows.length === 0 ? null : result.rows[0][0]
+      }
+    }
+
+    case 'inSubquery': {
+      const operand = compileExpr(expr.operand, scope)
+      const run = compileSubquery(expr.query, scope)
+      return row => {
+        const value = operand(row)
+        const result = run(row)
+        if (result.fields.length !== 1) {
+          throw new Error('subquery has too many columns')
+        }
+        // x IN (empty set) is FALSE even when x is NULL
+        if (result.rows.length === 0) return expr.negated
+        if (value === null) return null
+        const index = indexSubqueryValues(result)
+        const candidates = index.buckets.get(joinKey([value])!) || []
+        if (candidates.some(candidate => compareValues(value, candidate) === 0)) {
+          return !expr.negated
+        }
+        return index.hasNull ? null : expr.negated
+      }
+    }
+
+    case 'exists': {
+      const run = compileSubquery(expr.query, scope)
+      return row => run(row).rows.length > 0
+    }
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Subqueries
+// -----------------------------------------------------------------------------
+
+/**
+ * Compile a subquery into a function of the outer row. It is first run once against empty
+ * tables, which resolves every column name and records which outer values it reads. Results are
+ * then reused: once for all rows when it reads none, otherwise per distinct set of outer values.
+ */
+function compileSubquery(query: Query, scope: Scope): (row: Row) => Relation {
+  const context = scope.context
+  if (!context) {
+    throw new Error('subqueries are not allowed here')
+  }
+
+  const outer: OuterScope = { scope, row: scope.fields.map(() => null), correlated: false, references: [] }
+  const inner: QueryContext = { ...context, outer }
+
+  let references: Evaluator[] | null = null
+  try {
+    runQuery(query, emptyContext(inner))
+    references = outer.references!
+  } catch {
+    // Leave it to the real run to report the error, and don't reuse results
+  }
+  outer.references = undefined
+
+  const results = new Map<string, Relation>()
+  return row => {
+    const key = references ? groupKey(references.map(evaluate => evaluate(row))) : null
+    const cached = key === null ? undefined : results.get(key)
+    if (cached) return cached
+    outer.row = row
+    const result = runQuery(query, inner)
+    if (key !== null) results.set(key, result)
+    return result
+  }
+}
+
+/**
+ * Built field by field: spreading a table would read its data, which may be materialized on access
+ */
+function emptyTable(table: TableSource): TableSource {
+  return { tableName: table.tableName, columns: table.columns, data: [] }
+}
+
+/**
+ * The same tables and CTEs with no rows, for resolving names without scanning anything
+ */
+function emptyContext(context: QueryContext): QueryContext {
+  const ctes = new Map<string, CteBinding>()
+  context.ctes.forEach((binding, name) => {
+    ctes.set(name, { relation: { fields: binding.relation.fields, rows: [] }, referenced: false })
+  })
+  return {
+    tables: context.tables.map(emptyTable),
+    loadedRows: new Map(),
+    neededColumns: context.neededColumns,
+    ctes,
+    outer: context.outer,
+  }
+}
+
+const subqueryValueIndexes = new WeakMap<Relation, { buckets: Map<string, SqlValue[]>; hasNull: boolean }>()
+
+/**
+ * Hash the single column of an IN (SELECT ...) result, once per result
+ */
+function indexSubqueryValues(result: Relation): { buckets: Map<string, SqlValue[]>; hasNull: boolean } {
+  let index = subqueryValueIndexes.get(result)
+  if (!index) {
+    const buckets = new Map<string, SqlValue[]>()
+    let hasNull = false
+    for (const row of result.rows) {
+      const key = joinKey([row[0]])
+      if (key === null) {
+        hasNull = true
+        continue
+      }
+      const bucket = buckets.get(key)
+      if (bucket) bucket.push(row[0])
+      else buckets.set(key, [row[0]])
+    }
+    index = { buckets, hasNull }
+    subqueryValueIndexes.set(result, index)
+  }
+  return index
+}
+
+// -----------------------------------------------------------------------------
+// Static type inference for result columns
+// -----------------------------------------------------------------------------
+
+function inferExprType(expr: Expr, scope: Scope): string | undefined {
+  const groupSlot = findGroupExpr(expr, scope)
+  if (groupSlot !== undefined) {
+    return scope.fields[groupSlot].type
+  }
+
+  switch (expr.kind) {
+    case 'literal':
+      if (expr.value === null) return undefined
+      return expr.decimal ? 'decimal' : inferValueType(expr.value)
+    case 'column':
+      return bindColumn(scope, expr.table, expr.name).type
+    case 'cast':
+      return columnTypeForSqlType(expr.targetType)
+    case 'unary':
+      return expr.op === 'NOT' ? 'boolean' : inferExprType(expr.operand, scope)
+    case 'binary': {
+      if (expr.op === '||') return 'text'
+      if (['+', '-', '*', '/', '%'].includes(expr.op)) {
+        const left = inferExprType(expr.left, scope)
+        const right = inferExprType(expr.right, scope)
+        const temporal = temporalOperation(expr.op, operandType(left), operandType(right))
+        if (temporal) return temporal.type
+        return isIntegerType(left) && isIntegerType(right) ? 'integer' : 'decimal'
+      }
+      return 'boolean'
+    }
+    case 'isNull':
+    case 'isTruth':
+    case 'between':
+    case 'inList':
+    case 'inSubquery':
+    case 'exists':
+    case 'like':
+      return 'boolean'
+    case 'case': {
+      const results = [...expr.whens.map(({ then }) => then), ...(expr.elseExpr ? [expr.elseExpr] : [])]
+      return results.map(result => inferExprType(result, scope)).find(type => type !== undefined)
+    }
+    case 'function': {
+      // Aggregates and window calls were typed against their input rows when their slot was made
+      const slot = scope.aggregates?.get(expr) ?? scope.windows?.get(expr)
+      if (slot !== undefined) return scope.fields[slot].type
+      const name = expr.name.toUpperCase()
+      if (['COUNT', 'ROW_NUMBER', 'RANK', 'DENSE_RANK', 'NTILE'].includes(name)) return 'integer'
+      if (['AVG', 'PERCENT_RANK', 'CUME_DIST'].includes(name)) return 'decimal'
+      if (name === 'SUM') {
+        const argType = expr.args[0] ? inferExprType(expr.args[0], scope) : undefined
+        return isIntegerType(argType) ? 'integer' : 'decimal'
+      }
+      if (['MIN', 'MAX', 'LAG', 'LEAD', 'FIRST_VALUE', 'LAST_VALUE', 'NTH_VALUE'].includes(name)) {
+        return expr.args[0] ? inferExprType(expr.args[0], scope) : undefined
+      }
+      const fn = getScalarFunction(name)
+      return fn?.returnType(expr.args.map(arg => inferExprType(arg, scope)), expr.args)
+    }
+    default:
+      return undefined
+  }
+}
+
+/**
+ * Default output column name, following PostgreSQL: the column name for column references,
+ * the function name for calls, and "?column?" for anything else.
+ */
+function defaultColumnName(expr: Expr): string {
+  switch (expr.kind) {
+    case 'column':
+      return expr.name
+    case 'function':
+      return expr.name.toLowerCase()
+    case 'cast':
+      return expr.operand.kind === 'column' || expr.operand.kind === 'function'
+        ? defaultColumnName(expr.operand)
+        : expr.targetType.toLowerCase()
+    case 'case':
+      return 'case'
+    case 'exists':
+      return 'exists'
+    case 'subquery': {
+      // A scalar subquery is named after its single output column
+      const query = expr.query
+      if (query.kind === 'select' && query.columns.length === 1 && query.columns[0].expr.kind !== 'star') {
+        return query.columns[0].alias || defaultColumnName(query.columns[0].expr)
+      }
+      return '?column?'
+    }
+    default:
+      return '?column?'
+  }
+}
+
+// -----------------------------------------------------------------------------
+// SELECT execution
+// -----------------------------------------------------------------------------
+
+function findTable(tables: TableSource[], name: string): TableSource {
+  const nameLower = name.toLowerCase()
+  const table = tables.find(t => t.tableName === name) || tables.find(t => t.tableName.toLowerCase() === nameLower)
+  if (!table) {
+    const available = tables.map(t => `"${t.tableName}"`).join(', ') || 'none'
+    throw new Error(`Table "${name}" not found. Available tables: ${available}`)
+  }
+  return table
+}
+
+/**
+ * Give a query result the table label it is referenced by in FROM, optionally renaming columns
+ */
+function labelRelation(relation: Relation, table: string | null, columnAliases?: string[], sourceTable?: string): Relation {
+  if (columnAliases && columnAliases.length > relation.fields.length) {
+    throw new Error(`table "${table}" has ${relation.fields.length} columns available but ${columnAliases.length} columns specified`)
+  }
+  const fields: Field[] = relation.fields.map((field, i) => ({
+    name: columnAliases?.[i] ?? field.name,
+    type: field.type,
+    table,
+    sourceTable,
+  }))
+  return { fields, rows: relation.rows }
+}
+
+/**
+ * Resolve a table name in FROM: WITH queries shadow uploaded tables of the same name
+ */
+function resolveTable(context: QueryContext, name: string, alias?: string): Relation {
+  const cte = context.ctes.get(name.toLowerCase())
+  if (cte) {
+    cte.referenced = true
+    return labelRelation(cte.relation, alias || name, undefined, name)
+  }
+  return loadTable(context, findTable(context.tables, name), alias)
+}
+
+/**
+ * Load a table into positional rows, normalizing raw cell values by declared column type.
+ * Rows are normalized once per query, however often the table is read (correlated subqueries).
+ */
+function loadTable(context: QueryContext, table: TableSource, alias?: string): Relation {
+  const columns = table.columns || []
+  const fields: Field[] = columns.map(col => ({
+    name: col.name,
+    type: col.type || 'text',
+    table: alias || table.tableName,
+    sourceTable: table.tableName,
+  }))
+  let rows = context.loadedRows.get(table)
+  if (!rows) {
+    const needed = columns.map(col => !context.neededColumns || context.neededColumns.has(col.name.toLowerCase()))
+    const storage = table.storage
+    if (storage) {
+      const readers = columns.map((col, i) => (needed[i] ? storage.readColumn(col.name) : null))
+      rows = new Array(storage.rowCount)
+      for (let index = 0; index < storage.rowCount; index++) {
+        rows[index] = columns.map((col, i) => (readers[i] ? normalizeColumnValue(readers[i]!(index), col.type || 'text') : null))
+      }
+    } else {
+      rows = (table.data || []).map(record =>
+        columns.map((col, i) => (needed[i] ? normalizeColumnValue(record?.[col.name], col.type || 'text') : null))
+      )
+    }
+    context.loadedRows.set(table, rows)
+  }
+  return { fields, rows }
+}
+
+// -----------------------------------------------------------------------------
+// FROM and JOIN
+// -----------------------------------------------------------------------------
+
+// A join or recursive query that grows past this is almost always a missing condition
+const MAX_INTERMEDIATE_ROWS = 1_000_000
+
+// WITH RECURSIVE stops with an error instead of looping forever
+const MAX_RECURSIVE_ITERATIONS = 10_000
+
+function assertNoAggregates(expr: Expr, clause: string): void {
+  const found: Expr[] = []
+  collectAggregates(expr, found)
+  if (found.length > 0) {
+    throw new Error(`aggregate functions are not allowed in ${clause}`)
+  }
+  assertNoWindowFunctions(expr, clause)
+}
+
+function assertNoWindowFunctions(expr: Expr, clause: string): void {
+  const found: FunctionCall[] = []
+  collectWindowFunctions(expr, found)
+  if (found.length > 0) {
+    throw new Error(`window functions are not allowed in ${clause}`)
+  }
+}
+
+function buildFrom(item: FromItem, context: QueryContext): Relation {
+  switch (item.kind) {
+    case 'table':
+      return resolveTable(context, item.name, item.alias)
+    case 'subquery':
+      // Derived tables can see enclosing queries but not their siblings in FROM
+      return labelRelation(runQuery(item.query, context), item.alias ?? null, item.columnAliases)
+    case 'join':
+      return joinRelations(item, buildFrom(item.left, context), buildFrom(item.right, context), context)
+  }
+}
+
+function resolveUsingColumn(relation: Relation, name: string, side: 'left' | 'right'): number {
+  try {
+    return resolveColumn({ fields: relation.fields }, undefined, name)
+  } catch {
+    throw new Error(`column "${name}" specified in USING clause does not exist in ${side} table`)
+  }
+}
+
+/**
+ * Column names visible by bare name on both sides, for NATURAL JOIN
+ */
+function naturalJoinColumns(left: Relation, right: Relation): string[] {
+  const visible = (relation: Relation) => relation.fields.filter(f => !f.hidden && !f.qualifiedOnly).map(f => f.name)
+  const rightNames = new Set(visible(right))
+  return visible(left).filter(name => rightNames.has(name))
+}
+
+/**
+ * Pull `left.col = right.col` conjuncts out of an ON condition so the join can bucket rows by
+ * key instead of comparing every pair. The full condition is still checked for each candidate.
+ */
+function extractEquiJoinKeys(on: Expr, scope: Scope, leftWidth: number): Array<{ left: number; right: number }> {
+  const conjuncts: Expr[] = []
+  const flatten = (expr: Expr) => {
+    if (expr.kind === 'binary' && expr.op === 'AND') {
+      flatten(expr.left)
+      flatten(expr.right)
+    } else {
+      conjuncts.push(expr)
+    }
+  }
+  flatten(on)
+
+  const keys: Array<{ left: number; right: number }> = []
+  for (const conjunct of conjuncts) {
+    if (conjunct.kind !== 'binary' || conjunct.op !== '=') continue
+    if (conjunct.left.kind !== 'column' || conjunct.right.kind !== 'column') continue
+    // Columns of an enclosing query (correlated subqueries) aren't join keys
+    const a = findColumn(scope, conjunct.left.table, conjunct.left.name)
+    const b = findColumn(scope, conjunct.right.table, conjunct.right.name)
+    if (a === undefined || b === undefined) continue
+    if (a < leftWidth && b >= leftWidth) {
+      keys.push({ left: a, right: b - leftWidth })
+    } else if (b < leftWidth && a >= leftWidth) {
+      keys.push({ left: b, right: a - leftWidth })
+    }
+  }
+  return keys
+}
+
+/**
+ * Join two relations. Rows are laid out as [USING columns..., left columns..., right columns...];
+ * outer joins pad the missing side with NULLs.
+ */
+function joinRelations(join: JoinRef, left: Relation, right: Relation, context: QueryContext): Relation {
+  const leftTables = new Set(left.fields.map(f => f.table?.toLowerCase()).filter(Boolean))
+  const duplicate = right.fields.find(f => f.table && leftTables.has(f.table.toLowerCase()))
+  if (duplicate) {
+    throw new Error(`table name "${duplicate.table}" specified more than once`)
+  }
+
+  const leftWidth = left.fields.length
+  const combinedScope: Scope = { fields: [...left.fields, ...right.fields], context }
+
+  let keys: Array<{ left: number; right: number }> = []
+  let condition: Evaluator | null = null
+  let merged: Array<{ left: number; right: number }> = []
+
+  const using = join.natural ? naturalJoinColumns(left, right) : join.using
+  if (using && using.length > 0) {
+    merged = using.map(name => ({
+      left: resolveUsingColumn(left, name, 'left'),
+      right: resolveUsingColumn(right, name, 'right'),
+    }))
+    keys = merged
+    condition = row =>
+      merged.every(({ left: l, right: r }) => {
+        const a = row[l]
+        const b = row[leftWidth + r]
+        return a !== null && b !== null && compareValues(a, b) === 0
+      })
+  } else if (join.on) {
+    assertNoAggregates(join.on, 'JOIN conditions')
+    condition = compileExpr(join.on, combinedScope)
+    keys = extractEquiJoinKeys(join.on, combinedScope, leftWidth)
+  }
+
+  // Bucket the right side by join key; rows with a NULL key can never match
+  let buckets: Map<string, number[]> | null = null
+  if (keys.length > 0) {
+    buckets = new Map()
+    right.rows.forEach((row, index) => {
+      const key = joinKey(keys.map(k => row[k.right]))
+      if (key === null) return
+      const bucket = buckets!.get(key)
+      if (bucket) bucket.push(index)
+      else buckets!.set(key, [index])
+    })
+  }
+  const allRight = right.rows.map((_, index) => index)
+
+  const rows: Row[] = []
+  const emit = (combined: Row) => {
+    if (rows.length >= MAX_INTERMEDIATE_ROWS) {
+      throw new Error(`JOIN produced more than ${MAX_INTERMEDIATE_ROWS} rows; add a join condition or filter the tables first`)
+    }
+    // USING columns take whichever side is present, so RIGHT and FULL joins keep the key
+    rows.push(merged.length > 0 ? [...merged.map(m => combined[m.left] ?? combined[leftWidth + m.right]), ...combined] : combined)
+  }
+
+  const keepLeft = join.joinType === 'LEFT' || join.joinType === 'FULL'
+  const keepRight = join.joinType === 'RIGHT' || join.joinType === 'FULL'
+  const rightMatched = new Array<boolean>(right.rows.length).fill(false)
+  const nullLeft: Row = left.fields.map(() => null)
+  const nullRight: Row = right.fields.map(() => null)
+
+  for (const leftRow of left.rows) {
+    let candidates = allRight
+    if (buckets) {
+      const key = joinKey(keys.map(k => leftRow[k.left]))
+      candidates = key === null ? [] : buckets.get(key) || []
+    }
+
+    let matched = false
+    for (const index of candidates) {
+      const combined = [...leftRow, ...right.rows[index]]
+      if (condition && toBoolean(condition(combined)) !== true) continue
+      matched = true
+      rightMatched[index] = true
+      emit(combined)
+    }
+    if (!matched && keepLeft) {
+      emit([...leftRow, ...nullRight])
+    }
+  }
+
+  if (keepRight) {
+    right.rows.forEach((rightRow, index) => {
+      if (!rightMatched[index]) emit([...nullLeft, ...rightRow])
+    })
+  }
+
+  const mergedFields: Field[] = merged.map(m => ({ ...left.fields[m.left], table: null, sourceTable: undefined, qualifiedOnly: false }))
+  const mergedLeft = new Set(merged.map(m => m.left))
+  const mergedRight = new Set(merged.map(m => m.right))
+  const fields: Field[] = [
+    ...mergedFields,
+    ...left.fields.map((field, i) => (mergedLeft.has(i) ? { ...field, qualifiedOnly: true } : field)),
+    ...right.fields.map((field, i) => (mergedRight.has(i) ? { ...field, qualifiedOnly: true } : field)),
+  ]
+
+  return { fields, rows }
+}
+
+/**
+ * Direct sub-expressions of an expression, not descending into subqueries (their aggregates and
+ * window functions belong to the subquery). A window call's PARTITION BY / ORDER BY count too.
+ */
+function childExpressions(expr: Expr): Expr[] {
+  switch (expr.kind) {
+    case 'function':
+      return expr.over
+        ? [...expr.args, ...expr.over.partitionBy, ...expr.over.orderBy.map(item => item.expr)]
+        : expr.args
+    case 'unary':
+    case 'isNull':
+    case 'isTruth':
+    case 'cast':
+    case 'inSubquery':
+      return [expr.operand]
+    case 'binary':
+      return [expr.left, expr.right]
+    case 'between':
+      return [expr.operand, expr.low, expr.high]
+    case 'inList':
+      return [expr.operand, ...expr.list]
+    case 'like':
+      return [expr.operand, expr.pattern]
+    case 'case':
+      return [
+        ...(expr.operand ? [expr.operand] : []),
+        ...expr.whens.flatMap(({ when, then }) => [when, then]),
+        ...(expr.elseExpr ? [expr.elseExpr] : []),
+      ]
+    default:
+      return []
+  }
+}
+
+/**
+ * Collect aggregate calls in an expression (aggregates cannot nest, so stop at the first level).
+ * An aggregate with OVER is a window function, but its arguments may still contain aggregates:
+ * SUM(SUM(amount)) OVER () or RANK() OVER (ORDER BY COUNT(*) DESC).
+ */
+function collectAggregates(expr: Expr, out: Expr[]): void {
+  if (expr.kind === 'function' && !expr.over && isAggregateFunction(expr.name)) {
+    out.push(expr)
+    return
+  }
+  childExpressions(expr).forEach(child => collectAggregates(child, out))
+}
+
+/**
+ * Collect window function calls (f(...) OVER (...)) in an expression
+ */
+function collectWindowFunctions(expr: Expr, out: FunctionCall[]): void {
+  if (expr.kind === 'function' && expr.over) {
+    const nested: FunctionCall[] = []
+    childExpressions(expr).forEach(child => collectWindowFunctions(child, nested))
+    if (nested.length > 0) {
+      throw new Error('window function calls cannot be nested')
+    }
+    out.push(expr)
+    return
+  }
+  childExpressions(expr).forEach(child => collectWindowFunctions(child, out))
+}
+
+/**
+ * Structural key for matching a SELECT / HAVING / ORDER BY expression against GROUP BY, and for
+ * looking up analyzeQuery's temporal operators
+ */
+export function expressionKey(expr: Expr): string {
+  return JSON.stringify(expr)
+}
+
+function findGroupExpr(expr: Expr, scope: Scope): number | undefined {
+  if (!scope.groupExprs || scope.groupExprs.size === 0 || expr.kind === 'literal') return undefined
+  return scope.groupExprs.get(expressionKey(expr))
+}
+
+/**
+ * GROUP BY items may name output columns: GROUP BY 1 is the first SELECT item, and a bare name
+ * that isn't an input column is an output alias. Input columns win, as in PostgreSQL.
+ */
+function resolveGroupBy(groupBy: Expr[], columns: SelectItem[], scope: Scope): Expr[] {
+  return groupBy.map(expr => {
+    if (expr.kind === 'literal' && typeof expr.value === 'number') {
+      const ordinal = expr.value
+      const item = columns[ordinal - 1]
+      if (!Number.isInteger(ordinal) || !item || item.expr.kind === 'star') {
+        throw new Error(`GROUP BY position ${ordinal} is not in select list`)
+      }
+      return item.expr
+    }
+    if (expr.kind === 'column' && !expr.table && findColumn(scope, undefined, expr.name) === undefined) {
+      const named = columns.filter(item => item.alias !== undefined).map(item => ({ name: item.alias!, expr: item.expr }))
+      const item = findByName(named, expr.name)
+      if (item) return item.expr
+    }
+    return expr
+  })
+}
+
+/**
+ * Group rows and compute aggregates. The result has the source fields (taken from the first row
+ * of each group), one hidden field per GROUP BY expression that isn't a plain column, and one
+ * hidden field per aggregate call. Only grouped fields stay readable outside aggregates.
+ */
+function applyGrouping(
+  source: Relation,
+  groupBy: Expr[],
+  aggregates: Expr[],
+  context: QueryContext
+): { relation: Relation; scope: Scope } {
+  const sourceScope: Scope = { fields: source.fields, context }
+  const keyEvaluators = groupBy.map(expr => compileExpr(expr, sourceScope))
+  const argEvaluators = aggregates.map(agg => {
+    if (agg.kind !== 'function') throw new Error('Invalid aggregate')
+    const arg = agg.args[0]
+    if (!arg) throw new Error(`function ${agg.name.toLowerCase()}() requires an argument`)
+    if (arg.kind === 'star') {
+      if (agg.name !== 'COUNT') throw new Error(`${agg.name.toLowerCase()}(*) is not valid`)
+      return (() => 1) as Evaluator
+    }
+    return compileExpr(arg, sourceScope)
+  })
+  const newAccumulators = () => aggregates.map(agg => {
+    const call = agg as FunctionCall
+    return createAccumulator(call.name, call.distinct)
+  })
+
+  // Plain columns stay in place; other GROUP BY expressions get a slot holding their value
+  const groupedFields = new Set<number>()
+  const keySlots: number[] = []
+  groupBy.forEach((expr, i) => {
+    const index = expr.kind === 'column' ? findColumn(sourceScope, expr.table, expr.name) : undefined
+    if (index !== undefined) groupedFields.add(index)
+    else keySlots.push(i)
+  })
+
+  const groups = new Map<string, { first: Row; keys: SqlValue[]; accumulators: Accumulator[] }>()
+  for (const row of source.rows) {
+    const keys = keyEvaluators.map(evaluate => evaluate(row))
+    const key = groupKey(keys)
+    let group = groups.get(key)
+    if (!group) {
+      group = { first: row, keys, accumulators: newAccumulators() }
+      groups.set(key, group)
+    }
+    for (let i = 0; i < argEvaluators.length; i++) {
+      group.accumulators[i].add(argEvaluators[i](row))
+    }
+  }
+
+  // An aggregate query without GROUP BY always returns exactly one row, even on empty input
+  if (groups.size === 0 && groupBy.length === 0) {
+    groups.set('', { first: source.fields.map(() => null), keys: [], accumulators: newAccumulators() })
+  }
+
+  const fields: Field[] = [...source.fields]
+  const groupExprs = new Map<string, number>()
+  keySlots.forEach(i => {
+    groupExprs.set(expressionKey(groupBy[i]), fields.length)
+    fields.push({ name: `#group${i}`, type: inferExprType(groupBy[i], sourceScope) || 'text', table: null, hidden: true })
+  })
+  const aggregateSlots = new Map<Expr, number>()
+  aggregates.forEach((agg, i) => {
+    aggregateSlots.set(agg, fields.length)
+    fields.push({ name: `#agg${i}`, type: inferExprType(agg, sourceScope) || 'text', table: null, hidden: true })
+  })
+
+  const rows: Row[] = []
+  for (const group of groups.values()) {
+    rows.push([...group.first, ...keySlots.map(i => group.keys[i]), ...group.accumulators.map(acc => acc.result())])
+  }
+
+  return {
+    relation: { fields, rows },
+    scope: { fields, aggregates: aggregateSlots, groupedFields, groupExprs, context },
+  }
+}
+
+/**
+ * Evaluate a window frame offset (the n in "n PRECEDING"): a constant, non-negative number
+ */
+function evaluateFrameOffset(bound: FrameBound, mode: 'ROWS' | 'RANGE'): WindowFrameBound {
+  if (!bound.offset) return { type: bound.type }
+  const value = toNumber(compileExpr(bound.offset, { fields: [] })([]))
+  if (value === null) {
+    throw new Error('frame offset must not be null')
+  }
+  if (value < 0) {
+    throw new Error('frame offset must not be negative')
+  }
+  if (mode === 'ROWS' && !Number.isInteger(value)) {
+    throw new Error('ROWS frame offset must be an integer')
+  }
+  return { type: bound.type, offset: value }
+}
+
+/**
+ * Compute window functions over the (possibly grouped) relation. Each call gets a hidden field
+ * holding its value for every row, so SELECT and ORDER BY read it like a column.
+ */
+function applyWindows(
+  relation: Relation,
+  windows: FunctionCall[],
+  scope: Scope
+): { relation: Relation; scope: Scope } {
+  const fields: Field[] = [...relation.fields]
+  const windowSlots = new Map<Expr, number>()
+  const columns = windows.map((call, i) => {
+    const over = call.over!
+    validateWindowCall(call.name, call.args.length)
+    if (call.distinct) {
+      throw new Error('DISTINCT is not implemented for window functions')
+    }
+    const plan: WindowPlan = {
+      name: call.name,
+      args: call.args.map(arg =>
+        arg.kind === 'star' && call.name === 'COUNT' ? (() => 1) as Evaluator : compileExpr(arg, scope)
+      ),
+      partitionBy: over.partitionBy.map(expr => compileExpr(expr, scope)),
+      orderBy: over.orderBy.map(item => toSortKey(item, compileExpr(item.expr, scope))),
+      frame: over.frame
+        ? {
+            mode: over.frame.mode,
+            start: evaluateFrameOffset(over.frame.start, over.frame.mode),
+            end: evaluateFrameOffset(over.frame.end, over.frame.mode),
+          }
+        : null,
+    }
+    windowSlots.set(call, fields.length)
+    fields.push({ name: `#win${i}`, type: inferExprType(call, scope) || 'text', table: null, hidden: true })
+    return computeWindowValues(relation.rows, plan)
+  })
+
+  const rows = relation.rows.map((row, r) => [...row, ...columns.map(values => values[r])])
+  return { relation: { fields, rows }, scope: { ...scope, fields, windows: windowSlots } }
+}
+
+interface OutputColumn {
+  name: string
+  type: string | undefined
+  evaluate: Evaluator
+}
+
+interface SortKey {
+  evaluate: Evaluator
+  descending: boolean
+  nullsFirst?: boolean
+}
+
+function toSortKey(item: OrderByItem, evaluate: Evaluator): SortKey {
+  return {
+    evaluate,
+    descending: item.direction === 'DESC',
+    nullsFirst: item.nulls === undefined ? undefined : item.nulls === 'FIRST',
+  }
+}
+
+/**
+ * ORDER BY n: a 1-based position in the output columns
+ */
+function orderByOrdinal(item: OrderByItem, outputCount: number): number | undefined {
+  if (item.expr.kind !== 'literal' || typeof item.expr.value !== 'number') return undefined
+  const ordinal = item.expr.value
+  if (!Number.isInteger(ordinal) || ordinal < 1 || ordinal > outputCount) {
+    throw new Error(`ORDER BY position ${ordinal} is not in select list`)
+  }
+  return ordinal - 1
+}
+
+/**
+ * Stable sort by the given keys; keyRow gives the row each key is evaluated against
+ */
+function sortRows<T>(items: T[], keyRow: (item: T) => Row, sortKeys: SortKey[]): T[] {
+  if (sortKeys.length === 0) return items
+  const keyed = items.map(item => {
+    const row = keyRow(item)
+    return { item, keys: sortKeys.map(key => key.evaluate(row)) }
+  })
+  keyed.sort((a, b) => {
+    for (let i = 0; i < sortKeys.length; i++) {
+      const cmp = compareForSort(a.keys[i], b.keys[i], sortKeys[i].descending, sortKeys[i].nullsFirst)
+      if (cmp !== 0) return cmp
+    }
+    return 0
+  })
+  return keyed.map(k => k.item)
+}
+
+function sliceRows<T>(items: T[], query: { offset: Expr | null; limit: Expr | null }): T[] {
+  const offset = evaluateConstantCount(query.offset, 'OFFSET')
+  const limit = evaluateConstantCount(query.limit, 'LIMIT')
+  if (offset === null && limit === null) return items
+  const start = offset ?? 0
+  return items.slice(start, limit === null ? undefined : start + limit)
+}
+
+/**
+ * Execute a SELECT (without its WITH clause, which runQuery has already bound)
+ */
+function executeSelect(statement: SelectStatement, context: QueryContext): Relation {
+  // FROM
+  let relation: Relation = statement.from ? buildFrom(statement.from, context) : { fields: [], rows: [[]] }
+  let scope: Scope = { fields: relation.fields, context }
+
+  // WHERE
+  if (statement.where) {
+    assertNoAggregates(statement.where, 'WHERE')
+    const predicate = compileExpr(statement.where, scope)
+    relation = { fields: relation.fields, rows: relation.rows.filter(row => toBoolean(predicate(row)) === true) }
+  }
+
+  // GROUP BY / aggregates
+  const aggregates: Expr[] = []
+  statement.columns.forEach(item => collectAggregates(item.expr, aggregates))
+  if (statement.having) collectAggregates(statement.having, aggregates)
+  statement.orderBy.forEach(item => collectAggregates(item.expr, aggregates))
+  if (statement.groupBy.length > 0 || aggregates.length > 0 || statement.having) {
+    const groupBy = resolveGroupBy(statement.groupBy, statement.columns, scope)
+    groupBy.forEach(expr => assertNoAggregates(expr, 'GROUP BY'))
+    const grouped = applyGrouping(relation, groupBy, aggregates, context)
+    relation = grouped.relation
+    scope = grouped.scope
+  }
+
+  // HAVING; may name output columns (HAVING total > 10)
+  if (statement.having) {
+    assertNoWindowFunctions(statement.having, 'HAVING')
+    const predicate = compileExpr(statement.having, { ...scope, selectItems: statement.columns })
+    relation = { fields: relation.fields, rows: relation.rows.filter(row => toBoolean(predicate(row)) === true) }
+  }
+
+  // Window functions see the rows after grouping
+  const windows: FunctionCall[] = []
+  statement.columns.forEach(item => collectWindowFunctions(item.expr, windows))
+  statement.orderBy.forEach(item => collectWindowFunctions(item.expr, windows))
+  if (windows.length > 0) {
+    const windowed = applyWindows(relation, windows, scope)
+    relation = windowed.relation
+    scope = windowed.scope
+  }
+
+  // SELECT list
+  const outputs: OutputColumn[] = []
+  for (const item of statement.columns) {
+    if (item.expr.kind === 'star') {
+      const tableLower = item.expr.table?.toLowerCase()
+      const starFields = relation.fields
+        .map((field, index) => ({ field, index }))
+        .filter(({ field }) => !field.hidden && (tableLower || !field.qualifiedOnly))
+        .filter(({ field }) => !tableLower || field.table?.toLowerCase() === tableLower || field.sourceTable?.toLowerCase() === tableLower)
+      if (tableLower && starFields.length === 0) {
+        throw new Error(`missing FROM-clause entry for table "${item.expr.table}"`)
+      }
+      for (const { field, index } of starFields) {
+        if (scope.groupedFields && !scope.groupedFields.has(index)) {
+          throw ungroupedColumnError(field.table ?? undefined, field.name)
+        }
+        outputs.push({ name: field.name, type: field.type, evaluate: row => row[index] })
+      }
+      continue
+    }
+    outputs.push({
+      name: item.alias || defaultColumnName(item.expr),
+      type: inferExprType(item.expr, scope),
+      evaluate: compileExpr(item.expr, scope),
+    })
+  }
+
+  // Project every row; ORDER BY may refer to the projected values
+  let projected = relation.rows.map(row => ({ row, values: outputs.map(output => output.evaluate(row)) }))
+
+  // DISTINCT keeps the first row of each set of duplicates
+  if (statement.distinct) {
+    const seen = new Set<string>()
+    projected = projected.filter(entry => {
+      const key = groupKey(entry.values)
+      if (seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+  }
+
+  // ORDER BY: output ordinals and output names win over input columns, as in PostgreSQL.
+  // Sort keys see the input row followed by the projected values, so an output alias can also
+  // be used inside an expression (ORDER BY CAST(total AS DOUBLE PRECISION)).
+  const outputOffset = relation.fields.length
+  const aliases = outputs.map((output, i) => ({ name: output.name, index: outputOffset + i }))
+  const orderScope: Scope = { ...scope, aliases }
+  const sortKeys = statement.orderBy.map(item => {
+    const ordinal = orderByOrdinal(item, outputs.length)
+    if (ordinal !== undefined) {
+      const index = outputOffset + ordinal
+      return toSortKey(item, row => row[index])
+    }
+    if (item.expr.kind === 'column' && !item.expr.table) {
+      const name = item.expr.name
+      const alias = aliases.find(a => a.name === name) || aliases.find(a => a.name.toLowerCase() === name.toLowerCase())
+      if (alias) return toSortKey(item, row => row[alias.index])
+    }
+    return toSortKey(item, compileExpr(item.expr, orderScope))
+  })
+
+  const sorted = sortRows(projected, entry => [...entry.row, ...entry.values], sortKeys)
+
+  // OFFSET / LIMIT
+  const outputRows = sliceRows(sorted, statement).map(entry => entry.values)
+
+  const fields: Field[] = outputs.map((output, i) => {
+    let type = output.type
+    if (!type) {
+      const sample = outputRows.find(row => row[i] !== null)
+      type = sample ? inferValueType(sample[i]) : 'text'
+    }
+    return { name: output.name, type, table: null }
+  })
+
+  return { fields, rows: outputRows }
+}
+
+// -----------------------------------------------------------------------------
+// Set operations and WITH
+// -----------------------------------------------------------------------------
+
+function distinctRows(rows: Row[]): Row[] {
+  const seen = new Set<string>()
+  return rows.filter(row => {
+    const key = groupKey(row)
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+/**
+ * UNION / INTERSECT / EXCEPT, with or without ALL. Output columns are named after the left side.
+ */
+function combineRelations(op: SetOperator, all: boolean, left: Relation, right: Relation): Relation {
+  if (left.fields.length !== right.fields.length) {
+    throw new Error(`each ${op} query must have the same number of columns`)
+  }
+
+  const fields: Field[] = left.fields.map((field, i) => {
+    const rightType = right.fields[i].type
+    const type = field.type === rightType || !isNumericType(field.type) || !isNumericType(rightType) ? field.type : 'decimal'
+    return { name: field.name, type, table: null }
+  })
+
+  const rightCounts = new Map<string, number>()
+  for (const row of right.rows) {
+    const key = groupKey(row)
+    rightCounts.set(key, (rightCounts.get(key) || 0) + 1)
+  }
+
+  let rows: Row[]
+  switch (op) {
+    case 'UNION':
+      rows = all ? [...left.rows, ...right.rows] : distinctRows([...left.rows, ...right.rows])
+      break
+    case 'INTERSECT':
+      rows = (all ? left.rows : distinctRows(left.rows)).filter(row => {
+        const key = groupKey(row)
+        const count = rightCounts.get(key) || 0
+        if (count === 0) return false
+        rightCounts.set(key, count - 1)
+        return true
+      })
+      break
+    case 'EXCEPT':
+      rows = all
+        ? left.rows.filter(row => {
+            const key = groupKey(row)
+            const count = rightCounts.get(key) || 0
+            if (count === 0) return true
+            rightCounts.set(key, count - 1)
+            return false
+          })
+        : distinctRows(left.rows).filter(row => !rightCounts.has(groupKey(row)))
+      break
+  }
+
+  return { fields, rows }
+}
+
+function executeSetOperation(operation: SetOperation, context: QueryContext): Relation {
+  const combined = combineRelations(
+    operation.op,
+    operation.all,
+    runQuery(operation.left, context),
+    runQuery(operation.right, context)
+  )
+
+  // ORDER BY on a set operation sees only the output columns
+  const scope: Scope = { fields: combined.fields, context }
+  const sortKeys = operation.orderBy.map(item => {
+    const ordinal = orderByOrdinal(item, combined.fields.length)
+    return toSortKey(item, ordinal !== undefined ? row => row[ordinal] : compileExpr(item.expr, scope))
+  })
+
+  const rows = sliceRows(sortRows(combined.rows, row => row, sortKeys), operation)
+  return { fields: combined.fields, rows }
+}
+
+/**
+ * Apply a WITH query's column list, if any
+ */
+function nameCteColumns(cte: CommonTableExpr, relation: Relation): Relation {
+  if (cte.columns && cte.columns.length > relation.fields.length) {
+    throw new Error(`WITH query "${cte.name}" has ${relation.fields.length} columns available but ${cte.columns.length} columns specified`)
+  }
+  return labelRelation(relation, null, cte.columns)
+}
+
+/**
+ * WITH RECURSIVE name AS (base UNION [ALL] recursive-term): run the base once, then keep running
+ * the recursive term against the rows produced by the previous step until it produces none.
+ */
+function executeRecursiveCte(cte: CommonTableExpr, context: QueryContext): Relation {
+  const body = cte.query
+  if (
+    body.kind !== 'setOperation' ||
+    body.op !== 'UNION' ||
+    body.with ||
+    body.orderBy.length > 0 ||
+    body.limit ||
+    body.offset
+  ) {
+    return runQuery(body, context)
+  }
+
+  const key = cte.name.toLowerCase()
+  const base = nameCteColumns(cte, runQuery(body.left, context))
+  const seen = new Set<string>()
+  const unseen = (rows: Row[]) =>
+    body.all
+      ? rows
+      : rows.filter(row => {
+          const rowKey = groupKey(row)
+          if (seen.has(rowKey)) return false
+          seen.add(rowKey)
+          return true
+        })
+
+  const rows = unseen(base.rows)
+  let working = rows
+  for (let iteration = 0; working.length > 0; iteration++) {
+    if (iteration >= MAX_RECURSIVE_ITERATIONS) {
+      throw new Error(`WITH RECURSIVE query "${cte.name}" did not finish after ${MAX_RECURSIVE_ITERATIONS} iterations`)
+    }
+
+    const binding: CteBinding = { relation: { fields: base.fields, rows: working }, referenced: false }
+    const ctes = new Map(context.ctes).set(key, binding)
+    const step = runQuery(body.right, { ...context, ctes })
+    if (step.fields.length !== base.fields.length) {
+      throw new Error('each UNION query must have the same number of columns')
+    }
+    if (!binding.referenced) {
+      // RECURSIVE was written but the query never refers to itself: an ordinary UNION
+      return combineRelations('UNION', body.all, base, step)
+    }
+
+    working = unseen(step.rows)
+    rows.push(...working)
+    if (rows.length > MAX_INTERMEDIATE_ROWS) {
+      throw new Error(`WITH RECURSIVE query "${cte.name}" produced more than ${MAX_INTERMEDIATE_ROWS} rows`)
+    }
+  }
+
+  return { fields: base.fields, rows }
+}
+
+/**
+ * Evaluate WITH queries in order; each one can read the ones before it
+ */
+function bindCommonTableExpressions(withClause: WithClause, context: QueryContext): QueryContext {
+  const ctes = new Map(context.ctes)
+  const scoped: QueryContext = { ...context, ctes }
+  for (const cte of withClause.ctes) {
+    const relation = withClause.recursive ? executeRecursiveCte(cte, scoped) : runQuery(cte.query, scoped)
+    ctes.set(cte.name.toLowerCase(), { relation: nameCteColumns(cte, relation), referenced: false })
+  }
+  return scoped
+}
+
+function runQuery(query: Query, context: QueryContext): Relation {
+  const scoped = query.with ? bindCommonTableExpressions(query.with, context) : context
+  return query.kind === 'select' ? executeSelect(query, scoped) : executeSetOperation(query, scoped)
+}
+
+/**
+ * Execute a parsed query against the given tables
+ */
+export function executeQuery(query: Query, tables: TableSource[]): Relation {
+  return runQuery(query, { tables, loadedRows: new Map(), neededColumns: referencedColumns(query), ctes: new Map() })
+}
+
+/**
+ * Lowercase names of every column a query may read, or null when it needs all of them (SELECT *,
+ * t.*, NATURAL JOIN). Names aren't resolved to tables: a name used anywhere is loaded from every
+ * table that has such a column.
+ */
+export function referencedColumns(query: Query): Set<string> | null {
+  const names = new Set<string>()
+  let all = false
+  const visit = (node: unknown, isFunctionArgument = false): void => {
+    if (all || node === null || typeof node !== 'object') return
+    if (Array.isArray(node)) {
+      node.forEach(item => visit(item, isFunctionArgument))
+      return
+    }
+    const record = node as Record<string, any>
+    if (record.kind === 'column') {
+      names.add(record.name.toLowerCase())
+    } else if (record.kind === 'star' && !isFunctionArgument) {
+      // COUNT(*) reads no columns
+      all = true
+    } else if (record.kind === 'join') {
+      if (record.natural) all = true
+      record.using?.forEach((name: string) => names.add(name.toLowerCase()))
+    }
+    for (const [key, value] of Object.entries(record)) {
+      visit(value, record.kind === 'function' && key === 'args')
+    }
+  }
+  visit(query)
+  return all ? null : names
+}
+
+export type OperandTypes = [string | undefined, string | undefined]
+
+export interface QueryAnalysis {
+  // Result columns with their inferred types
+  fields: Field[]
+  // Date / interval operators (arithmetic, and comparisons of intervals) with the static operand
+  // types they were resolved for, keyed by expressionKey
+  temporalOperators: Map<string, OperandTypes>
+  // Divisions of two integers, which truncate; keyed by expressionKey
+  integerDivisions: Set<string>
+}
+
+// Set while analyzeQuery compiles a query
+let temporalOperators: Map<string, OperandTypes> | undefined
+let integerDivisions: Set<string> | undefined
+
+/**
+ * Compile a query against empty copies of the tables: resolves every name and reports the result
+ * columns and how date operators were typed, without scanning any rows. Other backends use this
+ * to run the same query with the engine's semantics.
+ */
+export function analyzeQuery(query: Query, tables: TableSource[]): QueryAnalysis {
+  const collected = new Map<string, OperandTypes>()
+  const divisions = new Set<string>()
+  temporalOperators = collected
+  integerDivisions = divisions
+  try {
+    const relation = executeQuery(query, tables.map(emptyTable))
+    return { fields: relation.fields, temporalOperators: collected, integerDivisions: divisions }
+  } finally {
+    temporalOperators = undefined
+    integerDivisions = undefined
+  }
+}
+
+function evaluateConstantCount(expr: Expr | null, clause: string): number | null {
+  if (!expr) return null
+  const value = toNumber(compileExpr(expr, { fields: [] })([]))
+  if (value === null) return null
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`${clause} must be a non-negative integer`)
+  }
+  return value
+}
@@ -0,0 +1,344 @@
+/**
+ * Scalar functions for the in-memory SQL engine
+ *
+ * Each entry declares its arity, how its result type follows from the argument types (used for
+ * result column metadata) and the implementation over already-evaluated arguments. Unless a
+ * function opts in with `acceptsNulls`, any NULL argument makes the result NULL, as for most
+ * PostgreSQL functions.
+ */
+
+import type { Expr, SqlValue } from './ast'
+import {
+  extractField,
+  extractIntervalField,
+  formatTimestamp,
+  formatTimestampTemplate,
+  parseInterval,
+  toTimestamp,
+  truncateTimestamp,
+  tryParseTimestamp,
+  formatDate,
+} from './dates'
+import { compareValues, toNumber } from './values'
+
+export interface ScalarFunction {
+  minArgs: number
+  maxArgs: number
+  returnType: (argTypes: Array<string | undefined>, args: Expr[]) => string | undefined
+  call: (args: SqlValue[]) => SqlValue
+  acceptsNulls?: boolean
+}
+
+/**
+ * Text form of a value, as PostgreSQL prints it
+ */
+function toText(value: SqlValue): string {
+  if (typeof value === 'string') return value
+  return String(value)
+}
+
+function toInteger(value: SqlValue, fn: string): number {
+  const num = toNumber(value)!
+  if (!Number.isInteger(num)) {
+    throw new Error(`function ${fn}() expects an integer argument, got ${value}`)
+  }
+  return num
+}
+
+/**
+ * Round half away from zero (numeric rounding in PostgreSQL), cleaning up binary float noise so
+ * ROUND(1.005, 2) is 1.01
+ */
+function roundTo(value: number, digits: number): number {
+  const sign = value < 0 ? -1 : 1
+  const abs = Math.abs(value)
+  if (digits >= 0) {
+    const factor = 10 ** digits
+    return sign * (Math.round(Number((abs * factor).toPrecision(15))) / factor)
+  }
+  const factor = 10 ** -digits
+  return sign * Math.round(abs / factor) * factor
+}
+
+/**
+ * SUBSTRING(s, start, length) is 1-based; a start before 1 still counts towards the length
+ */
+function substring(text: string, start: number, length?: number): string {
+  const chars = Array.from(text)
+  if (length !== undefined && length < 0) {
+    throw new Error('negative substring length not allowed')
+  }
+  const end = length === undefined ? chars.length : start - 1 + length
+  return chars.slice(Math.max(start - 1, 0), Math.max(end, 0)).join('')
+}
+
+function trimChars(text: string, chars: string, leading: boolean, trailing: boolean): string {
+  const set = new Set(Array.from(chars))
+  const list = Array.from(text)
+  let start = 0
+  let end = list.length
+  if (leading) while (start < end && set.has(list[start])) start++
+  if (trailing) while (end > start && set.has(list[end - 1])) end--
+  return list.slice(start, end).join('')
+}
+
+function splitPart(text: string, delimiter: string, field: number): string {
+  if (field === 0) {
+    throw new Error('field position must not be zero')
+  }
+  const parts = delimiter === '' ? [text] : text.split(delimiter)
+  const index = field > 0 ? field - 1 : parts.length + field
+  return parts[index] ?? ''
+}
+
+/**
+ * TO_CHAR(number, '999,999.00'): 9 is an optional digit, 0 a forced one; FM drops the padding
+ */
+function formatNumberTemplate(value: number, template: string): string {
+  const fillMode = /^FM/i.test(template)
+  const pattern = fillMode ? template.slice(2) : template
+  const pointIndex = pattern.search(/[.D]/)
+  const integerPattern = pointIndex === -1 ? pattern : pattern.slice(0, pointIndex)
+  const fractionPattern = pointIndex === -1 ? '' : pattern.slice(pointIndex + 1).replace(/[^90]/g, '')
+  const integerSlots = integerPattern.replace(/[^90]/g, '').length
+
+  const rounded = roundTo(Math.abs(value), fractionPattern.length)
+  const [integerDigits, fractionDigits = ''] = rounded.toFixed(fractionPattern.length).split('.')
+  if (integerDigits.replace(/^0+/, '').length > integerSlots) {
+    // Doesn't fit: PostgreSQL prints every position as #
+    return pattern.replace(/[90]/g, '#')
+  }
+
+  // Fill the integer positions right to left
+  const digits = integerDigits === '0' ? '' : integerDigits
+  let out = ''
+  let remaining = digits.length
+  let started = false
+  const firstForced = integerPattern.search(/0/)
+  for (let i = 0, slot = 0; i < integerPattern.length; i++) {
+    const char = integerPattern[i]
+    if (char === '9' || char === '0') {
+      const position = integerSlots - slot
+      slot++
+      if (position <= remaining) {
+        out += digits[digits.length - position]
+        started = true
+      } else if (char === '0' || (firstForced !== -1 && i > firstForced)) {
+        out += '0'
+        started = true
+      } else {
+        out += ' '
+      }
+    } else if (char === ',' || char === 'G') {
+      out += started ? ',' : ' '
+    } else {
+      out += char
+    }
+  }
+  if (!started && fractionPattern.length === 0) out = out.slice(0, -1) + '0'
+
+  let fraction = fractionDigits
+  if (fillMode) {
+    // FM trims trailing zeros that only 9s asked for
+    let keep = fraction.length
+    while (keep > 0 && fractionPattern[keep - 1] === '9' && fraction[keep - 1] === '0') keep--
+    fraction = fraction.slice(0, keep)
+  }
+
+  let result = pointIndex === -1 ? out : `${out}.${fraction}`
+  if (fillMode) {
+    result = result.trim()
+    if (result.startsWith('.')) result = `0${result}`
+  }
+  const sign = value < 0 ? '-' : fillMode ? '' : ' '
+  // The sign sits right before the first digit
+  const firstNonSpace = result.search(/\S/)
+  return firstNonSpace <= 0 ? sign + result : result.slice(0, firstNonSpace - 1) + ' ' + sign + result.slice(firstNonSpace)
+}
+
+function stringLiteral(expr: Expr | undefined): string | undefined {
+  return expr?.kind === 'literal' && typeof expr.value === 'string' ? expr.value : undefined
+}
+
+function firstKnown(types: Array<string | undefined>): string | undefined {
+  return types.find(type => type !== undefined)
+}
+
+const text = () => 'text'
+const integer = () => 'integer'
+const decimal = () => 'decimal'
+const sameAsFirst = (types: Array<string | undefined>) => types[0]
+
+function datePart(args: SqlValue[]): SqlValue {
+  const field = toText(args[0])
+  const source = args[1]
+  if (typeof source === 'string' && tryParseTimestamp(source) === undefined) {
+    const interval = parseInterval(source)
+    if (interval) return extractIntervalField(field, interval)
+  }
+  return extractField(field, toTimestamp(source)!)
+}
+
+const datePartType = (_types: Array<string | undefined>, args: Expr[]) => {
+  const field = stringLiteral(args[0])?.toLowerCase()
+  return field === 'second' || field === 'epoch' ? 'decimal' : 'integer'
+}
+
+const FUNCTIONS: Record<string, ScalarFunction> = {
+  // Strings
+  LOWER: { minArgs: 1, maxArgs: 1, returnType: text, call: ([s]) => toText(s).toLowerCase() },
+  UPPER: { minArgs: 1, maxArgs: 1, returnType: text, call: ([s]) => toText(s).toUpperCase() },
+  BTRIM: { minArgs: 1, maxArgs: 2, returnType: text, call: ([s, chars]) => trimChars(toText(s), chars === undefined ? ' ' : toText(chars), true, true) },
+  LTRIM: { minArgs: 1, maxArgs: 2, returnType: text, call: ([s, chars]) => trimChars(toText(s), chars === undefined ? ' ' : toText(chars), true, false) },
+  RTRIM: { minArgs: 1, maxArgs: 2, returnType: text, call: ([s, chars]) => trimChars(toText(s), chars === undefined ? ' ' : toText(chars), false, true) },
+  SUBSTRING: {
+    minArgs: 2,
+    maxArgs: 3,
+    returnType: text,
+    call: ([s, start, length]) =>
+      substring(toText(s), toInteger(start, 'substring'), length === undefined ? undefined : toInteger(length, 'substring')),
+  },
+  CONCAT: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    returnType: text,
+    acceptsNulls: true,
+    call: args => args.filter(arg => arg !== null).map(toText).join(''),
+  },
+  CONCAT_WS: {
+    minArgs: 2,
+    maxArgs: Infinity,
+    returnType: text,
+    acceptsNulls: true,
+    call: ([separator, ...args]) =>
+      separator === null ? null : args.filter(arg => arg !== null).map(toText).join(toText(separator)),
+  },
+  REPLACE: {
+    minArgs: 3,
+    maxArgs: 3,
+    returnType: text,
+    call: ([s, from, to]) => (toText(from) === '' ? toText(s) : toText(s).split(toText(from)).join(toText(to))),
+  },
+  LENGTH: { minArgs: 1, maxArgs: 1, returnType: integer, call: ([s]) => Array.from(toText(s)).length },
+  SPLIT_PART: {
+    minArgs: 3,
+    maxArgs: 3,
+    returnType: text,
+    call: ([s, delimiter, field]) => splitPart(toText(s), toText(delimiter), toInteger(field, 'split_part')),
+  },
+  LEFT: {
+    minArgs: 2,
+    maxArgs: 2,
+    returnType: text,
+    call: ([s, n]) => {
+      const chars = Array.from(toText(s))
+      const count = toInteger(n, 'left')
+      return chars.slice(0, count < 0 ? Math.max(chars.length + count, 0) : count).join('')
+    },
+  },
+  RIGHT: {
+    minArgs: 2,
+    maxArgs: 2,
+    returnType: text,
+    call: ([s, n]) => {
+      const chars = Array.from(toText(s))
+      const count = toInteger(n, 'right')
+      return chars.slice(count < 0 ? Math.min(-count, chars.length) : Math.max(chars.length - count, 0)).join('')
+    },
+  },
+  STRPOS: {
+    minArgs: 2,
+    maxArgs: 2,
+    returnType: integer,
+    call: ([s, sub]) => {
+      const index = toText(s).indexOf(toText(sub))
+      return index === -1 ? 0 : Array.from(toText(s).slice(0, index)).length + 1
+    },
+  },
+  POSITION: {
+    minArgs: 2,
+    maxArgs: 2,
+    returnType: integer,
+    call: ([sub, s]) => FUNCTIONS.STRPOS.call([s, sub]),
+  },
+
+  // Math
+  ROUND: {
+    minArgs: 1,
+    maxArgs: 2,
+    returnType: types => (types.length > 1 ? 'decimal' : 'integer'),
+    call: ([x, digits]) => roundTo(toNumber(x)!, digits === undefined ? 0 : toInteger(digits, 'round')),
+  },
+  ABS: { minArgs: 1, maxArgs: 1, returnType: sameAsFirst, call: ([x]) => Math.abs(toNumber(x)!) },
+  CEIL: { minArgs: 1, maxArgs: 1, returnType: integer, call: ([x]) => Math.ceil(toNumber(x)!) },
+  FLOOR: { minArgs: 1, maxArgs: 1, returnType: integer, call: ([x]) => Math.floor(toNumber(x)!) },
+  POWER: {
+    minArgs: 2,
+    maxArgs: 2,
+    returnType: decimal,
+    call: ([x, y]) => {
+      const base = toNumber(x)!
+      const exponent = toNumber(y)!
+      if (base === 0 && exponent < 0) {
+        throw new Error('zero raised to a negative power is undefined')
+      }
+      if (base < 0 && !Number.isInteger(exponent)) {
+        throw new Error('a negative number raised to a non-integer power yields a complex result')
+      }
+      return base ** exponent
+    },
+  },
+
+  // NULL handling
+  COALESCE: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    returnType: firstKnown,
+    acceptsNulls: true,
+    call: args => args.find(arg => arg !== null) ?? null,
+  },
+  NULLIF: {
+    minArgs: 2,
+    maxArgs: 2,
+    returnType: sameAsFirst,
+    acceptsNulls: true,
+    call: ([a, b]) => (a !== null && b !== null && compareValues(a, b) === 0 ? null : a),
+  },
+
+  // Dates
+  NOW: { minArgs: 0, maxArgs: 0, returnType: () => 'timestamp', call: () => formatTimestamp(Date.now()) },
+  CURRENT_TIMESTAMP: { minArgs: 0, maxArgs: 0, returnType: () => 'timestamp', call: () => formatTimestamp(Date.now()) },
+  CURRENT_DATE: { minArgs: 0, maxArgs: 0, returnType: () => 'date', call: () => formatDate(Date.now()) },
+  DATE_TRUNC: {
+    minArgs: 2,
+    maxArgs: 2,
+    returnType: () => 'timestamp',
+    call: ([field, source]) => formatTimestamp(truncateTimestamp(toText(field), toTimestamp(source)!)),
+  },
+  DATE_PART: { minArgs: 2, maxArgs: 2, returnType: datePartType, call: datePart },
+  EXTRACT: { minArgs: 2, maxArgs: 2, returnType: datePartType, call: datePart },
+  TO_CHAR: {
+    minArgs: 2,
+    maxArgs: 2,
+    returnType: text,
+    call: ([value, template]) =>
+      typeof value === 'number'
+        ? formatNumberTemplate(value, toText(template))
+        : formatTimestampTemplate(toTimestamp(value)!, toText(template)),
+  },
+}
+
+// Alternative spellings
+const ALIASES: Record<string, string> = {
+  TRIM: 'BTRIM',
+  SUBSTR: 'SUBSTRING',
+  CHAR_LENGTH: 'LENGTH',
+  CHARACTER_LENGTH: 'LENGTH',
+  CEILING: 'CEIL',
+  POW: 'POWER',
+}
+
+export function getScalarFunction(name: string): ScalarFunction | undefined {
+  const upper = name.toUpperCase()
+  return FUNCTIONS[ALIASES[upper] ?? upper]
+}
@@ -0,0 +1,933 @@
+/**
+ * Recursive-descent SQL parser for the in-memory query engine
+ *
+ * Turns a single query (SELECT, set operations, WITH) into an AST. Operator precedence follows
+ * PostgreSQL: OR < AND < NOT < comparison / IS / IN / BETWEEN / LIKE < || < + - < * / % < unary minus < ::
+ * and INTERSECT binds tighter than UNION / EXCEPT.
+ */
+
+import { tokenize, type Token } from './tokenizer'
+import type {
+  BinaryOperator,
+  CommonTableExpr,
+  Expr,
+  FrameBound,
+  FromItem,
+  FunctionCall,
+  JoinType,
+  OrderByItem,
+  Query,
+  SelectItem,
+  SelectStatement,
+  SetOperator,
+  TableRef,
+  WindowFrame,
+  WindowSpec,
+  WithClause,
+} from './ast'
+
+// Words that end an expression or a clause and therefore can never be a bare alias or column
+const RESERVED_WORDS = new Set([
+  'ALL', 'AND', 'AS', 'ASC', 'BETWEEN', 'BY', 'CASE', 'CROSS', 'DESC', 'DISTINCT', 'ELSE', 'END',
+  'EXCEPT', 'FALSE', 'FETCH', 'FROM', 'FULL', 'GROUP', 'HAVING', 'ILIKE', 'IN', 'INNER', 'INTERSECT',
+  'IS', 'JOIN', 'LEFT', 'LIKE', 'LIMIT', 'NATURAL', 'NOT', 'NULL', 'OFFSET', 'ON', 'OR', 'ORDER',
+  'OUTER', 'RIGHT', 'SELECT', 'THEN', 'TRUE', 'UNION', 'USING', 'WHEN', 'WHERE', 'WINDOW', 'WITH',
+])
+
+// Unit that may follow an interval literal: INTERVAL '3' DAY
+const INTERVAL_FIELDS = new Set(['YEAR', 'MONTH', 'DAY', 'HOUR', 'MINUTE', 'SECOND'])
+
+const COMPARISON_OPERATORS: Record<string, BinaryOperator> = {
+  '=': '=',
+  '<>': '<>',
+  '!=': '<>',
+  '<': '<',
+  '>': '>',
+  '<=': '<=',
+  '>=': '>=',
+}
+
+class Parser {
+  private tokens: Token[]
+  private pos = 0
+
+  constructor(sql: string) {
+    this.tokens = tokenize(sql)
+  }
+
+  // ---------------------------------------------------------------------------
+  // Token helpers
+  // ---------------------------------------------------------------------------
+
+  private peek(offset: number = 0): Token {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)]
+  }
+
+  private next(): Token {
+    const token = this.peek()
+    if (token.type !== 'eof') this.pos++
+    return token
+  }
+
+  private isWord(word: string, offset: number = 0): boolean {
+    const token = this.peek(offset)
+    return token.type === 'word' && token.upper === word
+  }
+
+  private isSymbol(symbol: string, offset: number = 0): boolean {
+    const token = this.peek(offset)
+    return (token.type === 'operator' || token.type === 'punctuation') && token.value === symbol
+  }
+
+  private acceptWord(word: string): boolean {
+    if (this.isWord(word)) {
+      this.pos++
+      return true
+    }
+    return false
+  }
+
+  private acceptSymbol(symbol: string): boolean {
+    if (this.isSymbol(symbol)) {
+      this.pos++
+      return true
+    }
+    return false
+  }
+
+  private expectWord(word: string): void {
+    if (!this.acceptWord(word)) {
+      throw this.error(`expected ${word}`)
+    }
+  }
+
+  private expectSymbol(symbol: string): void {
+    if (!this.acceptSymbol(symbol)) {
+      throw this.error(`expected "${symbol}"`)
+    }
+  }
+
+  private error(message: string, token: Token = this.peek()): Error {
+    const near = token.type === 'eof' ? 'end of query' : `"${token.value}"`
+    return new Error(`Syntax error at position ${token.position} near ${near}: ${message}`)
+  }
+
+  /**
+   * Read an identifier: a quoted identifier or a bare word that is not reserved
+   */
+  private parseIdentifier(what: string = 'identifier'): string {
+    const token = this.peek()
+    if (token.type === 'identifier' || (token.type === 'word' && !RESERVED_WORDS.has(token.upper))) {
+      this.pos++
+      return token.value
+    }
+    throw this.error(`expected ${what}`)
+  }
+
+  /**
+   * Optional alias: `AS name`, or a bare non-reserved word directly after the item
+   */
+  private parseOptionalAlias(): string | undefined {
+    if (this.acceptWord('AS')) {
+      const token = this.peek()
+      // AS accepts any word, even reserved ones (e.g. AS count, AS end)
+      if (token.type === 'identifier' || token.type === 'word' || token.type === 'string') {
+        this.pos++
+        return token.value
+      }
+      throw this.error('expected alias after AS')
+    }
+    const token = this.peek()
+    if (token.type === 'identifier' || (token.type === 'word' && !RESERVED_WORDS.has(token.upper))) {
+      this.pos++
+      return token.value
+    }
+    return undefined
+  }
+
+  // ---------------------------------------------------------------------------
+  // Statements
+  // ---------------------------------------------------------------------------
+
+  parseStatement(): Query {
+    const query = this.parseQuery()
+    this.acceptSymbol(';')
+    if (this.peek().type !== 'eof') {
+      throw this.error('unexpected input after end of statement')
+    }
+    return query
+  }
+
+  /**
+   * [WITH ...] set-expression [ORDER BY ...] [LIMIT ...] [OFFSET ...]
+   */
+  private parseQuery(): Query {
+    const withClause = this.acceptWord('WITH') ? this.parseWithClause() : undefined
+    const query = this.parseUnion()
+
+    const orderBy: OrderByItem[] = []
+    if (this.acceptWord('ORDER')) {
+      this.expectWord('BY')
+      do {
+        orderBy.push(this.parseOrderByItem())
+      } while (this.acceptSymbol(','))
+    }
+
+    let limit: Expr | null = null
+    let offset: Expr | null = null
+    // LIMIT and OFFSET may appear in either order
+    for (let i = 0; i < 2; i++) {
+      if (!limit && this.acceptWord('LIMIT')) {
+        limit = this.acceptWord('ALL') ? null : this.parseExpr()
+      } else if (!offset && this.acceptWord('OFFSET')) {
+        offset = this.parseExpr()
+        if (!this.acceptWord('ROWS')) this.acceptWord('ROW')
+      }
+    }
+
+    if (orderBy.length > 0 || limit || offset) {
+      // A parenthesized query may already carry its own ORDER BY / LIMIT
+      if (query.orderBy.length > 0 || query.limit || query.offset) {
+        throw this.error('multiple ORDER BY / LIMIT clauses are not allowed')
+      }
+      query.orderBy = orderBy
+      query.limit = limit
+      query.offset = offset
+    }
+
+    if (withClause) {
+      if (query.with) {
+        throw this.error('multiple WITH clauses are not allowed')
+      }
+      query.with = withClause
+    }
+    return query
+  }
+
+  private parseWithClause(): WithClause {
+    const recursive = this.acceptWord('RECURSIVE')
+    const ctes: CommonTableExpr[] = []
+    do {
+      const name = this.parseIdentifier('WITH query name')
+      let columns: string[] | undefined
+      if (this.acceptSymbol('(')) {
+        columns = []
+        do {
+          columns.push(this.parseIdentifier('column name'))
+        } while (this.acceptSymbol(','))
+        this.expectSymbol(')')
+      }
+      this.expectWord('AS')
+      // [NOT] MATERIALIZED is a planner hint; it doesn't change results
+      if (this.acceptWord('NOT')) {
+        this.expectWord('MATERIALIZED')
+      } else {
+        this.acceptWord('MATERIALIZED')
+      }
+      this.expectSymbol('(')
+      const query = this.parseQuery()
+      this.expectSymbol(')')
+      ctes.push({ name, columns, query })
+    } while (this.acceptSymbol(','))
+    return { recursive, ctes }
+  }
+
+  private parseUnion(): Query {
+    let left = this.parseIntersect()
+    while (this.isWord('UNION') || this.isWord('EXCEPT')) {
+      const op = this.next().upper as SetOperator
+      left = this.makeSetOperation(op, left, () => this.parseIntersect())
+    }
+    return left
+  }
+
+  private parseIntersect(): Query {
+    let left = this.parseQueryPrimary()
+    while (this.isWord('INTERSECT')) {
+      this.next()
+      left = this.makeSetOperation('INTERSECT', left, () => this.parseQueryPrimary())
+    }
+    return left
+  }
+
+  private makeSetOperation(op: SetOperator, left: Query, parseRight: () => Query): Query {
+    const all = this.acceptWord('ALL')
+    if (!all) this.acceptWord('DISTINCT')
+    const right = parseRight()
+    return { kind: 'setOperation', op, all, left, right, orderBy: [], limit: null, offset: null }
+  }
+
+  /**
+   * A SELECT, or a parenthesized query used as a set-operation operand
+   */
+  private parseQueryPrimary(): Query {
+    if (this.isSymbol('(')) {
+      this.next()
+      const query = this.parseQuery()
+      this.expectSymbol(')')
+      return query
+    }
+    return this.parseSelect()
+  }
+
+  /**
+   * True when the next token starts a query. `((SELECT 1) + 1)` stays an expression, so a
+   * parenthesized query only counts as a subquery when SELECT or WITH follows directly.
+   */
+  private atQueryStart(offset: number = 0): boolean {
+    return this.isWord('SELECT', offset) || this.isWord('WITH', offset)
+  }
+
+  /**
+   * ( query ) — the opening parenthesis has already been consumed
+   */
+  private parseSubqueryBody(): Query {
+    const query = this.parseQuery()
+    this.expectSymbol(')')
+    return query
+  }
+
+  private parseSelect(): SelectStatement {
+    this.expectWord('SELECT')
+    const distinct = this.acceptWord('DISTINCT')
+    if (distinct && this.isWord('ON')) {
+      throw this.error('SELECT DISTINCT ON is not supported')
+    }
+    if (!distinct) this.acceptWord('ALL')
+
+    const columns = this.parseSelectList()
+
+    let from: FromItem | null = null
+    if (this.acceptWord('FROM')) {
+      from = this.parseFromClause()
+    }
+
+    let where: Expr | null = null
+    if (this.acceptWord('WHERE')) {
+      where = this.parseExpr()
+    }
+
+    const groupBy: Expr[] = []
+    if (this.acceptWord('GROUP')) {
+      this.expectWord('BY')
+      do {
+        groupBy.push(this.parseExpr())
+      } while (this.acceptSymbol(','))
+    }
+
+    let having: Expr | null = null
+    if (this.acceptWord('HAVING')) {
+      having = this.parseExpr()
+    }
+
+    // ORDER BY / LIMIT / OFFSET belong to the enclosing query (see parseQuery)
+    return { kind: 'select', distinct, columns, from, where, groupBy, having, orderBy: [], limit: null, offset: null }
+  }
+
+  private parseSelectList(): SelectItem[] {
+    const items: SelectItem[] = []
+    do {
+      if (this.acceptSymbol('*')) {
+        items.push({ expr: { kind: 'star' } })
+        continue
+      }
+      // table.* form
+      if ((this.peek().type === 'word' || this.peek().type === 'identifier') && this.isSymbol('.', 1) && this.isSymbol('*', 2)) {
+        const table = this.next().value
+        this.pos += 2
+        items.push({ expr: { kind: 'star', table } })
+        continue
+      }
+      const expr = this.parseExpr()
+      items.push({ expr, alias: this.parseOptionalAlias() })
+    } while (this.acceptSymbol(','))
+    return items
+  }
+
+  /**
+   * FROM list: comma-separated items are cross joined, as in PostgreSQL
+   */
+  private parseFromClause(): FromItem {
+    let from = this.parseJoinedTable()
+    while (this.acceptSymbol(',')) {
+      from = { kind: 'join', joinType: 'CROSS', left: from, right: this.parseJoinedTable() }
+    }
+    return from
+  }
+
+  /**
+   * A table followed by any number of joins, left-associative
+   */
+  private parseJoinedTable(): FromItem {
+    let left = this.parseFromPrimary()
+    for (;;) {
+      const start = this.peek()
+      if (this.acceptWord('CROSS')) {
+        this.expectWord('JOIN')
+        left = { kind: 'join', joinType: 'CROSS', left, right: this.parseFromPrimary() }
+        continue
+      }
+
+      const natural = this.acceptWord('NATURAL')
+      const joinType = this.parseJoinType()
+      if (!joinType) {
+        if (natural) throw this.error('expected JOIN after NATURAL', start)
+        return left
+      }
+
+      const right = this.parseFromPrimary()
+      if (natural) {
+        left = { kind: 'join', joinType, left, right, natural: true }
+      } else if (this.acceptWord('ON')) {
+        left = { kind: 'join', joinType, left, right, on: this.parseExpr() }
+      } else if (this.acceptWord('USING')) {
+        this.expectSymbol('(')
+        const using: string[] = []
+        do {
+          using.push(this.parseIdentifier('column name'))
+        } while (this.acceptSymbol(','))
+        this.expectSymbol(')')
+        left = { kind: 'join', joinType, left, right, using }
+      } else {
+        throw this.error('expected ON or USING after JOIN')
+      }
+    }
+  }
+
+  /**
+   * [INNER] JOIN, LEFT|RIGHT|FULL [OUTER] JOIN; undefined when no join follows
+   */
+  private parseJoinType(): JoinType | undefined {
+    if (this.acceptWord('JOIN')) return 'INNER'
+    if (this.acceptWord('INNER')) {
+      this.expectWord('JOIN')
+      return 'INNER'
+    }
+    for (const joinType of ['LEFT', 'RIGHT', 'FULL'] as const) {
+      if (this.acceptWord(joinType)) {
+        this.acceptWord('OUTER')
+        this.expectWord('JOIN')
+        return joinType
+      }
+    }
+    return undefined
+  }
+
+  private parseFromPrimary(): FromItem {
+    if (this.isSymbol('(')) {
+      if (this.atQueryStart(1)) {
+        this.next()
+        const query = this.parseSubqueryBody()
+        // PostgreSQL 16 made the alias optional; the LLM often leaves it out
+        const alias = this.parseOptionalAlias()
+        let columnAliases: string[] | undefined
+        if (alias && this.acceptSymbol('(')) {
+          columnAliases = []
+          do {
+            columnAliases.push(this.parseIdentifier('column name'))
+          } while (this.acceptSymbol(','))
+          this.expectSymbol(')')
+        }
+        return { kind: 'subquery', query, alias, columnAliases }
+      }
+      // Parenthesized join: FROM (a JOIN b ON ...) JOIN c ...
+      this.next()
+      const inner = this.parseJoinedTable()
+      this.expectSymbol(')')
+      return inner
+    }
+    return this.parseTableRef()
+  }
+
+  private parseTableRef(): TableRef {
+    let name = this.parseIdentifier('table name')
+    // Schema-qualified names (public.sales) resolve to the bare table name
+    if (this.acceptSymbol('.')) {
+      name = this.parseIdentifier('table name')
+    }
+    return { kind: 'table', name, alias: this.parseOptionalAlias() }
+  }
+
+  private parseOrderByItem(): OrderByItem {
+    const expr = this.parseExpr()
+    let direction: 'ASC' | 'DESC' = 'ASC'
+    if (this.acceptWord('DESC')) {
+      direction = 'DESC'
+    } else {
+      this.acceptWord('ASC')
+    }
+    let nulls: 'FIRST' | 'LAST' | undefined
+    if (this.acceptWord('NULLS')) {
+      if (this.acceptWord('FIRST')) {
+        nulls = 'FIRST'
+      } else {
+        this.expectWord('LAST')
+        nulls = 'LAST'
+      }
+    }
+    return { expr, direction, nulls }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Expressions
+  // ---------------------------------------------------------------------------
+
+  parseExpr(): Expr {
+    return this.parseOr()
+  }
+
+  private parseOr(): Expr {
+    let left = this.parseAnd()
+    while (this.acceptWord('OR')) {
+      left = { kind: 'binary', op: 'OR', left, right: this.parseAnd() }
+    }
+    return left
+  }
+
+  private parseAnd(): Expr {
+    let left = this.parseNot()
+    while (this.acceptWord('AND')) {
+      left = { kind: 'binary', op: 'AND', left, right: this.parseNot() }
+    }
+    return left
+  }
+
+  private parseNot(): Expr {
+    if (this.acceptWord('NOT')) {
+      return { kind: 'unary', op: 'NOT', operand: this.parseNot() }
+    }
+    return this.parseComparison()
+  }
+
+  private parseComparison(): Expr {
+    let left = this.parseConcat()
+
+    while (true) {
+      const token = this.peek()
+
+      if (token.type === 'operator' && COMPARISON_OPERATORS[token.value]) {
+        this.pos++
+        left = { kind: 'binary', op: COMPARISON_OPERATORS[token.value], left, right: this.parseConcat() }
+        continue
+      }
+
+      if (this.acceptWord('IS')) {
+        const negated = this.acceptWord('NOT')
+        if (this.acceptWord('NULL')) {
+          left = { kind: 'isNull', operand: left, negated }
+        } else if (this.isWord('TRUE') || this.isWord('FALSE')) {
+          left = { kind: 'isTruth', operand: left, value: this.next().upper === 'TRUE', negated }
+        } else {
+          throw this.error('expected NULL, TRUE or FALSE after IS')
+        }
+        continue
+      }
+
+      // NOT BETWEEN / NOT IN / NOT LIKE
+      const negated = this.isWord('NOT') && (this.isWord('BETWEEN', 1) || this.isWord('IN', 1) || this.isWord('LIKE', 1) || this.isWord('ILIKE', 1))
+      if (negated) this.pos++
+
+      if (this.acceptWord('BETWEEN')) {
+        this.acceptWord('SYMMETRIC')
+        const low = this.parseConcat()
+        this.expectWord('AND')
+        const high = this.parseConcat()
+        left = { kind: 'between', operand: left, low, high, negated }
+        continue
+      }
+
+      if (this.acceptWord('IN')) {
+        this.expectSymbol('(')
+        if (this.atQueryStart()) {
+          left = { kind: 'inSubquery', operand: left, query: this.parseSubqueryBody(), negated }
+          continue
+        }
+        const list: Expr[] = []
+        do {
+          list.push(this.parseExpr())
+        } while (this.acceptSymbol(','))
+        this.expectSymbol(')')
+        left = { kind: 'inList', operand: left, list, negated }
+        continue
+      }
+
+      if (this.isWord('LIKE') || this.isWord('ILIKE')) {
+        const caseInsensitive = this.next().upper === 'ILIKE'
+        left = { kind: 'like', operand: left, pattern: this.parseConcat(), negated, caseInsensitive }
+        continue
+      }
+
+      if (negated) {
+        throw this.error('expected BETWEEN, IN or LIKE after NOT')
+      }
+      return left
+    }
+  }
+
+  private parseConcat(): Expr {
+    let left = this.parseAdditive()
+    while (this.acceptSymbol('||')) {
+      left = { kind: 'binary', op: '||', left, right: this.parseAdditive() }
+    }
+    return left
+  }
+
+  private parseAdditive(): Expr {
+    let left = this.parseMultiplicative()
+    while (this.isSymbol('+') || this.isSymbol('-')) {
+      const op = this.next().value as BinaryOperator
+      left = { kind: 'binary', op, left, right: this.parseMultiplicative() }
+    }
+    return left
+  }
+
+  private parseMultiplicative(): Expr {
+    let left = this.parseUnary()
+    while (this.isSymbol('*') || this.isSymbol('/') || this.isSymbol('%')) {
+      const op = this.next().value as BinaryOperator
+      left = { kind: 'binary', op, left, right: this.parseUnary() }
+    }
+    return left
+  }
+
+  private parseUnary(): Expr {
+    if (this.isSymbol('-') || this.isSymbol('+')) {
+      const op = this.next().value as '-' | '+'
+      const operand = this.parseUnary()
+      // Fold negative number literals so LIMIT -1 / WHERE x > -5 stay literals
+      if (op === '-' && operand.kind === 'literal' && typeof operand.value === 'number') {
+        return { ...operand, value: -operand.value }
+      }
+      return op === '+' ? operand : { kind: 'unary', op, operand }
+    }
+    return this.parsePostfix()
+  }
+
+  private parsePostfix(): Expr {
+    let expr = this.parsePrimary()
+    while (this.acceptSymbol('::')) {
+      expr = { kind: 'cast', operand: expr, targetType: this.parseTypeName() }
+    }
+    return expr
+  }
+
+  private parsePrimary(): Expr {
+    const token = this.peek()
+
+    if (token.type === 'number') {
+      this.pos++
+      const value = Number(token.value)
+      return /[.e]/i.test(token.value) ? { kind: 'literal', value, decimal: true } : { kind: 'literal', value }
+    }
+
+    if (token.type === 'string') {
+      this.pos++
+      return { kind: 'literal', value: token.value }
+    }
+
+    if (this.acceptSymbol('(')) {
+      if (this.atQueryStart()) {
+        return { kind: 'subquery', query: this.parseSubqueryBody() }
+      }
+      const expr = this.parseExpr()
+      this.expectSymbol(')')
+      return expr
+    }
+
+    if (token.type === 'word') {
+      switch (token.upper) {
+        case 'NULL':
+          this.pos++
+          return { kind: 'literal', value: null }
+        case 'TRUE':
+        case 'FALSE':
+          this.pos++
+          return { kind: 'literal', value: token.upper === 'TRUE' }
+        case 'CASE':
+          return this.parseCase()
+        case 'CAST':
+          if (this.isSymbol('(', 1)) return this.parseCast()
+          break
+        case 'EXISTS':
+          if (this.isSymbol('(', 1)) {
+            this.pos += 2
+            return { kind: 'exists', query: this.parseSubqueryBody() }
+          }
+          break
+        case 'CURRENT_DATE':
+        case 'CURRENT_TIMESTAMP':
+          if (!this.isSymbol('(', 1)) {
+            this.pos++
+            return { kind: 'function', name: token.upper, args: [] }
+          }
+          break
+        // Typed literals: DATE '2024-01-31', TIMESTAMP '2024-01-31 12:00', INTERVAL '30 days'
+        case 'DATE':
+        case 'TIMESTAMP':
+        case 'INTERVAL':
+          if (this.peek(1).type === 'string') {
+            this.pos++
+            let value = this.next().value
+            // INTERVAL '3' DAY
+            if (token.upper === 'INTERVAL' && INTERVAL_FIELDS.has(this.peek().upper)) {
+              value += ` ${this.next().value}`
+            }
+            return { kind: 'cast', operand: { kind: 'literal', value }, targetType: token.upper }
+          }
+          break
+        case 'EXTRACT':
+        case 'SUBSTRING':
+        case 'TRIM':
+        case 'POSITION':
+          if (this.isSymbol('(', 1)) return this.parseSpecialFunction()
+          break
+      }
+
+      // Function call. LEFT and RIGHT are join keywords but also string functions.
+      if (this.isSymbol('(', 1) && (!RESERVED_WORDS.has(token.upper) || token.upper === 'LEFT' || token.upper === 'RIGHT')) {
+        return this.parseFunctionCall()
+      }
+    }
+
+    if (token.type === 'word' || token.type === 'identifier') {
+      return this.parseColumnRef()
+    }
+
+    throw this.error('expected expression')
+  }
+
+  private parseColumnRef(): Expr {
+    const first = this.parseIdentifier('column name')
+    if (this.acceptSymbol('.')) {
+      const second = this.parseIdentifier('column name')
+      return { kind: 'column', table: first, name: second }
+    }
+    return { kind: 'column', name: first }
+  }
+
+  private parseFunctionCall(): Expr {
+    const call = this.parseFunctionArgs()
+    if (this.acceptWord('OVER')) {
+      call.over = this.parseWindowSpec()
+    }
+    return call
+  }
+
+  private parseFunctionArgs(): FunctionCall {
+    const name = this.next().upper
+    this.expectSymbol('(')
+
+    const args: Expr[] = []
+    if (this.acceptSymbol(')')) {
+      return { kind: 'function', name, args }
+    }
+
+    const distinct = this.acceptWord('DISTINCT')
+    if (!distinct) this.acceptWord('ALL')
+
+    // COUNT(*)
+    if (!distinct && this.acceptSymbol('*')) {
+      this.expectSymbol(')')
+      return { kind: 'function', name, args: [{ kind: 'star' }] }
+    }
+
+    do {
+      args.push(this.parseExpr())
+    } while (this.acceptSymbol(','))
+    this.expectSymbol(')')
+
+    return distinct ? { kind: 'function', name, args, distinct } : { kind: 'function', name, args }
+  }
+
+  /**
+   * Functions with SQL-standard keyword syntax, rewritten to plain calls:
+   * EXTRACT(field FROM x), SUBSTRING(s FROM start FOR length), TRIM([LEADING | TRAILING | BOTH]
+   * [chars] FROM s) and POSITION(sub IN s). The comma forms parse as ordinary calls.
+   */
+  private parseSpecialFunction(): Expr {
+    const name = this.next().upper
+    this.expectSymbol('(')
+
+    if (name === 'EXTRACT') {
+      const token = this.next()
+      if (token.type !== 'word' && token.type !== 'identifier' && token.type !== 'string') {
+        throw this.error('expected field name')
+      }
+      this.expectWord('FROM')
+      const source = this.parseExpr()
+      this.expectSymbol(')')
+      return { kind: 'function', name, args: [{ kind: 'literal', value: token.value.toLowerCase() }, source] }
+    }
+
+    if (name === 'POSITION') {
+      const substring = this.parseConcat()
+      this.expectWord('IN')
+      const source = this.parseExpr()
+      this.expectSymbol(')')
+      return { kind: 'function', name, args: [substring, source] }
+    }
+
+    if (name === 'TRIM') {
+      let trimName = 'BTRIM'
+      if (this.acceptWord('LEADING')) trimName = 'LTRIM'
+      else if (this.acceptWord('TRAILING')) trimName = 'RTRIM'
+      else this.acceptWord('BOTH')
+
+      const args: Expr[] = []
+      if (this.acceptWord('FROM')) {
+        args.push(this.parseExpr())
+      } else {
+        const first = this.parseExpr()
+        if (this.acceptWord('FROM')) {
+          args.push(this.parseExpr(), first)
+        } else {
+          args.push(first)
+          while (this.acceptSymbol(',')) args.push(this.parseExpr())
+        }
+      }
+      this.expectSymbol(')')
+      return { kind: 'function', name: trimName, args }
+    }
+
+    // SUBSTRING
+    const args: Expr[] = [this.parseExpr()]
+    if (this.isWord('FROM') || this.isWord('FOR')) {
+      args.push(this.acceptWord('FROM') ? this.parseExpr() : { kind: 'literal', value: 1 })
+      if (this.acceptWord('FOR')) args.push(this.parseExpr())
+    } else {
+      while (this.acceptSymbol(',')) args.push(this.parseExpr())
+    }
+    this.expectSymbol(')')
+    return { kind: 'function', name, args }
+  }
+
+  // OVER ( [PARTITION BY ...] [ORDER BY ...] [ROWS | RANGE frame] )
+  private parseWindowSpec(): WindowSpec {
+    if (!this.isSymbol('(')) {
+      throw this.error('named windows are not supported')
+    }
+    this.expectSymbol('(')
+
+    const partitionBy: Expr[] = []
+    if (this.acceptWord('PARTITION')) {
+      this.expectWord('BY')
+      do {
+        partitionBy.push(this.parseExpr())
+      } while (this.acceptSymbol(','))
+    }
+
+    const orderBy: OrderByItem[] = []
+    if (this.acceptWord('ORDER')) {
+      this.expectWord('BY')
+      do {
+        orderBy.push(this.parseOrderByItem())
+      } while (this.acceptSymbol(','))
+    }
+
+    let frame: WindowFrame | undefined
+    if (this.isWord('ROWS') || this.isWord('RANGE')) {
+      const mode = this.next().upper as 'ROWS' | 'RANGE'
+      if (this.acceptWord('BETWEEN')) {
+        const start = this.parseFrameBound()
+        this.expectWord('AND')
+        frame = { mode, start, end: this.parseFrameBound() }
+      } else {
+        frame = { mode, start: this.parseFrameBound(), end: { type: 'CURRENT ROW' } }
+      }
+    } else if (this.isWord('GROUPS')) {
+      throw this.error('GROUPS frames are not supported')
+    }
+    if (this.isWord('EXCLUDE')) {
+      throw this.error('frame EXCLUDE is not supported')
+    }
+
+    this.expectSymbol(')')
+    return { partitionBy, orderBy, frame }
+  }
+
+  private parseFrameBound(): FrameBound {
+    if (this.acceptWord('UNBOUNDED')) {
+      if (this.acceptWord('PRECEDING')) return { type: 'UNBOUNDED PRECEDING' }
+      this.expectWord('FOLLOWING')
+      return { type: 'UNBOUNDED FOLLOWING' }
+    }
+    if (this.acceptWord('CURRENT')) {
+      this.expectWord('ROW')
+      return { type: 'CURRENT ROW' }
+    }
+    const offset = this.parseAdditive()
+    if (this.acceptWord('PRECEDING')) return { type: 'PRECEDING', offset }
+    this.expectWord('FOLLOWING')
+    return { type: 'FOLLOWING', offset }
+  }
+
+  private parseCase(): Expr {
+    this.expectWord('CASE')
+    const operand = this.isWord('WHEN') ? undefined : this.parseExpr()
+    const whens: Array<{ when: Expr; then: Expr }> = []
+    while (this.acceptWord('WHEN')) {
+      const when = this.parseExpr()
+      this.expectWord('THEN')
+      whens.push({ when, then: this.parseExpr() })
+    }
+    if (whens.length === 0) {
+      throw this.error('expected WHEN in CASE expression')
+    }
+    const elseExpr = this.acceptWord('ELSE') ? this.parseExpr() : undefined
+    this.expectWord('END')
+    return { kind: 'case', operand, whens, elseExpr }
+  }
+
+  private parseCast(): Expr {
+    this.expectWord('CAST')
+    this.expectSymbol('(')
+    const operand = this.parseExpr()
+    this.expectWord('AS')
+    const targetType = this.parseTypeName()
+    this.expectSymbol(')')
+    return { kind: 'cast', operand, targetType }
+  }
+
+  /**
+   * Parse a type name such as INTEGER, DOUBLE PRECISION, VARCHAR(255), NUMERIC(10, 2)
+   * or TIMESTAMP WITH TIME ZONE. Returns the uppercased base name without modifiers.
+   */
+  private parseTypeName(): string {
+    const token = this.peek()
+    if (token.type !== 'word' && token.type !== 'identifier') {
+      throw this.error('expected type name')
+    }
+    this.pos++
+    let name = token.value.toUpperCase()
+
+    if (name === 'DOUBLE' && this.acceptWord('PRECISION')) {
+      name = 'DOUBLE PRECISION'
+    } else if ((name === 'CHARACTER' || name === 'CHAR') && this.acceptWord('VARYING')) {
+      name = 'VARCHAR'
+    } else if (name === 'TIMESTAMP' || name === 'TIME') {
+      if (this.isWord('WITH') || this.isWord('WITHOUT')) {
+        this.pos++
+        this.expectWord('TIME')
+        this.expectWord('ZONE')
+      }
+    }
+
+    // Length / precision modifiers are accepted and ignored
+    if (this.acceptSymbol('(')) {
+      while (!this.acceptSymbol(')')) {
+        if (this.peek().type === 'eof') throw this.error('expected ")"')
+        this.pos++
+      }
+    }
+
+    return name
+  }
+}
+
+/**
+ * Parse a single SQL query into an AST.
+ * Throws an Error with a position-aware message on invalid or unsupported syntax.
+ */
+export function parseSql(sql: string): Query {
+  return new Parser(sql).parseStatement()
+}
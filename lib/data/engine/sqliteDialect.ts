@@ -0,0 +1,286 @@
+/**
+ * Render a parsed query as SQLite SQL
+ *
+ * The embedded SQLite executor runs the queries the in-memory engine has validated, so instead of
+ * passing the original text through, the AST is printed back in SQLite's dialect. Where
+ * PostgreSQL and SQLite disagree, the rendered SQL calls back into this engine through functions
+ * the executor registers:
+ * - pg_call(name, ...args): any scalar function from the registry in ./functions
+ * - pg_cast(value, type): CAST / :: with the engine's conversions
+ * - pg_temporal(op, leftType, rightType, left, right): date and interval arithmetic
+ * - pg_interval_length(value): comparable length of an interval
+ *
+ * Everything else (joins, grouping, aggregates, window functions, set operations, CTEs) runs
+ * natively. Every compound expression is parenthesized so SQLite's operator precedence never
+ * applies, and ORDER BY always spells out NULLS FIRST / LAST because the defaults differ.
+ */
+
+import type {
+  Expr,
+  FrameBound,
+  FromItem,
+  OrderByItem,
+  Query,
+  SelectStatement,
+  SetOperation,
+  SqlValue,
+  WindowSpec,
+  WithClause,
+} from './ast'
+import { isAggregateFunction } from './aggregates'
+import { expressionKey, type OperandTypes } from './evaluator'
+import { isWindowFunction } from './windows'
+
+export interface SqliteRenderOptions {
+  // Physical SQLite table for a table name used in the query, if it is loaded
+  resolveTable: (name: string) => string | undefined
+  // From analyzeQuery: operators that need the engine's date / interval semantics
+  temporalOperators: Map<string, OperandTypes>
+  // From analyzeQuery: divisions of two integers
+  integerDivisions: Set<string>
+}
+
+// Name of the CTE that gives a derived table its column aliases: FROM (...) AS t(a, b)
+const COLUMN_ALIAS_CTE = '__columns'
+
+export function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`
+}
+
+function renderLiteral(value: SqlValue | undefined): string {
+  if (value === null || value === undefined) return 'NULL'
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE'
+  if (typeof value === 'number') return String(value)
+  return `'${value.replace(/'/g, "''")}'`
+}
+
+class SqliteRenderer {
+  // Visible WITH names per nesting level; a table reference matching one is not a loaded file
+  private cteScopes: string[][] = []
+
+  constructor(private options: SqliteRenderOptions) {}
+
+  query(query: Query): string {
+    const withSql = query.with ? this.withClause(query.with) : ''
+    try {
+      return withSql + (query.kind === 'select' ? this.select(query) : this.setOperation(query))
+    } finally {
+      if (query.with) this.cteScopes.pop()
+    }
+  }
+
+  /**
+   * Renders the WITH clause and leaves its names in scope; query() pops them
+   */
+  private withClause(clause: WithClause): string {
+    const names: string[] = []
+    this.cteScopes.push(names)
+    const ctes = clause.ctes.map(cte => {
+      // A recursive CTE sees itself; a plain one only sees the CTEs before it
+      if (clause.recursive) names.push(cte.name.toLowerCase())
+      const columns = cte.columns ? ` (${cte.columns.map(quoteIdentifier).join(', ')})` : ''
+      const sql = `${quoteIdentifier(cte.name)}${columns} AS (${this.query(cte.query)})`
+      if (!clause.recursive) names.push(cte.name.toLowerCase())
+      return sql
+    })
+    return `WITH ${clause.recursive ? 'RECURSIVE ' : ''}${ctes.join(', ')} `
+  }
+
+  private select(select: SelectStatement): string {
+    const columns = select.columns.map(item =>
+      item.alias ? `${this.expr(item.expr)} AS ${quoteIdentifier(item.alias)}` : this.expr(item.expr)
+    )
+    let sql = `SELECT ${select.distinct ? 'DISTINCT ' : ''}${columns.join(', ')}`
+    if (select.from) sql += ` FROM ${this.fromItem(select.from)}`
+    if (select.where) sql += ` WHERE ${this.expr(select.where)}`
+    if (select.groupBy.length > 0) sql += ` GROUP BY ${select.groupBy.map(expr => this.expr(expr)).join(', ')}`
+    if (select.having) sql += ` HAVING ${this.expr(select.having)}`
+    return sql + this.orderAndLimit(select)
+  }
+
+  private setOperation(operation: SetOperation): string {
+    if (operation.all && operation.op !== 'UNION') {
+      throw new Error(`${operation.op} ALL is not supported by the SQLite executor`)
+    }
+    // SQLite can't parenthesize the operands of a compound SELECT, so anything but a bare SELECT
+    // becomes a subquery
+    const operand = (query: Query) =>
+      query.kind === 'select' && !query.with && query.orderBy.length === 0 && !query.limit && !query.offset
+        ? this.select(query)
+        : `SELECT * FROM (${this.query(query)})`
+    const op = operation.all ? `${operation.op} ALL` : operation.op
+    return `${operand(operation.left)} ${op} ${operand(operation.right)}${this.orderAndLimit(operation)}`
+  }
+
+  private orderAndLimit(query: SelectStatement | SetOperation): string {
+    let sql = ''
+    if (query.orderBy.length > 0) sql += ` ORDER BY ${this.orderBy(query.orderBy)}`
+    // SQLite only accepts OFFSET after a LIMIT; -1 means no limit
+    if (query.limit || query.offset) sql += ` LIMIT ${query.limit ? this.expr(query.limit) : '-1'}`
+    if (query.offset) sql += ` OFFSET ${this.expr(query.offset)}`
+    return sql
+  }
+
+  private orderBy(items: OrderByItem[]): string {
+    // PostgreSQL sorts NULLs as the largest value; SQLite as the smallest
+    return items
+      .map(item => {
+        const nulls = item.nulls ?? (item.direction === 'DESC' ? 'FIRST' : 'LAST')
+        return `${this.expr(item.expr)} ${item.direction} NULLS ${nulls}`
+      })
+      .join(', ')
+  }
+
+  private isCte(name: string): boolean {
+    const lower = name.toLowerCase()
+    return this.cteScopes.some(names => names.includes(lower))
+  }
+
+  private fromItem(item: FromItem): string {
+    switch (item.kind) {
+      case 'table': {
+        if (this.isCte(item.name)) {
+          return item.alias ? `${quoteIdentifier(item.name)} AS ${quoteIdentifier(item.alias)}` : quoteIdentifier(item.name)
+        }
+        const physical = this.options.resolveTable(item.name)
+        if (!physical) {
+          throw new Error(`Table "${item.name}" not found`)
+        }
+        // Always aliased, so qualified references keep using the name from the query
+        return `${quoteIdentifier(physical)} AS ${quoteIdentifier(item.alias ?? item.name)}`
+      }
+
+      case 'subquery': {
+        let sql = `(${this.query(item.query)})`
+        if (item.columnAliases) {
+          const cte = quoteIdentifier(COLUMN_ALIAS_CTE)
+          const columns = item.columnAliases.map(quoteIdentifier).join(', ')
+          sql = `(WITH ${cte} (${columns}) AS ${sql} SELECT * FROM ${cte})`
+        }
+        return item.alias ? `${sql} AS ${quoteIdentifier(item.alias)}` : sql
+      }
+
+      case 'join': {
+        const right = item.right.kind === 'join' ? `(${this.fromItem(item.right)})` : this.fromItem(item.right)
+        const natural = item.natural ? 'NATURAL ' : ''
+        let sql = `${this.fromItem(item.left)} ${natural}${item.joinType} JOIN ${right}`
+        if (item.on) sql += ` ON ${this.expr(item.on)}`
+        if (item.using) sql += ` USING (${item.using.map(quoteIdentifier).join(', ')})`
+        return sql
+      }
+    }
+  }
+
+  private list(exprs: Expr[]): string {
+    return exprs.map(expr => this.expr(expr)).join(', ')
+  }
+
+  expr(expr: Expr): string {
+    switch (expr.kind) {
+      case 'literal': {
+        // 1.0 stays a REAL, or SQLite would divide by it as an integer
+        const literal = renderLiteral(expr.value)
+        return expr.decimal && /^-?\d+$/.test(literal) ? `${literal}.0` : literal
+      }
+
+      case 'column':
+        return expr.table ? `${quoteIdentifier(expr.table)}.${quoteIdentifier(expr.name)}` : quoteIdentifier(expr.name)
+
+      case 'star':
+        return expr.table ? `${quoteIdentifier(expr.table)}.*` : '*'
+
+      case 'unary':
+        return `(${expr.op === 'NOT' ? 'NOT ' : expr.op}${this.expr(expr.operand)})`
+
+      case 'binary': {
+        const left = this.expr(expr.left)
+        const right = this.expr(expr.right)
+        const temporal = this.options.temporalOperators.get(expressionKey(expr))
+        if (temporal) {
+          if (['+', '-', '*', '/', '%'].includes(expr.op)) {
+            const [leftType, rightType] = temporal.map(renderLiteral)
+            return `pg_temporal('${expr.op}', ${leftType}, ${rightType}, ${left}, ${right})`
+          }
+          return `(pg_interval_length(${left}) ${expr.op} pg_interval_length(${right}))`
+        }
+        // Two integers divide as integers in both (7 / 2 is 3); anything else as decimals, which
+        // SQLite would truncate when the values happen to be whole
+        if (expr.op === '/' && !this.options.integerDivisions.has(expressionKey(expr))) return `(${left} * 1.0 / ${right})`
+        return `(${left} ${expr.op} ${right})`
+      }
+
+      case 'isNull':
+        return `(${this.expr(expr.operand)} IS ${expr.negated ? 'NOT ' : ''}NULL)`
+
+      case 'isTruth':
+        return `(${this.expr(expr.operand)} IS ${expr.negated ? 'NOT ' : ''}${expr.value ? 'TRUE' : 'FALSE'})`
+
+      case 'between':
+        return `(${this.expr(expr.operand)} ${expr.negated ? 'NOT ' : ''}BETWEEN ${this.expr(expr.low)} AND ${this.expr(expr.high)})`
+
+      case 'inList':
+        return `(${this.expr(expr.operand)} ${expr.negated ? 'NOT ' : ''}IN (${this.list(expr.list)}))`
+
+      case 'like': {
+        // The executor turns on case_sensitive_like; ILIKE compares lowercased text instead
+        const lower = (sql: string) => (expr.caseInsensitive ? `pg_call('LOWER', ${sql})` : sql)
+        const not = expr.negated ? 'NOT ' : ''
+        return `(${lower(this.expr(expr.operand))} ${not}LIKE ${lower(this.expr(expr.pattern))} ESCAPE '\\')`
+      }
+
+      case 'case': {
+        let sql = 'CASE'
+        if (expr.operand) sql += ` ${this.expr(expr.operand)}`
+        for (const { when, then } of expr.whens) {
+          sql += ` WHEN ${this.expr(when)} THEN ${this.expr(then)}`
+        }
+        if (expr.elseExpr) sql += ` ELSE ${this.expr(expr.elseExpr)}`
+        return `${sql} END`
+      }
+
+      case 'cast':
+        return `pg_cast(${this.expr(expr.operand)}, ${renderLiteral(expr.targetType)})`
+
+      case 'function': {
+        const name = expr.name.toUpperCase()
+        if (expr.over || isAggregateFunction(name) || isWindowFunction(name)) {
+          const args = `${expr.distinct ? 'DISTINCT ' : ''}${this.list(expr.args)}`
+          return `${name}(${args})${expr.over ? ` OVER (${this.windowSpec(expr.over)})` : ''}`
+        }
+        return `pg_call(${[renderLiteral(name), ...expr.args.map(arg => this.expr(arg))].join(', ')})`
+      }
+
+      case 'subquery':
+        return `(${this.query(expr.query)})`
+
+      case 'inSubquery':
+        return `(${this.expr(expr.operand)} ${expr.negated ? 'NOT ' : ''}IN (${this.query(expr.query)}))`
+
+      case 'exists':
+        return `(EXISTS (${this.query(expr.query)}))`
+    }
+  }
+
+  private windowSpec(spec: WindowSpec): string {
+    const parts: string[] = []
+    if (spec.partitionBy.length > 0) parts.push(`PARTITION BY ${this.list(spec.partitionBy)}`)
+    if (spec.orderBy.length > 0) parts.push(`ORDER BY ${this.orderBy(spec.orderBy)}`)
+    if (spec.frame) {
+      const { mode, start, end } = spec.frame
+      parts.push(`${mode} BETWEEN ${this.frameBound(start)} AND ${this.frameBound(end)}`)
+    }
+    return parts.join(' ')
+  }
+
+  private frameBound(bound: FrameBound): string {
+    return bound.offset ? `${this.expr(bound.offset)} ${bound.type}` : bound.type
+  }
+}
+
+/**
+ * Print a query in SQLite's dialect. Table names are mapped to physical tables through
+ * options.resolveTable; WITH names shadow them as usual.
+ */
+export function renderSqlite(query: Query, options: SqliteRenderOptions): string {
+  return new SqliteRenderer(options).query(query)
+}
@@ -0,0 +1,152 @@
+/**
+ * SQL tokenizer for the in-memory query engine
+ *
+ * Splits a SQL string into words, quoted identifiers, string/number literals and operators.
+ * Keywords are not classified here: every bare word is emitted as a `word` token and the parser
+ * decides from context whether it is a keyword or an identifier, so columns named "year" or
+ * "first" keep working.
+ */
+
+export type TokenType = 'word' | 'identifier' | 'string' | 'number' | 'operator' | 'punctuation' | 'eof'
+
+export interface Token {
+  type: TokenType
+  value: string
+  // Uppercased value for case-insensitive keyword checks (words only)
+  upper: string
+  position: number
+}
+
+const OPERATORS = ['<>', '!=', '<=', '>=', '::', '||', '=', '<', '>', '+', '-', '*', '/', '%']
+const PUNCTUATION = new Set(['(', ')', ',', ';', '.'])
+
+function isWordStart(char: string): boolean {
+  return /[A-Za-z_]/.test(char)
+}
+
+function isWordChar(char: string): boolean {
+  return /[A-Za-z0-9_$]/.test(char)
+}
+
+function isDigit(char: string | undefined): boolean {
+  return char !== undefined && char >= '0' && char <= '9'
+}
+
+/**
+ * Read a quoted token starting at `start`. Doubling the quote character escapes it ('it''s').
+ */
+function readQuoted(sql: string, start: number, quote: string, closeQuote: string = quote): { value: string; end: number } {
+  let value = ''
+  let i = start + 1
+
+  while (i < sql.length) {
+    const char = sql[i]
+    if (char === closeQuote) {
+      if (closeQuote === quote && sql[i + 1] === quote) {
+        value += quote
+        i += 2
+        continue
+      }
+      return { value, end: i + 1 }
+    }
+    value += char
+    i++
+  }
+
+  throw new Error(`Syntax error: unterminated ${quote === "'" ? 'string literal' : 'quoted identifier'} starting at position ${start}`)
+}
+
+/**
+ * Tokenize a SQL string. Comments (-- and /* *\/) and whitespace are skipped.
+ */
+export function tokenize(sql: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+
+  const push = (type: TokenType, value: string, position: number) => {
+    tokens.push({ type, value, upper: type === 'word' ? value.toUpperCase() : value, position })
+  }
+
+  while (i < sql.length) {
+    const char = sql[i]
+
+    // Whitespace
+    if (/\s/.test(char)) {
+      i++
+      continue
+    }
+
+    // Line comment
+    if (char === '-' && sql[i + 1] === '-') {
+      while (i < sql.length && sql[i] !== '\n') i++
+      continue
+    }
+
+    // Block comment
+    if (char === '/' && sql[i + 1] === '*') {
+      const end = sql.indexOf('*/', i + 2)
+      i = end === -1 ? sql.length : end + 2
+      continue
+    }
+
+    // String literal
+    if (char === "'") {
+      const { value, end } = readQuoted(sql, i, "'")
+      push('string', value, i)
+      i = end
+      continue
+    }
+
+    // Quoted identifiers: "col", `col` (MySQL style) and [col] (SQL Server style)
+    if (char === '"' || char === '`' || char === '[') {
+      const closeQuote = char === '[' ? ']' : char
+      const { value, end } = readQuoted(sql, i, char, closeQuote)
+      push('identifier', value, i)
+      i = end
+      continue
+    }
+
+    // Number literal: 42, 3.14, .5, 1e6
+    if (isDigit(char) || (char === '.' && isDigit(sql[i + 1]))) {
+      const start = i
+      while (isDigit(sql[i])) i++
+      if (sql[i] === '.' && sql[i + 1] !== '.') {
+        i++
+        while (isDigit(sql[i])) i++
+      }
+      if ((sql[i] === 'e' || sql[i] === 'E') && (isDigit(sql[i + 1]) || ((sql[i + 1] === '+' || sql[i + 1] === '-') && isDigit(sql[i + 2])))) {
+        i += 2
+        while (isDigit(sql[i])) i++
+      }
+      push('number', sql.slice(start, i), start)
+      continue
+    }
+
+    // Word (keyword or bare identifier)
+    if (isWordStart(char)) {
+      const start = i
+      while (i < sql.length && isWordChar(sql[i])) i++
+      push('word', sql.slice(start, i), start)
+      continue
+    }
+
+    // Operators (longest match first)
+    const operator = OPERATORS.find(op => sql.startsWith(op, i))
+    if (operator) {
+      push('operator', operator, i)
+      i += operator.length
+      continue
+    }
+
+    if (PUNCTUATION.has(char)) {
+      push('punctuation', char, i)
+      i++
+      continue
+    }
+
+    throw new Error(`Syntax error: unexpected character "${char}" at position ${i}`)
+  }
+
+  tokens.push({ type: 'eof', value: '', upper: '', position: sql.length })
+  return tokens
+}
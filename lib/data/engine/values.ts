@@ -0,0 +1,263 @@
+/**
+ * Value helpers for the in-memory SQL engine
+ *
+ * Uploaded CSV rows arrive as strings, so values are normalized once per column type when a table
+ * is loaded. Comparison and coercion here follow PostgreSQL semantics where it matters for
+ * analytics: NULL propagates, numbers compare numerically, text compares by code point (the "C"
+ * collation, which is also SQLite's, so both executors sort text alike).
+ */
+
+import type { SqlValue } from './ast'
+import { formatDate, formatInterval, formatTimestamp, toInterval, toTimestamp, tryParseTimestamp } from './dates'
+
+const NUMERIC_TYPES = new Set([
+  'integer', 'int', 'int4', 'int8', 'bigint', 'smallint', 'decimal', 'numeric', 'number',
+  'float', 'float4', 'float8', 'double', 'double precision', 'real',
+])
+
+const INTEGER_TYPES = new Set(['integer', 'int', 'int4', 'int8', 'bigint', 'smallint'])
+
+const NUMBER_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i
+
+export function isNumericType(type: string | undefined): boolean {
+  return !!type && NUMERIC_TYPES.has(type.toLowerCase())
+}
+
+export function isIntegerType(type: string | undefined): boolean {
+  return !!type && INTEGER_TYPES.has(type.toLowerCase())
+}
+
+/**
+ * Convert a raw cell from an uploaded file into an engine value for the declared column type.
+ * Values that don't fit the declared type are kept as-is rather than dropped.
+ */
+export function normalizeColumnValue(value: unknown, type: string): SqlValue {
+  if (value === null || value === undefined) {
+    return null
+  }
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value.toISOString()
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null
+  }
+  if (typeof value === 'boolean') {
+    return value
+  }
+
+  const str = String(value)
+  const lowerType = type.toLowerCase()
+
+  if (isNumericType(lowerType)) {
+    const trimmed = str.trim()
+    if (trimmed === '') return null
+    return NUMBER_PATTERN.test(trimmed) ? Number(trimmed) : str
+  }
+
+  if (lowerType === 'boolean' || lowerType === 'bool') {
+    const trimmed = str.trim().toLowerCase()
+    if (trimmed === '') return null
+    if (['true', 't', 'yes', 'y', '1'].includes(trimmed)) return true
+    if (['false', 'f', 'no', 'n', '0'].includes(trimmed)) return false
+    return str
+  }
+
+  if (lowerType === 'date' || lowerType === 'timestamp') {
+    return str.trim() === '' ? null : str
+  }
+
+  return str
+}
+
+/**
+ * Coerce a value to a number for arithmetic. NULL stays NULL; non-numeric text is an error.
+ */
+export function toNumber(value: SqlValue): number | null {
+  if (value === null) return null
+  if (typeof value === 'number') return value
+  if (typeof value === 'boolean') return value ? 1 : 0
+
+  const trimmed = value.trim()
+  if (trimmed === '') return null
+  if (NUMBER_PATTERN.test(trimmed)) return Number(trimmed)
+
+  throw new Error(`invalid input syntax for type numeric: "${value}"`)
+}
+
+/**
+ * Coerce a value to a boolean for WHERE / AND / OR / NOT. NULL stays NULL.
+ */
+export function toBoolean(value: SqlValue): boolean | null {
+  if (value === null) return null
+  if (typeof value === 'boolean') return value
+  if (typeof value === 'number') return value !== 0
+
+  const lower = value.trim().toLowerCase()
+  if (['true', 't', 'yes', 'y', '1', 'on'].includes(lower)) return true
+  if (['false', 'f', 'no', 'n', '0', 'off'].includes(lower)) return false
+
+  throw new Error(`invalid input syntax for type boolean: "${value}"`)
+}
+
+function isNumericString(value: string): boolean {
+  return NUMBER_PATTERN.test(value.trim())
+}
+
+/**
+ * Compare two non-null values. Numbers compare numerically (numeric strings are promoted when
+ * compared with a number), everything else compares as text by code point.
+ */
+export function compareValues(a: SqlValue, b: SqlValue): number {
+  if (a === null || b === null) {
+    throw new Error('compareValues called with NULL')
+  }
+
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b
+  }
+  if (typeof a === 'boolean' && typeof b === 'boolean') {
+    return Number(a) - Number(b)
+  }
+  if (typeof a === 'number' && typeof b === 'string' && isNumericString(b)) {
+    return a - Number(b)
+  }
+  if (typeof a === 'string' && typeof b === 'number' && isNumericString(a)) {
+    return Number(a) - b
+  }
+  if (typeof a === 'boolean' || typeof b === 'boolean') {
+    const boolA = toBoolean(a)
+    const boolB = toBoolean(b)
+    return Number(boolA) - Number(boolB)
+  }
+
+  // Dates and timestamps compare chronologically whatever their spelling
+  // ('2024-01-15' = '2024-01-15 00:00:00', '1/9/2024' < '1/10/2024')
+  if (typeof a === 'string' && typeof b === 'string') {
+    const timeA = tryParseTimestamp(a)
+    const timeB = timeA === undefined ? undefined : tryParseTimestamp(b)
+    if (timeA !== undefined && timeB !== undefined) return timeA - timeB
+  }
+
+  return compareText(String(a), String(b))
+}
+
+/**
+ * Code point order. UTF-16 units already sort that way except surrogates, which stand for code
+ * points above U+FFFF and so go after U+E000-U+FFFF.
+ */
+function compareText(a: string, b: string): number {
+  const length = Math.min(a.length, b.length)
+  for (let i = 0; i < length; i++) {
+    const x = a.charCodeAt(i)
+    const y = b.charCodeAt(i)
+    if (x !== y) return codeUnitRank(x) - codeUnitRank(y)
+  }
+  return a.length - b.length
+}
+
+function codeUnitRank(unit: number): number {
+  if (unit >= 0xd800 && unit <= 0xdfff) return unit + 0x2000
+  return unit >= 0xe000 ? unit - 0x800 : unit
+}
+
+/**
+ * Sort comparator that places NULLs according to PostgreSQL defaults
+ * (NULLS LAST for ascending, NULLS FIRST for descending) unless overridden.
+ */
+export function compareForSort(a: SqlValue, b: SqlValue, descending: boolean, nullsFirst?: boolean): number {
+  const nullsGoFirst = nullsFirst ?? descending
+  if (a === null && b === null) return 0
+  if (a === null) return nullsGoFirst ? -1 : 1
+  if (b === null) return nullsGoFirst ? 1 : -1
+  const result = compareValues(a, b)
+  return descending ? -result : result
+}
+
+/**
+ * Stable string key for grouping and DISTINCT. NULLs group together, as in SQL.
+ */
+export function groupKey(values: SqlValue[]): string {
+  return values
+    .map(value => {
+      if (value === null) return 'N'
+      if (typeof value === 'number') return `n${value}`
+      if (typeof value === 'boolean') return value ? 'T' : 'F'
+      return `s${value.length}:${value}`
+    })
+    .join('|')
+}
+
+/**
+ * Hash key for equi-joins, or null when any part is NULL (NULL never equals anything).
+ * Numeric strings share a key with the number they spell, matching compareValues; the key may
+ * be looser than equality, so callers re-check candidates with the real join condition.
+ */
+export function joinKey(values: SqlValue[]): string | null {
+  const parts: string[] = []
+  for (const value of values) {
+    if (value === null) return null
+    if (typeof value === 'number') parts.push(`n${value}`)
+    else if (typeof value === 'boolean') parts.push(value ? 'T' : 'F')
+    else if (isNumericString(value)) parts.push(`n${Number(value)}`)
+    else parts.push(`s${value.length}:${value}`)
+  }
+  return parts.join('|')
+}
+
+/**
+ * Infer a ColumnMetadata type name from a JS value produced by the engine
+ */
+export function inferValueType(value: SqlValue): string {
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'decimal'
+  if (typeof value === 'boolean') return 'boolean'
+  return 'text'
+}
+
+/**
+ * Map a SQL type name (as written in CAST) to the ColumnMetadata type used across the app
+ */
+export function columnTypeForSqlType(sqlType: string): string {
+  const upper = sqlType.toUpperCase()
+  if (['INT', 'INTEGER', 'INT2', 'INT4', 'INT8', 'BIGINT', 'SMALLINT'].includes(upper)) return 'integer'
+  if (['DECIMAL', 'NUMERIC', 'REAL', 'FLOAT', 'FLOAT4', 'FLOAT8', 'DOUBLE', 'DOUBLE PRECISION'].includes(upper)) return 'decimal'
+  if (['BOOLEAN', 'BOOL'].includes(upper)) return 'boolean'
+  if (upper === 'DATE') return 'date'
+  if (['TIMESTAMP', 'TIMESTAMPTZ', 'DATETIME'].includes(upper)) return 'timestamp'
+  if (['TEXT', 'VARCHAR', 'CHAR', 'CHARACTER', 'STRING'].includes(upper)) return 'text'
+  if (upper === 'INTERVAL') return 'interval'
+  throw new Error(`type "${sqlType.toLowerCase()}" does not exist`)
+}
+
+/**
+ * CAST(value AS type). NULL casts to NULL; text that doesn't fit the target type is an error.
+ */
+export function castValue(value: SqlValue, sqlType: string): SqlValue {
+  const target = columnTypeForSqlType(sqlType)
+  if (value === null) return null
+
+  switch (target) {
+    case 'integer': {
+      // Halves round away from zero, as in PostgreSQL
+      const num = toNumber(value)
+      return num === null ? null : Math.sign(num) * Math.round(Math.abs(num))
+    }
+    case 'decimal':
+      return toNumber(value)
+    case 'boolean':
+      return toBoolean(value)
+    case 'date': {
+      const ms = toTimestamp(value, 'date')
+      return ms === null ? null : formatDate(ms)
+    }
+    case 'timestamp': {
+      const ms = toTimestamp(value, 'timestamp')
+      return ms === null ? null : formatTimestamp(ms)
+    }
+    case 'interval': {
+      const interval = toInterval(value)
+      return interval === null ? null : formatInterval(interval)
+    }
+    default:
+      return typeof value === 'string' ? value : String(value)
+  }
+}
@@ -0,0 +1,351 @@
+/**
+ * Window functions for the in-memory SQL engine
+ *
+ * The evaluator compiles every f(...) OVER (...) call into a WindowPlan and this module fills in
+ * one value per input row: rows are split into partitions, each partition is sorted by the window
+ * ORDER BY, and the function reads either its position (ROW_NUMBER, RANK, LAG, ...) or its frame.
+ * Frames follow PostgreSQL: with an ORDER BY the default frame is RANGE BETWEEN UNBOUNDED PRECEDING
+ * AND CURRENT ROW (so peers with equal sort keys share a running total), without one it is the
+ * whole partition.
+ */
+
+import type { FrameBoundType, SqlValue } from './ast'
+import type { Evaluator, Row } from './evaluator'
+import { createAccumulator, isAggregateFunction } from './aggregates'
+import { compareForSort, groupKey, toNumber } from './values'
+
+// Functions that only exist as window functions; aggregates can also be used with OVER
+const WINDOW_FUNCTIONS: Record<string, { minArgs: number; maxArgs: number }> = {
+  ROW_NUMBER: { minArgs: 0, maxArgs: 0 },
+  RANK: { minArgs: 0, maxArgs: 0 },
+  DENSE_RANK: { minArgs: 0, maxArgs: 0 },
+  PERCENT_RANK: { minArgs: 0, maxArgs: 0 },
+  CUME_DIST: { minArgs: 0, maxArgs: 0 },
+  NTILE: { minArgs: 1, maxArgs: 1 },
+  LAG: { minArgs: 1, maxArgs: 3 },
+  LEAD: { minArgs: 1, maxArgs: 3 },
+  FIRST_VALUE: { minArgs: 1, maxArgs: 1 },
+  LAST_VALUE: { minArgs: 1, maxArgs: 1 },
+  NTH_VALUE: { minArgs: 2, maxArgs: 2 },
+}
+
+export function isWindowFunction(name: string): boolean {
+  return name.toUpperCase() in WINDOW_FUNCTIONS
+}
+
+/**
+ * Check that a call with OVER names a window function or an aggregate and has a valid arity
+ */
+export function validateWindowCall(name: string, argCount: number): void {
+  const upper = name.toUpperCase()
+  const lower = name.toLowerCase()
+  const spec = WINDOW_FUNCTIONS[upper]
+  if (!spec) {
+    if (!isAggregateFunction(upper)) {
+      throw new Error(`OVER specified, but ${lower} is not a window function nor an aggregate function`)
+    }
+    if (argCount !== 1) {
+      throw new Error(`function ${lower}() requires exactly one argument`)
+    }
+    return
+  }
+  if (argCount < spec.minArgs || argCount > spec.maxArgs) {
+    throw new Error(`function ${lower}() called with the wrong number of arguments`)
+  }
+}
+
+export interface WindowFrameBound {
+  type: FrameBoundType
+  // Already evaluated; only set for n PRECEDING / n FOLLOWING
+  offset?: number
+}
+
+export interface WindowPlan {
+  name: string
+  args: Evaluator[]
+  partitionBy: Evaluator[]
+  orderBy: Array<{ evaluate: Evaluator; descending: boolean; nullsFirst?: boolean }>
+  // null when the query gave no frame clause
+  frame: { mode: 'ROWS' | 'RANGE'; start: WindowFrameBound; end: WindowFrameBound } | null
+}
+
+/**
+ * A sorted partition: original row indexes in window order, plus the peer group of each position
+ */
+interface Partition {
+  indexes: number[]
+  sortKeys: SqlValue[][]
+  peerStart: number[]
+  peerEnd: number[]
+}
+
+/**
+ * Compute a window function for every row. The result is aligned with `rows`.
+ */
+export function computeWindowValues(rows: Row[], plan: WindowPlan): SqlValue[] {
+  const results: SqlValue[] = new Array(rows.length).fill(null)
+
+  const groups = new Map<string, number[]>()
+  rows.forEach((row, index) => {
+    const key = groupKey(plan.partitionBy.map(evaluate => evaluate(row)))
+    const group = groups.get(key)
+    if (group) group.push(index)
+    else groups.set(key, [index])
+  })
+
+  for (const group of groups.values()) {
+    const partition = sortPartition(rows, group, plan)
+    const values = computePartition(rows, partition, plan)
+    partition.indexes.forEach((rowIndex, position) => {
+      results[rowIndex] = values[position]
+    })
+  }
+
+  return results
+}
+
+function sortPartition(rows: Row[], group: number[], plan: WindowPlan): Partition {
+  const keyed = group.map(index => ({ index, keys: plan.orderBy.map(key => key.evaluate(rows[index])) }))
+  const compare = (a: SqlValue[], b: SqlValue[]): number => {
+    for (let i = 0; i < plan.orderBy.length; i++) {
+      const key = plan.orderBy[i]
+      const cmp = compareForSort(a[i], b[i], key.descending, key.nullsFirst)
+      if (cmp !== 0) return cmp
+    }
+    return 0
+  }
+  keyed.sort((a, b) => compare(a.keys, b.keys))
+
+  const n = keyed.length
+  const peerStart = new Array<number>(n)
+  const peerEnd = new Array<number>(n)
+  for (let p = 0; p < n; p++) {
+    peerStart[p] = p > 0 && compare(keyed[p - 1].keys, keyed[p].keys) === 0 ? peerStart[p - 1] : p
+  }
+  for (let p = n - 1; p >= 0; p--) {
+    peerEnd[p] = p < n - 1 && compare(keyed[p + 1].keys, keyed[p].keys) === 0 ? peerEnd[p + 1] : p
+  }
+
+  return { indexes: keyed.map(k => k.index), sortKeys: keyed.map(k => k.keys), peerStart, peerEnd }
+}
+
+function computePartition(rows: Row[], partition: Partition, plan: WindowPlan): SqlValue[] {
+  const n = partition.indexes.length
+  const rowAt = (position: number) => rows[partition.indexes[position]]
+  const name = plan.name.toUpperCase()
+
+  switch (name) {
+    case 'ROW_NUMBER':
+      return partition.indexes.map((_, p) => p + 1)
+
+    case 'RANK':
+      return partition.peerStart.map(start => start + 1)
+
+    case 'DENSE_RANK': {
+      let rank = 0
+      return partition.peerStart.map((start, p) => (start === p ? ++rank : rank))
+    }
+
+    case 'PERCENT_RANK':
+      return partition.peerStart.map(start => (n > 1 ? start / (n - 1) : 0))
+
+    case 'CUME_DIST':
+      return partition.peerEnd.map(end => (end + 1) / n)
+
+    case 'NTILE': {
+      const buckets = toNumber(plan.args[0](rowAt(0)))
+      if (buckets === null) return new Array(n).fill(null)
+      if (!Number.isInteger(buckets) || buckets <= 0) {
+        throw new Error('argument of ntile must be greater than zero')
+      }
+      // Buckets differ in size by at most one row, larger buckets first
+      const size = Math.floor(n / buckets)
+      const remainder = n % buckets
+      const largeRows = remainder * (size + 1)
+      return partition.indexes.map((_, p) =>
+        p < largeRows ? Math.floor(p / (size + 1)) + 1 : remainder + Math.floor((p - largeRows) / size) + 1
+      )
+    }
+
+    case 'LAG':
+    case 'LEAD': {
+      const direction = name === 'LAG' ? -1 : 1
+      return partition.indexes.map((_, p) => {
+        const row = rowAt(p)
+        const offset = plan.args[1] ? toNumber(plan.args[1](row)) : 1
+        if (offset === null) return null
+        if (!Number.isInteger(offset)) {
+          throw new Error(`offset of ${name.toLowerCase()} must be an integer`)
+        }
+        const target = p + direction * offset
+        if (target >= 0 && target < n) return plan.args[0](rowAt(target))
+        return plan.args[2] ? plan.args[2](row) : null
+      })
+    }
+  }
+
+  // Everything else reads the frame
+  const bounds = frameBounds(partition, plan)
+  const argValues = partition.indexes.map((_, p) => plan.args[0](rowAt(p)))
+
+  switch (name) {
+    case 'FIRST_VALUE':
+      return bounds.map(([start, end]) => (start <= end ? argValues[start] : null))
+
+    case 'LAST_VALUE':
+      return bounds.map(([start, end]) => (start <= end ? argValues[end] : null))
+
+    case 'NTH_VALUE':
+      return bounds.map(([start, end], p) => {
+        const nth = toNumber(plan.args[1](rowAt(p)))
+        if (nth === null) return null
+        if (!Number.isInteger(nth) || nth <= 0) {
+          throw new Error('argument of nth_value must be greater than zero')
+        }
+        const target = start + nth - 1
+        return target <= end ? argValues[target] : null
+      })
+  }
+
+  return aggregateOverFrames(name, argValues, bounds, plan)
+}
+
+/**
+ * Aggregate each row's frame. Frames that start at the partition start only ever grow, so they
+ * share one running accumulator; sliding frames are recomputed per row.
+ */
+function aggregateOverFrames(
+  name: string,
+  argValues: SqlValue[],
+  bounds: Array<[number, number]>,
+  plan: WindowPlan
+): SqlValue[] {
+  const startType = plan.frame ? plan.frame.start.type : 'UNBOUNDED PRECEDING'
+  if (startType === 'UNBOUNDED PRECEDING') {
+    const accumulator = createAccumulator(name)
+    let added = -1
+    return bounds.map(([, end]) => {
+      while (added < end) {
+        added++
+        accumulator.add(argValues[added])
+      }
+      return accumulator.result()
+    })
+  }
+
+  return bounds.map(([start, end]) => {
+    const accumulator = createAccumulator(name)
+    for (let p = start; p <= end; p++) {
+      accumulator.add(argValues[p])
+    }
+    return accumulator.result()
+  })
+}
+
+/**
+ * Inclusive [start, end] frame positions for every row of the partition (start > end when empty)
+ */
+function frameBounds(partition: Partition, plan: WindowPlan): Array<[number, number]> {
+  const n = partition.indexes.length
+  const frame = plan.frame
+  if (!frame) {
+    // Default frame: the whole partition, or up to the last peer of the current row
+    return partition.indexes.map((_, p) => [0, plan.orderBy.length > 0 ? partition.peerEnd[p] : n - 1])
+  }
+
+  if (frame.start.type === 'UNBOUNDED FOLLOWING') {
+    throw new Error('frame start cannot be UNBOUNDED FOLLOWING')
+  }
+  if (frame.end.type === 'UNBOUNDED PRECEDING') {
+    throw new Error('frame end cannot be UNBOUNDED PRECEDING')
+  }
+
+  const rangeKeys = frame.mode === 'RANGE' && (hasOffset(frame.start) || hasOffset(frame.end))
+    ? rangeOffsetKeys(partition, plan)
+    : null
+
+  return partition.indexes.map((_, p) => {
+    const start = Math.max(0, boundPosition(frame.start, 'start', p, partition, frame.mode, rangeKeys, plan))
+    const end = Math.min(n - 1, boundPosition(frame.end, 'end', p, partition, frame.mode, rangeKeys, plan))
+    return [start, end]
+  })
+}
+
+function hasOffset(bound: WindowFrameBound): boolean {
+  return bound.type === 'PRECEDING' || bound.type === 'FOLLOWING'
+}
+
+/**
+ * RANGE with an offset compares the single ORDER BY key numerically
+ */
+function rangeOffsetKeys(partition: Partition, plan: WindowPlan): Array<number | null> {
+  if (plan.orderBy.length !== 1) {
+    throw new Error('RANGE with offset PRECEDING/FOLLOWING requires exactly one ORDER BY column')
+  }
+  return partition.sortKeys.map(keys => {
+    try {
+      return toNumber(keys[0])
+    } catch {
+      throw new Error('RANGE with offset PRECEDING/FOLLOWING requires a numeric ORDER BY column')
+    }
+  })
+}
+
+function boundPosition(
+  bound: WindowFrameBound,
+  side: 'start' | 'end',
+  p: number,
+  partition: Partition,
+  mode: 'ROWS' | 'RANGE',
+  rangeKeys: Array<number | null> | null,
+  plan: WindowPlan
+): number {
+  const n = partition.indexes.length
+  switch (bound.type) {
+    case 'UNBOUNDED PRECEDING':
+      return 0
+    case 'UNBOUNDED FOLLOWING':
+      return n - 1
+    case 'CURRENT ROW':
+      if (mode === 'ROWS') return p
+      return side === 'start' ? partition.peerStart[p] : partition.peerEnd[p]
+  }
+
+  const offset = bound.offset ?? 0
+  const forward = bound.type === 'FOLLOWING'
+  if (mode === 'ROWS') {
+    return forward ? p + offset : p - offset
+  }
+
+  // RANGE: the frame edge is the first (start) or last (end) row whose key lies within the
+  // offset of the current key, measured in the direction of the window ORDER BY
+  const keys = rangeKeys!
+  const current = keys[p]
+  if (current === null) {
+    // NULL keys only frame their peers
+    return side === 'start' ? partition.peerStart[p] : partition.peerEnd[p]
+  }
+  const descending = plan.orderBy[0].descending
+  const step = forward !== descending ? offset : -offset
+  const target = current + step
+  // Position of a key along the sort direction
+  const along = (key: number) => (descending ? -key : key)
+
+  if (side === 'start') {
+    let q = forward ? p : partition.peerStart[p]
+    if (forward) {
+      while (q < n && (keys[q] === null || along(keys[q]!) < along(target))) q++
+    } else {
+      while (q > 0 && keys[q - 1] !== null && along(keys[q - 1]!) >= along(target)) q--
+    }
+    return q
+  }
+
+  let q = forward ? partition.peerEnd[p] : p
+  if (forward) {
+    while (q < n - 1 && keys[q + 1] !== null && along(keys[q + 1]!) <= along(target)) q++
+  } else {
+    while (q >= 0 && (keys[q] === null || along(keys[q]!) > along(target))) q--
+  }
+  return q
+}
@@ -0,0 +1,131 @@
+/**
+ * File-backed chat repository (the default CHAT_STORE)
+ *
+ * Each chat is one JSON file, <chatId>.json, in CHAT_STORE_DIR (default data/chats, or /tmp/chats
+ * in serverless environments where only /tmp is writable). Files are written to a temporary name
+ * and renamed into place, so a crash mid-write leaves the previous version intact, and the writes
+ * to one chat are queued, so two requests updating it at once don't lose either change.
+ */
+
+import { existsSync, mkdirSync } from 'fs'
+import { readdir, readFile, rename, rm, writeFile } from 'fs/promises'
+import { join } from 'path'
+import { DEFAULT_WORKSPACE, type ChatMessage, type ChatRepository, type ChatSettings, type ChatSummary, type StoredChat } from './chatStore'
+
+function getChatsDir(): string {
+  const isServerless = process.env.NETLIFY === 'true' || process.env.VERCEL === '1' || process.env.AWS_LAMBDA_FUNCTION_NAME
+  const dir = process.env.CHAT_STORE_DIR || (isServerless ? '/tmp/chats' : join(process.cwd(), 'data', 'chats'))
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true })
+  }
+  return dir
+}
+
+function getChatPath(chatId: string): string {
+  return join(getChatsDir(), `${chatId}.json`)
+}
+
+async function readChat(path: string): Promise<StoredChat | null> {
+  try {
+    const chat = JSON.parse(await readFile(path, 'utf-8'))
+    return {
+      // Chats saved before workspaces and pinning
+      workspace: DEFAULT_WORKSPACE,
+      pinned: false,
+      ...chat,
+      createdAt: new Date(chat.createdAt),
+      updatedAt: new Date(chat.updatedAt),
+      messages: chat.messages.map((message: ChatMessage) => ({ ...message, timestamp: new Date(message.timestamp) })),
+    }
+  } catch {
+    // Missing, or not a chat file
+    return null
+  }
+}
+
+let writeCount = 0
+
+async function writeChat(chat: StoredChat): Promise<void> {
+  const path = getChatPath(chat.chatId)
+  const temporaryPath = `${path}.${process.pid}.${++writeCount}.tmp`
+  await writeFile(temporaryPath, JSON.stringify(chat))
+  await rename(temporaryPath, path)
+}
+
+async function readAllChats(): Promise<StoredChat[]> {
+  const dir = getChatsDir()
+  const names = (await readdir(dir)).filter(name => name.endsWith('.json'))
+  const chats = await Promise.all(names.map(name => readChat(join(dir, name))))
+  return chats.filter((chat): chat is StoredChat => chat !== null)
+}
+
+// The last queued write of each chat
+const pendingWrites = new Map<string, Promise<void>>()
+
+/**
+ * Run a write to a chat once the writes queued before it have finished, so its read of the chat
+ * sees their changes
+ */
+function queueWrite(chatId: string, write: () => Promise<void>): Promise<void> {
+  const previous = pendingWrites.get(chatId) ?? Promise.resolve()
+  const next = previous.then(write, write)
+  const settled = next.catch(() => {})
+  pendingWrites.set(chatId, settled)
+  settled.then(() => {
+    if (pendingWrites.get(chatId) === settled) pendingWrites.delete(chatId)
+  })
+  return next
+}
+
+export const fileChatRepository: ChatRepository = {
+  name: 'file',
+
+  async get(chatId: string): Promise<StoredChat | null> {
+    return readChat(getChatPath(chatId))
+  },
+
+  async list(): Promise<ChatSummary[]> {
+    return (await readAllChats())
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+      .map(chat => ({
+        chatId: chat.chatId,
+        title: chat.title,
+        workspace: chat.workspace,
+        pinned: chat.pinned,
+        updatedAt: chat.updatedAt,
+        messageCount: chat.messages.length,
+        fileIds: chat.fileIds,
+      }))
+  },
+
+  create(chat: StoredChat): Promise<void> {
+    return queueWrite(chat.chatId, () => writeChat(chat))
+  },
+
+  update(chatId: string, change: (chat: StoredChat) => ChatSettings): Promise<void> {
+    return queueWrite(chatId, async () => {
+      const chat = await readChat(getChatPath(chatId))
+      if (chat) {
+        await writeChat({ ...chat, ...change(chat), updatedAt: new Date() })
+      }
+    })
+  },
+
+  addMessage(chatId: string, message: ChatMessage, title?: string): Promise<void> {
+    return queueWrite(chatId, async () => {
+      const chat = await readChat(getChatPath(chatId))
+      if (chat) {
+        await writeChat({
+          ...chat,
+          title: title ?? chat.title,
+          messages: [...chat.messages, message],
+          updatedAt: new Date(),
+        })
+      }
+    })
+  },
+
+  delete(chatId: string): Promise<void> {
+    return queueWrite(chatId, () => rm(getChatPath(chatId), { force: true }))
+  },
+}
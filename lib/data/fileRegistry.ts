@@ -1,23 +1,78 @@
 /**
  * File registry with persistent disk-based storage
  * 
- * Files are stored in /uploads directory as JSON files. This ensures files persist across
- * server restarts and hot reloads. Each file gets a unique ID and is saved immediately
- * on upload so it's available for all queries in that chat.
+ * Files are stored in /uploads directory in the columnar format from ./columnar (typed column
+ * vectors, one .cols file per upload). This ensures files persist across server restarts and hot
+ * reloads, and a query only decodes the columns it uses. Each file gets a unique ID and is saved
+ * immediately on upload so it's available for all queries in that chat. Files saved as JSON by
+ * earlier versions are still read.
+ *
+ * Re-uploads of a dataset (this week's sales.csv) can append to, replace or add a version of a
+ * table instead of creating an unrelated one (registerVersion). Every version is a file of its
+ * own that keeps the dataset's table name; the dataset's version list is saved next to the files
+ * as <datasetId>.versions, and the first version's ID is the dataset ID. Each version records the
+ * content hash of the upload that made it, so uploading the same data again changes nothing.
+ *
+ * Files are deleted by the retention policy (./retention), never while a chat uses them.
  */
 
-import { existsSync, mkdirSync, readFileSync, writeFileSync, unlinkSync, readdirSync, statSync } from 'fs'
+import { existsSync, mkdirSync, readFileSync, unlinkSync, readdirSync, writeFileSync } from 'fs'
 import { join } from 'path'
+import {
+  buildColumnarTable,
+  concatColumnarTables,
+  hashColumnarTable,
+  readColumnarFile,
+  tableToRows,
+  writeColumnarFile,
+  type ColumnarTable,
+} from './columnar'
+
+export interface FileColumn {
+  // Identifier used in SQL
+  name: string
+  // Header text as it appeared in the uploaded file
+  header?: string
+  type: string
+  // Set for uploaded files by type inference (lib/data/ingestion/inference)
+  format?: string
+  confidence?: number
+  counterexamples?: string[]
+}
+
+// A foreign key declared by the uploaded file (SQLite databases), in chat table and column names
+export interface ForeignKey {
+  columns: string[]
+  table: string
+  references: string[]
+}
 
 export interface FileMetadata {
   id: string
   fileName: string
   tableName: string
-  columns: Array<{ name: string; type: string }>
+  // Worksheet the table was read from, for workbooks uploaded as one table per sheet
+  sheet?: string
+  columns: FileColumn[]
+  // Relationships to other tables of the same upload
+  foreignKeys?: ForeignKey[]
+  // Rebuilt from storage on every access; prefer rowCount and readFileRows()
   data: Record<string, any>[]
+  rowCount: number
+  // Typed column vectors the query executors read directly
+  storage?: ColumnarTable
   uploadedAt: Date | string // Store as ISO string in JSON, convert to Date when reading
+  // Dataset this file is a version of (the first version's ID) and its number, from 1
+  datasetId?: string
+  version?: number
+  // SHA-256 of the table's columns and values
+  contentHash?: string
 }
 
+// What callers pass in: rows as parsed from the upload, or column storage built while streaming it
+export type NewFile = Pick<FileMetadata, 'fileName' | 'tableName' | 'sheet' | 'foreignKeys' | 'columns' | 'uploadedAt'> &
+  ({ data: Record<string, any>[] } | { storage: ColumnarTable })
+
 // In-memory fallback for serverless environments (Netlify, Vercel)
 const inMemoryStore = new Map<string, FileMetadata>()
 
@@ -50,26 +105,98 @@ function getUploadsDir(): string {
 
 // Get file path for a given fileId
 function getFilePath(fileId: string): string {
+  return join(getUploadsDir(), `${fileId}.cols`)
+}
+
+// Files saved before the columnar format
+function getLegacyFilePath(fileId: string): string {
   return join(getUploadsDir(), `${fileId}.json`)
 }
 
 /**
- * Register a file and save it to disk
- * Returns the file ID
+ * A file backed by columnar storage; `data` is materialized only when something reads it
  */
-export function registerFile(metadata: Omit<FileMetadata, 'id'>): string {
-  const id = `file_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`
-  
-  const fileMetadata: FileMetadata = {
-    ...metadata,
-    id,
-    uploadedAt: new Date(), // Store as Date object, will be serialized to ISO string
+function createStoredFile(
+  fields: Pick<FileMetadata, 'id' | 'fileName' | 'tableName' | 'sheet' | 'foreignKeys' | 'uploadedAt' | 'datasetId' | 'version' | 'contentHash'>,
+  storage: ColumnarTable
+): FileMetadata {
+  const file = {
+    ...fields,
+    columns: storage.columns,
+    rowCount: storage.rowCount,
+    storage,
+  } as FileMetadata
+  // Enumerable, so spreading or serializing a file still includes its rows
+  Object.defineProperty(file, 'data', {
+    get: () => tableToRows(storage),
+    enumerable: true,
+  })
+  return file
+}
+
+/**
+ * First rows of a file, without materializing the rest
+ */
+export function readFileRows(file: FileMetadata, limit: number): Record<string, any>[] {
+  if (file.storage) return tableToRows(file.storage, limit)
+  return Array.isArray(file.data) ? file.data.slice(0, limit) : []
+}
+
+function newFileId(): string {
+  return `file_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`
+}
+
+function newFileStorage(metadata: NewFile): ColumnarTable {
+  return 'storage' in metadata ? metadata.storage : buildColumnarTable(metadata.columns, metadata.data)
+}
+
+// The version fields of a file that has them, to copy into another description of it
+function versionFields(file: Pick<FileMetadata, 'datasetId' | 'version' | 'contentHash'>) {
+  return {
+    ...(file.datasetId ? { datasetId: file.datasetId } : {}),
+    ...(file.version ? { version: file.version } : {}),
+    ...(file.contentHash ? { contentHash: file.contentHash } : {}),
   }
-  
+}
+
+/**
+ * Save `storage` as a new file; `dataset` makes it a version of an existing dataset
+ */
+function storeFile(
+  metadata: NewFile,
+  storage: ColumnarTable,
+  contentHash: string,
+  dataset?: Pick<FileMetadata, 'tableName' | 'datasetId' | 'version'>
+): FileMetadata {
+  const id = newFileId()
+  const fileMetadata = createStoredFile(
+    {
+      id,
+      fileName: metadata.fileName,
+      tableName: dataset?.tableName ?? metadata.tableName,
+      ...(metadata.sheet ? { sheet: metadata.sheet } : {}),
+      ...(metadata.foreignKeys?.length ? { foreignKeys: metadata.foreignKeys } : {}),
+      uploadedAt: new Date(), // Store as Date object, will be serialized to ISO string
+      datasetId: dataset?.datasetId ?? id,
+      version: dataset?.version ?? 1,
+      contentHash,
+    },
+    storage
+  )
+
   // Save to disk
   saveFileToDisk(id, fileMetadata)
-  
-  return id
+
+  return fileMetadata
+}
+
+/**
+ * Register a file and save it to disk
+ * Returns the file ID
+ */
+export function registerFile(metadata: NewFile): string {
+  const storage = newFileStorage(metadata)
+  return storeFile(metadata, storage, hashColumnarTable(storage)).id
 }
 
 /**
@@ -79,28 +206,41 @@ function saveFileToDisk(fileId: string, fileMetadata: FileMetadata): void {
   if (typeof window !== 'undefined') {
     return
   }
-    
-    // Convert Date to ISO string for JSON serialization
-    const serializableMetadata = {
-      ...fileMetadata,
-      uploadedAt: fileMetadata.uploadedAt instanceof Date 
-        ? fileMetadata.uploadedAt.toISOString() 
-        : fileMetadata.uploadedAt,
-    }
+  
+  const uploadedAt = fileMetadata.uploadedAt instanceof Date 
+    ? fileMetadata.uploadedAt.toISOString() 
+    : fileMetadata.uploadedAt
+  const storedFile = fileMetadata.storage
+    ? fileMetadata
+    : createStoredFile(
+        {
+          id: fileId,
+          fileName: fileMetadata.fileName,
+          tableName: fileMetadata.tableName,
+          ...(fileMetadata.sheet ? { sheet: fileMetadata.sheet } : {}),
+          ...(fileMetadata.foreignKeys?.length ? { foreignKeys: fileMetadata.foreignKeys } : {}),
+          uploadedAt: fileMetadata.uploadedAt,
+          ...versionFields(fileMetadata),
+        },
+        buildColumnarTable(fileMetadata.columns, fileMetadata.data || [])
+      )
     
   // Always store in-memory as fallback
-  inMemoryStore.set(fileId, fileMetadata)
+  inMemoryStore.set(fileId, storedFile)
   
   try {
-    const filePath = getFilePath(fileId)
-    writeFileSync(filePath, JSON.stringify(serializableMetadata, null, 2), 'utf-8')
+    writeColumnarFile(getFilePath(fileId), storedFile.storage!, {
+      id: fileId,
+      fileName: storedFile.fileName,
+      tableName: storedFile.tableName,
+      sheet: storedFile.sheet,
+      foreignKeys: storedFile.foreignKeys,
+      uploadedAt,
+      ...versionFields(storedFile),
+    })
   } catch (error: unknown) {
     // If disk write fails (serverless), in-memory store will handle it
     // Don't throw - in-memory fallback is sufficient
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-    if (process.env.NODE_ENV === 'development') {
-      // Only log in development
-    }
   }
 }
 
@@ -119,20 +259,44 @@ function readFileFromDisk(fileId: string): FileMetadata | null {
   
   // Try to read from disk
   try {
+    let fileMetadata: FileMetadata
     const filePath = getFilePath(fileId)
+    const legacyPath = getLegacyFilePath(fileId)
     
-    if (!existsSync(filePath)) {
+    if (existsSync(filePath)) {
+      const { table, metadata } = readColumnarFile(filePath)
+      fileMetadata = createStoredFile(
+        {
+          id: fileId,
+          fileName: String(metadata.fileName),
+          tableName: String(metadata.tableName),
+          ...(typeof metadata.sheet === 'string' ? { sheet: metadata.sheet } : {}),
+          ...(Array.isArray(metadata.foreignKeys) ? { foreignKeys: metadata.foreignKeys as ForeignKey[] } : {}),
+          uploadedAt: new Date(String(metadata.uploadedAt)),
+          ...versionFields({
+            datasetId: typeof metadata.datasetId === 'string' ? metadata.datasetId : undefined,
+            version: typeof metadata.version === 'number' ? metadata.version : undefined,
+            contentHash: typeof metadata.contentHash === 'string' ? metadata.contentHash : undefined,
+          }),
+        },
+        table
+      )
+    } else if (existsSync(legacyPath)) {
+      const legacy = JSON.parse(readFileSync(legacyPath, 'utf-8')) as FileMetadata
+      fileMetadata = createStoredFile(
+        {
+          id: fileId,
+          fileName: legacy.fileName,
+          tableName: legacy.tableName,
+          // Convert ISO string back to Date object
+          uploadedAt: new Date(legacy.uploadedAt),
+        },
+        buildColumnarTable(legacy.columns, legacy.data || [])
+      )
+    } else {
       return null
     }
     
-    const fileContent = readFileSync(filePath, 'utf-8')
-    const fileMetadata = JSON.parse(fileContent) as FileMetadata
-    
-    // Convert ISO string back to Date object
-    if (typeof fileMetadata.uploadedAt === 'string') {
-      fileMetadata.uploadedAt = new Date(fileMetadata.uploadedAt)
-    }
-    
     // Store in memory for next time
     inMemoryStore.set(fileId, fileMetadata)
     return fileMetadata
@@ -150,8 +314,7 @@ function fileExistsOnDisk(fileId: string): boolean {
     return false
   }
   
-  const filePath = getFilePath(fileId)
-  return existsSync(filePath)
+  return existsSync(getFilePath(fileId)) || existsSync(getLegacyFilePath(fileId))
 }
 
 /**
@@ -177,14 +340,6 @@ export function getFilesByIds(ids: string[]): FileMetadata[] {
   return files
 }
 
-/**
- * Re-register a file with its existing ID (saves to disk)
- * CRITICAL: Use this when recovering files from chatStore after fileRegistry reset
- */
-export function reRegisterFile(file: FileMetadata): void {
-  saveFileToDisk(file.id, file)
-}
-
 /**
  * Delete file from disk
  */
@@ -197,65 +352,288 @@ export function deleteFile(id: string): void {
   inMemoryStore.delete(id)
   
   try {
-    const filePath = getFilePath(id)
-    if (existsSync(filePath)) {
-      unlinkSync(filePath)
+    for (const filePath of [getFilePath(id), getLegacyFilePath(id)]) {
+      if (existsSync(filePath)) {
+        unlinkSync(filePath)
+      }
     }
   } catch (error: unknown) {
     // Ignore deletion errors - file might not exist on disk
   }
 }
 
+// -----------------------------------------------------------------------------
+// Dataset versions
+// -----------------------------------------------------------------------------
+
+export const UPLOAD_MODES = ['new', 'append', 'replace', 'version'] as const
+
+// How an upload relates to a table already in the chat: a new table, its rows added to the
+// table's, the table's contents replaced (earlier versions dropped from its list), or a new
+// version next to the earlier ones
+export type UploadMode = (typeof UPLOAD_MODES)[number]
+
+export interface DatasetVersion {
+  id: string
+  version: number
+  mode: UploadMode
+  // SHA-256 of the version's table, and of the upload that made it (differs after an append)
+  contentHash: string
+  uploadHash: string
+  rowCount: number
+  uploadedAt: string
+}
+
+// Columns of an upload compared with the table it goes into
+export interface SchemaDrift {
+  added: string[]
+  removed: string[]
+  retyped: Array<{ name: string; from: string; to: string }>
+}
+
+export interface RegisteredVersion {
+  // The version the chat should use from now on
+  id: string
+  datasetId: string
+  version: number
+  // File the chat used before; null for a new table, or when the chat keeps its file
+  replaces: string | null
+  // The same data was uploaded before and nothing was saved
+  duplicate: boolean
+  drift: SchemaDrift | null
+}
+
+// Version lists of datasets with more than one version
+const datasetStore = new Map<string, DatasetVersion[]>()
+
+function getDatasetPath(datasetId: string): string {
+  return join(getUploadsDir(), `${datasetId}.versions`)
+}
+
+function saveDatasetVersions(datasetId: string, versions: DatasetVersion[]): void {
+  datasetStore.set(datasetId, versions)
+  try {
+    writeFileSync(getDatasetPath(datasetId), JSON.stringify(versions))
+  } catch (error: unknown) {
+    // In-memory store is sufficient (serverless)
+  }
+}
+
+function firstVersion(file: FileMetadata): DatasetVersion {
+  const contentHash = file.contentHash ?? (file.storage ? hashColumnarTable(file.storage) : '')
+  return {
+    id: file.id,
+    version: file.version ?? 1,
+    mode: 'new',
+    contentHash,
+    uploadHash: contentHash,
+    rowCount: file.rowCount,
+    uploadedAt: file.uploadedAt instanceof Date ? file.uploadedAt.toISOString() : String(file.uploadedAt),
+  }
+}
+
+/**
+ * Versions of a dataset that still exist, oldest first. A file uploaded once is a dataset of one
+ * version.
+ */
+export function getDatasetVersions(datasetId: string): DatasetVersion[] {
+  let versions = datasetStore.get(datasetId)
+  if (!versions && typeof window === 'undefined') {
+    try {
+      const path = getDatasetPath(datasetId)
+      if (existsSync(path)) {
+        versions = JSON.parse(readFileSync(path, 'utf-8')) as DatasetVersion[]
+        datasetStore.set(datasetId, versions)
+      }
+    } catch (error: unknown) {
+      // Unreadable list: fall back to the dataset's first file
+    }
+  }
+  if (!versions) {
+    const file = getFileById(datasetId)
+    return file ? [firstVersion(file)] : []
+  }
+  return versions.filter(version => getFileById(version.id) !== null)
+}
+
+/**
+ * The first file of each dataset in `files`, so a query that names a past version of a table
+ * (ahead of the chat's files) doesn't also get the current one under the same table name
+ */
+export function oneVersionPerDataset(files: FileMetadata[]): FileMetadata[] {
+  const seen = new Set<string>()
+  return files.filter(file => {
+    const datasetId = file.datasetId ?? file.id
+    if (seen.has(datasetId)) return false
+    seen.add(datasetId)
+    return true
+  })
+}
+
+/**
+ * Added, removed and retyped columns of `next` compared with `previous`; null when they match
+ */
+export function detectSchemaDrift(previous: FileColumn[], next: FileColumn[]): SchemaDrift | null {
+  const drift: SchemaDrift = {
+    added: next.filter(col => !previous.some(old => old.name === col.name)).map(col => col.name),
+    removed: previous.filter(col => !next.some(now => now.name === col.name)).map(col => col.name),
+    retyped: next.flatMap(col => {
+      const old = previous.find(candidate => candidate.name === col.name)
+      return old && old.type !== col.type ? [{ name: col.name, from: old.type, to: col.type }] : []
+    }),
+  }
+  return drift.added.length > 0 || drift.removed.length > 0 || drift.retyped.length > 0 ? drift : null
+}
+
+// A type that holds the values of both: whole numbers widen to decimals, dates to timestamps,
+// anything else to text
+function widenType(a: string, b: string): string {
+  if (a === b) return a
+  const types = [a, b].sort().join(',')
+  if (types === 'decimal,integer') return 'decimal'
+  if (types === 'date,timestamp') return 'timestamp'
+  return 'text'
+}
+
 /**
- * Clean up old files (older than 24 hours)
+ * Register an upload of a single table. `mode` 'new' makes a new dataset unless one of `attached`
+ * (the chat's files) already holds the same data; the other modes need `current`, the version of
+ * the dataset the chat uses, and keep its table name:
+ * - append: the rows go after the current version's; new columns are NULL in the earlier rows,
+ *   missing ones NULL in the new rows, and a retyped column takes a type that holds both
+ * - replace: the upload becomes the only version
+ * - version: the upload becomes the next version; earlier ones stay available
+ * An upload that matches a version already in the dataset (or rows already appended) is not saved
+ * again.
  */
-export function cleanupOldFiles(): void {
+export function registerVersion(
+  metadata: NewFile,
+  mode: UploadMode,
+  current: FileMetadata | null,
+  attached: FileMetadata[] = []
+): RegisteredVersion {
+  const uploaded = newFileStorage(metadata)
+  const uploadHash = hashColumnarTable(uploaded)
+
+  if (mode === 'new' || !current) {
+    const duplicate = attached.find(file => file.contentHash === uploadHash)
+    if (duplicate) {
+      return {
+        id: duplicate.id,
+        datasetId: duplicate.datasetId ?? duplicate.id,
+        version: duplicate.version ?? 1,
+        replaces: null,
+        duplicate: true,
+        drift: null,
+      }
+    }
+    const file = storeFile(metadata, uploaded, uploadHash)
+    return { id: file.id, datasetId: file.id, version: 1, replaces: null, duplicate: false, drift: null }
+  }
+
+  const datasetId = current.datasetId ?? current.id
+  const versions = getDatasetVersions(datasetId)
+  const drift = detectSchemaDrift(current.columns, uploaded.columns)
+  // Rows already appended leave the chat on its version; a known table switches the chat to it
+  const match = mode === 'append'
+    ? versions.some(version => version.uploadHash === uploadHash)
+      ? versions.find(version => version.id === current.id) ?? firstVersion(current)
+      : undefined
+    : versions.find(version => version.contentHash === uploadHash)
+  if (match) {
+    return {
+      id: match.id,
+      datasetId,
+      version: match.version,
+      replaces: match.id === current.id ? null : current.id,
+      duplicate: true,
+      drift,
+    }
+  }
+
+  let storage = uploaded
+  if (mode === 'append') {
+    const columns = [
+      ...current.columns.map(col => {
+        const next = uploaded.columns.find(candidate => candidate.name === col.name)
+        return next ? { ...col, type: widenType(col.type, next.type) } : col
+      }),
+      ...uploaded.columns.filter(col => !current.columns.some(old => old.name === col.name)),
+    ]
+    storage = concatColumnarTables(columns, [current.storage ?? buildColumnarTable(current.columns, current.data), uploaded])
+  }
+
+  const version = Math.max(0, ...versions.map(entry => entry.version)) + 1
+  const contentHash = mode === 'append' ? hashColumnarTable(storage) : uploadHash
+  const file = storeFile(metadata, storage, contentHash, { tableName: current.tableName, datasetId, version })
+  const entry: DatasetVersion = { ...firstVersion(file), mode, uploadHash }
+  if (mode === 'replace') {
+    // The earlier versions leave the list, but their files stay for chats still using them;
+    // retention (lib/data/retention.ts) deletes the ones no chat references
+    saveDatasetVersions(datasetId, [entry])
+  } else {
+    saveDatasetVersions(datasetId, [...versions, entry])
+  }
+  return { id: file.id, datasetId, version, replaces: current.id, duplicate: false, drift }
+}
+
+// -----------------------------------------------------------------------------
+// Stored files, for retention (lib/data/retention.ts decides what is deleted)
+
+export interface StoredFileInfo {
+  id: string
+  datasetId: string
+  // null when the file can't be read
+  uploadedAt: Date | null
+}
+
+/**
+ * Every file in the uploads directory
+ */
+export function listStoredFiles(): StoredFileInfo[] {
   if (typeof window !== 'undefined') {
-    return
+    return []
   }
-  
-  try {
-    const uploadsDir = getUploadsDir()
-    if (!existsSync(uploadsDir)) {
-      return
+
+  const ids = new Set<string>()
+  for (const name of readdirSync(getUploadsDir())) {
+    if (name.endsWith('.cols') || (name.startsWith('file_') && name.endsWith('.json'))) {
+      ids.add(name.slice(0, name.lastIndexOf('.')))
     }
-    
-    const now = Date.now()
-    const maxAge = 24 * 60 * 60 * 1000 // 24 hours
-    
-    const files = readdirSync(uploadsDir)
-    
-    for (const file of files) {
-      if (!file.endsWith('.json')) {
-        continue
-      }
-      
-      const filePath = join(uploadsDir, file)
-      const stats = statSync(filePath)
-      const age = now - stats.mtimeMs
-      
-      if (age > maxAge) {
-        try {
-          // Read file to get uploadedAt timestamp
-          const fileContent = readFileSync(filePath, 'utf-8')
-          const fileMetadata = JSON.parse(fileContent) as FileMetadata
-          const uploadedAt = typeof fileMetadata.uploadedAt === 'string' 
-            ? new Date(fileMetadata.uploadedAt).getTime()
-            : (fileMetadata.uploadedAt as Date).getTime()
-          
-          const fileAge = now - uploadedAt
-          if (fileAge > maxAge) {
-            unlinkSync(filePath)
-          }
-        } catch (error) {
-          // If we can't read the file, delete it anyway (corrupted)
-          unlinkSync(filePath)
-        }
-      }
+  }
+  return Array.from(ids, id => {
+    const file = readFileFromDisk(id)
+    return file
+      ? { id, datasetId: file.datasetId ?? id, uploadedAt: new Date(file.uploadedAt) }
+      : { id, datasetId: id, uploadedAt: null }
+  })
+}
+
+/**
+ * Datasets with a version list (see registerVersion)
+ */
+export function listVersionedDatasets(): string[] {
+  if (typeof window !== 'undefined') {
+    return []
+  }
+  const onDisk = readdirSync(getUploadsDir())
+    .filter(name => name.endsWith('.versions'))
+    .map(name => name.slice(0, -'.versions'.length))
+  return Array.from(new Set([...onDisk, ...datasetStore.keys()]))
+}
+
+/**
+ * Delete the version list of a dataset; its files are deleted separately (deleteFile)
+ */
+export function deleteDatasetVersions(datasetId: string): void {
+  datasetStore.delete(datasetId)
+  try {
+    const path = getDatasetPath(datasetId)
+    if (existsSync(path)) {
+      unlinkSync(path)
     }
-    
   } catch (error: unknown) {
-    // Ignore cleanup errors
+    // Ignore deletion errors - the list might not exist on disk
   }
 }
 
@@ -263,8 +641,3 @@ export function cleanupOldFiles(): void {
 if (typeof window === 'undefined') {
   getUploadsDir() // This will create the directory if it doesn't exist
 }
-
-// Run cleanup every hour (server-side only)
-if (typeof window === 'undefined' && typeof setInterval !== 'undefined') {
-  setInterval(cleanupOldFiles, 60 * 60 * 1000)
-}
@@ -0,0 +1,80 @@
+/**
+ * Arrow IPC files (.arrow, .feather v2) and streams
+ *
+ * Record batches are decoded one at a time while the upload streams in. Column types come from
+ * the schema (./declared); dictionary-encoded columns take the type of their values.
+ */
+
+import { DataType, RecordBatchReader, util, type Field } from 'apache-arrow'
+import type { Readable } from 'stream'
+import { declaredColumn, type DeclaredTable } from './declared'
+import type { ColumnInference } from './inference'
+import { UploadError } from './upload'
+
+// Rows per yielded batch
+const BATCH_SIZE = 1000
+
+function arrowColumn(type: DataType): ColumnInference {
+  if (DataType.isDictionary(type)) return arrowColumn(type.dictionary)
+  const format = String(type)
+  if (DataType.isInt(type)) return declaredColumn('integer', format)
+  if (DataType.isFloat(type)) return declaredColumn('decimal', format)
+  if (DataType.isDecimal(type)) return declaredColumn(type.scale > 0 ? 'decimal' : 'integer', format)
+  if (DataType.isBool(type)) return declaredColumn('boolean', format)
+  if (DataType.isDate(type)) return declaredColumn('date', format)
+  if (DataType.isTimestamp(type)) return declaredColumn('timestamp', format)
+  // Strings, binary, times of day, intervals, lists, structs and maps
+  return declaredColumn('text', format)
+}
+
+// Decimals come back as 128-bit integers of unscaled digits
+function readValue(field: Field): (value: unknown) => unknown {
+  const type = DataType.isDictionary(field.type) ? field.type.dictionary : field.type
+  if (DataType.isDecimal(type)) {
+    const scale = type.scale
+    return value => (value == null ? null : util.bigNumToNumber(value as any, scale))
+  }
+  return value => value
+}
+
+function readError(error: any): Error {
+  return error instanceof UploadError ? error : new UploadError(`Could not read the Arrow file: ${error.message}`, 400)
+}
+
+export async function readArrow(stream: Readable): Promise<DeclaredTable> {
+  let reader: RecordBatchReader
+  try {
+    reader = await RecordBatchReader.from(stream)
+    await reader.open()
+  } catch (error) {
+    stream.destroy()
+    throw readError(error)
+  }
+
+  const fields = reader.schema.fields
+  const readers = fields.map(readValue)
+  return {
+    names: fields.map(field => field.name),
+    types: fields.map(field => arrowColumn(field.type)),
+    rows: (async function* () {
+      try {
+        for await (const batch of reader) {
+          const columns = fields.map((_, i) => Array.from(batch.getChildAt(i) ?? [], readers[i]))
+          for (let start = 0; start < batch.numRows; start += BATCH_SIZE) {
+            const end = Math.min(start + BATCH_SIZE, batch.numRows)
+            const rows: unknown[][] = []
+            for (let row = start; row < end; row++) {
+              rows.push(columns.map(column => column[row]))
+            }
+            yield rows
+          }
+        }
+      } catch (error) {
+        throw readError(error)
+      } finally {
+        await reader.cancel()
+        stream.destroy()
+      }
+    })(),
+  }
+}
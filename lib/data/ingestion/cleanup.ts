@@ -0,0 +1,219 @@
+/**
+ * Header detection and cleanup for messy exports
+ *
+ * Reports exported from spreadsheets and legacy tools rarely start with the header: there are
+ * title rows above it, the header repeats at every page break, and totals and footnotes follow
+ * the data. TableCleaner takes a table's raw rows one at a time and releases the data rows:
+ * - The header is the first of the leading rows that spans the whole table and holds only names,
+ *   so titles above it are skipped, even one merged across the table. A row of numbers is never
+ *   the header; failing a row of names as wide as the table, the first row of two or more names
+ *   (its last columns unnamed) or else the first full-width row that is not all numbers is taken
+ * - Copies of the header inside the data are dropped
+ * - Total rows ("Total", "Grand total", "Subtotal") and lone notes ("Source: ...") are held back
+ *   and only dropped if nothing but more of them follows, so a subtotal between data rows stays
+ * Empty and repeated header names are named by sanitizeColumnNames (./columns). Every choice is
+ * reported, and both the header row and dropping the trailing rows can be overridden. This module
+ * has no server dependencies: the upload preview runs the same cleanup on the file it shows.
+ */
+
+import type { WorkSheet } from 'xlsx'
+import { sanitizeColumnNames } from './columns'
+
+// Leading rows looked at to find the header
+export const HEADER_SCAN_ROWS = 20
+
+// The first cell of a total row
+const TOTAL_PATTERN = /^(grand\s+|sub-?)?totals?\b|^sum\b|^summe\b|^gesamt/i
+
+const NUMBER_PATTERN = /^[-+(]?[\d\s.,%$€£]+\)?$/
+
+export interface CleanupOptions {
+  // Row to read the column names from (1-based, as numbered in the cleanup report)
+  headerRow?: number
+  // Keep total and footnote rows at the end of the table
+  keepTrailingRows?: boolean
+}
+
+export interface TableCleanup {
+  // Row the column names were read from, counting the rows of the file (or sheet) from 1
+  headerRow: number
+  // Rows above the header, such as report titles
+  skippedRows: number
+  // Copies of the header found among the data
+  repeatedHeaders: number
+  // Total and footnote rows dropped from the end, as text
+  droppedRows: string[]
+  // Empty or repeated headers and the names they were given
+  renamedHeaders: Array<{ header: string; name: string }>
+}
+
+export interface NumberedRow {
+  row: unknown[]
+  // 1-based position among the rows of the file (or sheet)
+  line: number
+}
+
+function cellText(value: unknown): string {
+  return value == null ? '' : String(value).trim()
+}
+
+function filledCells(row: unknown[]): string[] {
+  return row.map(cellText).filter(text => text !== '')
+}
+
+// Columns up to the last filled cell
+function rowWidth(row: unknown[]): number {
+  for (let i = row.length - 1; i >= 0; i--) {
+    if (cellText(row[i]) !== '') return i + 1
+  }
+  return 0
+}
+
+// Only names: no numbers, and not a title merged across several cells
+function isNameRow(row: unknown[]): boolean {
+  const cells = filledCells(row)
+  return cells.length > 0 && !cells.some(cell => NUMBER_PATTERN.test(cell)) && (cells.length === 1 || new Set(cells).size > 1)
+}
+
+function isNumberRow(row: unknown[]): boolean {
+  return filledCells(row).every(cell => NUMBER_PATTERN.test(cell))
+}
+
+function tableWidth(rows: unknown[][]): number {
+  return Math.max(0, ...rows.map(rowWidth))
+}
+
+/**
+ * Index of the header among a table's leading non-blank rows, or -1 when they are all numbers
+ */
+export function findHeaderRow(rows: unknown[][]): number {
+  const width = tableWidth(rows)
+  const fullWidth = rows.findIndex(row => rowWidth(row) === width && isNameRow(row))
+  if (fullWidth !== -1) return fullWidth
+  const named = rows.findIndex(row => isNameRow(row) && filledCells(row).length > 1)
+  if (named !== -1) return named
+  return rows.findIndex(row => rowWidth(row) === width && !isNumberRow(row))
+}
+
+/**
+ * A total row, or a lone note under a table of at least three columns
+ */
+export function isTrailingRow(row: unknown[], width: number): boolean {
+  const cells = filledCells(row)
+  if (cells.length === 0) return false
+  if (TOTAL_PATTERN.test(cells[0])) return true
+  return width >= 3 && cells.length === 1 && !NUMBER_PATTERN.test(cells[0])
+}
+
+function describeRow(row: unknown[]): string {
+  const text = filledCells(row).join(' | ')
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text
+}
+
+export class TableCleaner {
+  // Column names as written in the header row; null until it is found
+  headers: string[] | null = null
+  private leading: NumberedRow[] = []
+  private held: NumberedRow[] = []
+  private line = 0
+  private headerRow = 0
+  private skippedRows = 0
+  private repeatedHeaders = 0
+  private droppedRows: string[] = []
+
+  constructor(private options: CleanupOptions = {}) {}
+
+  /**
+   * Take the next row of the file; returns the data rows that are now settled, in order
+   */
+  push(row: unknown[]): NumberedRow[] {
+    this.line++
+    if (filledCells(row).length === 0) return []
+    if (this.headers) return this.data({ row, line: this.line })
+
+    this.leading.push({ row, line: this.line })
+    const wanted = this.options.headerRow
+    if (wanted ? this.line < wanted : this.leading.length < HEADER_SCAN_ROWS) return []
+    return this.chooseHeader()
+  }
+
+  /**
+   * No more rows: returns the data rows still waiting; trailing totals and notes are dropped
+   */
+  end(): NumberedRow[] {
+    const ready = this.headers ? [] : this.chooseHeader()
+    this.droppedRows = this.held.map(({ row }) => describeRow(row))
+    this.held = []
+    return ready
+  }
+
+  report(): TableCleanup {
+    const headers = this.headers ?? []
+    const names = sanitizeColumnNames(headers)
+    return {
+      headerRow: this.headerRow,
+      skippedRows: this.skippedRows,
+      repeatedHeaders: this.repeatedHeaders,
+      droppedRows: this.droppedRows,
+      renamedHeaders: headers
+        .map((header, i) => ({ header, name: names[i] }))
+        .filter(({ header, name }) => header === '' || name !== sanitizeColumnNames([header])[0]),
+    }
+  }
+
+  private chooseHeader(): NumberedRow[] {
+    const rows = this.leading
+    this.leading = []
+    const wanted = this.options.headerRow
+    const index = wanted ? rows.findIndex(({ line }) => line >= wanted) : findHeaderRow(rows.map(({ row }) => row))
+    if (index === -1) return []
+
+    // Blank header cells over data are still columns (sanitizeColumnNames names them)
+    const header = rows[index].row
+    const width = Math.max(rowWidth(header), Math.min(header.length, tableWidth(rows.slice(index + 1).map(({ row }) => row))))
+    this.headers = Array.from({ length: width }, (_, i) => cellText(header[i]))
+    this.headerRow = rows[index].line
+    this.skippedRows = index
+    return rows.slice(index + 1).flatMap(row => this.data(row))
+  }
+
+  private data(numbered: NumberedRow): NumberedRow[] {
+    const headers = this.headers!
+    if (headers.every((header, i) => cellText(numbered.row[i]) === header)) {
+      this.repeatedHeaders++
+      return []
+    }
+    if (!this.options.keepTrailingRows && isTrailingRow(numbered.row, headers.length)) {
+      this.held.push(numbered)
+      return []
+    }
+    const ready = [...this.held, numbered]
+    this.held = []
+    return ready
+  }
+}
+
+function columnLetters(column: number): string {
+  let letters = ''
+  for (let n = column + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters
+  }
+  return letters
+}
+
+/**
+ * Give every cell of a merged range the value of its top-left cell, so a header merged across
+ * three columns names all three (made unique by sanitizeColumnNames)
+ */
+export function fillMergedCells(worksheet: WorkSheet): void {
+  for (const { s: start, e: end } of worksheet['!merges'] ?? []) {
+    const source = worksheet[`${columnLetters(start.c)}${start.r + 1}`]
+    if (!source) continue
+    for (let r = start.r; r <= end.r; r++) {
+      for (let c = start.c; c <= end.c; c++) {
+        if (r === start.r && c === start.c) continue
+        worksheet[`${columnLetters(c)}${r + 1}`] = { ...source }
+      }
+    }
+  }
+}
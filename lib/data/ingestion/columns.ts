@@ -0,0 +1,67 @@
+/**
+ * Column and table names for ingested files
+ *
+ * Header text becomes a lowercase identifier that works unquoted in the in-memory engine, SQLite
+ * and PostgreSQL alike ("Order Date" → order_date). Empty headers get positional names and
+ * repeated ones a numeric suffix, so every column stays addressable.
+ */
+
+// PostgreSQL truncates longer identifiers
+const MAX_IDENTIFIER_LENGTH = 63
+
+function toIdentifier(text: string): string {
+  return text
+    .trim()
+    .replace(/[^a-z0-9_]+/gi, '_')
+    .replace(/^_+|_+$/g, '')
+    .toLowerCase()
+}
+
+/**
+ * One unique identifier per header cell, in order
+ */
+export function sanitizeColumnNames(headers: string[]): string[] {
+  const used = new Set<string>()
+  return headers.map((header, index) => {
+    let base = toIdentifier(header) || `column_${index + 1}`
+    if (!/^[a-z]/.test(base)) base = `col_${base}`
+    base = base.slice(0, MAX_IDENTIFIER_LENGTH)
+
+    let name = base
+    for (let n = 2; used.has(name); n++) {
+      const suffix = `_${n}`
+      name = base.slice(0, MAX_IDENTIFIER_LENGTH - suffix.length) + suffix
+    }
+    used.add(name)
+    return name
+  })
+}
+
+/**
+ * Table name for an uploaded file: its name without the extension, as an identifier
+ */
+export function tableNameFromFileName(fileName: string): string {
+  let name = toIdentifier(fileName.replace(/\.[^.]+$/, ''))
+  if (!/^[a-z]/.test(name)) name = `table_${name}`
+  return name.replace(/_+$/, '').slice(0, MAX_IDENTIFIER_LENGTH)
+}
+
+/**
+ * Table names for several sheets of one workbook: `<file>_<sheet>`, unique even when sheet names
+ * only differ in punctuation or case
+ */
+export function tableNamesForSheets(fileName: string, sheets: string[]): string[] {
+  const base = tableNameFromFileName(fileName)
+  const used = new Set<string>()
+  return sheets.map((sheet, index) => {
+    const suffix = toIdentifier(sheet) || `sheet_${index + 1}`
+    const full = `${base}_${suffix}`.slice(0, MAX_IDENTIFIER_LENGTH).replace(/_+$/, '')
+    let name = full
+    for (let n = 2; used.has(name); n++) {
+      const count = `_${n}`
+      name = full.slice(0, MAX_IDENTIFIER_LENGTH - count.length) + count
+    }
+    used.add(name)
+    return name
+  })
+}
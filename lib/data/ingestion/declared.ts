@@ -0,0 +1,72 @@
+/**
+ * Column types declared by the file itself (Parquet, Arrow)
+ *
+ * These formats carry a schema, so nothing is inferred: each column's type comes from the schema
+ * with full confidence, and its values are converted to the engine's canonical form (numbers,
+ * booleans, ISO date strings, nested values as JSON text).
+ */
+
+import { formatDate, formatTimestamp, tryParseTimestamp } from '../engine/dates'
+import type { ColumnInference, InferredColumnType } from './inference'
+
+function toNumber(value: unknown): unknown {
+  if (typeof value === 'bigint') return Number(value)
+  return value
+}
+
+function toEpochMs(value: unknown): number | null {
+  if (value instanceof Date) return value.getTime()
+  if (typeof value === 'bigint') return Number(value)
+  if (typeof value === 'number') return value
+  if (typeof value === 'string') return tryParseTimestamp(value) ?? null
+  return null
+}
+
+/**
+ * Text for a non-scalar value: nested records and lists as JSON (64-bit integers included), bytes
+ * as base64
+ */
+export function toText(value: unknown): unknown {
+  if (value === null || value === undefined || typeof value === 'string') return value ?? null
+  if (value instanceof Uint8Array) return Buffer.from(value).toString('base64')
+  if (typeof value === 'object') {
+    return JSON.stringify(value, (_key, child) => (typeof child === 'bigint' ? Number(child) : child))
+  }
+  return String(value)
+}
+
+/**
+ * A table whose file declares its columns: `rows` holds data rows only, no header row. A null
+ * type is a column declared without one, inferred from its values instead.
+ */
+export interface DeclaredTable {
+  names: string[]
+  types: Array<ColumnInference | null>
+  rows: AsyncGenerator<unknown[][]>
+}
+
+const CONVERTERS: Record<InferredColumnType, (value: unknown) => unknown> = {
+  integer: toNumber,
+  decimal: toNumber,
+  boolean: value => value,
+  date: value => {
+    const ms = toEpochMs(value)
+    return ms === null ? value : formatDate(ms)
+  },
+  timestamp: value => {
+    const ms = toEpochMs(value)
+    return ms === null ? value : formatTimestamp(ms)
+  },
+  text: toText,
+}
+
+/**
+ * A column whose type the file declares; `format` names the type in the file's own terms
+ */
+export function declaredColumn(type: InferredColumnType, format: string): ColumnInference {
+  const convert = CONVERTERS[type]
+  return {
+    profile: { type, format, confidence: 1, counterexamples: [] },
+    convert: value => (value === null || value === undefined ? null : convert(value)),
+  }
+}
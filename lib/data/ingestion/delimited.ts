@@ -0,0 +1,106 @@
+/**
+ * Delimited text files: CSV, TSV and the semicolon- or pipe-separated exports of European tools
+ *
+ * The delimiter is sniffed from the first lines: the candidate that splits the most of them into
+ * the same number of columns wins, so a report title above the header doesn't decide it. Quoted
+ * fields are skipped while counting, so "Smith, John" doesn't vote for the comma. Blank lines are
+ * passed on as rows, so rows keep their line numbers.
+ */
+
+import { parse } from 'csv-parse'
+import type { Readable } from 'stream'
+import { peekStream, UploadError } from './upload'
+
+// In order of preference when several fit equally well
+const DELIMITERS = [',', '\t', ';', '|']
+
+// Lines looked at when sniffing
+const SAMPLE_LINES = 20
+
+// Rows per yielded batch
+const BATCH_SIZE = 1000
+
+function countOutsideQuotes(line: string, delimiter: string): number {
+  let count = 0
+  let quoted = false
+  for (const char of line) {
+    if (char === '"') quoted = !quoted
+    else if (char === delimiter && !quoted) count++
+  }
+  return count
+}
+
+/**
+ * Best delimiter for a sample of the file's first bytes; `fallback` when nothing splits any line
+ */
+export function sniffDelimiter(sample: string, fallback = ','): string {
+  const lines = sample.split(/\r?\n/)
+  // The sample may end mid-line
+  if (lines.length > 1) lines.pop()
+  const sampleLines = lines.filter(line => line.trim() !== '').slice(0, SAMPLE_LINES)
+  if (sampleLines.length === 0) return fallback
+
+  let best = fallback
+  let bestScore = [0, 0]
+  for (const delimiter of DELIMITERS) {
+    const counts = sampleLines.map(line => countOutsideQuotes(line, delimiter))
+    // The most common number of delimiters in a line that has any
+    const tally = new Map<number, number>()
+    for (const count of counts) {
+      if (count > 0) tally.set(count, (tally.get(count) ?? 0) + 1)
+    }
+    if (tally.size === 0) continue
+    const [fields, lines] = [...tally].reduce((most, next) =>
+      next[1] > most[1] || (next[1] === most[1] && next[0] > most[0]) ? next : most
+    )
+    // Share of lines with that many fields, then the number of fields
+    const score = [lines / counts.length, fields]
+    if (score[0] > bestScore[0] || (score[0] === bestScore[0] && score[1] > bestScore[1])) {
+      best = delimiter
+      bestScore = score
+    }
+  }
+  return best
+}
+
+function delimiterName(delimiter: string): string {
+  return delimiter === '\t' ? 'tab' : `"${delimiter}"`
+}
+
+/**
+ * Rows of a delimited file, parsed while it streams in. `fallback` is the delimiter to assume
+ * when sniffing can't tell (a single-column file).
+ */
+export async function* readDelimitedRows(stream: Readable, fallback = ','): AsyncGenerator<unknown[][]> {
+  const head = await peekStream(stream)
+  const delimiter = sniffDelimiter(head.toString('utf8'), fallback)
+
+  const parser = parse({
+    delimiter,
+    trim: true,
+    // Ragged rows are checked against the header by the caller
+    relax_column_count: true,
+  })
+  stream.on('error', error => parser.destroy(error))
+  stream.pipe(parser)
+
+  let batch: unknown[][] = []
+  try {
+    for await (const record of parser) {
+      batch.push(record)
+      if (batch.length >= BATCH_SIZE) {
+        yield batch
+        batch = []
+      }
+    }
+  } catch (error: any) {
+    // csv-parse errors carry a CSV_* code and the line they stopped at
+    if (typeof error?.code === 'string' && error.code.startsWith('CSV_')) {
+      throw new UploadError(`Could not read the file (${delimiterName(delimiter)}-separated): ${error.message}`, 400)
+    }
+    throw error
+  } finally {
+    parser.destroy()
+  }
+  if (batch.length > 0) yield batch
+}
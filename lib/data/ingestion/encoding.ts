@@ -0,0 +1,107 @@
+/**
+ * Character encodings of text uploads
+ *
+ * Text files are decoded to UTF-8 before they are parsed. A byte order mark decides the encoding
+ * when there is one; otherwise UTF-16 is recognized by its zero bytes, and text that isn't valid
+ * UTF-8 is read as Windows-1252, the superset of Latin-1 that legacy exports use (Latin-1 when it
+ * has none of the characters the two differ in). Only the first chunk is looked at, so the
+ * uploader can override the guess. The BOM is dropped, so it never sticks to the first header.
+ */
+
+import { Transform } from 'stream'
+import { UploadError } from './upload'
+
+export const TEXT_ENCODINGS = ['utf-8', 'utf-16le', 'utf-16be', 'windows-1252', 'iso-8859-1'] as const
+
+export type TextEncoding = (typeof TEXT_ENCODINGS)[number]
+
+const BOMS: Array<[TextEncoding, number[]]> = [
+  ['utf-8', [0xef, 0xbb, 0xbf]],
+  ['utf-16le', [0xff, 0xfe]],
+  ['utf-16be', [0xfe, 0xff]],
+]
+
+// Share of UTF-16 code units with a zero byte on one side for text that is mostly ASCII
+const UTF16_ZERO_SHARE = 0.3
+
+function utf16ByteOrder(head: Uint8Array): TextEncoding | null {
+  const units = Math.floor(head.length / 2)
+  if (units === 0) return null
+  let evenZeros = 0
+  let oddZeros = 0
+  for (let i = 0; i < units * 2; i += 2) {
+    if (head[i] === 0) evenZeros++
+    if (head[i + 1] === 0) oddZeros++
+  }
+  if (oddZeros / units > UTF16_ZERO_SHARE && evenZeros / units < UTF16_ZERO_SHARE / 10) return 'utf-16le'
+  if (evenZeros / units > UTF16_ZERO_SHARE && oddZeros / units < UTF16_ZERO_SHARE / 10) return 'utf-16be'
+  return null
+}
+
+function isUtf8(head: Uint8Array): boolean {
+  try {
+    // Streaming, so a character cut off at the end of the sample isn't an error
+    new TextDecoder('utf-8', { fatal: true }).decode(head, { stream: true })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Best guess at the encoding of a text file from its first bytes
+ */
+export function detectEncoding(head: Uint8Array): TextEncoding {
+  for (const [encoding, bom] of BOMS) {
+    if (bom.every((byte, i) => head[i] === byte)) return encoding
+  }
+  const utf16 = utf16ByteOrder(head)
+  if (utf16) return utf16
+  if (isUtf8(head)) return 'utf-8'
+  // 0x80-0x9F are control characters in Latin-1 but letters and punctuation (€, ‘, ”) in 1252
+  return head.some(byte => byte >= 0x80 && byte <= 0x9f) ? 'windows-1252' : 'iso-8859-1'
+}
+
+/**
+ * Text of a sample of the file, for sniffing its contents
+ */
+export function decodeSample(head: Uint8Array, encoding: TextEncoding): string {
+  if (encoding === 'iso-8859-1') return Buffer.from(head).toString('latin1')
+  return new TextDecoder(encoding).decode(head, { stream: true })
+}
+
+/**
+ * Re-encode a text stream as UTF-8, without its BOM
+ */
+export function decodeText(encoding: TextEncoding): Transform {
+  // TextDecoder reads iso-8859-1 as Windows-1252, as browsers do; this is the real thing
+  const decode = encoding === 'iso-8859-1'
+    ? (chunk?: Buffer) => (chunk ? chunk.toString('latin1') : '')
+    : (() => {
+        const decoder = new TextDecoder(encoding)
+        return (chunk?: Buffer) => (chunk ? decoder.decode(chunk, { stream: true }) : decoder.decode())
+      })()
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      const text = decode(chunk)
+      callback(null, text ? Buffer.from(text) : undefined)
+    },
+    flush(callback) {
+      const text = decode()
+      callback(null, text ? Buffer.from(text) : undefined)
+    },
+  })
+}
+
+/**
+ * The `encoding` form field: one of TEXT_ENCODINGS, or empty (or "auto") to detect it
+ */
+export function parseEncoding(value: string | undefined): TextEncoding | undefined {
+  const name = value?.trim().toLowerCase()
+  if (!name || name === 'auto') return undefined
+  const encoding = TEXT_ENCODINGS.find(candidate => candidate === name)
+  if (!encoding) {
+    throw new UploadError(`encoding must be one of ${TEXT_ENCODINGS.join(', ')}`, 400)
+  }
+  return encoding
+}
@@ -0,0 +1,209 @@
+/**
+ * File format detection and row readers
+ *
+ * A file holds one or more tables of raw rows: a workbook one per sheet, every other format one.
+ * Each table's rows come in batches of arrays of cell values, title and header rows included; the
+ * header and the types are worked out by the caller (./ingest, ./cleanup). Delimited text is
+ * parsed while it streams in (./delimited), JSON and NDJSON records are flattened to columns
+ * (./json). Excel workbooks are zip (or OLE) archives that can only be read whole, so their bytes
+ * are collected first, and merged cells are filled in with their value. Parquet
+ * (./parquet) and Arrow (./arrow) files declare their columns and types, so their tables come
+ * with a schema and no header row; so do the tables of a SQLite database (./sqlite), along with
+ * their foreign keys.
+ */
+
+import type { Readable } from 'stream'
+import * as XLSX from 'xlsx'
+import { readArrow } from './arrow'
+import { fillMergedCells } from './cleanup'
+import type { DeclaredTable } from './declared'
+import { readDelimitedRows } from './delimited'
+import { decodeSample, type TextEncoding } from './encoding'
+import { readJsonRows, readNdjsonRows } from './json'
+import { readParquet } from './parquet'
+import { readSqliteTables, type SourceForeignKey } from './sqlite'
+import { UploadError } from './upload'
+
+// csv covers any delimited text; the delimiter is sniffed from the content
+export type FileFormat = 'csv' | 'tsv' | 'excel' | 'json' | 'ndjson' | 'parquet' | 'arrow' | 'sqlite'
+
+export const SUPPORTED_EXTENSIONS = [
+  '.csv', '.tsv', '.tab', '.txt', '.json', '.ndjson', '.jsonl', '.xlsx', '.xls',
+  '.parquet', '.arrow', '.feather', '.arrows', '.sqlite', '.sqlite3', '.db',
+]
+
+// Rows per yielded batch
+const BATCH_SIZE = 1000
+
+// .xlsx is a zip archive, .xls an OLE compound document
+const ZIP_SIGNATURE = Buffer.from([0x50, 0x4b, 0x03, 0x04])
+const OLE_SIGNATURE = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])
+const PARQUET_SIGNATURE = Buffer.from('PAR1')
+// An Arrow file starts with its magic; a stream (no magic) with a continuation marker
+const ARROW_SIGNATURE = Buffer.from('ARROW1')
+const ARROW_STREAM_SIGNATURE = Buffer.from([0xff, 0xff, 0xff, 0xff])
+const SQLITE_SIGNATURE = Buffer.from('SQLite format 3\0')
+
+function startsWith(head: Buffer, signature: Buffer): boolean {
+  return head.subarray(0, signature.length).equals(signature)
+}
+
+export function extensionOf(fileName: string): string {
+  const dot = fileName.lastIndexOf('.')
+  return dot === -1 ? '' : fileName.slice(dot).toLowerCase()
+}
+
+// A .json file whose first line is a whole object, followed by more lines, is NDJSON
+function looksLikeNdjson(head: string): boolean {
+  const lines = head.replace(/^\uFEFF/, '').split(/\r?\n/).filter(line => line.trim() !== '')
+  if (lines.length < 2 || !lines[0].trim().startsWith('{')) return false
+  try {
+    JSON.parse(lines[0])
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Decide how to read a file from its first bytes, falling back to the extension. A workbook
+ * saved with a .csv name is still read as a workbook. `encoding` is the text encoding the file
+ * would have if it is text.
+ */
+export function detectFormat(fileName: string, head: Buffer, encoding: TextEncoding = 'utf-8'): FileFormat {
+  if (startsWith(head, ZIP_SIGNATURE) || startsWith(head, OLE_SIGNATURE)) {
+    return 'excel'
+  }
+  if (startsWith(head, PARQUET_SIGNATURE)) {
+    return 'parquet'
+  }
+  if (startsWith(head, ARROW_SIGNATURE)) {
+    return 'arrow'
+  }
+  if (startsWith(head, SQLITE_SIGNATURE)) {
+    return 'sqlite'
+  }
+  switch (extensionOf(fileName)) {
+    case '.csv':
+    case '.txt':
+      return 'csv'
+    case '.tsv':
+    case '.tab':
+      return 'tsv'
+    case '.json':
+      return looksLikeNdjson(decodeSample(head, encoding)) ? 'ndjson' : 'json'
+    case '.ndjson':
+    case '.jsonl':
+      return 'ndjson'
+    case '.xlsx':
+    case '.xls':
+      // Old Excel versions also save HTML and XML spreadsheets as .xls; the workbook reader
+      // understands those
+      return 'excel'
+    case '.parquet':
+      return 'parquet'
+    case '.arrow':
+    case '.feather':
+    case '.arrows':
+      if (startsWith(head, ARROW_STREAM_SIGNATURE)) return 'arrow'
+      throw new UploadError(`${fileName} is not an Arrow file.`, 400)
+    case '.sqlite':
+    case '.sqlite3':
+    case '.db':
+      throw new UploadError(`${fileName} is not a SQLite database.`, 400)
+    default:
+      throw new UploadError('Invalid file type. Please upload CSV, TSV, JSON, NDJSON, Excel, Parquet, Arrow or SQLite files.', 400)
+  }
+}
+
+/**
+ * Formats read as text, decoded to UTF-8 first (./encoding)
+ */
+export function isTextFormat(format: FileFormat): boolean {
+  return format === 'csv' || format === 'tsv' || format === 'json' || format === 'ndjson'
+}
+
+/**
+ * One table of a file: `sheet` is the worksheet (or database table) name, null for formats with
+ * a single table. `schema` is set for formats that declare their columns; `rows` then has no
+ * header row.
+ */
+export interface RowSource {
+  sheet: string | null
+  schema?: Omit<DeclaredTable, 'rows'>
+  foreignKeys?: SourceForeignKey[]
+  rows: AsyncGenerator<unknown[][]>
+}
+
+function declaredSource({ rows, ...schema }: DeclaredTable): RowSource {
+  return { sheet: null, schema, rows }
+}
+
+/**
+ * The tables of a file, in order. `sheets` limits a workbook (or database) to the named sheets
+ * (or tables).
+ */
+export async function* readTables(format: FileFormat, stream: Readable, sheets?: string[]): AsyncGenerator<RowSource> {
+  switch (format) {
+    case 'csv':
+      yield { sheet: null, rows: readDelimitedRows(stream) }
+      break
+    case 'tsv':
+      yield { sheet: null, rows: readDelimitedRows(stream, '\t') }
+      break
+    case 'json':
+      yield { sheet: null, rows: readJsonRows(stream) }
+      break
+    case 'ndjson':
+      yield { sheet: null, rows: readNdjsonRows(stream) }
+      break
+    case 'excel':
+      yield* readExcelSheets(stream, sheets)
+      break
+    case 'parquet':
+      yield declaredSource(await readParquet(stream))
+      break
+    case 'arrow':
+      yield declaredSource(await readArrow(stream))
+      break
+    case 'sqlite':
+      for await (const { name, foreignKeys, ...table } of readSqliteTables(stream, sheets)) {
+        yield { ...declaredSource(table), sheet: name, foreignKeys }
+      }
+  }
+}
+
+async function* readExcelSheets(stream: Readable, sheets?: string[]): AsyncGenerator<RowSource> {
+  const chunks: Buffer[] = []
+  for await (const chunk of stream) {
+    chunks.push(chunk)
+  }
+
+  let workbook: XLSX.WorkBook
+  try {
+    workbook = XLSX.read(Buffer.concat(chunks), { type: 'buffer' })
+  } catch (error: any) {
+    throw new UploadError(`Could not read the Excel file: ${error.message}`, 400)
+  }
+  chunks.length = 0
+
+  const missing = sheets?.filter(name => !workbook.SheetNames.includes(name)) ?? []
+  if (missing.length > 0) {
+    throw new UploadError(`The workbook has no sheet named ${missing.map(name => `"${name}"`).join(', ')}.`, 400)
+  }
+  for (const name of workbook.SheetNames) {
+    if (sheets && !sheets.includes(name)) continue
+    yield { sheet: name, rows: sheetRows(workbook.Sheets[name]) }
+  }
+}
+
+// Blank rows are kept so rows are numbered as in the sheet; merged cells repeat their value
+async function* sheetRows(worksheet: XLSX.WorkSheet | undefined): AsyncGenerator<unknown[][]> {
+  if (worksheet) fillMergedCells(worksheet)
+  const rows = worksheet
+    ? (XLSX.utils.sheet_to_json(worksheet, { header: 1, raw: false, blankrows: true, defval: null }) as unknown[][])
+    : []
+  for (let start = 0; start < rows.length; start += BATCH_SIZE) {
+    yield rows.slice(start, start + BATCH_SIZE)
+  }
+}
@@ -0,0 +1,416 @@
+/**
+ * Column type inference for ingested files
+ *
+ * Every value of a column is tried against each candidate type as rows stream in; at the end the
+ * most specific type that fits every non-empty value wins. Candidates, from most to least specific:
+ * - boolean: true/false, yes/no, y/n, t/f, once a column has MIN_BOOLEAN_VALUES values and both
+ *   true and false among them (a lone "y" is more likely an initial than a flag)
+ * - integer / decimal: with a decimal point or a decimal comma, thousands separators, currency
+ *   symbols or codes, percentages (stored as fractions, "12%" is 0.12) and accounting negatives
+ *   "(1,234.00)". A single number with a leading zero ("02134") makes the column an identifier
+ *   column, since converting would lose it.
+ * - date / timestamp: ISO, US, European and month-name dates, each with an optional time
+ * - text
+ * Values are then converted to the engine's canonical form (numbers, booleans, ISO dates). A value
+ * that fits no typed candidate keeps its column as text, so nothing is lost to NULL; the values
+ * that kept a column from its closest typed candidate are listed as counterexamples.
+ */
+
+import { formatDate, formatTimestamp } from '../engine/dates'
+
+export type InferredColumnType = 'integer' | 'decimal' | 'boolean' | 'date' | 'timestamp' | 'text'
+
+export interface ColumnProfile {
+  type: InferredColumnType
+  // How values are written, e.g. "#,##0.00", "$#,##0", "DD.MM.YYYY", "yes/no"
+  format?: string
+  // Share of the non-empty values that fit the type; for text, the share that fits the closest
+  // typed candidate
+  confidence: number
+  // A few values that don't fit the type; for text, the ones that kept it from the closest typed
+  // candidate
+  counterexamples: string[]
+}
+
+// Share of non-empty values a type must fit: all of them, since the others would be stored as NULL
+const MIN_CONFIDENCE = 1
+
+// Fewest non-empty values of a boolean column
+const MIN_BOOLEAN_VALUES = 3
+
+const MAX_COUNTEREXAMPLES = 5
+
+// Empty markers common in exports; they count as NULL, not as counterexamples
+const NULL_TOKENS = new Set(['', 'null', 'na', 'n/a', '#n/a', 'nan', 'none', '-', '--', '—'])
+
+function cellText(value: unknown): string | null {
+  if (value == null) return null
+  const text = String(value).trim()
+  return NULL_TOKENS.has(text.toLowerCase()) ? null : text
+}
+
+// -----------------------------------------------------------------------------
+// Booleans
+// -----------------------------------------------------------------------------
+
+const BOOLEAN_TOKENS: Record<string, [boolean, string]> = {
+  true: [true, 'true/false'],
+  false: [false, 'true/false'],
+  t: [true, 't/f'],
+  f: [false, 't/f'],
+  yes: [true, 'yes/no'],
+  no: [false, 'yes/no'],
+  y: [true, 'y/n'],
+  n: [false, 'y/n'],
+}
+
+// -----------------------------------------------------------------------------
+// Numbers
+// -----------------------------------------------------------------------------
+
+type DecimalSeparator = '.' | ','
+
+interface ParsedNumber {
+  value: number
+  leadingZero: boolean
+  grouped: boolean
+  currency?: string
+  percent: boolean
+}
+
+const CURRENCY_SYMBOL = '[$€£¥₹]|R\\$|CHF|USD|EUR|GBP|JPY|INR|CAD|AUD'
+const CURRENCY_PREFIX = new RegExp(`^(${CURRENCY_SYMBOL})\\s?`)
+const CURRENCY_SUFFIX = new RegExp(`\\s?(${CURRENCY_SYMBOL})$`)
+
+// Digits with optional grouping, for each decimal separator; group separators include spaces
+// (regular and non-breaking) and the Swiss apostrophe
+const NUMBER_BODY: Record<DecimalSeparator, { grouped: RegExp; plain: RegExp; group: RegExp }> = {
+  '.': {
+    grouped: /^\d{1,3}([,'  ]\d{3})+(\.\d+)?$/,
+    plain: /^(\d+(\.\d*)?|\.\d+)(e[+-]?\d+)?$/i,
+    group: /[,'  ]/g,
+  },
+  ',': {
+    grouped: /^\d{1,3}([.'  ]\d{3})+(,\d+)?$/,
+    plain: /^\d+(,\d+)?$/,
+    group: /[.'  ]/g,
+  },
+}
+
+function parseNumber(text: string, decimal: DecimalSeparator): ParsedNumber | null {
+  let body = text
+  let negative = false
+  const accounting = /^\((.*)\)$/.exec(body)
+  if (accounting) {
+    negative = true
+    body = accounting[1].trim()
+  }
+  if (/^[+-]/.test(body)) {
+    negative = negative !== (body[0] === '-')
+    body = body.slice(1).trim()
+  }
+
+  let currency: string | undefined
+  const prefix = CURRENCY_PREFIX.exec(body)
+  if (prefix) {
+    currency = prefix[1]
+    body = body.slice(prefix[0].length)
+  } else {
+    const suffix = CURRENCY_SUFFIX.exec(body)
+    if (suffix) {
+      currency = suffix[1]
+      body = body.slice(0, -suffix[0].length)
+    }
+  }
+  // Sign after the currency symbol: $-5
+  if (currency && /^[+-]/.test(body)) {
+    negative = negative !== (body[0] === '-')
+    body = body.slice(1)
+  }
+
+  const percent = body.endsWith('%')
+  if (percent) body = body.slice(0, -1).trimEnd()
+  if (percent && currency) return null
+
+  const patterns = NUMBER_BODY[decimal]
+  const grouped = patterns.grouped.test(body)
+  if (!grouped && !patterns.plain.test(body)) return null
+
+  let normalized = body.replace(patterns.group, '')
+  if (decimal === ',') normalized = normalized.replace(',', '.')
+  let value = Number(normalized)
+  if (!Number.isFinite(value)) return null
+  // Whole numbers past 2^53 would lose their last digits; they stay text
+  if (!/[.e]/i.test(normalized) && !Number.isSafeInteger(value)) return null
+  // Percentages as fractions, rounded so 12.3% is 0.123 rather than 0.12300000000000001
+  if (percent) value = Number((value / 100).toPrecision(15))
+  // A leading zero marks an identifier (ZIP codes, account numbers)
+  return { value: negative ? -value : value, leadingZero: /^0\d/.test(body), grouped, currency, percent }
+}
+
+// -----------------------------------------------------------------------------
+// Dates
+// -----------------------------------------------------------------------------
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+
+interface DateFormat {
+  label: string
+  pattern: RegExp
+  // Capture group of the year, month and day
+  order: [number, number, number]
+}
+
+// Tried in this order; on a tie (all values fit several, e.g. 01/02/2024) the first one wins
+const DATE_FORMATS: DateFormat[] = [
+  { label: 'YYYY-MM-DD', pattern: /^(\d{4})-(\d{1,2})-(\d{1,2})/, order: [1, 2, 3] },
+  { label: 'YYYY/MM/DD', pattern: /^(\d{4})\/(\d{1,2})\/(\d{1,2})/, order: [1, 2, 3] },
+  { label: 'MM/DD/YYYY', pattern: /^(\d{1,2})\/(\d{1,2})\/(\d{4})/, order: [3, 1, 2] },
+  { label: 'DD/MM/YYYY', pattern: /^(\d{1,2})\/(\d{1,2})\/(\d{4})/, order: [3, 2, 1] },
+  { label: 'DD.MM.YYYY', pattern: /^(\d{1,2})\.(\d{1,2})\.(\d{4})/, order: [3, 2, 1] },
+  { label: 'DD-MM-YYYY', pattern: /^(\d{1,2})-(\d{1,2})-(\d{4})/, order: [3, 2, 1] },
+  { label: 'MM-DD-YYYY', pattern: /^(\d{1,2})-(\d{1,2})-(\d{4})/, order: [3, 1, 2] },
+  { label: 'MM/DD/YY', pattern: /^(\d{1,2})\/(\d{1,2})\/(\d{2})(?!\d)/, order: [3, 1, 2] },
+  { label: 'DD/MM/YY', pattern: /^(\d{1,2})\/(\d{1,2})\/(\d{2})(?!\d)/, order: [3, 2, 1] },
+  { label: 'DD.MM.YY', pattern: /^(\d{1,2})\.(\d{1,2})\.(\d{2})(?!\d)/, order: [3, 2, 1] },
+  { label: 'DD Mon YYYY', pattern: /^(\d{1,2})[ -]([a-z]{3,9})\.?[ -](\d{4})/i, order: [3, 2, 1] },
+  { label: 'Mon DD, YYYY', pattern: /^([a-z]{3,9})\.? (\d{1,2}),? (\d{4})/i, order: [3, 1, 2] },
+]
+
+// What may follow the date: a time with optional seconds, fraction, AM/PM and zone
+const TIME_PART = /^(?:(?:T|\s+)(\d{1,2}):(\d{2})(?::(\d{2})(?:\.(\d{1,6}))?)?\s*([ap]m)?\s*(Z|[+-]\d{2}:?\d{2})?)?$/i
+
+function parseMonth(text: string): number {
+  if (/^\d+$/.test(text)) return Number(text)
+  const index = MONTHS.indexOf(text.slice(0, 3).toLowerCase())
+  return index === -1 ? NaN : index + 1
+}
+
+/**
+ * Epoch milliseconds (UTC) and whether a time was given, or null when the text isn't a valid
+ * date in this format
+ */
+function parseDate(text: string, format: DateFormat): { ms: number; hasTime: boolean } | null {
+  const match = format.pattern.exec(text)
+  if (!match) return null
+  const time = TIME_PART.exec(text.slice(match[0].length))
+  if (!time) return null
+
+  let year = Number(match[format.order[0]])
+  const month = parseMonth(match[format.order[1]])
+  const day = Number(match[format.order[2]])
+  if (match[format.order[0]].length === 2) year += year < 70 ? 2000 : 1900
+  if (!(month >= 1 && month <= 12) || day < 1 || day > new Date(Date.UTC(year, month, 0)).getUTCDate()) {
+    return null
+  }
+
+  let hour = time[1] ? Number(time[1]) : 0
+  const minute = time[2] ? Number(time[2]) : 0
+  const second = time[3] ? Number(time[3]) : 0
+  const meridiem = time[5]?.toLowerCase()
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return null
+    hour = (hour % 12) + (meridiem === 'pm' ? 12 : 0)
+  }
+  if (hour > 23 || minute > 59 || second > 59) return null
+
+  let ms = Date.UTC(year, month - 1, day, hour, minute, second, time[4] ? Math.round(Number(`0.${time[4]}`) * 1000) : 0)
+  const zone = time[6]
+  if (zone && zone.toUpperCase() !== 'Z') {
+    const digits = zone.slice(1).replace(':', '')
+    const offset = Number(digits.slice(0, 2)) * 60 + Number(digits.slice(2))
+    ms -= (zone[0] === '-' ? -1 : 1) * offset * 60_000
+  }
+  return { ms, hasTime: time[1] !== undefined }
+}
+
+// -----------------------------------------------------------------------------
+// Inference
+// -----------------------------------------------------------------------------
+
+/**
+ * Matches and a few misses of one candidate over one column
+ */
+class CandidateStats {
+  matches = 0
+  counterexamples: string[] = []
+
+  record(matched: boolean, text: string): void {
+    if (matched) {
+      this.matches++
+    } else if (this.counterexamples.length < MAX_COUNTEREXAMPLES && !this.counterexamples.includes(text)) {
+      this.counterexamples.push(text)
+    }
+  }
+}
+
+class NumberStats extends CandidateStats {
+  leadingZero: string | null = null
+  integral = true
+  grouped = false
+  percent = false
+  fractionDigits = 0
+  currencies = new Map<string, number>()
+}
+
+class DateStats extends CandidateStats {
+  hasTime = false
+}
+
+class ColumnStats {
+  nonNull = 0
+  boolean = new CandidateStats()
+  booleanFormats = new Map<string, number>()
+  booleanValues = new Set<boolean>()
+  numbers: Record<DecimalSeparator, NumberStats> = { '.': new NumberStats(), ',': new NumberStats() }
+  dates = DATE_FORMATS.map(() => new DateStats())
+
+  observe(text: string): void {
+    this.nonNull++
+
+    const token = BOOLEAN_TOKENS[text.toLowerCase()]
+    this.boolean.record(!!token, text)
+    if (token) {
+      this.booleanFormats.set(token[1], (this.booleanFormats.get(token[1]) || 0) + 1)
+      this.booleanValues.add(token[0])
+    }
+
+    for (const decimal of ['.', ','] as DecimalSeparator[]) {
+      const stats = this.numbers[decimal]
+      const parsed = parseNumber(text, decimal)
+      stats.record(!!parsed, text)
+      if (!parsed) continue
+      if (parsed.leadingZero && stats.leadingZero === null) stats.leadingZero = text
+      if (!Number.isInteger(parsed.value)) stats.integral = false
+      stats.grouped ||= parsed.grouped
+      stats.percent ||= parsed.percent
+      const fraction = text.split(decimal)[1]?.match(/^\d+/)?.[0].length ?? 0
+      stats.fractionDigits = Math.max(stats.fractionDigits, fraction)
+      if (parsed.currency) stats.currencies.set(parsed.currency, (stats.currencies.get(parsed.currency) || 0) + 1)
+    }
+
+    // Every date format starts with a digit or a month name
+    if (!/^[0-9a-z]/i.test(text)) {
+      this.dates.forEach(stats => stats.record(false, text))
+      return
+    }
+    DATE_FORMATS.forEach((format, i) => {
+      const parsed = parseDate(text, format)
+      this.dates[i].record(!!parsed, text)
+      if (parsed?.hasTime) this.dates[i].hasTime = true
+    })
+  }
+}
+
+function mostCommon(counts: Map<string, number>): string | undefined {
+  let best: string | undefined
+  let bestCount = 0
+  counts.forEach((count, key) => {
+    if (count > bestCount) {
+      best = key
+      bestCount = count
+    }
+  })
+  return best
+}
+
+function numberFormat(stats: NumberStats, decimal: DecimalSeparator): string {
+  const group = decimal === '.' ? ',' : '.'
+  let format = stats.grouped ? `#${group}##0` : '0'
+  if (stats.fractionDigits > 0) format += decimal + '0'.repeat(Math.min(stats.fractionDigits, 4))
+  const currency = mostCommon(stats.currencies)
+  if (currency) format = currency + format
+  if (stats.percent) format += '%'
+  return format
+}
+
+/**
+ * The chosen profile and a converter from raw cell values to engine values
+ */
+export interface ColumnInference {
+  profile: ColumnProfile
+  convert: (value: unknown) => unknown
+}
+
+function inferColumn(stats: ColumnStats): ColumnInference {
+  const confidence = (candidate: CandidateStats) => (stats.nonNull === 0 ? 0 : candidate.matches / stats.nonNull)
+  const result = (
+    type: InferredColumnType,
+    candidate: CandidateStats,
+    format: string | undefined,
+    parse: (text: string) => unknown
+  ): ColumnInference => ({
+    profile: { type, format, confidence: round(confidence(candidate)), counterexamples: candidate.counterexamples },
+    convert: value => {
+      const text = cellText(value)
+      return text === null ? null : parse(text)
+    },
+  })
+
+  if (stats.nonNull >= MIN_BOOLEAN_VALUES && stats.booleanValues.size === 2 && confidence(stats.boolean) >= MIN_CONFIDENCE) {
+    return result('boolean', stats.boolean, mostCommon(stats.booleanFormats), text => BOOLEAN_TOKENS[text.toLowerCase()]?.[0] ?? null)
+  }
+
+  // A decimal point unless the decimal comma fits more values ("1,5" vs "1.234" ties go to the point)
+  const decimal: DecimalSeparator = stats.numbers[','].matches > stats.numbers['.'].matches ? ',' : '.'
+  const numbers = stats.numbers[decimal]
+  if (stats.nonNull > 0 && confidence(numbers) >= MIN_CONFIDENCE && numbers.leadingZero === null) {
+    return result(numbers.integral ? 'integer' : 'decimal', numbers, numberFormat(numbers, decimal), text => parseNumber(text, decimal)?.value ?? null)
+  }
+
+  let bestDate = 0
+  stats.dates.forEach((candidate, i) => {
+    if (candidate.matches > stats.dates[bestDate].matches) bestDate = i
+  })
+  const dates = stats.dates[bestDate]
+  if (stats.nonNull > 0 && confidence(dates) >= MIN_CONFIDENCE) {
+    const format = DATE_FORMATS[bestDate]
+    return dates.hasTime
+      ? result('timestamp', dates, `${format.label} HH:mm:ss`, text => {
+          const parsed = parseDate(text, format)
+          return parsed ? formatTimestamp(parsed.ms) : null
+        })
+      : result('date', dates, format.label, text => {
+          const parsed = parseDate(text, format)
+          return parsed ? formatDate(parsed.ms) : null
+        })
+  }
+
+  // Text: report what kept it from being the closest typed candidate
+  const nearest = [stats.boolean, numbers, dates].reduce((a, b) => (b.matches > a.matches ? b : a))
+  let counterexamples = nearest.counterexamples
+  if (nearest === numbers && numbers.leadingZero !== null) {
+    counterexamples = [numbers.leadingZero, ...counterexamples].slice(0, MAX_COUNTEREXAMPLES)
+  }
+  return {
+    profile: { type: 'text', confidence: round(confidence(nearest)), counterexamples },
+    // Values are kept as written; only the empty markers become NULL
+    convert: value => (cellText(value) === null ? null : value),
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000
+}
+
+/**
+ * Collects per-column statistics row by row, then picks each column's type
+ */
+export class ColumnTypeTracker {
+  private stats: ColumnStats[]
+
+  constructor(columnCount: number) {
+    this.stats = Array.from({ length: columnCount }, () => new ColumnStats())
+  }
+
+  observe(values: unknown[]): void {
+    this.stats.forEach((stats, i) => {
+      const text = cellText(values[i])
+      if (text !== null) stats.observe(text)
+    })
+  }
+
+  infer(): ColumnInference[] {
+    return this.stats.map(inferColumn)
+  }
+}
@@ -0,0 +1,271 @@
+/**
+ * File ingestion: one path from an uploaded file to typed tables
+ *
+ * Every upload route (/api/attachments, /api/chat, /api/upload) goes through ingestUpload, so a
+ * file gets the same table names, columns and types whichever way it comes in:
+ * 1. Format detection from the first bytes and the extension (./formats)
+ * 2. Text is decoded to UTF-8 from its detected (or chosen) encoding, BOM dropped (./encoding)
+ * 3. Streaming row reading, within the size and row limits (./upload)
+ * 4. Header handling: the header row is found below any title rows, and repeated headers and
+ *    trailing totals and notes are left out (./cleanup); its names are sanitized to identifiers
+ *    (./columns), and the header text as it appeared in the file is kept next to each identifier
+ * 5. Type inference over every value, with the format and confidence per column (./inference);
+ *    Parquet and Arrow files declare their column names and types, which are used as they are
+ * 6. Rows go straight into columnar storage (lib/data/columnar)
+ * A workbook gives one table per non-empty sheet, named `<file>_<sheet>` unless it has just one;
+ * a SQLite database likewise gives one per table, with its foreign keys in those table names.
+ * Problems are reported as UploadError with the HTTP status to answer with.
+ */
+
+import type { Readable } from 'stream'
+import { ColumnarTableBuilder, type ColumnarTable } from '../columnar'
+import type { FileColumn, ForeignKey } from '../fileRegistry'
+import { TableCleaner, type CleanupOptions, type NumberedRow, type TableCleanup } from './cleanup'
+import { sanitizeColumnNames, tableNameFromFileName, tableNamesForSheets } from './columns'
+import { decodeText, detectEncoding, parseEncoding, type TextEncoding } from './encoding'
+import { detectFormat, isTextFormat, readTables, type FileFormat, type RowSource } from './formats'
+import { ColumnTypeTracker, type ColumnInference } from './inference'
+import { getUploadLimits, limitBytes, peekStream, readMultipartUpload, tooManyRows, UploadError, type UploadLimits } from './upload'
+
+export interface IngestedFile {
+  fileName: string
+  format: FileFormat
+  // Encoding the file was decoded from; null for binary formats
+  encoding: TextEncoding | null
+  // Worksheet (or database table) the table came from; null for single-table formats
+  sheet: string | null
+  tableName: string
+  columns: FileColumn[]
+  // References to the other tables of this upload (SQLite databases)
+  foreignKeys: ForeignKey[]
+  // How the header was found and which rows were left out; null for records and declared columns
+  cleanup: TableCleanup | null
+  rowCount: number
+  storage: ColumnarTable
+}
+
+type IngestedTable = Pick<IngestedFile, 'columns' | 'rowCount' | 'storage' | 'cleanup'>
+
+// Records name their own fields: the first row is always the header and every record is data
+const RECORD_CLEANUP: CleanupOptions = { headerRow: 1, keepTrailingRows: true }
+
+function cellText(value: unknown): string {
+  return value == null ? '' : String(value).trim()
+}
+
+/**
+ * Read the rows of one table. Row numbers in errors count from the top of the file (or sheet).
+ * `cleanup` is null for tables that declare their columns.
+ */
+async function ingestRows(
+  { sheet, schema, rows }: RowSource,
+  limits: UploadLimits,
+  cleanup: CleanupOptions
+): Promise<IngestedTable> {
+  const cleaner = schema ? null : new TableCleaner(cleanup)
+  let headers: string[] | null = schema && schema.names.length > 0 ? schema.names : null
+  let builder: ColumnarTableBuilder | null = headers && new ColumnarTableBuilder(sanitizeColumnNames(headers))
+  // Declared columns are only inferred when declared without a type
+  let tracker: ColumnTypeTracker | null = headers && schema!.types.includes(null) ? new ColumnTypeTracker(headers.length) : null
+  let rowCount = 0
+
+  const append = (row: unknown[]) => {
+    if (++rowCount > limits.maxRows) {
+      throw tooManyRows(limits)
+    }
+    tracker?.observe(row)
+    builder!.appendRow(row)
+  }
+  const appendData = (released: NumberedRow[]) => {
+    if (released.length === 0) return
+    if (!headers) {
+      headers = cleaner!.headers!
+      builder = new ColumnarTableBuilder(sanitizeColumnNames(headers))
+      tracker = new ColumnTypeTracker(headers.length)
+    }
+    for (const { row, line } of released) {
+      if (row.slice(headers.length).some(value => cellText(value) !== '')) {
+        const where = sheet === null ? `Row ${line}` : `Sheet "${sheet}", row ${line}`
+        throw new UploadError(
+          `${where} has more values than the header has columns (${headers.length}).`,
+          400
+        )
+      }
+      append(row)
+    }
+  }
+
+  for await (const batch of rows) {
+    for (const row of batch) {
+      if (cleaner) {
+        appendData(cleaner.push(row))
+      } else if (builder) {
+        // Declared columns: every row is data, an all-null row included
+        append(row)
+      }
+    }
+  }
+  if (cleaner) {
+    appendData(cleaner.end())
+    headers ??= cleaner.headers
+  }
+
+  if (!headers || headers.length === 0) {
+    throw new UploadError('File is empty or has no column headers', 400)
+  }
+  if (rowCount === 0 || !builder) {
+    throw new UploadError('File is empty or has no data rows', 400)
+  }
+
+  const names = sanitizeColumnNames(headers)
+  const found = tracker?.infer()
+  const inferred: ColumnInference[] = schema ? schema.types.map((type, i) => type ?? found![i]) : found!
+  const columns: FileColumn[] = names.map((name, i) => ({ name, header: headers![i], ...inferred[i].profile }))
+  return {
+    columns,
+    rowCount,
+    storage: builder.finish(columns, inferred.map(column => column.convert)),
+    cleanup: cleaner && cleanup !== RECORD_CLEANUP ? cleaner.report() : null,
+  }
+}
+
+export interface IngestOptions {
+  // Sheets of a workbook (or tables of a database) to read; every non-empty one by default
+  sheets?: string[]
+  // Encoding of a text file; detected when not given
+  encoding?: TextEncoding
+  // Header row and trailing rows of delimited files and sheets; detected when not given
+  cleanup?: CleanupOptions
+}
+
+/**
+ * Read one file from a byte stream: one table, or one per non-empty sheet of a workbook.
+ */
+export async function ingestStream(
+  stream: Readable,
+  fileName: string,
+  limits: UploadLimits = getUploadLimits(),
+  { sheets, encoding, cleanup = {} }: IngestOptions = {}
+): Promise<IngestedFile[]> {
+  const head = await peekStream(stream)
+  const textEncoding = encoding ?? detectEncoding(head)
+  const format = detectFormat(fileName, head, textEncoding)
+  const limited = stream.pipe(limitBytes(limits))
+  stream.on('error', error => limited.destroy(error))
+  let input: Readable = limited
+  if (isTextFormat(format)) {
+    input = limited.pipe(decodeText(textEncoding))
+    limited.on('error', error => input.destroy(error))
+  }
+
+  const tables: Array<IngestedTable & Pick<RowSource, 'sheet' | 'foreignKeys'>> = []
+  const tableCleanup = format === 'json' || format === 'ndjson' ? RECORD_CLEANUP : cleanup
+  let emptyError: UploadError | null = null
+  for await (const source of readTables(format, input, sheets)) {
+    try {
+      tables.push({ sheet: source.sheet, foreignKeys: source.foreignKeys, ...(await ingestRows(source, limits, tableCleanup)) })
+    } catch (error) {
+      // Empty sheets are skipped; the file is only rejected when nothing in it has data
+      if (source.sheet === null || !(error instanceof UploadError && error.message.startsWith('File is empty'))) {
+        throw error
+      }
+      emptyError ??= error
+    }
+  }
+  if (tables.length === 0) {
+    throw emptyError ?? new UploadError('File is empty or has no column headers', 400)
+  }
+
+  // A file that is just one table keeps the file's name; picked sheets always say which sheet
+  const tableNames = tables.length === 1 && (!sheets || tables[0].sheet === null)
+    ? [tableNameFromFileName(fileName)]
+    : tableNamesForSheets(fileName, tables.map(table => table.sheet ?? ''))
+  return tables.map(({ foreignKeys, ...table }, i) => ({
+    fileName,
+    format,
+    encoding: isTextFormat(format) ? textEncoding : null,
+    tableName: tableNames[i],
+    ...table,
+    foreignKeys: resolveForeignKeys(i, tables, tableNames),
+  }))
+}
+
+/**
+ * The foreign keys of one table in the names the tables and columns got here. Keys to a table
+ * that was left out (empty, or not picked) are dropped.
+ */
+function resolveForeignKeys(
+  index: number,
+  tables: Array<Pick<IngestedTable, 'columns'> & Pick<RowSource, 'sheet' | 'foreignKeys'>>,
+  tableNames: string[]
+): ForeignKey[] {
+  const columnNames = (table: number, headers: string[]): Array<string | undefined> =>
+    headers.map(header => tables[table].columns.find(column => column.header === header)?.name)
+
+  const resolved: ForeignKey[] = []
+  for (const key of tables[index].foreignKeys ?? []) {
+    const target = tables.findIndex(table => table.sheet === key.table)
+    if (target === -1) continue
+    const columns = columnNames(index, key.columns)
+    const references = columnNames(target, key.references)
+    if ([...columns, ...references].includes(undefined)) continue
+    resolved.push({ columns: columns as string[], table: tableNames[target], references: references as string[] })
+  }
+  return resolved
+}
+
+function parseCleanup(value: string | undefined): CleanupOptions | undefined {
+  if (!value) return undefined
+  let cleanup: any
+  try {
+    cleanup = JSON.parse(value)
+  } catch {
+    cleanup = null
+  }
+  const { headerRow, keepTrailingRows } = cleanup ?? {}
+  if (
+    typeof cleanup !== 'object' || Array.isArray(cleanup) || cleanup === null ||
+    (headerRow !== undefined && !(Number.isInteger(headerRow) && headerRow > 0)) ||
+    (keepTrailingRows !== undefined && typeof keepTrailingRows !== 'boolean')
+  ) {
+    throw new UploadError('cleanup must be a JSON object with an optional headerRow (a row number) and keepTrailingRows (true or false)', 400)
+  }
+  return { headerRow, keepTrailingRows }
+}
+
+function parseSheetList(value: string | undefined): string[] | undefined {
+  if (!value) return undefined
+  let sheets: unknown
+  try {
+    sheets = JSON.parse(value)
+  } catch {
+    sheets = null
+  }
+  if (!Array.isArray(sheets) || sheets.length === 0 || !sheets.every(name => typeof name === 'string')) {
+    throw new UploadError('sheets must be a non-empty JSON array of sheet names', 400)
+  }
+  return sheets
+}
+
+/**
+ * Ingest the `file` part of a multipart upload while it arrives. `fields` holds the other form
+ * fields; `files` has one entry per table and is empty when there is no file part. Fields sent
+ * before the file can pick the sheets of a workbook (`sheets`, a JSON array of sheet names), the
+ * encoding of a text file (`encoding`, see ./encoding) and the header row and trailing rows of
+ * every table (`cleanup`, a JSON object of CleanupOptions, see ./cleanup).
+ */
+export async function ingestUpload(
+  request: Request,
+  limits: UploadLimits = getUploadLimits()
+): Promise<{ fields: Record<string, string>; files: IngestedFile[] }> {
+  const { fields, file } = await readMultipartUpload(
+    request,
+    async (stream, fileName, fieldsBefore) => ingestStream(stream, fileName, limits, {
+      sheets: parseSheetList(fieldsBefore.sheets),
+      encoding: parseEncoding(fieldsBefore.encoding),
+      cleanup: parseCleanup(fieldsBefore.cleanup),
+    }),
+    limits
+  )
+  return { fields, files: file ?? [] }
+}
@@ -0,0 +1,111 @@
+/**
+ * JSON and NDJSON files
+ *
+ * A JSON file holds an array of objects (or a single object), an NDJSON file one object per line.
+ * Nested objects are flattened to dotted names ({"address": {"city": ...}} → "address.city"),
+ * arrays are kept as JSON text, and the columns are every key seen in any record, in the order
+ * they first appear. Since any record may add a column, records are collected before the header
+ * row is yielded.
+ */
+
+import type { Readable } from 'stream'
+import { StringDecoder } from 'string_decoder'
+import { UploadError } from './upload'
+
+// Rows per yielded batch
+const BATCH_SIZE = 1000
+
+/**
+ * One record as dotted keys and scalar values
+ */
+export function flattenRecord(value: unknown, prefix = '', out: Record<string, unknown> = {}): Record<string, unknown> {
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    for (const [key, child] of Object.entries(value)) {
+      flattenRecord(child, prefix ? `${prefix}.${key}` : key, out)
+    }
+    return out
+  }
+  const key = prefix || 'value'
+  out[key] = Array.isArray(value) ? JSON.stringify(value) : value
+  return out
+}
+
+/**
+ * Collects flattened records as positional rows over the union of their keys
+ */
+class RecordCollector {
+  private keys = new Map<string, number>()
+  private rows: unknown[][] = []
+
+  add(record: unknown): void {
+    const row: unknown[] = []
+    for (const [key, value] of Object.entries(flattenRecord(record))) {
+      let index = this.keys.get(key)
+      if (index === undefined) {
+        index = this.keys.size
+        this.keys.set(key, index)
+      }
+      row[index] = value
+    }
+    this.rows.push(row)
+  }
+
+  // Header row first, then the records padded to every column
+  *batches(): Generator<unknown[][]> {
+    const width = this.keys.size
+    if (width === 0) return
+    yield [Array.from(this.keys.keys())]
+    for (let start = 0; start < this.rows.length; start += BATCH_SIZE) {
+      yield this.rows.slice(start, start + BATCH_SIZE).map(row => Array.from({ length: width }, (_, i) => row[i] ?? null))
+    }
+  }
+}
+
+export async function* readJsonRows(stream: Readable): AsyncGenerator<unknown[][]> {
+  const chunks: Buffer[] = []
+  for await (const chunk of stream) {
+    chunks.push(chunk)
+  }
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(Buffer.concat(chunks).toString('utf8').replace(/^\uFEFF/, ''))
+  } catch (error: any) {
+    throw new UploadError(`Could not read the JSON file: ${error.message}`, 400)
+  }
+  chunks.length = 0
+
+  const collector = new RecordCollector()
+  for (const record of Array.isArray(parsed) ? parsed : [parsed]) {
+    collector.add(record)
+  }
+  yield* collector.batches()
+}
+
+export async function* readNdjsonRows(stream: Readable): AsyncGenerator<unknown[][]> {
+  const collector = new RecordCollector()
+  let lineNumber = 0
+  const addLine = (line: string) => {
+    lineNumber++
+    const text = lineNumber === 1 ? line.replace(/^\uFEFF/, '') : line
+    if (text.trim() === '') return
+    let record: unknown
+    try {
+      record = JSON.parse(text)
+    } catch (error: any) {
+      throw new UploadError(`Could not read line ${lineNumber} of the NDJSON file: ${error.message}`, 400)
+    }
+    collector.add(record)
+  }
+
+  // The decoder keeps characters split across chunks whole
+  const decoder = new StringDecoder('utf8')
+  let rest = ''
+  for await (const chunk of stream) {
+    const lines = (rest + decoder.write(chunk)).split('\n')
+    rest = lines.pop()!
+    lines.forEach(addLine)
+  }
+  addLine(rest + decoder.end())
+  yield* collector.batches()
+}
@@ -0,0 +1,118 @@
+/**
+ * Parquet files
+ *
+ * The footer holds the schema and sits at the end of the file, so the upload is spooled to a
+ * temporary file first; then one row group at a time is read from disk and decoded, which keeps
+ * memory to about one row group however large the file is. Column types come from the schema's
+ * logical types (./declared), not from the values.
+ */
+
+import { createWriteStream } from 'fs'
+import { mkdtemp, rm } from 'fs/promises'
+import { asyncBufferFromFile, parquetMetadataAsync, parquetRead, parquetSchema, type FileMetaData, type SchemaTree } from 'hyparquet'
+import { compressors } from 'hyparquet-compressors'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import type { Readable } from 'stream'
+import { pipeline } from 'stream/promises'
+import { declaredColumn, type DeclaredTable } from './declared'
+import type { ColumnInference } from './inference'
+import { UploadError } from './upload'
+
+// Rows per yielded batch
+const BATCH_SIZE = 1000
+
+/**
+ * Engine type for one top-level column of the schema
+ */
+function parquetColumn(node: SchemaTree): ColumnInference {
+  const { type, logical_type: logical, converted_type: converted } = node.element
+  // Structs, lists and maps are kept as JSON text
+  if (node.children.length > 0) {
+    return declaredColumn('text', logical?.type ?? converted ?? 'STRUCT')
+  }
+  if (logical?.type === 'DECIMAL' || converted === 'DECIMAL') {
+    const precision = logical?.type === 'DECIMAL' ? logical.precision : node.element.precision
+    const scale = (logical?.type === 'DECIMAL' ? logical.scale : node.element.scale) ?? 0
+    return declaredColumn(scale > 0 ? 'decimal' : 'integer', `DECIMAL(${precision},${scale})`)
+  }
+  if (logical?.type === 'DATE' || converted === 'DATE') {
+    return declaredColumn('date', 'DATE')
+  }
+  if (logical?.type === 'TIMESTAMP') {
+    return declaredColumn('timestamp', `TIMESTAMP(${logical.unit})`)
+  }
+  if (converted === 'TIMESTAMP_MILLIS' || converted === 'TIMESTAMP_MICROS' || (!converted && type === 'INT96')) {
+    return declaredColumn('timestamp', converted ?? 'INT96')
+  }
+  if (logical?.type === 'TIME' || converted === 'TIME_MILLIS' || converted === 'TIME_MICROS') {
+    return declaredColumn('text', 'TIME')
+  }
+  const format = logical?.type ?? converted ?? type ?? 'BYTE_ARRAY'
+  switch (type) {
+    case 'BOOLEAN':
+      return declaredColumn('boolean', format)
+    case 'INT32':
+    case 'INT64':
+      return declaredColumn('integer', format)
+    case 'FLOAT':
+    case 'DOUBLE':
+      return declaredColumn('decimal', format)
+    default:
+      return declaredColumn(logical?.type === 'FLOAT16' ? 'decimal' : 'text', format)
+  }
+}
+
+/**
+ * Copy a stream to a file of its own in the temp directory; returns the directory to remove
+ */
+async function spool(stream: Readable, fileName: string): Promise<{ dir: string; path: string }> {
+  const dir = await mkdtemp(join(tmpdir(), 'upload-'))
+  const path = join(dir, fileName)
+  try {
+    await pipeline(stream, createWriteStream(path))
+  } catch (error) {
+    await rm(dir, { recursive: true, force: true })
+    throw error
+  }
+  return { dir, path }
+}
+
+export async function readParquet(stream: Readable): Promise<DeclaredTable> {
+  const { dir, path } = await spool(stream, 'upload.parquet')
+  let metadata: FileMetaData
+  let file: Awaited<ReturnType<typeof asyncBufferFromFile>>
+  try {
+    file = await asyncBufferFromFile(path)
+    metadata = await parquetMetadataAsync(file)
+  } catch (error: any) {
+    await rm(dir, { recursive: true, force: true })
+    throw new UploadError(`Could not read the Parquet file: ${error.message}`, 400)
+  }
+
+  const columns = parquetSchema(metadata).children
+  return {
+    names: columns.map(column => column.element.name),
+    types: columns.map(parquetColumn),
+    rows: (async function* () {
+      try {
+        let rowStart = 0
+        for (const group of metadata.row_groups) {
+          const rowEnd = rowStart + Number(group.num_rows)
+          let rows: unknown[][] = []
+          try {
+            await parquetRead({ file, metadata, rowStart, rowEnd, compressors, onComplete: groupRows => { rows = groupRows } })
+          } catch (error: any) {
+            throw new UploadError(`Could not read the Parquet file: ${error.message}`, 400)
+          }
+          for (let start = 0; start < rows.length; start += BATCH_SIZE) {
+            yield rows.slice(start, start + BATCH_SIZE)
+          }
+          rowStart = rowEnd
+        }
+      } finally {
+        await rm(dir, { recursive: true, force: true })
+      }
+    })(),
+  }
+}
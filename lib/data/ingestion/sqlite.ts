@@ -0,0 +1,211 @@
+/**
+ * SQLite database files (.sqlite, .db)
+ *
+ * The database is opened with sql.js (SQLite compiled to WebAssembly, in process and offline),
+ * which needs the whole file in memory, so its bytes are collected first like a workbook's. Every
+ * user table becomes a table of the upload. Columns keep the type they were declared with, mapped
+ * the way SQLite's own type affinity reads it, as long as every value fits it: SQLite stores any
+ * value in any column, so a column declared without a type, or holding values its type can't
+ * take, is inferred from its values instead. Foreign keys are passed on so the prompt can describe
+ * the relationships.
+ */
+
+import initSqlJs, { type Database, type SqlValue } from 'sql.js'
+import type { Readable } from 'stream'
+import { tryParseTimestamp } from '../engine/dates'
+import { quoteIdentifier } from '../engine/sqliteDialect'
+import { declaredColumn, type DeclaredTable } from './declared'
+import type { ColumnInference, InferredColumnType } from './inference'
+import { UploadError } from './upload'
+
+// Rows per yielded batch
+const BATCH_SIZE = 1000
+
+/**
+ * A foreign key in the database's own table and column names
+ */
+export interface SourceForeignKey {
+  columns: string[]
+  table: string
+  references: string[]
+}
+
+export interface SqliteTable extends DeclaredTable {
+  name: string
+  foreignKeys: SourceForeignKey[]
+}
+
+let sqlPromise: ReturnType<typeof initSqlJs> | null = null
+
+/**
+ * Engine type for a declared column type, following SQLite's affinity rules (INT anywhere means
+ * an integer, CHAR/CLOB/TEXT text, REAL/FLOA/DOUB a float) with the date and boolean names
+ * SQLite itself ignores. Null for a column declared without a type.
+ */
+function declaredType(declared: string): InferredColumnType | null {
+  const type = declared.toUpperCase()
+  if (type.trim() === '') return null
+  if (type.includes('BOOL')) return 'boolean'
+  if (type.includes('DATETIME') || type.includes('TIMESTAMP')) return 'timestamp'
+  if (type.includes('DATE')) return 'date'
+  if (type.includes('INT')) return 'integer'
+  if (/CHAR|CLOB|TEXT|BLOB|TIME|UUID|JSON/.test(type)) return 'text'
+  // NUMERIC and DECIMAL with a scale of 0 hold whole numbers
+  const scale = /\(\s*\d+\s*,\s*(\d+)\s*\)/.exec(type)
+  return scale && Number(scale[1]) === 0 ? 'integer' : 'decimal'
+}
+
+/**
+ * Column with SQLite's storage quirks undone: booleans are stored as 0/1 and dates as text or
+ * Unix seconds
+ */
+function sqliteColumn(type: InferredColumnType, declared: string): ColumnInference {
+  const column = declaredColumn(type, declared.toUpperCase())
+  switch (type) {
+    case 'boolean':
+      return { ...column, convert: value => column.convert(typeof value === 'number' ? value !== 0 : value) }
+    case 'date':
+    case 'timestamp':
+      return { ...column, convert: value => column.convert(typeof value === 'number' ? value * 1000 : value) }
+    default:
+      return column
+  }
+}
+
+const isDate = (value: SqlValue) =>
+  typeof value === 'number' || (typeof value === 'string' && tryParseTimestamp(value) !== undefined)
+
+// Whether a stored value can be read as the declared type
+const FITS: Record<InferredColumnType, (value: SqlValue) => boolean> = {
+  integer: value => typeof value === 'number' && Number.isSafeInteger(value),
+  decimal: value => typeof value === 'number',
+  boolean: value => typeof value === 'number',
+  date: isDate,
+  timestamp: isDate,
+  text: () => true,
+}
+
+/**
+ * The table's rows with integers past 2^53 read as text, since a JavaScript number would lose
+ * their last digits
+ */
+function selectRows(db: Database, table: string, columns: string[]) {
+  const values = columns.map(name => {
+    const column = quoteIdentifier(name)
+    return `CASE WHEN typeof(${column}) = 'integer' AND ${column} NOT BETWEEN ${Number.MIN_SAFE_INTEGER} AND ${Number.MAX_SAFE_INTEGER} THEN CAST(${column} AS TEXT) ELSE ${column} END`
+  })
+  return db.prepare(`SELECT ${values.join(', ')} FROM ${quoteIdentifier(table)}`)
+}
+
+/**
+ * Column types for a table: the declared ones whose values all fit them, null for the columns to
+ * infer
+ */
+function tableColumns(db: Database, table: string, names: string[], declared: string[]): Array<ColumnInference | null> {
+  const types = declared.map(declaredType)
+  const statement = selectRows(db, table, names)
+  try {
+    while (types.some(type => type !== null) && statement.step()) {
+      statement.get().forEach((value, i) => {
+        const type = types[i]
+        if (type !== null && value !== null && !FITS[type](value)) types[i] = null
+      })
+    }
+  } finally {
+    statement.free()
+  }
+  return types.map((type, i) => (type === null ? null : sqliteColumn(type, declared[i])))
+}
+
+function queryRows(db: Database, sql: string): Record<string, SqlValue>[] {
+  const statement = db.prepare(sql)
+  const rows: Record<string, SqlValue>[] = []
+  try {
+    while (statement.step()) rows.push(statement.getAsObject())
+  } finally {
+    statement.free()
+  }
+  return rows
+}
+
+function foreignKeys(db: Database, table: string): SourceForeignKey[] {
+  const keys = new Map<number, SourceForeignKey>()
+  for (const row of queryRows(db, `PRAGMA foreign_key_list(${quoteIdentifier(table)})`)) {
+    const id = Number(row.id)
+    const key = keys.get(id) ?? { columns: [], table: String(row.table), references: [] }
+    key.columns.push(String(row.from))
+    if (row.to !== null) key.references.push(String(row.to))
+    keys.set(id, key)
+  }
+  // A key without target columns references the other table's primary key
+  for (const key of keys.values()) {
+    if (key.references.length > 0) continue
+    key.references = queryRows(db, `PRAGMA table_info(${quoteIdentifier(key.table)})`)
+      .filter(column => Number(column.pk) > 0)
+      .sort((a, b) => Number(a.pk) - Number(b.pk))
+      .map(column => String(column.name))
+  }
+  return [...keys.values()].filter(key => key.references.length === key.columns.length)
+}
+
+async function* tableRows(db: Database, table: string, columns: string[]): AsyncGenerator<unknown[][]> {
+  const statement = selectRows(db, table, columns)
+  try {
+    let batch: unknown[][] = []
+    while (statement.step()) {
+      batch.push(statement.get())
+      if (batch.length >= BATCH_SIZE) {
+        yield batch
+        batch = []
+      }
+    }
+    if (batch.length > 0) yield batch
+  } finally {
+    statement.free()
+  }
+}
+
+/**
+ * The user tables of a database, in the order they were created. `tables` limits them to the
+ * named ones.
+ */
+export async function* readSqliteTables(stream: Readable, tables?: string[]): AsyncGenerator<SqliteTable> {
+  const chunks: Buffer[] = []
+  for await (const chunk of stream) {
+    chunks.push(chunk)
+  }
+
+  sqlPromise ??= initSqlJs()
+  const SQL = await sqlPromise
+  let db: Database
+  let names: string[]
+  try {
+    db = new SQL.Database(Buffer.concat(chunks))
+    names = queryRows(db, "SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY rowid")
+      .map(row => String(row.name))
+  } catch (error: any) {
+    throw new UploadError(`Could not read the SQLite database: ${error.message}`, 400)
+  }
+  chunks.length = 0
+
+  try {
+    const missing = tables?.filter(name => !names.includes(name)) ?? []
+    if (missing.length > 0) {
+      throw new UploadError(`The database has no table named ${missing.map(name => `"${name}"`).join(', ')}.`, 400)
+    }
+    for (const name of names) {
+      if (tables && !tables.includes(name)) continue
+      const columns = queryRows(db, `PRAGMA table_info(${quoteIdentifier(name)})`)
+      const columnNames = columns.map(column => String(column.name))
+      yield {
+        name,
+        names: columnNames,
+        types: tableColumns(db, name, columnNames, columns.map(column => String(column.type ?? ''))),
+        rows: tableRows(db, name, columnNames),
+        foreignKeys: foreignKeys(db, name),
+      }
+    }
+  } finally {
+    db.close()
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * Upload transport and limits
+ *
+ * The multipart request body is parsed as it arrives (busboy) and the file part is handed over as
+ * a stream, so nothing downstream has to hold the whole upload in memory.
+ *
+ * Limits come from the environment:
+ * - UPLOAD_MAX_MB: largest accepted file (default 50)
+ * - UPLOAD_MAX_ROWS: most data rows per file (default 1,000,000)
+ */
+
+import Busboy from 'busboy'
+import { Readable, Transform } from 'stream'
+import type { ReadableStream as NodeReadableStream } from 'stream/web'
+
+export interface UploadLimits {
+  maxBytes: number
+  maxRows: number
+}
+
+/**
+ * An upload that can't be accepted; `status` is the HTTP status to answer with
+ */
+export class UploadError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+    this.name = 'UploadError'
+  }
+}
+
+function readLimit(name: string, fallback: number): number {
+  const value = Number(process.env[name])
+  return Number.isFinite(value) && value > 0 ? value : fallback
+}
+
+export function getUploadLimits(): UploadLimits {
+  return {
+    maxBytes: Math.floor(readLimit('UPLOAD_MAX_MB', 50) * 1024 * 1024),
+    maxRows: Math.floor(readLimit('UPLOAD_MAX_ROWS', 1_000_000)),
+  }
+}
+
+function formatSize(bytes: number): string {
+  return bytes >= 1024 * 1024
+    ? `${Math.round((bytes / (1024 * 1024)) * 10) / 10}MB`
+    : `${Math.round(bytes / 1024)}KB`
+}
+
+export function tooLarge(limits: UploadLimits): UploadError {
+  return new UploadError(`File too large. Maximum size is ${formatSize(limits.maxBytes)}.`, 413)
+}
+
+export function tooManyRows(limits: UploadLimits): UploadError {
+  return new UploadError(`File has too many rows. Maximum is ${limits.maxRows.toLocaleString('en-US')} rows.`, 413)
+}
+
+/**
+ * Pass bytes through, failing with a 413 once more than limits.maxBytes have gone by
+ */
+export function limitBytes(limits: UploadLimits): Transform {
+  let bytes = 0
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      bytes += chunk.length
+      callback(bytes > limits.maxBytes ? tooLarge(limits) : null, chunk)
+    },
+  })
+}
+
+/**
+ * The first chunk of a stream, put back so it is read again. Empty for an empty stream.
+ */
+export function peekStream(stream: Readable): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const finish = (chunk: Buffer | null) => {
+      stream.off('readable', onReadable)
+      stream.off('end', onEnd)
+      stream.off('error', reject)
+      if (chunk) stream.unshift(chunk)
+      resolve(chunk ?? Buffer.alloc(0))
+    }
+    const onReadable = () => {
+      const chunk = stream.read() as Buffer | null
+      if (chunk !== null) finish(chunk)
+    }
+    const onEnd = () => finish(null)
+    stream.on('readable', onReadable)
+    stream.on('end', onEnd)
+    stream.on('error', reject)
+  })
+}
+
+/**
+ * Read a multipart/form-data request: text fields are collected, and the part named `file` is
+ * passed to onFile while it is still arriving, with the fields sent before it. `file` is onFile's
+ * result, or null when the request carries no file. If onFile fails, the rest of the file is
+ * drained so the request can complete, and the error is thrown.
+ */
+export async function readMultipartUpload<T>(
+  request: Request,
+  onFile: (stream: Readable, fileName: string, fields: Record<string, string>) => Promise<T>,
+  limits: UploadLimits = getUploadLimits()
+): Promise<{ fields: Record<string, string>; file: T | null }> {
+  const contentType = request.headers.get('content-type') || ''
+  if (!contentType.toLowerCase().startsWith('multipart/form-data') || !request.body) {
+    throw new UploadError('Expected a multipart/form-data upload', 400)
+  }
+  // Reject obviously oversized uploads before reading anything (the body also carries the
+  // multipart framing and the other fields, hence the allowance)
+  const contentLength = Number(request.headers.get('content-length'))
+  if (Number.isFinite(contentLength) && contentLength > limits.maxBytes + 64 * 1024) {
+    throw tooLarge(limits)
+  }
+
+  const fields: Record<string, string> = {}
+  let handling: Promise<T> | null = null
+
+  await new Promise<void>((resolve, reject) => {
+    const busboy = Busboy({ headers: { 'content-type': contentType } })
+    busboy.on('field', (name, value) => {
+      fields[name] = value
+    })
+    busboy.on('file', (name, stream, info) => {
+      if (name !== 'file' || handling) {
+        stream.resume()
+        return
+      }
+      handling = onFile(stream, info.filename || 'upload', { ...fields })
+      handling.catch(() => {
+        stream.unpipe()
+        stream.resume()
+      })
+    })
+    busboy.on('close', resolve)
+    busboy.on('error', reject)
+    Readable.fromWeb(request.body as unknown as NodeReadableStream).pipe(busboy)
+  })
+
+  return { fields, file: handling ? await handling : null }
+}
@@ -1,13 +1,19 @@
 /**
- * Multi-file in-memory query engine
+ * Multi-file query engine
  * 
- * Executes SQL queries against multiple attached files. Currently supports single-file queries
- * (uses first file). The engine normalizes data types so numeric columns sort correctly.
+ * Executes SQL queries against multiple attached files. Every attached file is exposed as a table
+ * under its tableName, so a query can JOIN any of them. The engine normalizes values by column
+ * type so numeric columns sort and compare correctly.
+ *
+ * Queries run on a pluggable executor, selected per deployment with FILE_QUERY_EXECUTOR:
+ * - memory (default): the hand-written in-memory engine (lib/data/queryEngine.ts)
+ * - sqlite: an embedded SQLite database (lib/data/sqliteExecutor.ts)
+ * Both return the same MultiFileQueryResult shape.
  */
 
 import { getFilesByIds, type FileMetadata } from './fileRegistry'
-import { executeInMemoryQuery } from './queryEngine'
-import type { SessionData } from './inMemoryStore'
+import { executeQueryOnTables } from './queryEngine'
+import { sqliteExecutor } from './sqliteExecutor'
 
 export interface MultiFileQueryResult {
   data: Record<string, any>[]
@@ -15,14 +21,60 @@ export interface MultiFileQueryResult {
   error?: string
 }
 
+export interface FileQueryExecutor {
+  name: string
+  execute(sql: string, files: FileMetadata[]): Promise<MultiFileQueryResult>
+}
+
+export const inMemoryExecutor: FileQueryExecutor = {
+  name: 'memory',
+
+  async execute(sql: string, files: FileMetadata[]): Promise<MultiFileQueryResult> {
+    const result = executeQueryOnTables(sql, files)
+    if (result.error) {
+      return {
+        data: [],
+        columns: [],
+        error: result.error,
+      }
+    }
+
+    // The engine reports the type of every result column (source column types for plain
+    // references, numeric types for aggregates and casts)
+    const columns = result.columnMetadata || result.columns.map(name => ({ name, type: 'text' }))
+
+    return {
+      data: result.data,
+      columns,
+    }
+  },
+}
+
+const EXECUTORS: Record<string, FileQueryExecutor> = {
+  memory: inMemoryExecutor,
+  sqlite: sqliteExecutor,
+}
+
+/**
+ * The executor configured by FILE_QUERY_EXECUTOR
+ */
+export function getFileQueryExecutor(): FileQueryExecutor {
+  const name = (process.env.FILE_QUERY_EXECUTOR || 'memory').trim().toLowerCase()
+  const executor = EXECUTORS[name]
+  if (!executor) {
+    throw new Error(`Unknown FILE_QUERY_EXECUTOR "${name}". Expected one of: ${Object.keys(EXECUTORS).join(', ')}`)
+  }
+  return executor
+}
+
 /**
  * Execute query against multiple files
- * Currently supports single-file queries (uses first file)
+ * Each file is queryable by its tableName; JOINs may combine any of them
  */
-export function executeMultiFileQuery(
+export async function executeMultiFileQuery(
   sql: string,
   fileIds: string[]
-): MultiFileQueryResult {
+): Promise<MultiFileQueryResult> {
   const files = getFilesByIds(fileIds)
 
   if (files.length === 0) {
@@ -33,40 +85,17 @@ export function executeMultiFileQuery(
     }
   }
 
-  const firstFile = files[0]
-  
-  if (!firstFile) {
+  const invalidFile = files.find(file => !file.storage && !Array.isArray(file.data))
+  if (invalidFile) {
     return {
       data: [],
       columns: [],
-      error: 'No valid file found',
+      error: `File data is invalid or empty: ${invalidFile.fileName}`,
     }
   }
 
-  if (!firstFile.data || !Array.isArray(firstFile.data)) {
-    return {
-      data: [],
-      columns: [],
-      error: 'File data is invalid or empty',
-    }
-  }
-  
-  // Convert FileMetadata to SessionData format
-  const sessionData: SessionData = {
-    sessionId: firstFile.id,
-    fileName: firstFile.fileName,
-    tableName: firstFile.tableName,
-    columns: firstFile.columns || [],
-    data: firstFile.data,
-    uploadedAt: typeof firstFile.uploadedAt === 'string' ? new Date(firstFile.uploadedAt) : firstFile.uploadedAt,
-  }
-
-  // Replace table name in SQL with actual table name
-  const sqlWithTableName = sql.replace(/FROM\s+[\w"]+/i, `FROM ${firstFile.tableName}`)
-
-  let result
   try {
-    result = executeInMemoryQuery(sqlWithTableName, sessionData)
+    return await getFileQueryExecutor().execute(sql, files)
   } catch (error: any) {
     return {
       data: [],
@@ -74,80 +103,4 @@ export function executeMultiFileQuery(
       error: `Query execution failed: ${error.message || 'Unknown error'}`,
     }
   }
-
-  if (result.error) {
-    return {
-      data: [],
-      columns: [],
-      error: result.error,
-    }
-  }
-
-  // Convert column names to ColumnMetadata format
-  // Handle case-insensitive matching
-  const columns = result.columns.map(name => {
-    const col = firstFile.columns.find(c => 
-      c.name.toLowerCase() === name.toLowerCase() || c.name === name
-    )
-    return {
-      name: col?.name || name,
-      type: col?.type || 'text',
-    }
-  })
-
-  // For SELECT *, preserve original row structure
-  // For specific column selects, map to column names
-  const sqlUpper = sqlWithTableName.toUpperCase()
-  const isSelectStar = sqlUpper.includes('SELECT *')
-  
-  if (isSelectStar && result.data.length > 0) {
-    // Use actual row keys as column names for SELECT *
-    const firstRow = result.data[0]
-    if (firstRow) {
-      const actualRowKeys = Object.keys(firstRow)
-      const actualColumns = actualRowKeys.map(key => {
-        const col = firstFile.columns.find(c => c.name.toLowerCase() === key.toLowerCase())
-        return {
-          name: col?.name || key,
-          type: col?.type || 'text',
-        }
-      })
-      
-      return {
-        data: result.data, // Return data as-is for SELECT *
-        columns: actualColumns,
-      }
-    }
-  }
-
-  // For specific column selects, map row keys to column names
-  const dataWithValues = result.data.map(row => {
-    const rowKeys = Object.keys(row)
-    const newRow: Record<string, any> = {}
-    
-    // For each column, find the matching row key (case-insensitive)
-    for (const col of columns) {
-      // Try exact match first
-      if (row[col.name] !== undefined) {
-        newRow[col.name] = row[col.name]
-      } else {
-        // Try case-insensitive match
-        const rowKey = rowKeys.find(k => k.toLowerCase() === col.name.toLowerCase())
-        if (rowKey) {
-          newRow[col.name] = row[rowKey]
-        } else {
-          // Check if column name exists in row (might be an alias)
-          newRow[col.name] = row[col.name] ?? null
-        }
-      }
-    }
-    
-    return newRow
-  })
-
-  return {
-    data: dataWithValues,
-    columns,
-  }
 }
-
@@ -0,0 +1,143 @@
+/**
+ * Prisma chat repository (CHAT_STORE=prisma)
+ *
+ * Keeps chats in the chats, chat_messages and chat_files tables (prisma/schema.prisma) of the
+ * DATABASE_URL database, so every server instance sees the same chats. Messages and attachments
+ * are deleted with their chat. An update locks the chat's row while it reads and rewrites it, so
+ * updates from several requests or instances queue up instead of overwriting each other.
+ */
+
+import type { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/db/client'
+import type { QueryResponse } from '@/types'
+import type { ChatMessage, ChatRepository, ChatSettings, ChatSummary, StoredChat } from './chatStore'
+
+interface ChatRow {
+  id: string
+  title: string
+  workspace: string
+  pinned: boolean
+  createdAt: Date
+  updatedAt: Date
+  messages: Array<{ id: string; timestamp: Date; queryText: string; summary: string; response: unknown }>
+  files: Array<{ fileId: string }>
+}
+
+function fileRows(chatId: string, fileIds: string[]) {
+  return fileIds.map((fileId, position) => ({ chatId, fileId, position }))
+}
+
+export const prismaChatRepository: ChatRepository = {
+  name: 'prisma',
+
+  async get(chatId: string): Promise<StoredChat | null> {
+    const chat: ChatRow | null = await prisma.chat.findUnique({
+      where: { id: chatId },
+      include: {
+        messages: { orderBy: { timestamp: 'asc' } },
+        files: { orderBy: { position: 'asc' } },
+      },
+    })
+    if (!chat) return null
+    return {
+      chatId: chat.id,
+      title: chat.title,
+      workspace: chat.workspace,
+      pinned: chat.pinned,
+      createdAt: chat.createdAt,
+      updatedAt: chat.updatedAt,
+      fileIds: chat.files.map(file => file.fileId),
+      messages: chat.messages.map(message => ({
+        id: message.id,
+        timestamp: message.timestamp,
+        queryText: message.queryText,
+        summary: message.summary,
+        response: message.response as QueryResponse,
+      })),
+    }
+  },
+
+  async list(): Promise<ChatSummary[]> {
+    const chats: Array<Omit<ChatRow, 'messages'> & { _count: { messages: number } }> = await prisma.chat.findMany({
+      orderBy: { updatedAt: 'desc' },
+      include: {
+        files: { orderBy: { position: 'asc' } },
+        _count: { select: { messages: true } },
+      },
+    })
+    return chats.map(chat => ({
+      chatId: chat.id,
+      title: chat.title,
+      workspace: chat.workspace,
+      pinned: chat.pinned,
+      updatedAt: chat.updatedAt,
+      messageCount: chat._count.messages,
+      fileIds: chat.files.map(file => file.fileId),
+    }))
+  },
+
+  async create(chat: StoredChat): Promise<void> {
+    await prisma.chat.create({
+      data: {
+        id: chat.chatId,
+        title: chat.title,
+        workspace: chat.workspace,
+        pinned: chat.pinned,
+        createdAt: chat.createdAt,
+        updatedAt: chat.updatedAt,
+        files: { create: chat.fileIds.map((fileId, position) => ({ fileId, position })) },
+      },
+    })
+  },
+
+  async update(chatId: string, change: (chat: Omit<StoredChat, 'messages'>) => ChatSettings): Promise<void> {
+    await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const locked: Array<{ id: string }> = await tx.$queryRaw`SELECT id FROM chats WHERE id = ${chatId} FOR UPDATE`
+      if (locked.length === 0) return
+      const chat: Omit<ChatRow, 'messages'> = await tx.chat.findUniqueOrThrow({
+        where: { id: chatId },
+        include: { files: { orderBy: { position: 'asc' } } },
+      })
+      const { fileIds, ...settings } = change({
+        chatId: chat.id,
+        title: chat.title,
+        workspace: chat.workspace,
+        pinned: chat.pinned,
+        createdAt: chat.createdAt,
+        updatedAt: chat.updatedAt,
+        fileIds: chat.files.map(file => file.fileId),
+      })
+      await tx.chat.update({
+        where: { id: chatId },
+        data: { ...settings, updatedAt: new Date() },
+      })
+      if (fileIds) {
+        await tx.chatFile.deleteMany({ where: { chatId } })
+        await tx.chatFile.createMany({ data: fileRows(chatId, fileIds) })
+      }
+    })
+  },
+
+  async addMessage(chatId: string, message: ChatMessage, title?: string): Promise<void> {
+    await prisma.$transaction([
+      prisma.chatMessage.create({
+        data: {
+          id: message.id,
+          chatId,
+          timestamp: message.timestamp,
+          queryText: message.queryText,
+          summary: message.summary,
+          response: message.response,
+        },
+      }),
+      prisma.chat.update({
+        where: { id: chatId },
+        data: { ...(title !== undefined ? { title } : {}), updatedAt: new Date() },
+      }),
+    ])
+  },
+
+  async delete(chatId: string): Promise<void> {
+    await prisma.chat.deleteMany({ where: { id: chatId } })
+  },
+}
@@ -0,0 +1,116 @@
+/**
+ * Retention: deleting expired chats, uploads and evaluation log entries
+ *
+ * planRetention() works out what the policy (./retentionPolicy) deletes right now without
+ * deleting anything, which is the dry-run report of GET /api/retention; applyRetention() makes
+ * the same plan and carries it out. Uploads are reference counted: a file attached to a chat that
+ * is kept, and every version its dataset still lists, is never deleted, whatever its age or even
+ * when it can't be read. Versions a replace took off the list are kept only while a chat
+ * references them.
+ */
+
+import { getChatRepository } from './chatStore'
+import {
+  deleteDatasetVersions,
+  deleteFile,
+  getDatasetVersions,
+  getFilesByIds,
+  listStoredFiles,
+  listVersionedDatasets,
+} from './fileRegistry'
+import { chatTtlDays, getRetentionPolicy, type RetentionPolicy } from './retentionPolicy'
+import { pruneEvaluations, saveEvaluations, type EvaluationRetention } from '@/lib/ml/evaluator'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface RetentionPlan {
+  policy: RetentionPolicy
+  chats: Array<{ chatId: string; title: string; workspace: string; updatedAt: Date }>
+  files: Array<{ id: string; datasetId: string; uploadedAt: Date | null; reason: 'expired' | 'unreadable' }>
+  // Datasets whose version lists go with their last files
+  datasets: string[]
+  evaluations: number
+  // unreadableFiles: files a kept chat references that can't be read; they are left for a person
+  // to look at rather than deleted
+  kept: { pinnedChats: number; attachedFiles: number; unreadableFiles: string[] }
+}
+
+function evaluationRetention(policy: RetentionPolicy, now: Date): EvaluationRetention {
+  const { maxEntries, ttlDays } = policy.evaluations
+  return { maxEntries, before: ttlDays === null ? null : new Date(now.getTime() - ttlDays * DAY_MS) }
+}
+
+/**
+ * What the retention policy expires now (nothing is deleted)
+ */
+export async function planRetention(now: Date = new Date()): Promise<RetentionPlan> {
+  const policy = getRetentionPolicy()
+  const repository = await getChatRepository()
+  const chats = await repository.list()
+
+  const expiredChats = chats.filter(chat => {
+    const ttlDays = chatTtlDays(policy, chat.workspace)
+    return !chat.pinned && ttlDays !== null && chat.updatedAt.getTime() < now.getTime() - ttlDays * DAY_MS
+  })
+
+  // Files of the chats that stay, and the listed versions of their datasets
+  const attachedIds = new Set(chats.filter(chat => !expiredChats.includes(chat)).flatMap(chat => chat.fileIds))
+  const attachedDatasets = new Set(getFilesByIds(Array.from(attachedIds)).map(file => file.datasetId ?? file.id))
+  const keptIds = new Set([
+    ...attachedIds,
+    ...Array.from(attachedDatasets).flatMap(datasetId => getDatasetVersions(datasetId).map(version => version.id)),
+  ])
+
+  const { ttlHours } = policy.files
+  const storedFiles = listStoredFiles()
+  const expiredFiles: RetentionPlan['files'] = []
+  for (const file of storedFiles) {
+    if (keptIds.has(file.id)) continue
+    if (!file.uploadedAt) {
+      expiredFiles.push({ ...file, reason: 'unreadable' })
+    } else if (
+      ttlHours !== null &&
+      file.uploadedAt.getTime() < now.getTime() - ttlHours * 60 * 60 * 1000
+    ) {
+      expiredFiles.push({ ...file, reason: 'expired' })
+    }
+  }
+
+  const expiredIds = new Set(expiredFiles.map(file => file.id))
+  const remainingDatasets = new Set(storedFiles.filter(file => !expiredIds.has(file.id)).map(file => file.datasetId))
+
+  return {
+    policy,
+    chats: expiredChats.map(({ chatId, title, workspace, updatedAt }) => ({ chatId, title, workspace, updatedAt })),
+    files: expiredFiles,
+    datasets: listVersionedDatasets().filter(datasetId => !remainingDatasets.has(datasetId)),
+    evaluations: pruneEvaluations(evaluationRetention(policy, now), true),
+    kept: {
+      pinnedChats: chats.filter(chat => chat.pinned).length,
+      attachedFiles: storedFiles.filter(file => keptIds.has(file.id)).length,
+      unreadableFiles: storedFiles.filter(file => keptIds.has(file.id) && !file.uploadedAt).map(file => file.id),
+    },
+  }
+}
+
+/**
+ * Delete what the retention policy expires; returns what was deleted
+ */
+export async function applyRetention(now: Date = new Date()): Promise<RetentionPlan> {
+  const plan = await planRetention(now)
+  const repository = await getChatRepository()
+  for (const chat of plan.chats) {
+    await repository.delete(chat.chatId)
+  }
+  for (const file of plan.files) {
+    deleteFile(file.id)
+  }
+  for (const datasetId of plan.datasets) {
+    deleteDatasetVersions(datasetId)
+  }
+
+  if (pruneEvaluations(evaluationRetention(plan.policy, now)) > 0) {
+    saveEvaluations()
+  }
+  return plan
+}
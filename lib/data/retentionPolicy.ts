@@ -0,0 +1,119 @@
+/**
+ * Retention policy for uploaded files, chats and evaluation logs
+ *
+ * One JSON configuration, from RETENTION_CONFIG (a file path, or the JSON itself) or else
+ * retention.json in the working directory. Anything left out keeps its default:
+ *
+ *   {
+ *     "files": { "ttlHours": 24 },
+ *     "chats": { "ttlDays": 7 },
+ *     "evaluations": { "maxEntries": 1000, "ttlDays": null },
+ *     "workspaces": { "finance": { "chats": { "ttlDays": null } }, "demo": { "chats": { "ttlDays": 1 } } }
+ *   }
+ *
+ * A TTL of null never expires. files.ttlHours applies to uploads no chat uses; a file attached to
+ * a chat lives as long as the chat (see ./retention). Chats expire after ttlDays without activity,
+ * per workspace, unless they are pinned.
+ */
+
+import { existsSync, readFileSync } from 'fs'
+import { join } from 'path'
+
+export interface RetentionPolicy {
+  files: { ttlHours: number | null }
+  chats: { ttlDays: number | null }
+  evaluations: { maxEntries: number; ttlDays: number | null }
+  workspaces: Record<string, { chats: { ttlDays: number | null } }>
+}
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  files: { ttlHours: 24 },
+  chats: { ttlDays: 7 },
+  evaluations: { maxEntries: 1_000, ttlDays: null },
+  workspaces: {},
+}
+
+function invalid(message: string): Error {
+  return new Error(`Invalid retention policy: ${message}`)
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function section(config: Record<string, unknown>, name: string): Record<string, unknown> {
+  const value = config[name] ?? {}
+  if (!isObject(value)) throw invalid(`${name} must be an object`)
+  return value
+}
+
+function ttl(value: unknown, path: string, fallback: number | null): number | null {
+  if (value === undefined) return fallback
+  if (value === null) return null
+  if (typeof value !== 'number' || !(value > 0)) throw invalid(`${path} must be a positive number, or null to never expire`)
+  return value
+}
+
+/**
+ * Check a configuration and fill in the defaults
+ */
+export function parseRetentionPolicy(config: unknown): RetentionPolicy {
+  if (!isObject(config)) throw invalid('expected a JSON object')
+  const defaults = DEFAULT_RETENTION_POLICY
+  const files = section(config, 'files')
+  const chats = section(config, 'chats')
+  const evaluations = section(config, 'evaluations')
+  const chatTtlDays = ttl(chats.ttlDays, 'chats.ttlDays', defaults.chats.ttlDays)
+
+  const maxEntries = evaluations.maxEntries ?? defaults.evaluations.maxEntries
+  if (typeof maxEntries !== 'number' || !Number.isInteger(maxEntries) || maxEntries < 0) {
+    throw invalid('evaluations.maxEntries must be a whole number')
+  }
+
+  const workspaces: RetentionPolicy['workspaces'] = {}
+  for (const [name, workspace] of Object.entries(section(config, 'workspaces'))) {
+    if (!isObject(workspace)) throw invalid(`workspaces.${name} must be an object`)
+    const workspaceChats = section(workspace, 'chats')
+    workspaces[name] = { chats: { ttlDays: ttl(workspaceChats.ttlDays, `workspaces.${name}.chats.ttlDays`, chatTtlDays) } }
+  }
+
+  return {
+    files: { ttlHours: ttl(files.ttlHours, 'files.ttlHours', defaults.files.ttlHours) },
+    chats: { ttlDays: chatTtlDays },
+    evaluations: { maxEntries, ttlDays: ttl(evaluations.ttlDays, 'evaluations.ttlDays', defaults.evaluations.ttlDays) },
+    workspaces,
+  }
+}
+
+/**
+ * The configured policy. Read on every call, so a changed retention.json applies to the next cleanup.
+ */
+export function getRetentionPolicy(): RetentionPolicy {
+  const setting = process.env.RETENTION_CONFIG?.trim()
+  let text: string
+  if (setting?.startsWith('{')) {
+    text = setting
+  } else {
+    const path = setting || join(process.cwd(), 'retention.json')
+    if (!existsSync(path)) {
+      if (setting) throw invalid(`RETENTION_CONFIG file ${path} does not exist`)
+      return DEFAULT_RETENTION_POLICY
+    }
+    text = readFileSync(path, 'utf-8')
+  }
+
+  let config: unknown
+  try {
+    config = JSON.parse(text)
+  } catch (error: unknown) {
+    throw invalid(error instanceof Error ? error.message : 'not JSON')
+  }
+  return parseRetentionPolicy(config)
+}
+
+/**
+ * Days a chat of `workspace` is kept without activity (null: forever)
+ */
+export function chatTtlDays(policy: RetentionPolicy, workspace: string): number | null {
+  return (policy.workspaces[workspace] ?? policy).chats.ttlDays
+}
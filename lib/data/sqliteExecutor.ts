@@ -0,0 +1,273 @@
+/**
+ * Embedded SQLite executor for uploaded files
+ *
+ * Runs queries on SQLite compiled to WebAssembly (sql.js): in process, no native build and no
+ * network access. Attached files are loaded into one shared database the first time a query
+ * needs them and stay loaded until they change or are evicted.
+ *
+ * The in-memory engine still parses, validates and types every query, and the AST is rendered in
+ * SQLite's dialect (lib/data/engine/sqliteDialect.ts), so both executors accept the same SQL and
+ * report the same result columns. Known difference: division by zero yields NULL instead of an
+ * error.
+ */
+
+import initSqlJs, { type Database, type SqlValue as SqliteValue } from 'sql.js'
+import type { FileMetadata } from './fileRegistry'
+import type { FileQueryExecutor, MultiFileQueryResult } from './multiFileQueryEngine'
+import { uniqueColumnNames } from './queryEngine'
+import type { Query, SqlValue } from './engine/ast'
+import { intervalLength, temporalOperation, toInterval } from './engine/dates'
+import { analyzeQuery, type QueryAnalysis } from './engine/evaluator'
+import { getScalarFunction } from './engine/functions'
+import { parseSql } from './engine/parser'
+import { quoteIdentifier, renderSqlite } from './engine/sqliteDialect'
+import { castValue, isIntegerType, isNumericType, normalizeColumnValue } from './engine/values'
+
+// Files kept loaded at once; beyond this the least recently queried one is dropped
+const MAX_LOADED_FILES = 20
+
+interface LoadedFile {
+  physicalName: string
+  // Changes when the file is re-uploaded or its schema changes, forcing a reload
+  signature: string
+  lastUsed: number
+}
+
+let databasePromise: Promise<Database> | null = null
+const loadedFiles = new Map<string, LoadedFile>()
+
+// sql.js drops the message of an error thrown inside a registered function, so it is kept here
+let lastFunctionError: string | null = null
+
+/**
+ * Register a JS function with SQLite. sql.js declares it with func.length arguments; -1 makes it
+ * variadic, since the engine has already checked every call's arity.
+ */
+function registerFunction(db: Database, name: string, fn: (...args: any[]) => SqlValue) {
+  const wrapped = (...args: SqliteValue[]) => {
+    try {
+      return fn(...args)
+    } catch (error: any) {
+      lastFunctionError = error.message
+      throw error
+    }
+  }
+  Object.defineProperty(wrapped, 'length', { value: -1 })
+  db.create_function(name, wrapped)
+}
+
+function registerEngineFunctions(db: Database): void {
+  registerFunction(db, 'pg_call', (name: string, ...args: SqlValue[]) => {
+    const fn = getScalarFunction(name)!
+    if (!fn.acceptsNulls && args.some(arg => arg === null)) return null
+    return fn.call(args)
+  })
+  registerFunction(db, 'pg_cast', (value: SqlValue, type: string) => castValue(value, type))
+  registerFunction(db, 'pg_temporal', (op: string, leftType: string | null, rightType: string | null, left: SqlValue, right: SqlValue) =>
+    temporalOperation(op, leftType ?? undefined, rightType ?? undefined)!.apply(left, right)
+  )
+  registerFunction(db, 'pg_interval_length', (value: SqlValue) => {
+    const interval = toInterval(value)
+    return interval === null ? null : intervalLength(interval)
+  })
+}
+
+function getDatabase(): Promise<Database> {
+  if (!databasePromise) {
+    databasePromise = initSqlJs().then(SQL => {
+      const db = new SQL.Database()
+      // LIKE is case-sensitive in PostgreSQL
+      db.run('PRAGMA case_sensitive_like = ON')
+      registerEngineFunctions(db)
+      return db
+    })
+    databasePromise.catch(() => {
+      databasePromise = null
+    })
+  }
+  return databasePromise
+}
+
+function columnAffinity(type: string): string {
+  const lowerType = type.toLowerCase()
+  if (isIntegerType(lowerType) || lowerType === 'boolean' || lowerType === 'bool') return 'INTEGER'
+  if (isNumericType(lowerType)) return 'REAL'
+  return 'TEXT'
+}
+
+function toSqliteValue(value: SqlValue): SqliteValue {
+  return typeof value === 'boolean' ? (value ? 1 : 0) : value
+}
+
+function fileSignature(file: FileMetadata): string {
+  const uploadedAt = file.uploadedAt instanceof Date ? file.uploadedAt.toISOString() : String(file.uploadedAt)
+  return `${uploadedAt}|${file.rowCount}|${JSON.stringify(file.columns)}`
+}
+
+/**
+ * (Re)create a file's table and insert its rows, normalized the same way the in-memory engine
+ * reads them
+ */
+function loadFile(db: Database, file: FileMetadata, physicalName: string): void {
+  const columns = file.columns || []
+  if (columns.length === 0) {
+    throw new Error(`File has no columns: ${file.fileName}`)
+  }
+  const table = quoteIdentifier(physicalName)
+  db.run(`DROP TABLE IF EXISTS ${table}`)
+  db.run(`CREATE TABLE ${table} (${columns.map(col => `${quoteIdentifier(col.name)} ${columnAffinity(col.type || 'text')}`).join(', ')})`)
+
+  // Stored columns are read directly; older in-memory files fall back to their rows
+  const storage = file.storage
+  const readers = storage ? columns.map(col => storage.readColumn(col.name)) : null
+  const records = storage ? null : file.data
+  const rowCount = storage ? storage.rowCount : records!.length
+
+  const insert = db.prepare(`INSERT INTO ${table} VALUES (${columns.map(() => '?').join(', ')})`)
+  db.run('BEGIN')
+  try {
+    for (let index = 0; index < rowCount; index++) {
+      insert.run(columns.map((col, i) => {
+        const value = readers ? readers[i](index) : records![index]?.[col.name]
+        return toSqliteValue(normalizeColumnValue(value, col.type || 'text'))
+      }))
+    }
+    db.run('COMMIT')
+  } catch (error) {
+    db.run('ROLLBACK')
+    throw error
+  } finally {
+    insert.free()
+  }
+}
+
+/**
+ * Make sure every attached file is loaded; returns the physical table for each table name
+ */
+function ensureLoaded(db: Database, files: FileMetadata[]): Map<string, string> {
+  const physicalNames = new Map<string, string>()
+  const now = Date.now()
+
+  for (const file of files) {
+    const signature = fileSignature(file)
+    let loaded = loadedFiles.get(file.id)
+    if (!loaded || loaded.signature !== signature) {
+      const physicalName = `file_${file.id.replace(/[^A-Za-z0-9_]/g, '_')}`
+      loadedFiles.delete(file.id)
+      loadFile(db, file, physicalName)
+      loaded = { physicalName, signature, lastUsed: now }
+      loadedFiles.set(file.id, loaded)
+    }
+    loaded.lastUsed = now
+    if (!physicalNames.has(file.tableName)) physicalNames.set(file.tableName, loaded.physicalName)
+  }
+
+  const evictable = Array.from(loadedFiles.entries())
+    .filter(([id]) => !files.some(file => file.id === id))
+    .sort(([, a], [, b]) => a.lastUsed - b.lastUsed)
+  while (loadedFiles.size > MAX_LOADED_FILES && evictable.length > 0) {
+    const [id, loaded] = evictable.shift()!
+    db.run(`DROP TABLE IF EXISTS ${quoteIdentifier(loaded.physicalName)}`)
+    loadedFiles.delete(id)
+  }
+
+  return physicalNames
+}
+
+/**
+ * Table names match like the in-memory engine: exact name first, then case-insensitively
+ */
+function tableResolver(physicalNames: Map<string, string>): (name: string) => string | undefined {
+  return name => {
+    const exact = physicalNames.get(name)
+    if (exact) return exact
+    const lower = name.toLowerCase()
+    const match = Array.from(physicalNames.keys()).find(tableName => tableName.toLowerCase() === lower)
+    return match ? physicalNames.get(match) : undefined
+  }
+}
+
+/**
+ * Convert SQLite's storage classes back to engine values for the result column types
+ */
+function fromSqliteValue(value: SqliteValue, type: string): SqlValue {
+  if (value instanceof Uint8Array) return null
+  if (type === 'boolean' && typeof value === 'number') return value !== 0
+  return value
+}
+
+/**
+ * Position in SQLite's result row of each result column. Usually the same position, but SQLite
+ * doesn't move JOIN ... USING columns to the front of SELECT *, so when both sides produce the
+ * same names, columns are matched by name (and occurrence, for duplicates).
+ */
+function resultColumnOrder(fieldNames: string[], sqliteNames: string[]): number[] {
+  const positional = fieldNames.map((_, i) => i)
+  const key = (name: string) => name.toLowerCase()
+  if (fieldNames.length !== sqliteNames.length) return positional
+
+  const positions = new Map<string, number[]>()
+  sqliteNames.forEach((name, i) => {
+    const list = positions.get(key(name)) || []
+    list.push(i)
+    positions.set(key(name), list)
+  })
+  const order: number[] = []
+  for (const name of fieldNames) {
+    const next = positions.get(key(name))?.shift()
+    if (next === undefined) return positional
+    order.push(next)
+  }
+  return order
+}
+
+export const sqliteExecutor: FileQueryExecutor = {
+  name: 'sqlite',
+
+  async execute(sql: string, files: FileMetadata[]): Promise<MultiFileQueryResult> {
+    let query: Query
+    let analysis: QueryAnalysis
+    try {
+      query = parseSql(sql)
+      analysis = analyzeQuery(query, files)
+    } catch (error: any) {
+      return { data: [], columns: [], error: error.message || 'Query execution failed' }
+    }
+
+    const db = await getDatabase()
+    lastFunctionError = null
+    try {
+      const rendered = renderSqlite(query, {
+        resolveTable: tableResolver(ensureLoaded(db, files)),
+        temporalOperators: analysis.temporalOperators,
+        integerDivisions: analysis.integerDivisions,
+      })
+
+      const fieldNames = analysis.fields.map(field => field.name)
+      const names = uniqueColumnNames(fieldNames)
+      const types = analysis.fields.map(field => field.type)
+      const data: Record<string, any>[] = []
+      const statement = db.prepare(rendered)
+      try {
+        const order = resultColumnOrder(fieldNames, statement.getColumnNames())
+        while (statement.step()) {
+          const values = statement.get()
+          const record: Record<string, any> = {}
+          names.forEach((name, i) => {
+            record[name] = fromSqliteValue(values[order[i]] ?? null, types[i])
+          })
+          data.push(record)
+        }
+      } finally {
+        statement.free()
+      }
+
+      return {
+        data,
+        columns: names.map((name, i) => ({ name, type: types[i] })),
+      }
+    } catch (error: any) {
+      return { data: [], columns: [], error: error.message || lastFunctionError || 'Query execution failed' }
+    }
+  },
+}
@@ -0,0 +1,74 @@
+/**
+ * Earlier turns of a chat as context for follow-up questions
+ *
+ * Each turn that ran is summarized as its question, the SQL that answered it and the result
+ * columns, newest first until CONVERSATION_CONTEXT_TOKENS (default 1000) is used up, so that
+ * "now break that down by month" or "only for Texas" can edit the previous SQL instead of starting
+ * over. Turns are numbered by their position in the chat, as the UI shows them.
+ */
+
+import type { ChatMessage } from '@/lib/data/chatStore'
+
+export interface ConversationTurn {
+  turn: number
+  query: string
+  sql: string
+  columns: string[]
+  rowCount: number
+}
+
+export interface ConversationContext {
+  turns: ConversationTurn[]
+  text: string
+}
+
+// Rough count for budgeting; about four characters per token for English text and SQL
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+export function getContextTokenBudget(): number {
+  const value = Number(process.env.CONVERSATION_CONTEXT_TOKENS)
+  return Number.isFinite(value) && value >= 0 ? value : 1000
+}
+
+function formatTurn(turn: ConversationTurn): string {
+  return `Turn ${turn.turn}: "${turn.query}"
+SQL: ${turn.sql}
+Result columns: ${turn.columns.join(', ') || 'none'} (${turn.rowCount} ${turn.rowCount === 1 ? 'row' : 'rows'})`
+}
+
+/**
+ * The turns that fit the budget, oldest first, or null when no earlier turn ran. The newest turn
+ * is always included, being the one a follow-up most likely refers to.
+ */
+export function buildConversationContext(
+  messages: ChatMessage[],
+  budget: number = getContextTokenBudget()
+): ConversationContext | null {
+  const ran: ConversationTurn[] = []
+  messages.forEach((message, i) => {
+    const response = message.response
+    const sql = response?.sql || response?.preview_sql
+    if (sql && !response.error) {
+      ran.push({
+        turn: i + 1,
+        query: message.queryText,
+        sql,
+        columns: (response.columns || []).map(column => column.name),
+        rowCount: (response.data || []).length,
+      })
+    }
+  })
+  if (ran.length === 0) return null
+
+  const turns: ConversationTurn[] = []
+  let used = 0
+  for (const turn of ran.reverse()) {
+    const tokens = estimateTokens(formatTurn(turn))
+    if (turns.length > 0 && used + tokens > budget) break
+    turns.unshift(turn)
+    used += tokens
+  }
+  return { turns, text: turns.map(formatTurn).join('\n\n') }
+}
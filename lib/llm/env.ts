@@ -1,52 +1,50 @@
 /**
- * Environment variable loader for LLM/OpenRouter configuration
- * Provides safe access to required environment variables with descriptive errors
+ * Environment variable loader for LLM provider configuration
+ * Provides safe access to the optional settings with descriptive errors
  */
 
-export interface LLMConfig {
-  apiKey: string
-  baseURL: string
-  model: string
-  referer?: string
+export interface LLMSettings {
+  temperature: number
+  maxTokens: number
+  timeoutMs: number
+  maxRetries: number
 }
 
-/**
- * Loads and validates LLM environment variables
- * Throws descriptive errors if required variables are missing
- */
-export function loadLLMConfig(): LLMConfig {
-  const apiKey = process.env.OPENAI_API_KEY
-  const baseURL = process.env.OPENAI_BASE_URL
-  const model = process.env.OPENAI_MODEL
-  const referer = process.env.OPENAI_REFERER
-
-  // Validate required variables
-  if (!apiKey || apiKey.trim() === '') {
-    throw new Error(
-      'Missing OPENAI_API_KEY — set it in Netlify environment variables (Site settings → Environment variables). See NETLIFY_SETUP.md for instructions.'
-    )
-  }
-
-  if (!baseURL || baseURL.trim() === '') {
-    throw new Error(
-      'Missing OPENAI_BASE_URL — set it in Netlify environment variables. For OpenRouter, use: https://openrouter.ai/api/v1'
-    )
-  }
-
-  if (!model || model.trim() === '') {
-    throw new Error(
-      'Missing OPENAI_MODEL — set it in Netlify environment variables. For OpenRouter, use: openai/gpt-4o-mini'
-    )
+function numberSetting(name: string, fallback: number, isValid: (value: number) => boolean): number {
+  const raw = process.env[name]
+  if (raw === undefined || raw.trim() === '') return fallback
+  const value = Number(raw)
+  if (!Number.isFinite(value) || !isValid(value)) {
+    throw new Error(`Invalid ${name} "${raw}"`)
   }
+  return value
+}
 
+/**
+ * Loads the settings shared by all providers (LLM_TEMPERATURE, LLM_MAX_TOKENS, LLM_TIMEOUT_MS,
+ * LLM_MAX_RETRIES). Throws descriptive errors if a variable is set to something unusable.
+ */
+export function readLLMSettings(): LLMSettings {
   return {
-    apiKey: apiKey.trim(),
-    baseURL: baseURL.trim(),
-    model: model.trim(),
-    referer: referer?.trim(),
+    temperature: numberSetting('LLM_TEMPERATURE', 0.1, value => value >= 0 && value <= 2),
+    maxTokens: numberSetting('LLM_MAX_TOKENS', 3000, value => Number.isInteger(value) && value > 0),
+    timeoutMs: numberSetting('LLM_TIMEOUT_MS', 60_000, value => value > 0),
+    maxRetries: numberSetting('LLM_MAX_RETRIES', 2, value => Number.isInteger(value) && value >= 0),
   }
 }
 
+/**
+ * Whether an OpenAI-compatible server accepts response_format json_object (LLM_JSON_MODE). When
+ * unset, local servers (localhost, 127.0.0.1 or port 1234, as LM Studio) are taken not to.
+ */
+export function readJsonModeSetting(baseURL: string): boolean {
+  const raw = process.env.LLM_JSON_MODE?.trim().toLowerCase()
+  if (!raw) return !/localhost|127\.0\.0\.1|:1234\b/.test(baseURL)
+  if (raw === 'true' || raw === '1') return true
+  if (raw === 'false' || raw === '0') return false
+  throw new Error(`Invalid LLM_JSON_MODE "${process.env.LLM_JSON_MODE}". Expected true or false`)
+}
+
 /**
  * Gets OpenRouter-specific headers for API requests
  */
@@ -61,21 +59,3 @@ export function getOpenRouterHeaders(referer?: string): Record<string, string> {
 
   return headers
 }
-
-/**
- * Creates OpenAI client configuration with proper headers for OpenRouter
- */
-export function createOpenAIConfig(): {
-  apiKey: string
-  baseURL: string
-  defaultHeaders?: Record<string, string>
-} {
-  const config = loadLLMConfig()
-  const headers = getOpenRouterHeaders(config.referer)
-
-  return {
-    apiKey: config.apiKey,
-    baseURL: config.baseURL,
-    defaultHeaders: Object.keys(headers).length > 0 ? headers : undefined,
-  }
-}
@@ -39,7 +39,7 @@ export function repairJson(jsonString: string): string | null {
     
     if (lastCompleteField > 0 || lastCompleteFieldWithComma > 0) {
       // Extract up to the last complete field
-      const cutPoint = Math.max(lastCompleteField, lastCompleteFieldWithComma) + 2
+      const cutPoint = Math.max(lastCompleteField, lastCompleteFieldWithComma) + 1
       let partial = repaired.substring(0, cutPoint)
       
       // Check what fields we have
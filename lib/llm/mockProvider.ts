@@ -0,0 +1,174 @@
+/**
+ * Deterministic local model (LLM_PROVIDER=mock)
+ *
+ * Answers without a network or API key, so the whole NL → SQL → execute → chart pipeline can be
+ * run in tests and demos. Replies come from fixtures: an array of prompt patterns mapped to canned
+ * responses, read from LLM_MOCK_FIXTURES (a file path) or else ./mockFixtures.json:
+ *
+ *   [
+ *     { "pattern": "how many|count", "response": { "sql": "SELECT COUNT(*) AS count FROM {{table}}", ... } },
+ *     { "pattern": "flaky", "fault": "rate_limit", "times": 1, "response": { ... } }
+ *   ]
+ *
+ * Patterns are case-insensitive regular expressions tried in order against the user's question
+ * (the end of the prompt); the first match answers. {{table}} is replaced with the first table the
+ * prompt mentions. A fault simulates a misbehaving model: "truncated" JSON, an "html" error page,
+ * a "rate_limit" (429), a "server_error" (503) or a "timeout" (no reply until the caller gives up).
+ * With "times", only the first n matching calls fail and later ones get the response. Without a
+ * matching fixture, the mock selects the first rows of the table as a table chart. Streamed replies
+ * arrive in small chunks, like a real model's tokens.
+ */
+
+import { readFileSync } from 'fs'
+import defaultFixtures from './mockFixtures.json'
+import type { LLMCompletion, LLMProvider, LLMRequest } from './provider'
+
+const CHUNK_SIZE = 16
+
+export type MockFault = 'truncated' | 'html' | 'rate_limit' | 'server_error' | 'timeout'
+
+export interface MockFixture {
+  pattern: string
+  response?: Record<string, unknown>
+  fault?: MockFault
+  times?: number
+}
+
+const FAULTS: MockFault[] = ['truncated', 'html', 'rate_limit', 'server_error', 'timeout']
+
+function invalid(message: string): Error {
+  return new Error(`Invalid mock fixtures: ${message}`)
+}
+
+/**
+ * Check a fixtures file
+ */
+export function parseMockFixtures(config: unknown): MockFixture[] {
+  if (!Array.isArray(config)) throw invalid('expected a JSON array')
+  return config.map((fixture, i) => {
+    if (typeof fixture !== 'object' || fixture === null) throw invalid(`fixture ${i} must be an object`)
+    const { pattern, response, fault, times } = fixture as Record<string, unknown>
+    if (typeof pattern !== 'string') throw invalid(`fixture ${i} needs a pattern`)
+    try {
+      new RegExp(pattern, 'i')
+    } catch {
+      throw invalid(`fixture ${i} pattern is not a regular expression`)
+    }
+    if (response !== undefined && (typeof response !== 'object' || response === null || Array.isArray(response))) {
+      throw invalid(`fixture ${i} response must be an object`)
+    }
+    if (fault !== undefined && !FAULTS.includes(fault as MockFault)) {
+      throw invalid(`fixture ${i} fault must be one of ${FAULTS.join(', ')}`)
+    }
+    if (times !== undefined && (typeof times !== 'number' || !Number.isInteger(times) || times < 1)) {
+      throw invalid(`fixture ${i} times must be a positive whole number`)
+    }
+    return fixture as MockFixture
+  })
+}
+
+function firstTable(prompt: string): string | null {
+  return prompt.match(/(?:\bFROM|TABLE NAME:)\s+("[^"]+"|[A-Za-z_][\w.]*)/)?.[1] ?? null
+}
+
+// The prompts end with the question, after one of these headings (see ./prompt, ./promptFromFiles)
+function question(prompt: string): string {
+  const headings = Array.from(prompt.matchAll(/USER QUERY\s*=*|USER QUESTION:|USER:/g))
+  const last = headings[headings.length - 1]
+  return last ? prompt.slice(last.index! + last[0].length) : prompt
+}
+
+function defaultResponse(table: string | null): Record<string, unknown> {
+  return {
+    sql: table ? `SELECT * FROM ${table} LIMIT 100` : 'SELECT 1 AS result',
+    reasoning: table ? `Mock model: showing the first rows of ${table}.` : 'Mock model: no table found in the prompt.',
+    chart: { type: 'table', xField: null, yField: null, seriesField: null },
+  }
+}
+
+// Both response formats: the file prompts read sql, the legacy ones preview_sql/action_sql
+function render(response: Record<string, unknown>, table: string | null): string {
+  const filled: Record<string, unknown> = JSON.parse(JSON.stringify(response), (_key, value) =>
+    typeof value === 'string' ? value.split('{{table}}').join(table ?? 'data') : value
+  )
+  const sql = filled.sql ?? filled.preview_sql
+  return JSON.stringify({ preview_sql: sql, action_sql: null, ...filled, sql })
+}
+
+function waitForAbort(signal: AbortSignal): Promise<never> {
+  return new Promise((_, reject) => {
+    signal.addEventListener('abort', () => reject(Object.assign(new Error('Request timed out'), { name: 'AbortError' })))
+  })
+}
+
+/**
+ * A mock answering from `fixtures`. Counts calls per fixture, for faults with "times".
+ */
+export function createMockProvider(fixtures: MockFixture[]): LLMProvider {
+  const calls = new Map<MockFixture, number>()
+
+  const complete = async (request: LLMRequest, signal: AbortSignal): Promise<LLMCompletion> => {
+    const prompt = request.messages.filter(message => message.role === 'user').map(message => message.content).join('\n')
+    const table = firstTable(prompt)
+    const asked = question(prompt)
+    const fixture = fixtures.find(candidate => new RegExp(candidate.pattern, 'i').test(asked))
+
+    const count = (fixture && calls.get(fixture)) ?? 0
+    if (fixture) calls.set(fixture, count + 1)
+    const fault = fixture?.fault && (fixture.times === undefined || count < fixture.times) ? fixture.fault : null
+
+    const content = render(fixture?.response ?? defaultResponse(table), table)
+    switch (fault) {
+      case 'rate_limit':
+        throw Object.assign(new Error('Rate limit reached for requests. Please try again in 1s.'), { status: 429 })
+      case 'server_error':
+        throw Object.assign(new Error('Service temporarily unavailable'), { status: 503 })
+      case 'timeout':
+        return waitForAbort(signal)
+      case 'html':
+        return { content: '<!DOCTYPE html><html><body><h1>502 Bad Gateway</h1></body></html>' }
+      case 'truncated':
+        return { content: content.slice(0, Math.floor(content.length * 0.8)) }
+    }
+    return { content, tokensUsed: Math.ceil((prompt.length + content.length) / 4) }
+  }
+
+  return {
+    name: 'mock',
+    model: 'mock',
+    temperature: 0,
+    maxTokens: 3000,
+    supportsJsonMode: true,
+    complete,
+
+    async stream(request: LLMRequest, signal: AbortSignal, onToken: (text: string) => void): Promise<LLMCompletion> {
+      const completion = await complete(request, signal)
+      for (let i = 0; i < completion.content.length; i += CHUNK_SIZE) {
+        onToken(completion.content.slice(i, i + CHUNK_SIZE))
+      }
+      return completion
+    },
+  }
+}
+
+let cached: { source: string; provider: LLMProvider } | null = null
+
+/**
+ * The mock for the configured fixtures; the same one while LLM_MOCK_FIXTURES is unchanged, so
+ * faults with "times" count across requests
+ */
+export function getMockProvider(): LLMProvider {
+  const source = process.env.LLM_MOCK_FIXTURES || ''
+  if (cached?.source !== source) {
+    let config: unknown = defaultFixtures
+    if (source) {
+      try {
+        config = JSON.parse(readFileSync(source, 'utf-8'))
+      } catch (error: unknown) {
+        throw invalid(`cannot read LLM_MOCK_FIXTURES ${source}: ${error instanceof Error ? error.message : error}`)
+      }
+    }
+    cached = { source, provider: createMockProvider(parseMockFixtures(config)) }
+  }
+  return cached.provider
+}
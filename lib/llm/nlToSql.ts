@@ -1,6 +1,6 @@
-import OpenAI from 'openai'
 import { buildPrompt, buildChatPrompt } from './prompt'
 import { repairJson } from './jsonRepair'
+import { completeChat } from './provider'
 import type { LLMResponse } from '@/types'
 
 // Response format for chat sessions with uploaded files
@@ -16,10 +16,16 @@ export interface ChatLLMResponse {
   }
 }
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY || 'lm-studio', // LM Studio doesn't require a real key
-  baseURL: process.env.OPENAI_BASE_URL || 'http://127.0.0.1:1234/v1', // LM Studio local server
-})
+// Ask the configured provider (./provider) for a JSON answer
+function completeJson(system: string, prompt: string) {
+  return completeChat({
+    messages: [
+      { role: 'system', content: system },
+      { role: 'user', content: prompt },
+    ],
+    json: true,
+  })
+}
 
 export interface NLToSqlOptions {
   query: string
@@ -34,58 +40,18 @@ export interface NLToSqlResult {
 }
 
 // Convert natural language queries to SQL using the language model
-// Handles JSON parsing, retries on errors, and works with both OpenAI and LM Studio
+// Handles JSON parsing and retries on invalid JSON; the model comes from the configured provider
 export async function nlToSql(options: NLToSqlOptions): Promise<NLToSqlResult> {
   const { query, timeRange, retryOnError = true } = options
 
   try {
     const prompt = await buildPrompt(query, timeRange)
 
-    // LM Studio doesn't support 'json_object' format, use 'text' instead
-    // Check if using LM Studio (default baseURL or localhost/127.0.0.1)
-    const baseURL = process.env.OPENAI_BASE_URL || 'http://127.0.0.1:1234/v1'
-    const isLMStudio = baseURL.includes('localhost') || baseURL.includes('127.0.0.1') || baseURL.includes('1234')
-    
-    interface ChatCompletionRequest {
-      model: string
-      messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }>
-      temperature: number
-      max_tokens: number
-      response_format?: { type: 'json_object' }
-    }
-    
-    const requestOptions: ChatCompletionRequest = {
-      model: process.env.OPENAI_MODEL || 'llama-3.2-1b-instruct', // LM Studio model name
-      messages: [
-        {
-          role: 'system',
-          content: 'You are a SQL expert. Always respond with valid JSON only, no markdown, no code blocks, no explanations outside the JSON. Your response must be a valid JSON object. Make sure to close all JSON objects and strings properly.',
-        },
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
-      temperature: 0.1,
-      max_tokens: 2000, // Increase max tokens to prevent truncation
-    }
-    
-    // Only use response_format for real OpenAI API, not LM Studio
-    if (!isLMStudio) {
-      requestOptions.response_format = { type: 'json_object' }
-    }
-    
-    const completion = await openai.chat.completions.create(requestOptions)
-
-    const content = completion.choices[0]?.message?.content
-    if (!content) {
-      throw new Error('Empty response from OpenAI')
-    }
-
-    // Check if response is HTML (error page)
-    if (content.trim().startsWith('<!DOCTYPE') || content.trim().startsWith('<html')) {
-      throw new Error('LLM returned HTML instead of JSON. Check if LM Studio server is running and accessible.')
-    }
+    const completion = await completeJson(
+      'You are a SQL expert. Always respond with valid JSON only, no markdown, no code blocks, no explanations outside the JSON. Your response must be a valid JSON object. Make sure to close all JSON objects and strings properly.',
+      prompt
+    )
+    const content = completion.content
 
     // Parse JSON response
     let parsed: LLMResponse
@@ -141,7 +107,7 @@ export async function nlToSql(options: NLToSqlOptions): Promise<NLToSqlResult> {
       parsed.action_sql = null
     }
 
-    const tokensUsed = completion.usage?.total_tokens
+    const tokensUsed = completion.tokensUsed
 
     return {
       response: parsed,
@@ -159,43 +125,9 @@ Original prompt: ${await buildPrompt(query, timeRange)}
 
 Return valid JSON with fields: preview_sql, action_sql, reasoning, chart (with type, xField, yField).`
       
-      // Check if using LM Studio (for retry)
-      const baseURL = process.env.OPENAI_BASE_URL || 'http://127.0.0.1:1234/v1'
-      const isLMStudioRetry = baseURL.includes('localhost') || baseURL.includes('127.0.0.1') || baseURL.includes('1234')
-      
       try {
-        interface ChatCompletionRequest {
-          model: string
-          messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }>
-          temperature: number
-          max_tokens: number
-          response_format?: { type: 'json_object' }
-        }
-        
-        const retryRequestOptions: ChatCompletionRequest = {
-          model: process.env.OPENAI_MODEL || 'llama-3.2-1b-instruct', // LM Studio model name
-          messages: [
-            {
-              role: 'system',
-              content: 'You are a SQL expert. Always respond with valid JSON only. Make sure to close all JSON objects and strings properly.',
-            },
-            {
-              role: 'user',
-              content: repairPrompt,
-            },
-          ],
-          temperature: 0.1,
-          max_tokens: 2000, // Increase max tokens to prevent truncation
-        }
-        
-        // Only use response_format for real OpenAI API, not LM Studio
-        if (!isLMStudioRetry) {
-          retryRequestOptions.response_format = { type: 'json_object' }
-        }
-        
-        const retryCompletion = await openai.chat.completions.create(retryRequestOptions)
-
-        const retryContent = retryCompletion.choices[0]?.message?.content
+        const retryCompletion = await completeJson('You are a SQL expert. Always respond with valid JSON only. Make sure to close all JSON objects and strings properly.', repairPrompt)
+        const retryContent = retryCompletion.content
         if (retryContent) {
           const repaired = repairJson(retryContent) || retryContent
           const parsed = JSON.parse(repaired)
@@ -208,7 +140,7 @@ Return valid JSON with fields: preview_sql, action_sql, reasoning, chart (with t
             }
             return {
               response: parsed,
-              tokensUsed: retryCompletion.usage?.total_tokens,
+              tokensUsed: retryCompletion.tokensUsed,
             }
           }
         }
@@ -241,49 +173,10 @@ export async function nlToSqlForChat(
   try {
     const prompt = buildChatPrompt(userQuery, tableName, columns, data)
 
-    // Check if using LM Studio
-    const baseURL = process.env.OPENAI_BASE_URL || 'http://127.0.0.1:1234/v1'
-    const isLMStudio = baseURL.includes('localhost') || baseURL.includes('127.0.0.1') || baseURL.includes('1234')
-    
-    interface ChatCompletionRequest {
-      model: string
-      messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }>
-      temperature: number
-      max_tokens: number
-      response_format?: { type: 'json_object' }
-    }
-    
-    const requestOptions: ChatCompletionRequest = {
-      model: process.env.OPENAI_MODEL || 'llama-3.2-1b-instruct',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are a SQL expert working with uploaded CSV/Excel files. Always respond with valid JSON only, no markdown, no code blocks, no explanations outside the JSON. Your response must be a valid JSON object with fields: reasoning, sql, chart. Make sure to close all JSON objects and strings properly.',
-        },
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
-      temperature: 0.1,
-      max_tokens: 2000,
-    }
-    
-    if (!isLMStudio) {
-      requestOptions.response_format = { type: 'json_object' }
-    }
-    
-    const completion = await openai.chat.completions.create(requestOptions)
-    const content = completion.choices[0]?.message?.content
-
-    if (!content) {
-      throw new Error('Empty response from LLM')
-    }
-
-    // Check if response is HTML (error page)
-    if (content.trim().startsWith('<!DOCTYPE') || content.trim().startsWith('<html')) {
-      throw new Error('LLM returned HTML instead of JSON. Check if LM Studio server is running and accessible.')
-    }
+    const { content } = await completeJson(
+      'You are a SQL expert working with uploaded CSV/Excel files. Always respond with valid JSON only, no markdown, no code blocks, no explanations outside the JSON. Your response must be a valid JSON object with fields: reasoning, sql, chart. Make sure to close all JSON objects and strings properly.',
+      prompt
+    )
 
     // Parse JSON response
     let parsed: ChatLLMResponse
@@ -351,40 +244,8 @@ Original prompt: ${buildChatPrompt(userQuery, tableName, columns, data)}
 
 Return valid JSON with fields: reasoning, sql, chart (with type, xField, yField, seriesField).`
       
-      const baseURL = process.env.OPENAI_BASE_URL || 'http://127.0.0.1:1234/v1'
-      const isLMStudioRetry = baseURL.includes('localhost') || baseURL.includes('127.0.0.1') || baseURL.includes('1234')
-      
       try {
-        interface ChatCompletionRequest {
-          model: string
-          messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }>
-          temperature: number
-          max_tokens: number
-          response_format?: { type: 'json_object' }
-        }
-        
-        const retryRequestOptions: ChatCompletionRequest = {
-          model: process.env.OPENAI_MODEL || 'llama-3.2-1b-instruct',
-          messages: [
-            {
-              role: 'system',
-              content: 'You are a SQL expert. Always respond with valid JSON only. Make sure to close all JSON objects and strings properly.',
-            },
-            {
-              role: 'user',
-              content: repairPrompt,
-            },
-          ],
-          temperature: 0.1,
-          max_tokens: 2000,
-        }
-        
-        if (!isLMStudioRetry) {
-          retryRequestOptions.response_format = { type: 'json_object' }
-        }
-        
-        const retryCompletion = await openai.chat.completions.create(retryRequestOptions)
-        const retryContent = retryCompletion.choices[0]?.message?.content
+        const { content: retryContent } = await completeJson('You are a SQL expert. Always respond with valid JSON only. Make sure to close all JSON objects and strings properly.', repairPrompt)
 
         if (retryContent) {
           const repaired = repairJson(retryContent) || retryContent
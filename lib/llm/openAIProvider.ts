@@ -0,0 +1,114 @@
+/**
+ * HTTP providers speaking the OpenAI chat completions API (LLM_PROVIDER=openai, openrouter)
+ *
+ * Both use OPENAI_API_KEY, OPENAI_BASE_URL and OPENAI_MODEL. The OpenAI client's own retries are
+ * turned off; completeChat() in ./provider retries and times out every provider the same way.
+ */
+
+import OpenAI from 'openai'
+import { getOpenRouterHeaders, readJsonModeSetting, readLLMSettings } from './env'
+import type { LLMCompletion, LLMProvider, LLMRequest } from './provider'
+
+const OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1'
+const OPENAI_BASE_URL = 'https://api.openai.com/v1'
+const LM_STUDIO_BASE_URL = 'http://127.0.0.1:1234/v1'
+
+interface HttpProviderConfig {
+  name: string
+  apiKey: string
+  baseURL: string
+  model: string
+  supportsJsonMode: boolean
+  headers?: Record<string, string>
+}
+
+function createHttpProvider(config: HttpProviderConfig): LLMProvider {
+  const { temperature, maxTokens } = readLLMSettings()
+  const client = new OpenAI({
+    apiKey: config.apiKey,
+    baseURL: config.baseURL,
+    defaultHeaders: config.headers,
+    maxRetries: 0,
+  })
+  const body = (request: LLMRequest) => ({
+    model: config.model,
+    messages: request.messages,
+    temperature,
+    max_tokens: maxTokens,
+    ...(request.json && config.supportsJsonMode ? { response_format: { type: 'json_object' as const } } : {}),
+  })
+
+  return {
+    name: config.name,
+    model: config.model,
+    temperature,
+    maxTokens,
+    supportsJsonMode: config.supportsJsonMode,
+
+    async complete(request: LLMRequest, signal: AbortSignal): Promise<LLMCompletion> {
+      const completion = await client.chat.completions.create(body(request), { signal })
+      return {
+        content: completion.choices[0]?.message?.content ?? '',
+        tokensUsed: completion.usage?.total_tokens,
+      }
+    },
+
+    async stream(request: LLMRequest, signal: AbortSignal, onToken: (text: string) => void): Promise<LLMCompletion> {
+      const stream = await client.chat.completions.create(
+        { ...body(request), stream: true, stream_options: { include_usage: true } },
+        { signal }
+      )
+      let content = ''
+      let tokensUsed: number | undefined
+      for await (const chunk of stream) {
+        const text = chunk.choices[0]?.delta?.content
+        if (text) {
+          content += text
+          onToken(text)
+        }
+        tokensUsed = chunk.usage?.total_tokens ?? tokensUsed
+      }
+      return { content, tokensUsed }
+    },
+  }
+}
+
+/**
+ * Any OpenAI-compatible server: OpenAI itself, LM Studio, vLLM, Ollama... (default: LM Studio on
+ * this machine). Local servers often need no key and do not support JSON mode (see LLM_JSON_MODE).
+ */
+export function openAICompatibleProvider(): LLMProvider {
+  const apiKey = process.env.OPENAI_API_KEY || 'not-needed'
+  let baseURL = process.env.OPENAI_BASE_URL || LM_STUDIO_BASE_URL
+  // The dashboard URL is a common mistake for the API URL
+  if (baseURL.includes('platform.openai.com')) {
+    baseURL = OPENAI_BASE_URL
+  }
+
+  let model = process.env.OPENAI_MODEL || 'gpt-4o-mini'
+  // OpenRouter-style names ("openai/gpt-4o-mini") are not valid on OpenAI itself
+  if (baseURL.includes('api.openai.com') && model.startsWith('openai/')) {
+    model = model.replace('openai/', '')
+  }
+
+  return createHttpProvider({ name: 'openai', apiKey, baseURL, model, supportsJsonMode: readJsonModeSetting(baseURL) })
+}
+
+/**
+ * OpenRouter, identifying the app with its attribution headers (OPENAI_REFERER sets HTTP-Referer)
+ */
+export function openRouterProvider(): LLMProvider {
+  const apiKey = process.env.OPENAI_API_KEY
+  if (!apiKey || apiKey.trim() === '') {
+    throw new Error('OpenRouter API key is required. Please set OPENAI_API_KEY environment variable.')
+  }
+
+  return createHttpProvider({
+    name: 'openrouter',
+    apiKey: apiKey.trim(),
+    baseURL: process.env.OPENAI_BASE_URL || OPENROUTER_BASE_URL,
+    model: process.env.OPENAI_MODEL || 'openai/gpt-4o-mini',
+    supportsJsonMode: true,
+    headers: getOpenRouterHeaders(process.env.OPENAI_REFERER?.trim()),
+  })
+}
@@ -173,6 +173,8 @@ Do NOT hallucinate tables or columns.
 3. ONLY reference real columns (after fuzzy matching).
 4. When user asks analytics questions:
    - Use SELECT queries with GROUP BY if needed.
+   - Dividing two integers truncates (7 / 2 is 3), as in PostgreSQL: for ratios and percentages
+     multiply by 1.0 first (SUM(a) * 1.0 / COUNT(*))
 5. For DELETE/UPDATE/INSERT:
    - NEVER execute
    - ONLY generate SQL
@@ -3,11 +3,11 @@
  * 
  * Files are attached to the chat and persist across multiple queries. This generates a detailed
  * prompt that includes the schema from uploaded files, example queries, and strict rules for
- * SQL generation. If files aren't found on disk (serverless reset), it recovers them from chatStore.
+ * SQL generation.
  */
 
-import { getFilesByIds, type FileMetadata } from '@/lib/data/fileRegistry'
-import { getChat, getChatFiles } from '@/lib/data/chatStore'
+import { getFilesByIds, readFileRows, type FileMetadata } from '@/lib/data/fileRegistry'
+import type { ConversationContext } from './conversation'
 
 /**
  * Build example queries based on actual schema
@@ -69,6 +69,8 @@ function buildExampleQueries(file: FileMetadata | undefined): string {
     examples.push(`- "Average ${firstNumCol}" → SELECT AVG("${firstNumCol}") AS avg_value FROM ${tableName}`)
     examples.push(`- "Maximum ${firstNumCol}" → SELECT MAX("${firstNumCol}") AS max_value FROM ${tableName}`)
     examples.push(`- "Minimum ${firstNumCol}" → SELECT MIN("${firstNumCol}") AS min_value FROM ${tableName}`)
+    examples.push(`- "How many different ${firstTextCol}?" → SELECT COUNT(DISTINCT "${firstTextCol}") AS count FROM ${tableName}`)
+    examples.push(`- "List the distinct ${firstTextCol}" → SELECT DISTINCT "${firstTextCol}" FROM ${tableName} ORDER BY "${firstTextCol}"`)
   }
   
   // Grouping queries
@@ -84,6 +86,7 @@ function buildExampleQueries(file: FileMetadata | undefined): string {
   if (firstTextCol && secondTextCol && firstNumCol) {
     examples.push(`\nSUBQUERIES:`)
     examples.push(`- "${firstTextCol} where ${firstNumCol} > average ${firstNumCol} for ${secondTextCol}" → SELECT * FROM ${tableName} WHERE "${firstNumCol}" > (SELECT AVG("${firstNumCol}") FROM ${tableName} AS t2 WHERE t2."${secondTextCol}" = ${tableName}."${secondTextCol}")`)
+    examples.push(`- "${secondTextCol} whose total ${firstNumCol} is above the average total" → WITH totals AS (SELECT "${secondTextCol}", SUM("${firstNumCol}") AS total FROM ${tableName} GROUP BY "${secondTextCol}") SELECT * FROM totals WHERE total > (SELECT AVG(total) FROM totals)`)
     examples.push(`- "Top 5 ${firstTextCol} in each ${secondTextCol} by ${firstNumCol}" → SELECT * FROM (SELECT *, ROW_NUMBER() OVER (PARTITION BY "${secondTextCol}" ORDER BY "${firstNumCol}" DESC) AS rn FROM ${tableName}) WHERE rn <= 5`)
   }
   
@@ -92,6 +95,10 @@ function buildExampleQueries(file: FileMetadata | undefined): string {
     examples.push(`\nDATE/TIME QUERIES:`)
     examples.push(`- "Show ${firstTextCol} from last 30 days" → SELECT * FROM ${tableName} WHERE "${dateCol}" >= CURRENT_DATE - INTERVAL '30 days'`)
     examples.push(`- "Recent ${firstTextCol}" → SELECT * FROM ${tableName} ORDER BY "${dateCol}" DESC LIMIT 10`)
+    if (firstNumCol) {
+      examples.push(`- "Running total of ${firstNumCol} over time" → SELECT "${dateCol}", "${firstNumCol}", SUM("${firstNumCol}") OVER (ORDER BY "${dateCol}") AS running_total FROM ${tableName} ORDER BY "${dateCol}"`)
+      examples.push(`- "Change in ${firstNumCol} from the previous ${dateCol}" → SELECT "${dateCol}", "${firstNumCol}", "${firstNumCol}" - LAG("${firstNumCol}") OVER (ORDER BY "${dateCol}") AS change FROM ${tableName} ORDER BY "${dateCol}"`)
+    }
   }
   
   // Complex queries
@@ -105,78 +112,110 @@ function buildExampleQueries(file: FileMetadata | undefined): string {
   return examples.join('\n')
 }
 
-export function buildPromptFromFiles(
-  userQuery: string,
-  fileIds: string[],
-  timeRange?: string,
-  chatId?: string
-): string {
-  let files = getFilesByIds(fileIds)
-  
-  // CRITICAL: If disk storage is empty but we have fileIds, try to recover from chatStore
-  // This should rarely happen since files are now saved to disk, but it's a safety net
-  if (files.length === 0 && fileIds.length > 0 && chatId) {
-    try {
-      const chat = getChat(chatId)
-      if (chat) {
-        const chatFiles = getChatFiles(chat.chatId)
-        const matchingFiles = chatFiles.filter(f => fileIds.includes(f.id))
-        if (matchingFiles.length > 0) {
-          files = matchingFiles
-          
-          // Re-save to disk so they persist
-          try {
-            const { reRegisterFile } = require('@/lib/data/fileRegistry')
-            for (const file of matchingFiles) {
-              reRegisterFile(file)
-            }
-          } catch (regError) {
-            // Could not re-save files to disk, continue with chatStore files
-          }
-        } else if (chatFiles.length > 0) {
-          // Fallback: use all chat files if IDs don't match
-          files = chatFiles
-          
-          // Re-save to disk
-          try {
-            const { reRegisterFile } = require('@/lib/data/fileRegistry')
-            for (const file of chatFiles) {
-              reRegisterFile(file)
-            }
-          } catch (regError) {
-            // Could not re-save files to disk, continue with chatStore files
-          }
-        }
-      }
-    } catch (error) {
-      // Failed to recover files from chatStore
+/**
+ * Build JOIN guidance when more than one file is attached. Foreign keys declared by an uploaded
+ * database come first; columns with the same name in two tables (customer_id in orders and
+ * customers) are offered as likely join keys.
+ */
+function buildJoinExamples(files: FileMetadata[]): string {
+  if (files.length < 2) {
+    return ''
+  }
+
+  const lines: string[] = [
+    '',
+    '====================================================',
+    'JOINS (MULTIPLE TABLES ATTACHED):',
+    '====================================================',
+    '',
+    'Every table in the schema can be queried and combined in one SELECT.',
+    'Supported: INNER JOIN, LEFT JOIN, RIGHT JOIN, FULL JOIN, CROSS JOIN, with ON or USING (...).',
+    'Give each table a short alias and qualify every column: o."customer_id", c."name".',
+    '',
+  ]
+
+  const tableNames = new Set(files.map(file => file.tableName))
+  const relationships = files.flatMap(file =>
+    (file.foreignKeys || [])
+      .filter(key => tableNames.has(key.table))
+      .map(key => ({ from: file.tableName, ...key }))
+  )
+  if (relationships.length > 0) {
+    lines.push('Relationships (foreign keys declared in the uploaded database):')
+    for (const key of relationships) {
+      const columns = key.columns.map(name => `"${name}"`).join(', ')
+      const references = key.references.map(name => `"${name}"`).join(', ')
+      lines.push(`- ${key.from}(${columns}) references ${key.table}(${references})`)
     }
+    lines.push('')
   }
-  
-  // CRITICAL: If still no files but chatId exists, try to get ANY files from chatStore
-  if (files.length === 0 && chatId) {
-    try {
-      const chat = getChat(chatId)
-      if (chat) {
-        const chatFiles = getChatFiles(chat.chatId)
-        if (chatFiles.length > 0) {
-          files = chatFiles
-          
-          // Re-save to disk
-          try {
-            const { reRegisterFile } = require('@/lib/data/fileRegistry')
-            for (const file of chatFiles) {
-              reRegisterFile(file)
-            }
-          } catch (regError) {
-            // Could not re-save files to disk, continue with chatStore files
-          }
-        }
+
+  const keyHints: string[] = []
+  for (let i = 0; i < files.length; i++) {
+    for (let j = i + 1; j < files.length; j++) {
+      const left = files[i]
+      const right = files[j]
+      const rightNames = new Set((right.columns || []).map(c => c.name.toLowerCase()))
+      const shared = (left.columns || []).filter(c => rightNames.has(c.name.toLowerCase())).map(c => c.name)
+      if (shared.length > 0) {
+        keyHints.push(`- ${left.tableName} and ${right.tableName} share: ${shared.map(name => `"${name}"`).join(', ')}`)
       }
-    } catch (error) {
-      // Final recovery attempt failed
     }
   }
+
+  if (keyHints.length > 0) {
+    lines.push('Likely join keys (same column name in both tables):')
+    lines.push(...keyHints)
+    lines.push('')
+  }
+
+  const [first, second] = files
+  const secondNames = new Set((second.columns || []).map(c => c.name.toLowerCase()))
+  const firstKey = (first.columns || []).find(c => secondNames.has(c.name.toLowerCase()))?.name
+  if (relationships.length > 0) {
+    const key = relationships[0]
+    const on = key.columns.map((name, i) => `a."${name}" = b."${key.references[i]}"`).join(' AND ')
+    lines.push('Example:')
+    lines.push(`- "${key.from} rows with their ${key.table} details" → SELECT a.*, b.* FROM ${key.from} AS a INNER JOIN ${key.table} AS b ON ${on}`)
+    lines.push('')
+  } else if (firstKey) {
+    lines.push('Example:')
+    lines.push(`- "Rows from ${first.tableName} with their ${second.tableName} details" → SELECT a.*, b.* FROM ${first.tableName} AS a INNER JOIN ${second.tableName} AS b ON a."${firstKey}" = b."${firstKey}"`)
+    lines.push(`- "${first.tableName} rows without a match in ${second.tableName}" → SELECT a.* FROM ${first.tableName} AS a LEFT JOIN ${second.tableName} AS b ON a."${firstKey}" = b."${firstKey}" WHERE b."${firstKey}" IS NULL`)
+    lines.push('')
+  }
+
+  lines.push('Only JOIN when the question needs columns from more than one table.')
+  return lines.join('\n')
+}
+
+/**
+ * Section with the chat's earlier turns (./conversation), for follow-up questions
+ */
+function buildConversationSection(conversation: ConversationContext): string {
+  return `
+====================================================
+CONVERSATION SO FAR
+====================================================
+
+Earlier questions in this chat and the SQL that answered them (oldest first):
+
+${conversation.text}
+
+If the user query follows up on one of these turns ("now break that down by month", "only for Texas",
+"what about the top 5"), start from that turn's SQL and edit it: keep its tables, filters and grouping
+unless the user changes them. If it stands on its own, write new SQL.
+Add "follows_up": <the turn number> to the JSON, or null when the query stands on its own.
+`
+}
+
+export function buildPromptFromFiles(
+  userQuery: string,
+  fileIds: string[],
+  timeRange?: string,
+  conversation?: ConversationContext | null
+): string {
+  const files = getFilesByIds(fileIds)
   
   if (files.length === 0) {
     return `You are an AI SQL Analyst. The user has not attached any files to this chat yet. Please respond with:
@@ -197,20 +236,26 @@ export function buildPromptFromFiles(
       return `${file?.tableName || 'unknown'}: [invalid file data]`
     }
     
+    const sampleRows = readFileRows(file, 2)
     const columnList = file.columns.map(col => {
       if (!col || !col.name) return ''
       // Only show sample for first 2 columns to save tokens
-      const sampleValues = (file.data && Array.isArray(file.data) && file.columns.indexOf(col) < 2)
-        ? file.data.slice(0, 2).map(row => row?.[col.name]).filter(v => v !== null && v !== undefined)
+      const sampleValues = file.columns.indexOf(col) < 2
+        ? sampleRows.map(row => row?.[col.name]).filter(v => v !== null && v !== undefined)
         : []
       const sampleHint = sampleValues.length > 0 
         ? ` (e.g. ${String(sampleValues[0]).substring(0, 20)})`
         : ''
-      return `${col.name}(${col.type || 'text'})${sampleHint}`
+      // The header as written in the file, when it reads differently from the identifier
+      const header = col.header && col.header.toLowerCase().replace(/\s+/g, '_') !== col.name
+        ? ` "${col.header}"`
+        : ''
+      return `${col.name}(${col.type || 'text'})${header}${sampleHint}`
     }).filter(Boolean).join(', ')
     
-    const rowCount = (file.data && Array.isArray(file.data)) ? file.data.length : 0
-    return `${file.tableName || 'table'}: ${columnList || 'no columns'} [${rowCount} rows]`
+    const rowCount = file.rowCount || 0
+    const source = file.sheet ? ` (sheet "${file.sheet}")` : ''
+    return `${file.tableName || 'table'}${source}: ${columnList || 'no columns'} [${rowCount} rows]`
   }).filter(Boolean).join('\n')
 
   const coordinateInstructions = hasCoordinateColumns 
@@ -275,15 +320,16 @@ export function buildPromptFromFiles(
 
   // Build comprehensive examples based on actual schema
   const exampleQueries = buildExampleQueries(files[0])
+  const joinInstructions = buildJoinExamples(files)
   
   return `SYSTEM ROLE: YOU ARE A STRICT SQL GENERATOR FOR AN IN-MEMORY ANALYTICS ENGINE
 
-You NEVER return random results. You ALWAYS generate deterministic, correct SQL that the backend can execute directly on an in-memory table.
+You NEVER return random results. You ALWAYS generate deterministic, correct SQL that the backend can execute directly on the in-memory tables.
 
 You have ONE JOB:
 Given:
-- a table name
-- a list of column names and types
+- one or more table names
+- a list of column names and types for each table (a quoted name after the type is the column's header in the original file; always use the column name before the parentheses in SQL)
 - a natural language query
 
 You must return a SINGLE, SAFE, VALID SQL SELECT statement plus a short reasoning string in JSON.
@@ -291,7 +337,7 @@ You must return a SINGLE, SAFE, VALID SQL SELECT statement plus a short reasonin
 You MUST obey all rules below EXACTLY. Do not be "creative". Do not ignore any rule.
 
 SCHEMA (ONLY SOURCE OF TRUTH):
-${schemaDescription}${coordinateInstructions}
+${schemaDescription}${joinInstructions}${coordinateInstructions}
 
 ====================================================
 CORE PRINCIPLES
@@ -549,7 +595,7 @@ Before responding, verify:
 ✓ GROUP BY includes all non-aggregated columns
 ✓ ORDER BY and LIMIT used correctly for "top/bottom" queries
 ✓ Reasoning explains your thought process
-
+${conversation ? buildConversationSection(conversation) : ''}
 ====================================================
 USER QUERY
 ====================================================
@@ -0,0 +1,213 @@
+/**
+ * LLM providers: one interface for every model backend
+ *
+ * LLM_PROVIDER picks the backend:
+ *   openai      any OpenAI-compatible HTTP server (OpenAI, LM Studio, vLLM, Ollama) at OPENAI_BASE_URL
+ *   openrouter  OpenRouter, with its attribution headers
+ *   mock        a deterministic local model answering from fixtures, for tests and demos without a network
+ * Unset, it is openrouter when OPENAI_BASE_URL points at openrouter.ai, else openai (which defaults
+ * to LM Studio at http://127.0.0.1:1234/v1).
+ *
+ * Each provider declares its model, temperature, token limit and whether it supports JSON mode, and
+ * may stream its reply. Callers go through completeChat(), which applies the same timeout, retries,
+ * cancellation and error classification (LLMError) whatever the backend.
+ */
+
+import { readLLMSettings, type LLMSettings } from './env'
+import { getMockProvider } from './mockProvider'
+import { openAICompatibleProvider, openRouterProvider } from './openAIProvider'
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+export interface LLMRequest {
+  messages: LLMMessage[]
+  // Ask for a JSON object; ignored by providers without JSON mode
+  json?: boolean
+  // Receive the reply as it is generated; providers that cannot stream deliver it in one piece
+  onToken?: (text: string) => void
+  // Cancel the call, e.g. when the client goes away
+  signal?: AbortSignal
+}
+
+export interface LLMCompletion {
+  content: string
+  tokensUsed?: number
+}
+
+export interface LLMProvider {
+  name: string
+  model: string
+  temperature: number
+  maxTokens: number
+  supportsJsonMode: boolean
+  complete(request: LLMRequest, signal: AbortSignal): Promise<LLMCompletion>
+  // Like complete(), passing each piece of the reply to onToken as it arrives
+  stream?(request: LLMRequest, signal: AbortSignal, onToken: (text: string) => void): Promise<LLMCompletion>
+}
+
+export type LLMErrorType = 'config' | 'auth' | 'rate_limit' | 'timeout' | 'connection' | 'server' | 'invalid_response' | 'cancelled' | 'unknown'
+
+const RETRYABLE: LLMErrorType[] = ['rate_limit', 'timeout', 'connection', 'server']
+
+/**
+ * A failed model call, classified so callers can report it without parsing messages
+ */
+export class LLMError extends Error {
+  constructor(
+    message: string,
+    public readonly type: LLMErrorType,
+    public readonly status?: number
+  ) {
+    super(message)
+    this.name = 'LLMError'
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE.includes(this.type)
+  }
+}
+
+const PROVIDERS: Record<string, () => LLMProvider> = {
+  openai: openAICompatibleProvider,
+  openrouter: openRouterProvider,
+  mock: getMockProvider,
+}
+
+// OpenRouter when the base URL is OpenRouter's, otherwise OpenAI-compatible (LM Studio by default)
+function defaultProviderName(): string {
+  return process.env.OPENAI_BASE_URL?.includes('openrouter.ai') ? 'openrouter' : 'openai'
+}
+
+/**
+ * The configured provider. Read on every call, so tests can switch LLM_PROVIDER.
+ */
+export function getLLMProvider(): LLMProvider {
+  const name = process.env.LLM_PROVIDER || defaultProviderName()
+  const createProvider = PROVIDERS[name]
+  if (!createProvider) {
+    throw new Error(`Unknown LLM_PROVIDER "${name}". Expected one of: ${Object.keys(PROVIDERS).join(', ')}`)
+  }
+  return createProvider()
+}
+
+/**
+ * Turn whatever a provider threw into an LLMError
+ */
+export function classifyLLMError(error: unknown): LLMError {
+  if (error instanceof LLMError) return error
+
+  const err = error as { status?: number; code?: string; name?: string; message?: string }
+  const message = err?.message || 'Failed to generate response'
+
+  if (err?.name === 'AbortError' || err?.name === 'APIConnectionTimeoutError' || /timed? ?out/i.test(message)) {
+    return new LLMError('The language model did not respond in time. Please try again.', 'timeout')
+  }
+  if (err?.status === 401) {
+    return new LLMError('Invalid API key. Please check your OPENAI_API_KEY environment variable.', 'auth', 401)
+  }
+  if (err?.status === 403) {
+    return new LLMError('API access forbidden. Please check your OPENAI_API_KEY and ensure it has the correct permissions.', 'auth', 403)
+  }
+  if (err?.status === 429) {
+    const waitTime = message.match(/try again in ([\dhm.]+)/i)?.[1] || 'a few minutes'
+    const perMinute = message.includes('TPM') || message.includes('tokens per min')
+    return new LLMError(
+      perMinute
+        ? `Rate limit exceeded (tokens per minute). Please try again in ${waitTime} or add a payment method to increase your limits.`
+        : `Rate limit exceeded. Please try again in ${waitTime} or upgrade your API plan.`,
+      'rate_limit',
+      429
+    )
+  }
+  if (err?.status !== undefined && err.status >= 500) {
+    return new LLMError('LLM service error. Please try again or check your API configuration.', 'server', err.status)
+  }
+  if (err?.code === 'ECONNREFUSED' || err?.name === 'APIConnectionError' || message.includes('ECONNREFUSED')) {
+    return new LLMError('Cannot connect to LLM service. Please check that the model server is running and OPENAI_BASE_URL is correct.', 'connection')
+  }
+  return new LLMError(`LLM API error: ${message}`, 'unknown', err?.status)
+}
+
+// Resolves early when the signal aborts
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', done)
+      resolve()
+    }
+    const timer = setTimeout(done, ms)
+    signal?.addEventListener('abort', done)
+  })
+}
+
+function cancelled(): LLMError {
+  return new LLMError('The request was cancelled.', 'cancelled')
+}
+
+/**
+ * Send a chat to the configured provider
+ *
+ * Each attempt is cut off after LLM_TIMEOUT_MS; rate limits, timeouts, connection and server
+ * errors are retried up to LLM_MAX_RETRIES times with exponential backoff, unless part of a
+ * streamed reply was already passed to onToken. Empty replies and HTML error pages are rejected as
+ * invalid responses. Always throws an LLMError, including for a missing or invalid configuration
+ * and for a request cancelled through its signal.
+ */
+export async function completeChat(request: LLMRequest, provider?: LLMProvider): Promise<LLMCompletion> {
+  let llm: LLMProvider
+  let settings: LLMSettings
+  try {
+    llm = provider ?? getLLMProvider()
+    settings = readLLMSettings()
+  } catch (error: unknown) {
+    throw new LLMError(error instanceof Error ? error.message : 'Invalid LLM configuration', 'config')
+  }
+  const { timeoutMs, maxRetries } = settings
+  const { onToken, signal } = request
+
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) {
+      throw cancelled()
+    }
+    const controller = new AbortController()
+    const cancel = () => controller.abort()
+    const timer = setTimeout(cancel, timeoutMs)
+    signal?.addEventListener('abort', cancel)
+    let streamed = false
+    try {
+      const completion = onToken && llm.stream
+        ? await llm.stream(request, controller.signal, text => {
+            streamed = true
+            onToken(text)
+          })
+        : await llm.complete(request, controller.signal)
+      const content = completion.content.trim()
+      if (!content) {
+        throw new LLMError('Empty response from LLM', 'invalid_response')
+      }
+      if (content.startsWith('<!DOCTYPE') || content.startsWith('<html')) {
+        throw new LLMError('LLM returned HTML instead of JSON. Check that the model server is running and accessible.', 'invalid_response')
+      }
+      if (onToken && !llm.stream) {
+        onToken(completion.content)
+      }
+      return completion
+    } catch (error: unknown) {
+      if (signal?.aborted) {
+        throw cancelled()
+      }
+      const llmError = classifyLLMError(controller.signal.aborted ? { name: 'AbortError' } : error)
+      if (!llmError.retryable || streamed || attempt >= maxRetries) {
+        throw llmError
+      }
+      await sleep(500 * 2 ** attempt, signal)
+    } finally {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', cancel)
+    }
+  }
+}
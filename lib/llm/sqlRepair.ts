@@ -0,0 +1,92 @@
+/**
+ * Self-correction of generated SQL
+ *
+ * When SQL for uploaded files fails schema validation or execution, the query route sends the
+ * error, the failing SQL and the schema of the tables it uses back to the model and tries the SQL
+ * it gets back, up to QUERY_REPAIR_ATTEMPTS tries in all (default 3, counting the first answer).
+ */
+
+import type { FileMetadata } from '@/lib/data/fileRegistry'
+import type { QueryAttempt } from '@/types'
+import { repairJson } from './jsonRepair'
+import { completeChat } from './provider'
+
+export interface SqlRepairRequest {
+  question: string
+  sql: string
+  outcome: Exclude<QueryAttempt['outcome'], 'success'>
+  error: string
+  files: FileMetadata[]
+  signal?: AbortSignal
+}
+
+export interface SqlRepair {
+  sql: string
+  reasoning?: string
+  chart?: Record<string, any>
+  tokensUsed?: number
+}
+
+export function getMaxQueryAttempts(): number {
+  const value = Number(process.env.QUERY_REPAIR_ATTEMPTS)
+  return Number.isInteger(value) && value > 0 ? value : 3
+}
+
+/**
+ * The files whose tables the SQL names (all of them when it names none)
+ */
+export function schemaSlice(sql: string, files: FileMetadata[]): FileMetadata[] {
+  const used = files.filter(file => new RegExp(`\\b${file.tableName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i').test(sql))
+  return used.length > 0 ? used : files
+}
+
+function buildRepairPrompt({ question, sql, outcome, error, files }: SqlRepairRequest): string {
+  const schema = schemaSlice(sql, files).map(file =>
+    `- ${file.tableName}(${file.columns.map(column => `"${column.name}" ${column.type}`).join(', ')})`
+  )
+  return `The SQL written for this question failed ${outcome === 'validation' ? 'schema validation' : 'execution'}.
+
+QUESTION: ${question}
+
+FAILING SQL:
+${sql}
+
+ERROR: ${error}
+
+SCHEMA OF THE TABLES INVOLVED:
+${schema.join('\n')}
+
+Fix the SQL so it answers the question, using only these tables and columns (quote column names).
+Return JSON: {"sql": "<corrected SQL>", "reasoning": "<what was wrong and how it was fixed>", "chart": {"type": "...", "xField": "...", "yField": "..."}}`
+}
+
+/**
+ * Ask the model to fix SQL that failed. Model errors are thrown as LLMErrors; an answer without
+ * SQL as an Error.
+ */
+export async function repairSql(request: SqlRepairRequest): Promise<SqlRepair> {
+  const completion = await completeChat({
+    messages: [
+      {
+        role: 'system',
+        content: 'You are a SQL expert fixing a query that failed. Always respond with valid JSON only, no markdown, no code blocks.',
+      },
+      { role: 'user', content: buildRepairPrompt(request) },
+    ],
+    json: true,
+    signal: request.signal,
+  })
+
+  const repaired = repairJson(completion.content)
+  const parsed = repaired ? JSON.parse(repaired) : null
+  const sql = parsed?.sql || parsed?.preview_sql
+  if (typeof sql !== 'string' || !sql.trim() || sql === 'not_available') {
+    throw new Error('Invalid JSON response from LLM: the repaired answer has no SQL')
+  }
+  return {
+    sql,
+    reasoning: typeof parsed.reasoning === 'string' ? parsed.reasoning : undefined,
+    chart: parsed.chart && typeof parsed.chart === 'object' ? parsed.chart : undefined,
+    tokensUsed: completion.tokensUsed,
+  }
+}
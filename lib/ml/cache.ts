@@ -1,10 +1,11 @@
-import type { ChartSpec } from '@/types'
+import type { ChartSpec, QueryResponse } from '@/types'
 
 interface CacheEntry {
   sql: string
   reasoning: string
   chartSpec: ChartSpec
   metricName?: string
+  followUp?: QueryResponse['followUp']
   timestamp: Date
 }
 
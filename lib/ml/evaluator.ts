@@ -1,7 +1,52 @@
 import type { QueryEvaluation } from '@/types'
+import { DEFAULT_RETENTION_POLICY, getRetentionPolicy, type RetentionPolicy } from '@/lib/data/retentionPolicy'
 
+// Evaluations kept, oldest first; the log file holds the same entries
 const evaluations: QueryEvaluation[] = []
-const MAX_MEMORY_EVALUATIONS = 1000
+
+export interface EvaluationRetention {
+  maxEntries: number
+  // Entries logged before this are dropped
+  before: Date | null
+}
+
+// Entries past maxEntries before logging prunes, so it doesn't prune on every call
+const PRUNE_SLACK = 100
+
+// Logging also prunes this often, for ttlDays
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000
+
+let evaluationLimits: RetentionPolicy['evaluations'] | null = null
+let lastPruned = 0
+
+// The retention policy's limits, read once: the cleanup (lib/data/retention) reads the policy
+// afresh on every run. A broken policy is reported by the cleanup, so logging keeps going with
+// the defaults.
+function getEvaluationRetention(now: Date = new Date()): EvaluationRetention {
+  if (!evaluationLimits) {
+    evaluationLimits = DEFAULT_RETENTION_POLICY.evaluations
+    try {
+      evaluationLimits = getRetentionPolicy().evaluations
+    } catch {
+      // Defaults
+    }
+  }
+  const { maxEntries, ttlDays } = evaluationLimits
+  return { maxEntries, before: ttlDays === null ? null : new Date(now.getTime() - ttlDays * 24 * 60 * 60 * 1000) }
+}
+
+/**
+ * How many evaluations the limits drop (the oldest ones); removes them unless `dryRun`
+ */
+export function pruneEvaluations(retention: EvaluationRetention = getEvaluationRetention(), dryRun = false): number {
+  const { before } = retention
+  const expired = before ? evaluations.filter(e => e.timestamp < before).length : 0
+  const count = Math.max(expired, evaluations.length - retention.maxEntries)
+  if (!dryRun && count > 0) {
+    evaluations.splice(0, count)
+  }
+  return count
+}
 
 // File-based logging (server-side only)
 let LOG_FILE_PATH: string | null = null
@@ -47,10 +92,7 @@ async function loadEvaluationsFromFile(): Promise<void> {
         ...e,
         timestamp: new Date(e.timestamp),
       })))
-      // Keep only recent evaluations in memory
-      if (evaluations.length > MAX_MEMORY_EVALUATIONS) {
-        evaluations.splice(0, evaluations.length - MAX_MEMORY_EVALUATIONS)
-      }
+      pruneEvaluations()
     }
   } catch (error) {
     // File doesn't exist or is invalid, start fresh
@@ -64,9 +106,7 @@ async function saveEvaluationsToFile(): Promise<void> {
   
   try {
     await ensureLogsDirectory()
-    // Save last 10000 evaluations to file
-    const toSave = evaluations.slice(-10000)
-    await fs.writeFile(LOG_FILE_PATH, JSON.stringify(toSave, null, 2), 'utf-8')
+    await fs.writeFile(LOG_FILE_PATH, JSON.stringify(evaluations, null, 2), 'utf-8')
   } catch (error) {
     // Failed to save evaluations to file, continue anyway
   }
@@ -90,12 +130,19 @@ export function logEvaluation(evaluation: Omit<QueryEvaluation, 'timestamp'>): v
 
   evaluations.push(evalWithTimestamp)
 
-  // Keep only last MAX_MEMORY_EVALUATIONS in memory
-  if (evaluations.length > MAX_MEMORY_EVALUATIONS) {
-    evaluations.shift()
+  const retention = getEvaluationRetention(evalWithTimestamp.timestamp)
+  const now = evalWithTimestamp.timestamp.getTime()
+  if (evaluations.length > retention.maxEntries + PRUNE_SLACK || now - lastPruned >= PRUNE_INTERVAL_MS) {
+    pruneEvaluations(retention)
+    lastPruned = now
   }
+  saveEvaluations()
+}
 
-  // Save to file asynchronously (don't block)
+/**
+ * Save to file asynchronously (don't block)
+ */
+export function saveEvaluations(): void {
   if (typeof window === 'undefined') {
     saveEvaluationsToFile().catch((error: unknown) => {
       const message = error instanceof Error ? error.message : 'Unknown error'
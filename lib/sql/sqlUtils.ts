@@ -18,9 +18,9 @@ export function sanitizeSql(sql: string): string {
     return sql
   }
 
-  // Only process SELECT queries - don't add LIMIT to CREATE, INSERT, UPDATE, DELETE, etc.
+  // Only process SELECT queries (including WITH ... SELECT) - don't add LIMIT to CREATE, INSERT, UPDATE, DELETE, etc.
   const upperSql = sql.toUpperCase().trim()
-  if (!upperSql.startsWith('SELECT')) {
+  if (!upperSql.startsWith('SELECT') && !/^WITH\b/.test(upperSql)) {
     return sql.trim()
   }
 
@@ -0,0 +1,136 @@
+/**
+ * Client side of the streamed query (POST /api/query with Accept: text/event-stream)
+ *
+ * readQueryStream() reads the Server-Sent Events; applyQueryEvent() folds them into the progress
+ * shown while the query runs, including the reasoning and SQL read from the model's partial reply.
+ */
+
+import type { QueryResponse, QueryStreamEvent } from '@/types'
+
+type QueryResult = Extract<QueryStreamEvent, { type: 'result' }>
+
+export interface QueryProgress {
+  files: string[]
+  // Earlier chat turns in the prompt; null until the prompt is built
+  turns: number | null
+  // The model's reply so far (JSON, usually incomplete)
+  reply: string
+  reasoning: string
+  sql: string
+  attempt: number
+  sqlValid: boolean | null
+  sqlError: string | null
+  rowCount: number | null
+  executionError: string | null
+  chartType: QueryResponse['chartSpec']['type']
+}
+
+export const EMPTY_PROGRESS: QueryProgress = {
+  files: [],
+  turns: null,
+  reply: '',
+  reasoning: '',
+  sql: '',
+  attempt: 0,
+  sqlValid: null,
+  sqlError: null,
+  rowCount: null,
+  executionError: null,
+  chartType: null,
+}
+
+/**
+ * The value of a string field in incomplete JSON, as far as it has been written
+ */
+export function partialJsonString(json: string, field: string): string | null {
+  const match = json.match(new RegExp(`"${field}"\\s*:\\s*"((?:[^"\\\\]|\\\\.)*)`))
+  if (!match) return null
+  try {
+    // An escape cut off by the end of the reply (a lone backslash, half a \uXXXX) is left out
+    return JSON.parse(`"${match[1].replace(/\\u[0-9a-fA-F]{0,3}$/, '')}"`)
+  } catch {
+    return match[1]
+  }
+}
+
+export function applyQueryEvent(progress: QueryProgress | null, event: QueryStreamEvent): QueryProgress {
+  const current = progress ?? EMPTY_PROGRESS
+  switch (event.type) {
+    case 'files':
+      return { ...current, files: event.files.map(file => file.fileName) }
+    case 'prompt':
+      return { ...current, turns: event.turns }
+    case 'token': {
+      const reply = current.reply + event.text
+      return {
+        ...current,
+        reply,
+        reasoning: partialJsonString(reply, 'reasoning') ?? current.reasoning,
+        sql: partialJsonString(reply, 'sql') ?? current.sql,
+      }
+    }
+    case 'sql':
+      return {
+        ...current,
+        attempt: event.attempt,
+        sql: event.sql,
+        reasoning: event.reasoning,
+        sqlValid: event.valid,
+        sqlError: event.error,
+        rowCount: null,
+        executionError: null,
+      }
+    case 'executed':
+      return { ...current, rowCount: event.rowCount, executionError: event.error }
+    case 'chart':
+      return { ...current, chartType: event.chartSpec.type }
+    case 'result':
+      return current
+  }
+}
+
+/**
+ * Pass each event of the stream to onEvent and return the final result. Rejects when the stream
+ * ends without one, or with an AbortError when the request is cancelled.
+ */
+export async function readQueryStream(
+  response: Response,
+  onEvent: (event: QueryStreamEvent) => void
+): Promise<QueryResult> {
+  if (!response.body) {
+    throw new Error('The query stream has no body')
+  }
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let result: QueryResult | null = null
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    buffer += decoder.decode(value, { stream: !done })
+
+    // Events are separated by a blank line; their JSON is on the data: lines
+    const blocks = buffer.split(/\r?\n\r?\n/)
+    buffer = done ? '' : blocks.pop() ?? ''
+    for (const block of blocks) {
+      const data = block
+        .split(/\r?\n/)
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trimStart())
+        .join('\n')
+      if (!data) continue
+      const event: QueryStreamEvent = JSON.parse(data)
+      onEvent(event)
+      if (event.type === 'result') {
+        result = event
+      }
+    }
+
+    if (done) break
+  }
+
+  if (!result) {
+    throw new Error('The query stream ended without a result')
+  }
+  return result
+}
@@ -1,6 +1,8 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  // sql.js loads its WebAssembly binary from node_modules at run time
+  serverExternalPackages: ['sql.js'],
   // Ensure proper static file handling
   experimental: {
     optimizePackageImports: ['lucide-react', '@radix-ui/react-dialog'],
@@ -9,6 +9,17 @@ export const QueryRequestSchema = z.object({
 
 export type QueryRequest = z.infer<typeof QueryRequestSchema>
 
+// One try at the SQL: the model's first answer, then each repair of a failure (lib/llm/sqlRepair).
+// A 'repair' outcome is a repair the model failed to give, so its sql is empty.
+export const QueryAttemptSchema = z.object({
+  attempt: z.number(),
+  sql: z.string(),
+  outcome: z.enum(['success', 'validation', 'execution', 'repair']),
+  error: z.string().nullable(),
+})
+
+export type QueryAttempt = z.infer<typeof QueryAttemptSchema>
+
 export const QueryResponseSchema = z.object({
   data: z.array(z.record(z.any())),
   columns: z.array(z.object({
@@ -38,6 +49,12 @@ export const QueryResponseSchema = z.object({
     queryComplexity: z.number().optional(),
     sqlLength: z.number().optional(),
   }).optional(),
+  attempts: z.array(QueryAttemptSchema).optional(),
+  // The earlier turn of the chat this answer builds on (numbered from 1), for follow-up questions
+  followUp: z.object({
+    turn: z.number(),
+    query: z.string(),
+  }).nullable().optional(),
   error: z.object({
     message: z.string(),
     type: z.enum(['validation', 'execution', 'llm', 'unknown', 'no_files', 'out_of_scope']),
@@ -46,3 +63,15 @@ export const QueryResponseSchema = z.object({
 
 export type QueryResponse = z.infer<typeof QueryResponseSchema>
 
+// Progress of a streamed query (POST /api/query with Accept: text/event-stream), one Server-Sent
+// Event per stage; attempts after the first are repairs (lib/llm/sqlRepair). The stream ends with
+// `result`, carrying the response and status the plain request would have returned.
+export type QueryStreamEvent =
+  | { type: 'files'; files: Array<{ id: string; fileName: string; tableName: string }> }
+  | { type: 'prompt'; turns: number }
+  | { type: 'token'; text: string }
+  | { type: 'sql'; attempt: number; sql: string; reasoning: string; valid: boolean; error: string | null }
+  | { type: 'executed'; attempt: number; rowCount: number; error: string | null }
+  | { type: 'chart'; chartSpec: QueryResponse['chartSpec'] }
+  | { type: 'result'; status: number; response: QueryResponse }
+
@@ -46,5 +46,7 @@ export interface ChatInfo {
   updatedAt: Date
   messageCount: number
   fileCount?: number
+  // Kept until unpinned, whatever the retention policy
+  pinned?: boolean
 }
 